@@ -32,6 +32,8 @@ app.use(
       'https://org.crescentchange.com',
       'https://admin.crescentchange.com',
     ],
+    // Set when a response is replayed for a repeated Idempotency-Key
+    exposedHeaders: ['Idempotent-Replayed'],
   })
 );
 
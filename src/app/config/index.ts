@@ -94,6 +94,9 @@ interface IConfig {
     baseUrl: string;
     clientRedirectUrl: string;
   };
+  bankProvider: {
+    mockEnabled: boolean;
+  };
 }
 
 const config: IConfig = {
@@ -183,6 +186,10 @@ const config: IConfig = {
       process.env.BASIQ_CLIENT_REDIRECT_URL ||
       `${process.env.CLIENT_URL || 'http://localhost:3000'}/bank-connection/success`,
   },
+  bankProvider: {
+    // Offline mock bank; off unless explicitly switched on
+    mockEnabled: process.env.BANK_PROVIDER_MOCK_ENABLED === 'true',
+  },
   encryptionKey: process.env.ENCRYPTION_KEY || '',
   awsConfig: {
     region: process.env.AWS_REGION || 'us-east-1',
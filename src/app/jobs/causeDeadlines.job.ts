@@ -0,0 +1,49 @@
+import cron from 'node-cron';
+import { CauseService } from '../modules/Causes/causes.service';
+import { cronJobTracker } from './cronJobTracker';
+
+const JOB_NAME = 'cause-deadlines';
+
+export const startCauseDeadlinesCron = () => {
+  // Run at the start of every hour
+  const schedule = '0 * * * *';
+
+  cronJobTracker.registerJob(JOB_NAME, schedule);
+  cronJobTracker.setJobStatus(JOB_NAME, true);
+
+  const job = cron.schedule(
+    schedule,
+    async () => {
+      console.log(
+        `🎯 Starting Cause Deadlines Job: ${new Date().toISOString()}`
+      );
+      cronJobTracker.startExecution(JOB_NAME);
+
+      try {
+        const result = await CauseService.closeExpiredCausesFromDB();
+
+        console.log(
+          `✅ Closed ${result.closedCount} of ${result.totalProcessed} expired causes`
+        );
+
+        cronJobTracker.completeExecution(JOB_NAME, {
+          totalProcessed: result.totalProcessed,
+          successCount: result.closedCount,
+          failureCount: result.errors.length,
+          errors: result.errors,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Unknown error occurred';
+        console.error('❌ Cause deadlines job failed:', message);
+        cronJobTracker.failExecution(JOB_NAME, message);
+      }
+    },
+    {
+      timezone: 'UTC',
+    }
+  );
+
+  job.start();
+  return job;
+};
@@ -2,6 +2,11 @@ import { startPayoutProcessingCron } from './payoutProcessing.job';
 import { startRoundUpProcessingCron } from './roundUpTransactions.job';
 import { startScheduledDonationsCron } from './scheduledDonations.job';
 import { startRewardJobs } from './updateRewardsStatus.job';
+import { startCauseDeadlinesCron } from './causeDeadlines.job';
+import { startZakatRemindersCron } from './zakatReminders.job';
+import { startPledgeRemindersCron } from './pledgeReminders.job';
+import { startTaxStatementsCron } from './taxStatements.job';
+import { startRecurringRetriesCron } from './recurringRetries.job';
 
 /**
  * Initialize all cron jobs
@@ -27,6 +32,21 @@ export const initializeJobs = () => {
     // Start Payout job (every day 9 AM)
     startPayoutProcessingCron();
 
+    // Start cause deadline job (every hour)
+    startCauseDeadlinesCron();
+
+    // Start zakat due-date reminders (every day 8 AM)
+    startZakatRemindersCron();
+
+    // Start pledge due-date reminders (every day 8:30 AM)
+    startPledgeRemindersCron();
+
+    // Start EOFY tax statements (every year, early July)
+    startTaxStatementsCron();
+
+    // Start failed recurring donation retries (every hour)
+    startRecurringRetriesCron();
+
     // REMOVED: Balance clearing job (Stripe handles this now)
 
     console.log('════════════════════════════════════════════════════════');
@@ -42,3 +62,8 @@ export const initializeJobs = () => {
 export * from './scheduledDonations.job';
 export * from './roundUpTransactions.job';
 export * from './updateRewardsStatus.job';
+export * from './causeDeadlines.job';
+export * from './zakatReminders.job';
+export * from './pledgeReminders.job';
+export * from './taxStatements.job';
+export * from './recurringRetries.job';
@@ -0,0 +1,49 @@
+import cron from 'node-cron';
+import { PledgeService } from '../modules/Pledge/pledge.service';
+import { cronJobTracker } from './cronJobTracker';
+
+const JOB_NAME = 'pledge-reminders';
+
+export const startPledgeRemindersCron = () => {
+  // Run every day at 8:30 AM UTC
+  const schedule = '30 8 * * *';
+
+  cronJobTracker.registerJob(JOB_NAME, schedule);
+  cronJobTracker.setJobStatus(JOB_NAME, true);
+
+  const job = cron.schedule(
+    schedule,
+    async () => {
+      console.log(
+        `🤝 Starting Pledge Reminders Job: ${new Date().toISOString()}`
+      );
+      cronJobTracker.startExecution(JOB_NAME);
+
+      try {
+        const result = await PledgeService.sendPledgeReminders();
+
+        console.log(
+          `✅ Sent ${result.sentCount} pledge reminders (${result.totalProcessed} pledges due or overdue)`
+        );
+
+        cronJobTracker.completeExecution(JOB_NAME, {
+          totalProcessed: result.totalProcessed,
+          successCount: result.sentCount,
+          failureCount: result.errors.length,
+          errors: result.errors,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Unknown error occurred';
+        console.error('❌ Pledge reminders job failed:', message);
+        cronJobTracker.failExecution(JOB_NAME, message);
+      }
+    },
+    {
+      timezone: 'UTC',
+    }
+  );
+
+  job.start();
+  return job;
+};
@@ -0,0 +1,62 @@
+import cron from 'node-cron';
+import { ScheduledDonationService } from '../modules/ScheduledDonation/scheduledDonation.service';
+import { cronJobTracker } from './cronJobTracker';
+
+const JOB_NAME = 'recurring-retries';
+
+let isProcessing = false; // Prevent overlapping executions
+
+export const startRecurringRetriesCron = () => {
+  // Run every hour at minute 15
+  const schedule = '15 * * * *';
+
+  cronJobTracker.registerJob(JOB_NAME, schedule);
+  cronJobTracker.setJobStatus(JOB_NAME, true);
+
+  const job = cron.schedule(
+    schedule,
+    async () => {
+      if (isProcessing) {
+        console.log(
+          '⏭️  Skipping recurring retries - previous run still in progress'
+        );
+        return;
+      }
+
+      isProcessing = true;
+      console.log(
+        `🔁 Starting Recurring Retries Job: ${new Date().toISOString()}`
+      );
+      cronJobTracker.startExecution(JOB_NAME);
+
+      try {
+        const result =
+          await ScheduledDonationService.retryDueScheduledDonations();
+
+        console.log(
+          `✅ Retried ${result.totalProcessed} failed recurring donation(s), ${result.successCount} charged`
+        );
+
+        cronJobTracker.completeExecution(JOB_NAME, {
+          totalProcessed: result.totalProcessed,
+          successCount: result.successCount,
+          failureCount: result.errors.length,
+          errors: result.errors,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Unknown error occurred';
+        console.error('❌ Recurring retries job failed:', message);
+        cronJobTracker.failExecution(JOB_NAME, message);
+      } finally {
+        isProcessing = false;
+      }
+    },
+    {
+      timezone: 'UTC',
+    }
+  );
+
+  job.start();
+  return job;
+};
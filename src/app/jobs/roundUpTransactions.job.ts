@@ -6,11 +6,14 @@ import {
 } from '../modules/RoundUp/roundUp.model';
 import { roundUpService } from '../modules/RoundUp/roundUp.service';
 import { roundUpTransactionService } from '../modules/RoundUpTransaction/roundUpTransaction.service';
+import { bankProviderService } from '../modules/BankConnection/bankProvider.service';
 import { cronJobTracker } from './cronJobTracker';
 import { StripeService } from '../modules/Stripe/stripe.service';
 import { RoundUpTransactionModel } from '../modules/RoundUpTransaction/roundUpTransaction.model';
 import Donation from '../modules/Donation/donation.model';
-import { calculateAustralianFees } from '../modules/Donation/donation.constant'; // ✅ Fixed Import
+import { DEFAULT_CURRENCY } from '../modules/Donation/donation.constant';
+import { FxRateService } from '../modules/FxRate/fxRate.service';
+import { FeeScheduleService } from '../modules/FeeSchedule/feeSchedule.service';
 import { IAuth } from '../modules/Auth/auth.interface';
 import Client from '../modules/Client/client.model';
 import { OrganizationModel } from '../modules/Organization/organization.model';
@@ -63,14 +66,19 @@ const processEndOfMonthDonations = async () => {
       continue;
     }
 
-    const session = await mongoose.startSession();
+    // Only the single-charity path below writes inside a transaction
+    let session: mongoose.ClientSession | undefined;
 
     try {
       const totalAmount = config.currentMonthTotal;
       const coverFees = config.coverFees || false;
 
       //  Calculate Fees (Australian Logic)
-      const financials = calculateAustralianFees(totalAmount, coverFees);
+      const financials = await FeeScheduleService.calculateFees(
+        totalAmount,
+        coverFees,
+        { organizationId: config.organization, causeId: config.cause }
+      );
       const applicationFee = financials.platformFeeWithStripe;
 
       const now = new Date();
@@ -88,7 +96,7 @@ const processEndOfMonthDonations = async () => {
       // We need this for the Destination Charge
       const organizationDoc = await OrganizationModel.findById(
         config.organization
-      ).session(session);
+      );
 
       if (!organizationDoc) {
         throw new Error(`Organization ${config.organization} not found!`);
@@ -123,23 +131,58 @@ const processEndOfMonthDonations = async () => {
         continue;
       }
 
+      // Split across several charities: one charge, one donation per line
+      if (config.allocations?.length) {
+        await roundUpTransactionService.createSplitRoundUpDonation({
+          roundUpId: String(config._id),
+          userId,
+          allocations: config.allocations,
+          coverFees,
+          paymentMethodId: config.paymentMethod as string,
+          transactions: monthTransactions,
+          specialMessage:
+            config.specialMessage ||
+            `Automatic monthly round-up for ${monthStr}/${year}`,
+          month: `${year}-${monthStr}`,
+          year,
+        });
+
+        config.status = 'processing';
+        config.lastDonationAttempt = new Date();
+        config.currentMonthTotal = 0; // Reset balance for the new month
+        config.lastMonthReset = new Date();
+        await config.save();
+
+        console.log(
+          `   ✅ Split month-end donation initiated for RoundUp ${config._id}`
+        );
+        successCount++;
+        continue;
+      }
+
       // Find Client by auth ID
-      const donor = await Client.findOne({ auth: userId }).session(session);
+      const donor = await Client.findOne({ auth: userId });
       if (!donor?._id) {
         console.error(
           `   ❌ Donor not found for user ${userId} in RoundUp ${config._id}`
         );
-        await session.abortTransaction();
         failureCount++;
         continue;
       }
 
+      // Charged in the bank's currency, reported in the org's
+      const currencySnapshot = await FxRateService.buildCurrencySnapshot(
+        monthTransactions[0].currency || DEFAULT_CURRENCY,
+        organizationDoc.settlementCurrency || DEFAULT_CURRENCY
+      );
+
       // STEP 1: Create Donation record
       const donation = await Donation.create({
         donor: donor._id,
         organization: config.organization,
         cause: config.cause,
         donationType: 'round-up',
+        isAnonymous: donor.donateAnonymously ?? false,
 
         //  Store Financial Breakdown
         amount: financials.baseAmount,
@@ -149,8 +192,9 @@ const processEndOfMonthDonations = async () => {
         stripeFee: financials.stripeFee,
         netAmount: financials.netToOrg,
         totalAmount: financials.totalCharge,
+        feeSchedule: financials.feeSchedule,
 
-        currency: 'USD', // Australian Context
+        ...currencySnapshot,
         status: 'pending',
         donationDate: new Date(),
         specialMessage:
@@ -182,6 +226,7 @@ const processEndOfMonthDonations = async () => {
 
         amount: financials.baseAmount,
         totalAmount: financials.totalCharge,
+        currency: currencySnapshot.currency,
 
         // Destination Charge
         applicationFee: applicationFee,
@@ -200,23 +245,32 @@ const processEndOfMonthDonations = async () => {
         paymentMethodId: config.paymentMethod as string,
       });
 
+      // STEPS 3-5 link the charge to the donation, config and transactions
+      // together, or not at all
+      session = await mongoose.startSession();
+      session.startTransaction();
+
       // STEP 3: Update Donation to PROCESSING
       const donationDoc = donation.toObject();
-      await Donation.findByIdAndUpdate(donation._id, {
-        status: 'processing',
-        stripePaymentIntentId: paymentResult.payment_intent_id,
-        metadata: {
-          ...(donationDoc.metadata || {}),
-          paymentInitiatedAt: new Date(),
+      await Donation.findByIdAndUpdate(
+        donation._id,
+        {
+          status: 'processing',
+          stripePaymentIntentId: paymentResult.payment_intent_id,
+          metadata: {
+            ...(donationDoc.metadata || {}),
+            paymentInitiatedAt: new Date(),
+          },
         },
-      });
+        { session }
+      );
 
       // STEP 4: Update RoundUp config
       config.status = 'processing';
       config.lastDonationAttempt = new Date();
       config.currentMonthTotal = 0; // Reset balance for the new month
       config.lastMonthReset = new Date();
-      await config.save();
+      await config.save({ session });
 
       // STEP 5: Update transactions
       await RoundUpTransactionModel.updateMany(
@@ -228,15 +282,19 @@ const processEndOfMonthDonations = async () => {
           stripePaymentIntentId: paymentResult.payment_intent_id,
           donation: donation._id,
           donationAttemptedAt: new Date(),
-        }
+        },
+        { session }
       );
 
+      await session.commitTransaction();
+
       console.log(
         `   ✅ Month-end donation initiated for RoundUp ${config._id}`
       );
       successCount++;
     } catch (error) {
-      await session.abortTransaction();
+      if (session?.inTransaction()) await session.abortTransaction();
+      config.$session(null); // Record the failure outside the aborted session
       failureCount++;
       console.error(
         `❌ Error processing month-end donation for RoundUp ${config._id}:`,
@@ -244,7 +302,7 @@ const processEndOfMonthDonations = async () => {
       );
       await config.markAsFailed('Month-end donation trigger failed');
     } finally {
-      await session.endSession();
+      await session?.endSession();
     }
   }
 
@@ -399,7 +457,7 @@ export const startRoundUpProcessingCron = () => {
 //             {}
 //           );
 
-//           const newTransactions = syncResult.data?.plaidSync?.added || [];
+//           const newTransactions = syncResult.data?.sync?.added || [];
 //           console.log(`📥 Transactions Synced: ${newTransactions.length}`);
 
 //           if (newTransactions.length === 0) {
@@ -545,12 +603,14 @@ export const manualTriggerRoundUpProcessing = async (): Promise<{
           {}
         );
 
-        const newTransactions = syncResult.data?.plaidSync?.added || [];
+        const syncData = syncResult.data?.sync;
+        const newTransactions = syncData?.added || [];
 
         console.log(`📥 Synced Transactions: ${newTransactions.length}`);
 
         if (newTransactions.length === 0) {
           console.log('ℹ️ No new transactions.');
+          await bankProviderService.completeSync(bankConnectionId, syncData);
           successCount++;
           continue;
         }
@@ -561,6 +621,7 @@ export const manualTriggerRoundUpProcessing = async (): Promise<{
           String(bankConnectionId),
           newTransactions
         );
+        await bankProviderService.completeSync(bankConnectionId, syncData);
 
         console.log('✔️ Processing completed.');
         successCount++;
@@ -0,0 +1,50 @@
+import cron from 'node-cron';
+import { TaxStatementService } from '../modules/TaxStatement/taxStatement.service';
+import { cronJobTracker } from './cronJobTracker';
+
+const JOB_NAME = 'tax-statements';
+
+export const startTaxStatementsCron = () => {
+  // Run on 1 July at 9 PM UTC (7 AM on 2 July in Sydney), after the
+  // Australian financial year has closed
+  const schedule = '0 21 1 7 *';
+
+  cronJobTracker.registerJob(JOB_NAME, schedule);
+  cronJobTracker.setJobStatus(JOB_NAME, true);
+
+  const job = cron.schedule(
+    schedule,
+    async () => {
+      console.log(
+        `🧾 Starting EOFY Tax Statements Job: ${new Date().toISOString()}`
+      );
+      cronJobTracker.startExecution(JOB_NAME);
+
+      try {
+        const result = await TaxStatementService.sendAnnualStatements();
+
+        console.log(
+          `✅ Sent ${result.sentCount} FY${result.financialYear} tax statements (${result.totalProcessed} donors, ${result.skippedCount} skipped)`
+        );
+
+        cronJobTracker.completeExecution(JOB_NAME, {
+          totalProcessed: result.totalProcessed,
+          successCount: result.sentCount,
+          failureCount: result.errors.length,
+          errors: result.errors,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Unknown error occurred';
+        console.error('❌ Tax statements job failed:', message);
+        cronJobTracker.failExecution(JOB_NAME, message);
+      }
+    },
+    {
+      timezone: 'UTC',
+    }
+  );
+
+  job.start();
+  return job;
+};
@@ -0,0 +1,49 @@
+import cron from 'node-cron';
+import { ZakatService } from '../modules/Zakat/zakat.service';
+import { cronJobTracker } from './cronJobTracker';
+
+const JOB_NAME = 'zakat-reminders';
+
+export const startZakatRemindersCron = () => {
+  // Run every day at 8 AM UTC
+  const schedule = '0 8 * * *';
+
+  cronJobTracker.registerJob(JOB_NAME, schedule);
+  cronJobTracker.setJobStatus(JOB_NAME, true);
+
+  const job = cron.schedule(
+    schedule,
+    async () => {
+      console.log(
+        `🌙 Starting Zakat Reminders Job: ${new Date().toISOString()}`
+      );
+      cronJobTracker.startExecution(JOB_NAME);
+
+      try {
+        const result = await ZakatService.sendDueDateReminders();
+
+        console.log(
+          `✅ Sent ${result.sentCount} zakat reminders (${result.totalProcessed} calculations due soon)`
+        );
+
+        cronJobTracker.completeExecution(JOB_NAME, {
+          totalProcessed: result.totalProcessed,
+          successCount: result.sentCount,
+          failureCount: result.errors.length,
+          errors: result.errors,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Unknown error occurred';
+        console.error('❌ Zakat reminders job failed:', message);
+        cronJobTracker.failExecution(JOB_NAME, message);
+      }
+    },
+    {
+      timezone: 'UTC',
+    }
+  );
+
+  job.start();
+  return job;
+};
@@ -240,13 +240,14 @@ export const isValidFilter = (filter: string): filter is TTimeFilter => {
 };
 
 /**
- * Build base query for donation aggregation
+ * Build base query for donation aggregation. Sponsor-funded matched gifts
+ * are left out so they are not counted as the donor's own giving.
  */
 export const buildBaseQuery = (
   organizationId?: string,
   donationType?: string
 ): Record<string, any> => {
-  const query: any = { status: 'completed' };
+  const query: any = { status: 'completed', isMatchingGift: { $ne: true } };
   if (organizationId) {
     query.organization = new Types.ObjectId(organizationId);
   }
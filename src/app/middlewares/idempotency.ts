@@ -0,0 +1,121 @@
+/* eslint-disable no-console */
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import { AppError, asyncHandler } from '../utils';
+import { IdempotencyRecord } from '../modules/Idempotency/idempotency.model';
+import {
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENCY_KEY_MAX_LENGTH,
+  IDEMPOTENCY_STATUS,
+  IDEMPOTENCY_TTL_HOURS,
+} from '../modules/Idempotency/idempotency.constant';
+
+// Key order must not change the fingerprint
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Replay protection for money-moving routes, driven by the
+ * `Idempotency-Key` header. Mount after `auth` so keys are scoped to the
+ * caller; requests without the header pass straight through.
+ *
+ * - first request: runs, and a 2xx response is stored for replays
+ * - same key and body: the stored response is sent back
+ * - same key, different body, or still running: 409
+ */
+export const idempotency = () => {
+  return asyncHandler(async (req, res, next) => {
+    const key = req.get(IDEMPOTENCY_HEADER)?.trim();
+    if (!key) return next();
+
+    if (key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Idempotency-Key cannot exceed ${IDEMPOTENCY_KEY_MAX_LENGTH} characters!`
+      );
+    }
+
+    const user = req.user?._id ?? null;
+    const path = `${req.baseUrl}${req.path}`;
+    const requestHash = crypto
+      .createHash('sha256')
+      .update(
+        stableStringify({ method: req.method, path, body: req.body ?? null })
+      )
+      .digest('hex');
+
+    let recordId;
+    try {
+      const record = await IdempotencyRecord.create({
+        key,
+        user,
+        method: req.method,
+        path,
+        requestHash,
+        expiresAt: new Date(Date.now() + IDEMPOTENCY_TTL_HOURS * 3600 * 1000),
+      });
+      recordId = record._id;
+    } catch (error) {
+      // Duplicate key: the key was seen before
+      if ((error as { code?: number }).code !== 11000) throw error;
+
+      const existing = await IdempotencyRecord.findOne({ user, key }).lean();
+      if (!existing || existing.requestHash !== requestHash) {
+        throw new AppError(
+          httpStatus.CONFLICT,
+          'This Idempotency-Key was already used for a different request!'
+        );
+      }
+      if (existing.status !== IDEMPOTENCY_STATUS.COMPLETED) {
+        throw new AppError(
+          httpStatus.CONFLICT,
+          'A request with this Idempotency-Key is still being processed!'
+        );
+      }
+
+      res.set('Idempotent-Replayed', 'true');
+      res.status(existing.responseStatus || httpStatus.OK);
+      res.json(existing.responseBody);
+      return;
+    }
+
+    // Keep successful responses; errors free the key so the client can retry
+    const originalJson = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      const isSuccess = res.statusCode >= 200 && res.statusCode < 300;
+      const outcome = isSuccess
+        ? IdempotencyRecord.updateOne(
+            { _id: recordId },
+            {
+              status: IDEMPOTENCY_STATUS.COMPLETED,
+              responseStatus: res.statusCode,
+              // Store exactly what the client received
+              responseBody: JSON.parse(JSON.stringify(body ?? null)),
+            }
+          )
+        : IdempotencyRecord.deleteOne({ _id: recordId });
+
+      outcome.catch((err) =>
+        console.error(`❌ Idempotency record update failed (${key}):`, err)
+      );
+      return originalJson(body);
+    };
+
+    next();
+  });
+};
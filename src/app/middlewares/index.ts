@@ -1,5 +1,6 @@
 import auth from './auth';
+import { idempotency } from './idempotency';
 import { validateRequest } from './validateRequest';
 import { validateWebhookSignature } from './webhookMiddleware';
 
-export { auth, validateRequest, validateWebhookSignature };
+export { auth, idempotency, validateRequest, validateWebhookSignature };
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import Auth from '../Auth/auth.model';
 import Donation from '../Donation/donation.model';
+import { ANONYMOUS_DONOR } from '../Donation/donation.constant';
 import Organization from '../Organization/organization.model';
 import { Connection, Model, PipelineStage, Types } from 'mongoose';
 import Cause from '../Causes/causes.model';
@@ -352,6 +353,7 @@ const getAdminStatesFromDb = async (params?: AdminStatesParams) => {
 
   // top 5 donors (all time) + month-over-month change per donor (by name)
   const topDonors = await Donation.aggregate([
+    { $match: { isMatchingGift: { $ne: true } } },
     { $group: { _id: '$donor', totalAmount: { $sum: '$amount' } } },
     {
       $lookup: {
@@ -379,6 +381,7 @@ const getAdminStatesFromDb = async (params?: AdminStatesParams) => {
     {
       $match: {
         createdAt: { $gte: currentPeriodStart, $lt: currentPeriodEnd },
+        isMatchingGift: { $ne: true },
       },
     },
     { $group: { _id: '$donor', totalAmount: { $sum: '$amount' } } },
@@ -405,6 +408,7 @@ const getAdminStatesFromDb = async (params?: AdminStatesParams) => {
     {
       $match: {
         createdAt: { $gte: previousPeriodStart, $lt: previousPeriodEnd },
+        isMatchingGift: { $ne: true },
       },
     },
     { $group: { _id: '$donor', totalAmount: { $sum: '$amount' } } },
@@ -2361,6 +2365,19 @@ export const getDonorsFromDB = async (query: Record<string, unknown>) => {
         email: '$authDetails.email',
         isActive: '$authDetails.isActive',
         status: '$authDetails.status',
+        isAnonymous: { $eq: ['$donateAnonymously', true] },
+      },
+    },
+    // Donors who give anonymously are listed without identifying details
+    {
+      $set: {
+        name: { $cond: ['$isAnonymous', ANONYMOUS_DONOR.name, '$name'] },
+        image: { $cond: ['$isAnonymous', null, '$image'] },
+        address: { $cond: ['$isAnonymous', null, '$address'] },
+        postalCode: { $cond: ['$isAnonymous', null, '$postalCode'] },
+        state: { $cond: ['$isAnonymous', null, '$state'] },
+        phoneNumber: { $cond: ['$isAnonymous', null, '$phoneNumber'] },
+        email: { $cond: ['$isAnonymous', ANONYMOUS_DONOR.email, '$email'] },
       },
     },
   ];
@@ -7,6 +7,8 @@ export type TTransactionCategory =
   | 'payout_completed'
   | 'payout_failed'
   | 'refund_issued'
+  | 'dispute_withdrawn'
+  | 'dispute_reinstated'
   | 'adjustment';
 
 export interface IBalanceTransaction {
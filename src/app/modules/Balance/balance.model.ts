@@ -24,6 +24,8 @@ const balanceTransactionSchema = new Schema<IBalanceTransactionModel>(
         'payout_completed',
         'payout_failed',
         'refund_issued',
+        'dispute_withdrawn',
+        'dispute_reinstated',
         'adjustment',
       ],
       required: true,
@@ -7,11 +7,19 @@ import { StripeService } from '../Stripe/stripe.service';
 import { startOfMonth, endOfMonth, subMonths } from 'date-fns';
 
 import { StripeAccount } from '../OrganizationAccount/stripe-account.model';
+import Organization from '../Organization/organization.model';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
 
 /**
  * Get Balance Summary from Stripe (Single Source of Truth)
  */
 const getBalanceSummary = async (organizationId: string) => {
+  const organization = await Organization.findById(organizationId).select(
+    'settlementCurrency'
+  );
+  const settlementCurrency =
+    organization?.settlementCurrency || DEFAULT_CURRENCY;
+
   // 1. Find the Stripe Account linked to this org
   const stripeAccount = await StripeAccount.findOne({
     organization: organizationId,
@@ -23,7 +31,8 @@ const getBalanceSummary = async (organizationId: string) => {
     return {
       availableBalance: 0,
       pendingBalance: 0,
-      currency: 'usd',
+      currency: settlementCurrency.toLowerCase(),
+      settlementCurrency,
     };
   }
 
@@ -36,6 +45,7 @@ const getBalanceSummary = async (organizationId: string) => {
     availableBalance: stripeBalance.available,
     pendingBalance: stripeBalance.pending,
     currency: stripeBalance.currency,
+    settlementCurrency,
   };
 };
 
@@ -55,6 +65,9 @@ const logDonationTransaction = async (
     throw new Error('Donation not found during logging');
   }
 
+  // Offline gifts were paid straight to the organization, never paid out
+  if (donation.paymentChannel === 'offline') return;
+
   const transaction: Partial<IBalanceTransaction> = {
     organization: new Types.ObjectId(organizationId),
     type: 'credit',
@@ -76,28 +89,69 @@ const logDonationTransaction = async (
 
 /**
  * Log a Refund (History Only)
+ * Partial refunds debit the matching share of the org's net amount.
  */
 const logRefundTransaction = async (
   organizationId: string,
   donationId: string,
+  refundedAmount?: number,
   session?: ClientSession
 ) => {
   const donation = await Donation.findById(donationId).session(session || null);
   if (!donation) return;
 
+  const isPartial =
+    refundedAmount !== undefined && refundedAmount < donation.amount;
+  const debitAmount = isPartial
+    ? Number(
+        ((donation.netAmount * refundedAmount) / donation.amount).toFixed(2)
+      )
+    : donation.netAmount;
+
   const transaction: Partial<IBalanceTransaction> = {
     organization: new Types.ObjectId(organizationId),
     type: 'debit',
     category: 'refund_issued',
-    amount: donation.netAmount, // The amount taken back
+    amount: debitAmount, // The amount taken back
     donation: new Types.ObjectId(donationId),
-    description: `Refund issued for donation ${donationId}`,
+    description: isPartial
+      ? `Partial refund of $${refundedAmount.toFixed(2)} issued for donation ${donationId}`
+      : `Refund issued for donation ${donationId}`,
     idempotencyKey: `ref_${donationId}_${Date.now()}`,
   };
 
   await BalanceTransaction.create([transaction], { session });
 };
 
+/**
+ * Log Disputed Funds (History Only)
+ * Withdrawn when a dispute opens, reinstated if the dispute is won.
+ */
+const logDisputeTransaction = async (
+  organizationId: string,
+  donationId: string,
+  disputeId: string,
+  amount: number,
+  type: 'debit' | 'credit'
+) => {
+  const transaction: Partial<IBalanceTransaction> = {
+    organization: new Types.ObjectId(organizationId),
+    type,
+    category: type === 'debit' ? 'dispute_withdrawn' : 'dispute_reinstated',
+    amount,
+    donation: new Types.ObjectId(donationId),
+    description:
+      type === 'debit'
+        ? `Funds withdrawn for disputed donation ${donationId}`
+        : `Funds reinstated after dispute won for donation ${donationId}`,
+    metadata: { disputeId },
+    // One entry per direction, even if Stripe resends the event
+    idempotencyKey: `dsp_${disputeId}_${donationId}_${type}`,
+  };
+
+  await BalanceTransaction.create([transaction]);
+};
+
 /**
  * Get Transaction History (Unchanged mostly, just simpler query)
  */
@@ -239,6 +293,7 @@ export const BalanceService = {
   getBalanceSummary,
   logDonationTransaction,
   logRefundTransaction,
+  logDisputeTransaction,
   getTransactionHistory,
   getDashboardAnalytics,
 };
@@ -1,9 +1,8 @@
-import { keyof } from 'zod';
-
 export const BANKCONNECTION_PROVIDER = {
   BASIQ: 'basiq',
-  PLAID: 'pliad',
-};
+  PLAID: 'plaid',
+  MOCK: 'mock', // Offline fixtures for local development and tests
+} as const;
 
 export const bankConnectiionProviderValues = Object.values(
   BANKCONNECTION_PROVIDER
@@ -1,13 +1,13 @@
 import { Request, Response } from 'express';
 import httpStatus from 'http-status';
-import bankConnectionService, {
-  bankConnectionServices,
-} from './bankConnection.service';
+import bankConnectionService from './bankConnection.service';
 import { IPlaidLinkTokenRequest } from './bankConnection.interface';
 import { sendResponse } from '../../utils/ResponseHandler';
 import { catchAsync } from '../../errors';
 import { asyncHandler } from '../../utils';
 import { basiqService } from './basiq.service';
+import { bankProviderService } from './bankProvider.service';
+import { BANKCONNECTION_PROVIDER } from './bankConnection.constant';
 
 // Generate Plaid Link token
 const generateLinkToken = catchAsync(async (req: Request, res: Response) => {
@@ -88,11 +88,9 @@ const syncTransactions = catchAsync(async (req: Request, res: Response) => {
     });
   }
 
-  const syncResponse = await bankConnectionService.syncTransactions(
-    bankConnectionId,
-    req.body.cursor,
-    req.body.count
-  );
+  const syncResponse = await bankProviderService
+    .getBankProvider(bankConnection.provider)
+    .syncTransactions(bankConnection, req.body.cursor);
 
   sendResponse(res, httpStatus.OK, {
     success: true,
@@ -128,11 +126,13 @@ const getTransactions = catchAsync(async (req: Request, res: Response) => {
     });
   }
 
-  const transactions = await bankConnectionService.getTransactions(
-    bankConnectionId,
-    new Date(startDate as string),
-    new Date(endDate as string)
-  );
+  const transactions = await bankProviderService
+    .getBankProvider(bankConnection.provider)
+    .getTransactions(
+      bankConnection,
+      new Date(startDate as string),
+      new Date(endDate as string)
+    );
 
   sendResponse(res, httpStatus.OK, {
     success: true,
@@ -289,28 +289,11 @@ const getStoredTransactions = catchAsync(
 
 const plaidWebhookHandler = asyncHandler(
   async (req: Request, res: Response) => {
-    const { webhook_type, webhook_code, item_id } = req.body;
-
-    console.log(
-      `\n🔔 Plaid Webhook Received: ${webhook_type} - ${webhook_code}`
-    );
-
-    // Handle Transaction Updates
-    if (webhook_type === 'TRANSACTIONS') {
-      switch (webhook_code) {
-        case 'SYNC_UPDATES_AVAILABLE':
-        case 'INITIAL_UPDATE':
-        case 'HISTORICAL_UPDATE':
-          bankConnectionServices
-            .handleTransactionsWebhook(item_id)
-            .then((stats) => console.log(`✅ Webhook Sync Complete:`, stats))
-            .catch((err) => console.error(`❌ Webhook Sync Failed:`, err));
-          break;
-
-        case 'TRANSACTIONS_REMOVED':
-          break;
-      }
-    }
+    // Sync in the background; Plaid only needs the acknowledgement
+    bankProviderService
+      .handleWebhook(BANKCONNECTION_PROVIDER.PLAID, req.body)
+      .then((stats) => console.log(`✅ Webhook Sync Complete:`, stats))
+      .catch((err) => console.error(`❌ Webhook Sync Failed:`, err));
 
     // Always respond 200 to Plaid immediately to prevent retries
     return res.status(httpStatus.OK).json({ received: true });
@@ -350,6 +333,35 @@ const getBasiqAccounts = asyncHandler(async (req, res) => {
   });
 });
 
+// Link a fixture account from the offline mock bank
+const connectMockBankAccount = asyncHandler(async (req, res) => {
+  const connection = await bankProviderService
+    .getBankProvider(BANKCONNECTION_PROVIDER.MOCK)
+    .exchange(req.user._id.toString(), req.body);
+
+  sendResponse(res, httpStatus.CREATED, {
+    success: true,
+    message: 'Mock bank account connected successfully',
+    data: connection,
+  });
+});
+
+// Stands in for a provider webhook on the caller's own mock connections,
+// e.g. { event: 'transactions', item_id }
+const mockWebhookHandler = asyncHandler(async (req, res) => {
+  const result = await bankProviderService.handleWebhook(
+    BANKCONNECTION_PROVIDER.MOCK,
+    req.body,
+    req.user._id.toString()
+  );
+
+  sendResponse(res, httpStatus.OK, {
+    success: true,
+    message: 'Mock webhook processed successfully',
+    data: result,
+  });
+});
+
 export const bankConnectionController = {
   generateLinkToken,
   createBankConnection,
@@ -363,4 +375,6 @@ export const bankConnectionController = {
   plaidWebhookHandler,
   connectBasiqBankAccount,
   getBasiqAccounts,
+  connectMockBankAccount,
+  mockWebhookHandler,
 };
@@ -1,10 +1,13 @@
 import { CountryCode, DepositoryAccountSubtype } from 'plaid';
+import { IBankConnectProvider } from './bankConnection.constant';
 
 export interface IBankConnection {
   user: string;
 
-  provider: 'plaid' | 'basiq'; // Add this to differentiate logic
+  provider: IBankConnectProvider; // Picks the bank-data provider adapter
   itemId: string; // For Basiq, this will store the 'Connection ID'
+  bsiqUserId?: string; // Basiq user the account belongs to
+  connectionId?: string; // Basiq connection the account came from
   accessToken?: string; // Only Plaid uses this
   accountId: string;
   accountName: string;
@@ -90,6 +93,7 @@ export interface ISyncResponse {
   added: IPlaidTransaction[];
   modified: IPlaidTransaction[];
   removed: string[];
+  syncedAt?: Date; // Saved as lastSyncAt once the transactions are processed
 }
 
 // Add at the end of the file
@@ -1,6 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { IBankConnection } from './bankConnection.interface';
-import plaidService from './bankConnection.service';
+import { bankProviderService } from './bankProvider.service';
 import { bankConnectiionProviderValues } from './bankConnection.constant';
 
 export interface IBankConnectionDocument extends IBankConnection, Document { }
@@ -102,14 +102,16 @@ BankConnectionSchema.methods.isConsentValid = function (): boolean {
 // Method to revoke consent
 BankConnectionSchema.methods.revokeConsent = async function (): Promise<void> {
   try {
-    // Remove from Plaid
-    await plaidService.removeItem(this.itemId);
+    // Revoke with the bank-data provider
+    await bankProviderService
+      .getBankProvider(this.provider)
+      .revoke(this as IBankConnectionDocument);
 
     // Mark as inactive in our database
     this.isActive = false;
     await this.save();
   } catch (error) {
-    // Still mark as inactive even if Plaid removal fails
+    // Still mark as inactive even if the provider revocation fails
     this.isActive = false;
     await this.save();
     throw error;
@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { validateRequest } from '../../middlewares/validateRequest';
-import { saveBasiqAccountValidation, updateBankConnectionValidation } from './bankConnection.validation';
+import {
+  connectMockBankAccountValidation,
+  saveBasiqAccountValidation,
+  updateBankConnectionValidation,
+} from './bankConnection.validation';
 import { bankConnectionController } from './bankConnection.controller';
 import { auth } from '../../middlewares';
 import { ROLE } from '../Auth/auth.constant';
@@ -164,6 +168,20 @@ router.post(
   basiqService.saveBasiqAccount
 );
 
+// Mock bank (offline fixtures; off unless BANK_PROVIDER_MOCK_ENABLED=true)
+router.post(
+  '/mock/connect',
+  auth(ROLE.CLIENT),
+  validateRequest(connectMockBankAccountValidation),
+  bankConnectionController.connectMockBankAccount
+);
+
+router.post(
+  '/mock-webhook',
+  auth(ROLE.CLIENT),
+  bankConnectionController.mockWebhookHandler
+);
+
 // Sync transactions
 router.post(
   '/:bankConnectionId/sync',
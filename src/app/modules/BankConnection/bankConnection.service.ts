@@ -10,7 +10,10 @@ import {
   Products,
   DepositoryAccountSubtype,
 } from 'plaid';
-import { BankConnectionModel } from './bankConnection.model';
+import {
+  BankConnectionModel,
+  IBankConnectionDocument,
+} from './bankConnection.model';
 import {
   IBankAccountWithRoundUpStatus,
   IBankConnection,
@@ -23,11 +26,10 @@ import {
 import plaidClient, { encryptData, decryptData } from '../../config/plaid';
 import { RoundUpModel } from '../RoundUp/roundUp.model';
 import QueryBuilder from '../../builders/QueryBuilder';
-import { createNotification } from '../Notification/notification.service';
-import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
-import { roundUpTransactionService } from '../RoundUpTransaction/roundUpTransaction.service';
 import config from '../../config';
 import { RoundUpTransactionModel } from '../RoundUpTransaction/roundUpTransaction.model';
+import { BANKCONNECTION_PROVIDER } from './bankConnection.constant';
+import { IBankProviderAccount } from './bankProvider.interface';
 
 // Initialize Plaid client
 const plaidApi = plaidClient.client as PlaidApi;
@@ -95,7 +97,7 @@ async function generateLinkToken(
 async function exchangePublicTokenForAccessToken(
   exchangeData: IPlaidPublicTokenExchange,
   user: string
-): Promise<IBankConnection> {
+): Promise<IBankConnectionDocument> {
   try {
     console.log('Starting token exchange with data:', {
       public_token_length: exchangeData.public_token?.length,
@@ -133,6 +135,7 @@ async function exchangePublicTokenForAccessToken(
 
     const bankConnection = new BankConnectionModel({
       user,
+      provider: BANKCONNECTION_PROVIDER.PLAID,
       itemId,
       accessToken: encryptData(accessToken),
       accountId: selectedAccount.account_id,
@@ -279,6 +282,29 @@ async function getTransactions(
   }
 }
 
+// Get the accounts shared on a Plaid item
+async function getAccounts(
+  bankConnectionId: string
+): Promise<IBankProviderAccount[]> {
+  const bankConnection = await BankConnectionModel.findById(bankConnectionId);
+
+  if (!bankConnection || !bankConnection.isActive) {
+    throw new Error('Bank connection not found or inactive');
+  }
+
+  const response = await plaidApi.accountsGet({
+    access_token: decryptData(bankConnection.accessToken!),
+  });
+
+  return response.data.accounts.map((account) => ({
+    accountId: account.account_id,
+    accountName: account.name,
+    accountType: account.subtype || account.type,
+    institutionName: bankConnection.institutionName,
+    institutionId: bankConnection.institutionId,
+  }));
+}
+
 // Get stored transactions from database
 async function getStoredTransactions(
   bankConnectionId: string,
@@ -350,63 +376,6 @@ async function removeItem(itemId: string): Promise<void> {
   }
 }
 
-// Handle webhook events
-async function handleWebhook(
-  webhookType: string,
-  webhookCode: string,
-  itemId: string,
-  data?: any
-): Promise<void> {
-  try {
-    const bankConnection = await BankConnectionModel.findOne({ itemId });
-
-    if (!bankConnection) {
-      console.warn('Received webhook for unknown bank connection:', itemId);
-      return;
-    }
-
-    switch (webhookType) {
-      case 'TRANSACTIONS':
-        // Trigger transaction sync
-        await syncTransactions(String(bankConnection._id));
-        break;
-
-      case 'ITEM':
-        if (webhookCode === 'LOGIN_REQUIRED' || webhookCode === 'ERROR') {
-          try {
-            await createNotification(
-              bankConnection.user.toString(),
-              NOTIFICATION_TYPE.BANK_DISCONNECTED,
-              `Action Required: Your connection to ${bankConnection.institutionName} has expired. Please reconnect to continue Round-Ups.`,
-              bankConnection?._id!.toString()
-            );
-            console.log(`✅ Bank disconnected notification sent!`);
-          } catch (error: any) {
-            console.log(`✅ Bank disconnected notification show error!`);
-          }
-        }
-        if (
-          webhookCode === 'ERROR' ||
-          webhookCode === 'USER_PERMISSION_REVOKED'
-        ) {
-          // Mark connection as inactive
-          bankConnection.isActive = false;
-          await bankConnection.save();
-        } else if (webhookCode === 'LOGIN_REQUIRED') {
-          // Mark as login required - user needs to reconnect
-          bankConnection.isActive = false;
-          await bankConnection.save();
-        }
-        break;
-
-      default:
-        console.log('Unhandled webhook type:', webhookType);
-    }
-  } catch (error) {
-    console.error('Error handling webhook:', error);
-  }
-}
-
 //  get all banks connection:
 async function getUserBankAccountsWithRoundUpStatus(
   userId: string,
@@ -516,7 +485,7 @@ async function getUserBankAccountsWithRoundUpStatus(
 // Get bank connection details
 async function getBankConnectionById(
   id: string
-): Promise<IBankConnection | null> {
+): Promise<IBankConnectionDocument | null> {
   return await BankConnectionModel.findById(id);
 }
 
@@ -546,61 +515,19 @@ async function hasActiveBankConnection(userId: string): Promise<boolean> {
   return !!connection;
 }
 
-const handleTransactionsWebhook = async (itemId: string) => {
-  console.log({
-    itemId,
-  });
-  // 1. Find the connection by Plaid Item ID
-  const connection = await BankConnectionModel.findOne({ itemId });
-  if (!connection) {
-    console.error(`Plaid Item ID ${itemId} not found in database.`);
-    return;
-  }
-
-  // 2. Fetch changes from Plaid using the cursor
-  // Note: This calls your existing sync logic which hits Plaid's /transactions/sync
-  const syncData = await syncTransactions(
-    connection._id!.toString(),
-    connection.lastSyncCursor
-  );
-
-  console.log({ syncData });
-
-  // 3. Process ADDED transactions for Round-Ups
-  if (syncData.added && syncData.added.length > 0) {
-    await roundUpTransactionService.processTransactionsFromPlaid(
-      connection.user.toString(),
-      connection._id!.toString(),
-      syncData.added
-    );
-  }
-
-  // 4. Update the cursor in the database so we don't fetch these again
-  connection.lastSyncCursor = syncData.nextCursor;
-  console.log({ lastCursor: connection.lastSyncCursor });
-  await connection.save();
-
-  return {
-    added: syncData.added.length,
-    removed: syncData.removed.length,
-    modified: syncData.modified.length,
-  };
-};
-
 export const bankConnectionServices = {
   generateLinkToken,
   exchangePublicTokenForAccessToken,
   syncTransactions,
   getTransactions,
+  getAccounts,
   getStoredTransactions,
   removeItem,
-  handleWebhook,
   getBankConnectionById,
   getBankConnectionByUserId,
   updateBankConnection,
   hasActiveBankConnection,
   getUserBankAccountsWithRoundUpStatus,
-  handleTransactionsWebhook,
 };
 
 export default bankConnectionServices;
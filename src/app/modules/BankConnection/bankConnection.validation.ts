@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { MOCK_ACCOUNTS } from './mock.fixtures';
 
 export const createBankConnectionValidation = z.object({
   public_token: z.string().min(1, 'Public token is required'),
@@ -49,6 +50,14 @@ export const saveBasiqAccountValidation = z.object({
 })
 });
 
+export const connectMockBankAccountValidation = z.object({
+  body: z.object({
+    accountId: z
+      .enum(MOCK_ACCOUNTS.map((account) => account.accountId))
+      .optional(),
+  }),
+});
+
 export type CreateBankConnectionInput = z.infer<
   typeof createBankConnectionValidation
 >;
@@ -58,3 +67,6 @@ export type RevokeConsentInput = z.infer<typeof revokeConsentValidation>;
 export type UpdateBankConnectionInput = z.infer<
   typeof updateBankConnectionValidation
 >;
+export type SaveBasiqAccountInput = z.infer<
+  typeof saveBasiqAccountValidation
+>['body'];
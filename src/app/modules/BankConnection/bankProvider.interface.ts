@@ -0,0 +1,60 @@
+import { IBankConnectProvider } from './bankConnection.constant';
+import { IPlaidTransaction, ISyncResponse } from './bankConnection.interface';
+import { IBankConnectionDocument } from './bankConnection.model';
+
+export interface IBankProviderLink {
+  linkToken?: string; // Plaid Link / mock token the client exchanges
+  url?: string; // Hosted consent page (Basiq)
+  expiration?: string;
+}
+
+export interface IBankProviderAccount {
+  accountId: string;
+  accountName: string;
+  accountType: string;
+  institutionName: string;
+  institutionId: string;
+  connectionId?: string;
+}
+
+export type TBankWebhookEventType =
+  | 'transactions' // New or updated transactions are ready to sync
+  | 'accounts' // Accounts were added or changed
+  | 'disconnected' // Consent expired, was revoked or needs a re-login
+  | 'ignored';
+
+export interface IBankWebhookEvent {
+  type: TBankWebhookEventType;
+  code: string; // Provider's own event name, for logging
+  reference?: string; // Plaid / mock item ID, or the Basiq user ID
+  connectionId?: string; // Basiq connection ID
+}
+
+/**
+ * What the round-up pipeline needs from a bank-data provider. Transactions
+ * always come back in the Plaid shape that processTransactionsFromPlaid
+ * reads, whichever provider they came from.
+ */
+export interface IBankDataProvider {
+  name: IBankConnectProvider;
+  createLink(userId: string): Promise<IBankProviderLink>;
+  exchange(
+    userId: string,
+    payload: Record<string, unknown>
+  ): Promise<IBankConnectionDocument>;
+  getAccounts(
+    connection: IBankConnectionDocument
+  ): Promise<IBankProviderAccount[]>;
+  // Transactions since the last sync; advances the connection's cursor
+  syncTransactions(
+    connection: IBankConnectionDocument,
+    cursor?: string
+  ): Promise<ISyncResponse>;
+  getTransactions(
+    connection: IBankConnectionDocument,
+    startDate: Date,
+    endDate: Date
+  ): Promise<IPlaidTransaction[]>;
+  revoke(connection: IBankConnectionDocument): Promise<void>;
+  parseWebhook(body: Record<string, any>): IBankWebhookEvent;
+}
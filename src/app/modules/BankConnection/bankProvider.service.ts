@@ -0,0 +1,150 @@
+import httpStatus from 'http-status';
+
+import config from '../../config';
+import { AppError } from '../../utils';
+import { createNotification } from '../Notification/notification.service';
+import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
+import { roundUpTransactionService } from '../RoundUpTransaction/roundUpTransaction.service';
+import { BANKCONNECTION_PROVIDER } from './bankConnection.constant';
+import { ISyncResponse } from './bankConnection.interface';
+import {
+  BankConnectionModel,
+  IBankConnectionDocument,
+} from './bankConnection.model';
+import { IBankDataProvider } from './bankProvider.interface';
+import { basiqProvider } from './basiq.provider';
+import { mockProvider } from './mock.provider';
+import { plaidProvider } from './plaid.provider';
+
+/**
+ * Adapter for a connection's provider. Connections saved before the
+ * provider was recorded are all Plaid.
+ */
+const getBankProvider = (provider?: string): IBankDataProvider => {
+  switch (provider || BANKCONNECTION_PROVIDER.PLAID) {
+    case BANKCONNECTION_PROVIDER.PLAID:
+      return plaidProvider;
+    case BANKCONNECTION_PROVIDER.BASIQ:
+      return basiqProvider;
+    case BANKCONNECTION_PROVIDER.MOCK:
+      if (!config.bankProvider.mockEnabled) {
+        throw new AppError(
+          httpStatus.FORBIDDEN,
+          'The mock bank provider is disabled!'
+        );
+      }
+      return mockProvider;
+    default:
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Unknown bank provider: ${provider}`
+      );
+  }
+};
+
+/**
+ * Date-based providers (Basiq) return syncedAt instead of saving it, so a
+ * failed round-up run fetches the same transactions again next time. Call
+ * once the synced transactions are processed.
+ */
+const completeSync = async (
+  connectionId: string,
+  syncData?: ISyncResponse
+) => {
+  if (!syncData?.syncedAt) return;
+
+  await BankConnectionModel.findByIdAndUpdate(connectionId, {
+    lastSyncAt: syncData.syncedAt,
+  });
+};
+
+// Pulls new transactions from the connection's provider and rounds them up
+const syncAndProcessTransactions = async (
+  connection: IBankConnectionDocument
+) => {
+  const syncData = await getBankProvider(
+    connection.provider
+  ).syncTransactions(connection);
+
+  const processing =
+    syncData.added.length > 0
+      ? await roundUpTransactionService.processTransactionsFromPlaid(
+          connection.user.toString(),
+          connection._id!.toString(),
+          syncData.added
+        )
+      : undefined;
+  await completeSync(connection._id!.toString(), syncData);
+
+  return {
+    added: syncData.added.length,
+    removed: syncData.removed.length,
+    modified: syncData.modified.length,
+    processing,
+  };
+};
+
+/**
+ * Webhooks that name the linked item (Plaid and mock). Basiq events are
+ * addressed to a Basiq user instead and are handled in basiq.webhook.
+ * Only the provider's own connections match, optionally only one user's.
+ */
+const handleWebhook = async (
+  provider: string,
+  body: Record<string, any>,
+  userId?: string
+) => {
+  const event = getBankProvider(provider).parseWebhook(body);
+  console.log(`\n🔔 ${provider} Webhook Received: ${event.code}`);
+
+  if (event.type === 'ignored' || !event.reference) return null;
+
+  const connection = await BankConnectionModel.findOne({
+    itemId: event.reference,
+    // Connections saved before the provider was recorded are Plaid
+    provider:
+      provider === BANKCONNECTION_PROVIDER.PLAID
+        ? { $in: [BANKCONNECTION_PROVIDER.PLAID, null] }
+        : provider,
+    ...(userId && { user: userId }),
+  });
+  if (!connection) {
+    console.warn(
+      'Received webhook for unknown bank connection:',
+      event.reference
+    );
+    return null;
+  }
+
+  switch (event.type) {
+    case 'transactions':
+      return syncAndProcessTransactions(connection);
+
+    case 'disconnected':
+      // Mark as inactive - user needs to reconnect
+      connection.isActive = false;
+      await connection.save();
+
+      try {
+        await createNotification(
+          connection.user.toString(),
+          NOTIFICATION_TYPE.BANK_DISCONNECTED,
+          `Action Required: Your connection to ${connection.institutionName} has expired. Please reconnect to continue Round-Ups.`,
+          connection._id!.toString()
+        );
+      } catch (error) {
+        console.error('Failed to send bank disconnected notification:', error);
+      }
+      return null;
+
+    default:
+      return null;
+  }
+};
+
+export const bankProviderService = {
+  getBankProvider,
+  completeSync,
+  syncAndProcessTransactions,
+  handleWebhook,
+};
@@ -0,0 +1,108 @@
+import httpStatus from 'http-status';
+
+import { AppError } from '../../utils';
+import { BANKCONNECTION_PROVIDER } from './bankConnection.constant';
+import { IPlaidTransaction } from './bankConnection.interface';
+import { IBankConnectionDocument } from './bankConnection.model';
+import { SaveBasiqAccountInput } from './bankConnection.validation';
+import { basiqService } from './basiq.service';
+import {
+  IBankDataProvider,
+  TBankWebhookEventType,
+} from './bankProvider.interface';
+
+const WEBHOOK_EVENT_TYPES: Record<string, TBankWebhookEventType> = {
+  'transactions.updated': 'transactions',
+  'connection.created': 'accounts',
+  'account.created': 'accounts',
+  'account.updated': 'accounts',
+  'connection.invalidated': 'disconnected',
+  'connection.deleted': 'disconnected',
+  'consent.revoked': 'disconnected',
+  'consent.expired': 'disconnected',
+  'user.deleted': 'disconnected',
+};
+
+const extractUserId = (url?: string) => {
+  return url?.match(/\/users\/([^\/]+)/)?.[1];
+};
+
+const extractConnectionId = (url?: string) => {
+  return url?.match(/\/connections\/([^\/]+)/)?.[1];
+};
+
+const getBasiqUserId = (connection: IBankConnectionDocument) => {
+  if (!connection.bsiqUserId) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Bank connection is not linked to a Basiq user!'
+    );
+  }
+  return connection.bsiqUserId;
+};
+
+// Wraps basiq.service; Basiq's API is called over axios there
+export const basiqProvider: IBankDataProvider = {
+  name: BANKCONNECTION_PROVIDER.BASIQ,
+
+  createLink: async (userId) => {
+    const basiqUserId = await basiqService.getOrCreateBasiqUser(userId);
+
+    return { url: await basiqService.generateBasiqAuthLink(basiqUserId) };
+  },
+
+  exchange: (userId, payload) =>
+    basiqService.createBasiqConnection(
+      userId,
+      payload as SaveBasiqAccountInput
+    ),
+
+  getAccounts: async (connection) => {
+    const accounts = await basiqService.fetchBasiqAccounts(
+      getBasiqUserId(connection)
+    );
+
+    return accounts.map((account) => ({
+      accountId: account.id,
+      accountName: account.name,
+      accountType: account.class.type,
+      institutionName: account.class.product || 'Basiq Bank',
+      institutionId: account.institution,
+      connectionId: account.connection,
+    }));
+  },
+
+  syncTransactions: (connection) =>
+    basiqService.syncBasiqTransactions(connection),
+
+  getTransactions: async (connection, startDate, endDate) => {
+    // Basiq filters by start date only; trim the end here
+    const transactions = await basiqService.getBasiqTransactions(
+      getBasiqUserId(connection),
+      connection.accountId,
+      { fromDate: startDate.toISOString().split('T')[0] }
+    );
+
+    return (transactions || [])
+      .map(basiqService.mapBasiqTransaction)
+      .filter(
+        (transaction: IPlaidTransaction) =>
+          new Date(transaction.date) <= endDate
+      );
+  },
+
+  // Basiq consent covers every account on the connection, so unlinking one
+  // account is local only. Donors withdraw consent through Basiq itself.
+  revoke: async () => {},
+
+  parseWebhook: (body) => {
+    const entityUrl = body.links?.eventEntity;
+
+    return {
+      type: WEBHOOK_EVENT_TYPES[body.eventTypeId] || 'ignored',
+      code: body.eventTypeId,
+      reference: extractUserId(entityUrl), // Basiq user ID
+      connectionId: extractConnectionId(entityUrl),
+    };
+  },
+};
@@ -8,7 +8,12 @@ import { BankConnectionModel } from './bankConnection.model';
 import { roundUpTransactionService } from '../RoundUpTransaction/roundUpTransaction.service';
 import axios, { AxiosError } from 'axios';
 import { BANKCONNECTION_PROVIDER } from './bankConnection.constant';
-import { Convert } from 'easy-currencies';
+import {
+  IPlaidTransaction,
+  ISyncResponse,
+} from './bankConnection.interface';
+import { IBankConnectionDocument } from './bankConnection.model';
+import { SaveBasiqAccountInput } from './bankConnection.validation';
 /**
  * Step 1: Generate a Session Token
  * This is used for all functional API calls.
@@ -292,6 +297,70 @@ export const generateBasiqAuthLink = async (
  * PULL Transactions: Triggered by Webhook
  * Fetches only NEW transactions since last sync using timestamp tracking
  */
+/**
+ * Maps a Basiq transaction to the Plaid shape the round-up pipeline uses.
+ * Amounts stay in the account's currency; FX is snapshotted per round-up.
+ */
+export const mapBasiqTransaction = (t: any) =>
+  ({
+    transaction_id: t.id,
+    amount: Math.abs(parseFloat(t.amount)),
+    date: t.postDate,
+    name: t.description,
+    merchant_name: t.enrich?.merchant?.businessName,
+    account_id: t.account, // Matched by account exclusion rules
+    iso_currency_code: t.currency || 'AUD',
+    personal_finance_category: {
+      primary: t.class?.toUpperCase(),
+      detailed: t.subClass?.title?.toUpperCase(),
+    },
+  }) as IPlaidTransaction;
+
+/**
+ * Pulls a Basiq account's transactions posted since its last sync (the last
+ * 30 days on the first sync) and moves lastSyncAt forward.
+ */
+export const syncBasiqTransactions = async (
+  connection: IBankConnectionDocument
+): Promise<ISyncResponse> => {
+  if (!connection.bsiqUserId) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Bank connection is not linked to a Basiq user!'
+    );
+  }
+
+  let fromDate: string;
+  if (connection.lastSyncAt) {
+    // Incremental sync
+    fromDate = connection.lastSyncAt.toISOString().split('T')[0]; // YYYY-MM-DD
+    console.log(`📅 Incremental sync from: ${fromDate}`);
+  } else {
+    // First sync: fetch last 30 days to prevent backfilling all history
+    const thirtyDaysAgo = new Date();
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    fromDate = thirtyDaysAgo.toISOString().split('T')[0];
+    console.log(`🆕 First sync - fetching from: ${fromDate} (last 30 days)`);
+  }
+
+  // Pull transactions ONLY for this specific account and date range
+  const syncedAt = new Date();
+  const transactions = await getBasiqTransactions(
+    connection.bsiqUserId,
+    connection.accountId,
+    { fromDate }
+  );
+
+  // lastSyncAt is left to the caller, once the round-ups are processed
+  return {
+    hasMore: false,
+    added: (transactions || []).map(mapBasiqTransaction),
+    modified: [],
+    removed: [],
+    syncedAt,
+  };
+};
+
 export const fetchAndProcessBasiqTransactions = async (basiqUserId: string) => {
   try {
     const user = await Auth.findOne({ basiqUserId });
@@ -314,83 +383,43 @@ export const fetchAndProcessBasiqTransactions = async (basiqUserId: string) => {
 
     for (const conn of activeConnections) {
       try {
-        // 2. Determine the start date for fetching transactions
-        let fromDate: string | undefined;
-
-        if (conn.lastSyncAt) {
-          // Use lastSyncAt if available (incremental sync)
-          fromDate = conn.lastSyncAt.toISOString().split('T')[0]; // Format: YYYY-MM-DD
-          console.log(`📅 Incremental sync from: ${fromDate}`);
-        } else {
-          // First sync: fetch last 30 days to prevent backfilling all history
-          const thirtyDaysAgo = new Date();
-          thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-          fromDate = thirtyDaysAgo.toISOString().split('T')[0];
-          console.log(
-            `🆕 First sync - fetching from: ${fromDate} (last 30 days)`
-          );
-        }
+        // 2. Pull transactions posted since the last sync
+        const syncData = await syncBasiqTransactions(conn);
 
-        // 3. Pull transactions ONLY for this specific account and date range
-        const transactions = await getBasiqTransactions(
-          basiqUserId,
-          conn.accountId,
-          { fromDate }
-        );
-
-        if (!transactions || transactions.length === 0) {
+        if (syncData.added.length === 0) {
           console.log(`ℹ️ No new transactions for account ${conn.accountId}`);
-          // Still update lastSyncAt even if no transactions
           await BankConnectionModel.findByIdAndUpdate(conn._id, {
-            lastSyncAt: new Date(),
+            lastSyncAt: syncData.syncedAt,
           });
           continue;
         }
 
         console.log(
-          `✅ Fetched ${transactions.length} new transaction(s) for processing`
+          `✅ Fetched ${syncData.added.length} new transaction(s) for processing`
         );
 
-        // 4. Map to internal format (compatible with processTransactionsFromPlaid)
-        const mappedTransactions = await Promise.all(
-          transactions.map(async (t: any) => ({
-            transaction_id: t.id,
-            amount: await Convert(Math.abs(parseFloat(t.amount)))
-              .from('AUD')
-              .to('USD'),
-            date: t.postDate,
-            name: t.description,
-            iso_currency_code: 'USD',
-            personal_finance_category: {
-              primary: t.class?.toUpperCase(),
-            },
-          }))
-        );
-
-        console.log({ mappedTransactions }, { depth: Infinity });
-
-        // 5. Process for Round-Ups using the existing Plaid processor
+        // 3. Process for Round-Ups using the existing Plaid processor
         console.log(
-          `⚙️ Processing ${mappedTransactions.length} transaction(s) for roundup...`
+          `⚙️ Processing ${syncData.added.length} transaction(s) for roundup...`
         );
         const result =
           await roundUpTransactionService.processTransactionsFromPlaid(
             user._id.toString(),
             conn._id!.toString(),
-            mappedTransactions
+            syncData.added
           );
 
         console.log(`📊 Processing complete:`, {
           processed: result.processed,
           skipped: result.skipped,
+          excluded: result.excluded,
           failed: result.failed,
         });
 
-        // 6. Update lastSyncAt after successful processing
+        // 4. Only now move lastSyncAt past these transactions
         await BankConnectionModel.findByIdAndUpdate(conn._id, {
-          lastSyncAt: new Date(),
+          lastSyncAt: syncData.syncedAt,
         });
-        console.log(`✅ Updated lastSyncAt for connection ${conn._id}`);
       } catch (connError: any) {
         console.error(
           `❌ Error processing connection ${conn._id}:`,
@@ -480,6 +509,24 @@ export const getBasiqTransactions = async (
   }
 };
 
+/**
+ * Lists every account a Basiq user has shared, straight from Basiq.
+ */
+export const fetchBasiqAccounts = async (basiqUserId: string) => {
+  const token = await getBasiqActionToken();
+  const { data } = await axios.get(
+    `https://au-api.basiq.io/users/${basiqUserId}/accounts`,
+    {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/json',
+      },
+    }
+  );
+
+  return data.data as any[]; // Basiq accounts array
+};
+
 /**
  * Syncs all Basiq connections/accounts for a user into the local DB.
  * Used by webhooks (connection.created) and manual syncs.
@@ -493,19 +540,7 @@ export const syncUserBasiqConnections = async (basiqUserId: string) => {
 
   try {
     // Fetch all accounts from Basiq
-    // Re-using logic from getBasiqAccounts but internal
-    const token = await getBasiqActionToken();
-    const { data } = await axios.get(
-      `https://au-api.basiq.io/users/${basiqUserId}/accounts`,
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          Accept: 'application/json',
-        },
-      }
-    );
-
-    const accounts = data.data; // Basiq accounts array
+    const accounts = await fetchBasiqAccounts(basiqUserId);
     console.log({ accounts });
 
     console.log(
@@ -549,10 +584,15 @@ export const syncUserBasiqConnections = async (basiqUserId: string) => {
   }
 };
 
-const saveBasiqAccount = asyncHandler(async (req, res) => {
-  const userId = req.user._id.toString();
+/**
+ * Saves an account the user picked after completing the Basiq consent flow.
+ */
+export const createBasiqConnection = async (
+  userId: string,
+  payload: SaveBasiqAccountInput
+) => {
   const { accountId, institutionName, accountName, accountType, connectionId } =
-    req.body;
+    payload;
 
   const user = await Auth.findById(userId);
   if (!user?.basiqUserId) {
@@ -560,7 +600,7 @@ const saveBasiqAccount = asyncHandler(async (req, res) => {
   }
 
   // Save to your BankConnectionModel
-  const connection = await BankConnectionModel.create({
+  return BankConnectionModel.create({
     user: userId,
     provider: BANKCONNECTION_PROVIDER.BASIQ,
     itemId: accountId, // CHANGED
@@ -575,6 +615,13 @@ const saveBasiqAccount = asyncHandler(async (req, res) => {
     isActive: true,
     accessToken: 'basiq_not_required_token',
   });
+};
+
+const saveBasiqAccount = asyncHandler(async (req, res) => {
+  const connection = await createBasiqConnection(
+    req.user._id.toString(),
+    req.body
+  );
 
   sendResponse(res, {
     statusCode: httpStatus.CREATED,
@@ -593,5 +640,9 @@ export const basiqService = {
   getBasiqAccounts,
   syncUserBasiqConnections,
   saveBasiqAccount,
+  createBasiqConnection,
   getBasiqTransactions,
+  fetchBasiqAccounts,
+  syncBasiqTransactions,
+  mapBasiqTransaction,
 };
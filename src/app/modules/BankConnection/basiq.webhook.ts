@@ -2,29 +2,16 @@
 import { Request, Response } from 'express'; // <--- Add this import
 import { sendResponse } from '../../utils';
 import { basiqService } from './basiq.service';
+import { basiqProvider } from './basiq.provider';
 import { BankConnectionModel } from './bankConnection.model';
 import { RoundUpModel } from '../RoundUp/roundUp.model';
 import { createNotification } from '../Notification/notification.service';
 import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
 import Auth from '../Auth/auth.model';
 
-const extractUserId = (url?: string) => {
-  return url?.match(/\/users\/([^\/]+)/)?.[1];
-};
-
-const extractConnectionId = (url?: string) => {
-  return url?.match(/\/connections\/([^\/]+)/)?.[1];
-};
-
-const extractConsentId = (url?: string) => {
-  return url?.match(/\/consents\/([^\/]+)/)?.[1];
-};
-
 export const handleBasiqWebhook = async (req: Request, res: Response) => {
-  const { eventTypeId, links } = req.body;
-  const entityUrl = links?.eventEntity;
-  const basiqUserId = extractUserId(entityUrl);
-  const connectionId = extractConnectionId(entityUrl);
+  const { code: eventTypeId, reference: basiqUserId, connectionId } =
+    basiqProvider.parseWebhook(req.body);
 
   console.log({
     ...req.body,
@@ -0,0 +1,107 @@
+import { IBankProviderAccount } from './bankProvider.interface';
+
+export const MOCK_INSTITUTION = {
+  id: 'ins_mock',
+  name: 'Mock Bank',
+};
+
+export const MOCK_CURRENCY = 'USD';
+
+// Days of history served on a connection's first sync
+export const MOCK_HISTORY_DAYS = 30;
+
+export const MOCK_PURCHASES_PER_DAY = 2;
+
+export const MOCK_ACCOUNTS: IBankProviderAccount[] = [
+  {
+    accountId: 'mock-everyday',
+    accountName: 'Everyday Checking',
+    accountType: 'checking',
+    institutionName: MOCK_INSTITUTION.name,
+    institutionId: MOCK_INSTITUTION.id,
+  },
+  {
+    accountId: 'mock-credit',
+    accountName: 'Rewards Credit Card',
+    accountType: 'credit card',
+    institutionName: MOCK_INSTITUTION.name,
+    institutionId: MOCK_INSTITUTION.id,
+  },
+];
+
+/**
+ * Cycled day by day. Besides ordinary round-ups this covers a whole-dollar
+ * purchase (nothing to round), a refund and a transfer (ineligible), and
+ * gambling (caught by the default exclusion rule).
+ */
+export const MOCK_PURCHASES = [
+  {
+    name: 'Blue Bottle Coffee',
+    merchant: 'Blue Bottle Coffee',
+    amount: 4.35,
+    category: 'FOOD_AND_DRINK',
+    detailedCategory: 'FOOD_AND_DRINK_COFFEE',
+  },
+  {
+    name: 'Whole Foods Market',
+    merchant: 'Whole Foods',
+    amount: 23.62,
+    category: 'FOOD_AND_DRINK',
+    detailedCategory: 'FOOD_AND_DRINK_GROCERIES',
+  },
+  {
+    name: 'Uber Trip',
+    merchant: 'Uber',
+    amount: 17.8,
+    category: 'TRANSPORTATION',
+    detailedCategory: 'TRANSPORTATION_TAXIS_AND_RIDE_SHARES',
+  },
+  {
+    name: 'Netflix',
+    merchant: 'Netflix',
+    amount: 15.49,
+    category: 'ENTERTAINMENT',
+    detailedCategory: 'ENTERTAINMENT_TV_AND_MOVIES',
+  },
+  {
+    name: 'Shell Service Station',
+    merchant: 'Shell',
+    amount: 61.07,
+    category: 'TRANSPORTATION',
+    detailedCategory: 'TRANSPORTATION_GAS',
+  },
+  {
+    name: 'Target',
+    merchant: 'Target',
+    amount: 12,
+    category: 'GENERAL_MERCHANDISE',
+    detailedCategory: 'GENERAL_MERCHANDISE_DISCOUNT_STORES',
+  },
+  {
+    name: 'DraftKings',
+    merchant: 'DraftKings',
+    amount: 25.5,
+    category: 'ENTERTAINMENT',
+    detailedCategory: 'ENTERTAINMENT_CASINOS_AND_GAMBLING',
+  },
+  {
+    name: 'CVS Pharmacy',
+    merchant: 'CVS',
+    amount: 9.47,
+    category: 'MEDICAL',
+    detailedCategory: 'MEDICAL_PHARMACIES_AND_SUPPLEMENTS',
+  },
+  {
+    name: 'Amazon Marketplace',
+    merchant: 'Amazon',
+    amount: -18.99, // Refund
+    category: 'GENERAL_MERCHANDISE',
+    detailedCategory: 'GENERAL_MERCHANDISE_ONLINE_MARKETPLACES',
+  },
+  {
+    name: 'Savings Account Top-up',
+    amount: 200,
+    category: 'TRANSFER_OUT',
+    detailedCategory: 'TRANSFER_OUT_SAVINGS',
+  },
+];
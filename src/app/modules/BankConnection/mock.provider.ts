@@ -0,0 +1,150 @@
+import httpStatus from 'http-status';
+
+import { AppError } from '../../utils';
+import { BANKCONNECTION_PROVIDER } from './bankConnection.constant';
+import { IPlaidTransaction } from './bankConnection.interface';
+import {
+  BankConnectionModel,
+  IBankConnectionDocument,
+} from './bankConnection.model';
+import { IBankDataProvider } from './bankProvider.interface';
+import {
+  MOCK_ACCOUNTS,
+  MOCK_CURRENCY,
+  MOCK_HISTORY_DAYS,
+  MOCK_PURCHASES,
+  MOCK_PURCHASES_PER_DAY,
+} from './mock.fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date) => Math.floor(date.getTime() / DAY_MS);
+
+const toDateKey = (day: number) =>
+  new Date(day * DAY_MS).toISOString().split('T')[0];
+
+/**
+ * Fixture purchases on an account between two UTC days (inclusive). The
+ * same day always yields the same purchases and transaction IDs, so repeat
+ * syncs are deduplicated just like real provider data.
+ */
+const buildTransactions = (
+  connection: IBankConnectionDocument,
+  fromDay: number,
+  toDayInclusive: number
+): IPlaidTransaction[] => {
+  const accountOffset = Math.max(
+    MOCK_ACCOUNTS.findIndex(
+      (account) => account.accountId === connection.accountId
+    ),
+    0
+  );
+  const transactions: IPlaidTransaction[] = [];
+
+  for (let day = fromDay; day <= toDayInclusive; day++) {
+    const date = toDateKey(day);
+
+    for (let slot = 0; slot < MOCK_PURCHASES_PER_DAY; slot++) {
+      const purchase =
+        MOCK_PURCHASES[
+          (day * MOCK_PURCHASES_PER_DAY + slot + accountOffset) %
+            MOCK_PURCHASES.length
+        ];
+
+      transactions.push({
+        transaction_id: `${connection.itemId}-${date}-${slot}`,
+        amount: purchase.amount,
+        iso_currency_code: MOCK_CURRENCY,
+        date,
+        name: purchase.name,
+        merchant_name: purchase.merchant,
+        category: [purchase.category],
+        account_id: connection.accountId,
+        account_owner: '',
+        personal_finance_category: {
+          primary: purchase.category,
+          detailed: purchase.detailedCategory,
+        },
+      });
+    }
+  }
+
+  return transactions;
+};
+
+// Serves MOCK_ACCOUNTS and MOCK_PURCHASES without any network calls
+export const mockProvider: IBankDataProvider = {
+  name: BANKCONNECTION_PROVIDER.MOCK,
+
+  // Any token works; exchange links the fixture account named in the payload
+  createLink: async (userId) => ({ linkToken: `mock-link-${userId}` }),
+
+  exchange: async (userId, payload) => {
+    const accountId = payload.accountId || MOCK_ACCOUNTS[0].accountId;
+    const account = MOCK_ACCOUNTS.find(
+      (mockAccount) => mockAccount.accountId === accountId
+    );
+    if (!account) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Unknown mock account: ${accountId}`
+      );
+    }
+
+    // Re-linking the same account reactivates the existing connection
+    const connection = await BankConnectionModel.findOneAndUpdate(
+      { itemId: `mock-${userId}-${account.accountId}` },
+      {
+        user: userId,
+        provider: BANKCONNECTION_PROVIDER.MOCK,
+        accessToken: 'mock_access_token',
+        ...account,
+        consentGivenAt: new Date(),
+        isActive: true,
+      },
+      { upsert: true, new: true }
+    );
+
+    return connection!;
+  },
+
+  getAccounts: async () => MOCK_ACCOUNTS,
+
+  syncTransactions: async (connection) => {
+    // The cursor is the last day already served
+    const today = toDay(new Date());
+    const fromDay = connection.lastSyncCursor
+      ? toDay(new Date(connection.lastSyncCursor)) + 1
+      : today - MOCK_HISTORY_DAYS;
+
+    const added = buildTransactions(connection, fromDay, today);
+
+    await BankConnectionModel.findByIdAndUpdate(connection._id, {
+      lastSyncAt: new Date(),
+      lastSyncCursor: toDateKey(today),
+    });
+
+    return {
+      hasMore: false,
+      nextCursor: toDateKey(today),
+      added,
+      modified: [],
+      removed: [],
+    };
+  },
+
+  getTransactions: async (connection, startDate, endDate) =>
+    buildTransactions(connection, toDay(startDate), toDay(endDate)),
+
+  revoke: async () => {},
+
+  // Body: { event: 'transactions' | 'disconnected', item_id }
+  parseWebhook: (body) => ({
+    type:
+      body.event === 'transactions' || body.event === 'disconnected'
+        ? body.event
+        : 'ignored',
+    code: String(body.event),
+    reference: body.item_id,
+  }),
+};
@@ -0,0 +1,80 @@
+import { BANKCONNECTION_PROVIDER } from './bankConnection.constant';
+import { IPlaidTransaction } from './bankConnection.interface';
+import bankConnectionService from './bankConnection.service';
+import {
+  IBankDataProvider,
+  TBankWebhookEventType,
+} from './bankProvider.interface';
+
+const TRANSACTION_WEBHOOK_CODES = [
+  'SYNC_UPDATES_AVAILABLE',
+  'INITIAL_UPDATE',
+  'HISTORICAL_UPDATE',
+];
+
+// ITEM webhook codes after which the item can't be read until re-linked
+const DISCONNECT_WEBHOOK_CODES = [
+  'ERROR',
+  'LOGIN_REQUIRED',
+  'USER_PERMISSION_REVOKED',
+];
+
+const getWebhookEventType = (
+  webhookType: string,
+  webhookCode: string
+): TBankWebhookEventType => {
+  if (
+    webhookType === 'TRANSACTIONS' &&
+    TRANSACTION_WEBHOOK_CODES.includes(webhookCode)
+  ) {
+    return 'transactions';
+  }
+  if (
+    webhookType === 'ITEM' &&
+    DISCONNECT_WEBHOOK_CODES.includes(webhookCode)
+  ) {
+    return 'disconnected';
+  }
+  return 'ignored';
+};
+
+// Wraps bankConnection.service; the Plaid client lives there
+export const plaidProvider: IBankDataProvider = {
+  name: BANKCONNECTION_PROVIDER.PLAID,
+
+  createLink: async (userId) => {
+    const { link_token, expiration } =
+      await bankConnectionService.generateLinkToken({
+        user: { client_user_id: userId },
+      });
+
+    return { linkToken: link_token, expiration };
+  },
+
+  exchange: (userId, payload) =>
+    bankConnectionService.exchangePublicTokenForAccessToken(
+      { public_token: String(payload.public_token) },
+      userId
+    ),
+
+  getAccounts: (connection) =>
+    bankConnectionService.getAccounts(String(connection._id)),
+
+  syncTransactions: (connection, cursor) =>
+    bankConnectionService.syncTransactions(String(connection._id), cursor),
+
+  getTransactions: async (connection, startDate, endDate) =>
+    (await bankConnectionService.getTransactions(
+      String(connection._id),
+      startDate,
+      endDate
+    )) as IPlaidTransaction[],
+
+  revoke: (connection) => bankConnectionService.removeItem(connection.itemId),
+
+  parseWebhook: (body) => ({
+    type: getWebhookEventType(body.webhook_type, body.webhook_code),
+    code: `${body.webhook_type}.${body.webhook_code}`,
+    reference: body.item_id,
+  }),
+};
@@ -28,3 +28,17 @@ export const CAUSE_STATUS_TYPE = {
 
 export const causeCategoryTypeValues = Object.values(CAUSE_CATEGORY_TYPE);
 export const causeStatusTypeValues = Object.values(CAUSE_STATUS_TYPE);
+
+export const CAUSE_FUNDRAISING_STATUS = {
+  OPEN: 'open',
+  CLOSED: 'closed', // Deadline passed (auto-closed by job)
+} as const;
+
+export const causeFundraisingStatusValues = Object.values(
+  CAUSE_FUNDRAISING_STATUS
+);
+
+// Percent-of-goal milestones the organization is notified about
+export const CAUSE_GOAL_MILESTONES = [50, 75, 100] as const;
+
+export const CAUSE_MAX_COVER_IMAGES = 5;
@@ -32,6 +32,9 @@ const createCause = asyncHandler(async (req, res) => {
     description: req.body.description,
     category: req.body.category,
     organization: organizationId,
+    goalAmount: req.body.goalAmount,
+    startDate: req.body.startDate,
+    endDate: req.body.endDate,
   });
 
   sendResponse(res, {
@@ -62,7 +65,7 @@ const getCauses = asyncHandler(async (req, res) => {
 // Get cause by ID
 const getCauseById = asyncHandler(async (req, res) => {
   const { id } = req.params;
-  const result = await CauseService.getCauseByIdFromDB(id);
+  const result = await CauseService.getCauseDetailsFromDB(id);
 
   sendResponse(res, {
     statusCode: httpStatus.OK,
@@ -162,6 +165,36 @@ const updateCause = asyncHandler(async (req, res) => {
   });
 });
 
+// Replace cause cover images
+const updateCoverImages = asyncHandler(async (req, res) => {
+  const id = req.params.id.toString();
+  const user = req.user as IAuth;
+
+  // Check if user is authorized to update
+  if (user.role === ROLE.ORGANIZATION) {
+    const cause = await CauseService.getCauseByIdFromDB(id);
+    const organization = await Organization.findOne({ auth: user._id });
+
+    if (cause.organization?._id.toString() !== organization?._id.toString()) {
+      throw new AppError(
+        httpStatus.FORBIDDEN,
+        'You are not authorized to update this cause!'
+      );
+    }
+  }
+
+  const result = await CauseService.updateCoverImagesIntoDB(
+    id,
+    req.files as Express.Multer.File[] | undefined
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    message: 'Cause cover images updated successfully!',
+    data: result,
+  });
+});
+
 // Delete cause
 const deleteCause = asyncHandler(async (req, res) => {
   const { id } = req.params;
@@ -221,6 +254,7 @@ export const CauseController = {
   getCausesByOrganization,
   getRaisedCausesByOrganization,
   updateCause,
+  updateCoverImages,
   deleteCause,
   getCauseCategories,
   updateCauseStatus,
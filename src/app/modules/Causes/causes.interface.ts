@@ -23,6 +23,8 @@ export type CauseCategoryType =
 
 export type CauseStatusType = 'pending' | 'suspended' | 'verified';
 
+export type CauseFundraisingStatusType = 'open' | 'closed';
+
 export interface ICause extends Document {
   _id: Types.ObjectId;
   name: string; // Dynamic text - no enum restriction
@@ -30,6 +32,31 @@ export interface ICause extends Document {
   category: CauseCategoryType; // Enum for category
   status: CauseStatusType; // Enum for status with Pending, suspended, Verified
   organization: Types.ObjectId;
+
+  // Fundraising goal & deadline
+  goalAmount?: number; // In the organization's settlement currency
+  startDate?: Date;
+  endDate?: Date;
+  coverImages: string[];
+  fundraisingStatus: CauseFundraisingStatusType;
+  closedAt?: Date;
+
+  // Progress (recomputed from completed donations and refunds)
+  raisedAmount: number;
+  donorCount: number;
+  donationCount: number;
+  goalMilestonesNotified: number[];
+}
+
+export interface ICauseProgress {
+  goalAmount: number | null;
+  raisedAmount: number;
+  donorCount: number;
+  donationCount: number;
+  percentOfGoal: number | null;
+  remainingAmount: number | null;
+  daysLeft: number | null;
+  isClosed: boolean;
 }
 
 export interface IRaisedCauseSummary {
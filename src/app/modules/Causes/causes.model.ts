@@ -1,7 +1,9 @@
 import { model, Schema } from 'mongoose';
 import { ICause } from './causes.interface';
 import {
+  CAUSE_FUNDRAISING_STATUS,
   causeCategoryTypeValues,
+  causeFundraisingStatusValues,
   causeStatusTypeValues,
 } from './causes.constant';
 
@@ -35,10 +37,55 @@ const causeSchema = new Schema<ICause>(
       ref: 'Organization',
       required: [true, 'Organization is required!'],
     },
+
+    // Fundraising goal & deadline
+    goalAmount: {
+      type: Number,
+      min: 1,
+    },
+    startDate: {
+      type: Date,
+    },
+    endDate: {
+      type: Date,
+    },
+    coverImages: {
+      type: [String],
+      default: [],
+    },
+    fundraisingStatus: {
+      type: String,
+      enum: causeFundraisingStatusValues,
+      default: CAUSE_FUNDRAISING_STATUS.OPEN,
+    },
+    closedAt: {
+      type: Date,
+    },
+
+    // Progress (recomputed from completed donations and refunds)
+    raisedAmount: {
+      type: Number,
+      default: 0,
+    },
+    donorCount: {
+      type: Number,
+      default: 0,
+    },
+    donationCount: {
+      type: Number,
+      default: 0,
+    },
+    goalMilestonesNotified: {
+      type: [Number],
+      default: [],
+    },
   },
   { timestamps: true, versionKey: false }
 );
 
+// For the deadline job
+causeSchema.index({ fundraisingStatus: 1, endDate: 1 });
+
 const Cause = model<ICause>('Cause', causeSchema);
 
 export default Cause;
@@ -4,6 +4,8 @@ import { auth, validateRequest } from '../../middlewares';
 import { CauseValidation } from './causes.validation';
 import { CauseController } from './causes.controller';
 import { ROLE } from '../Auth/auth.constant';
+import { upload } from '../../lib';
+import { CAUSE_MAX_COVER_IMAGES } from './causes.constant';
 
 const router = Router();
 
@@ -45,6 +47,16 @@ router.route('/:id/status').patch(
   CauseController.updateCauseStatus
 );
 
+// Replace cause cover images
+router
+  .route('/:id/cover-images')
+  .patch(
+    auth(ROLE.ORGANIZATION, ROLE.ADMIN),
+    upload.array('coverImages', CAUSE_MAX_COVER_IMAGES),
+    validateRequest(CauseValidation.getCauseByIdSchema),
+    CauseController.updateCoverImages
+  );
+
 // Get, update, and delete cause by ID
 router
   .route('/:id')
@@ -1,18 +1,66 @@
 // src/app/modules/Causes/causes.service.ts
 import httpStatus from 'http-status';
 import { startSession, Types } from 'mongoose';
-import { AppError } from '../../utils';
+import { AppError, deleteFromS3, uploadToS3 } from '../../utils';
+import { getS3KeyFromUrl } from '../../utils/s3.utils';
 import QueryBuilder from '../../builders/QueryBuilder';
 import Cause from './causes.model';
 import {
   ICause,
   CauseCategoryType,
   CauseStatusType,
+  ICauseProgress,
   IRaisedCauseSummary,
 } from './causes.interface';
 import Organization from '../Organization/organization.model';
-import { CAUSE_CATEGORY_TYPE } from './causes.constant';
+import {
+  CAUSE_CATEGORY_TYPE,
+  CAUSE_FUNDRAISING_STATUS,
+  CAUSE_GOAL_MILESTONES,
+  CAUSE_MAX_COVER_IMAGES,
+} from './causes.constant';
 import Donation from '../Donation/donation.model';
+import { ANONYMOUS_DONOR } from '../Donation/donation.constant';
+import { createNotification } from '../Notification/notification.service';
+import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Goal progress shown on cause detail and list endpoints
+const buildCauseProgress = (cause: ICause): ICauseProgress => {
+  const goalAmount = cause.goalAmount || null;
+  const raisedAmount = cause.raisedAmount || 0;
+  const isClosed =
+    cause.fundraisingStatus === CAUSE_FUNDRAISING_STATUS.CLOSED;
+
+  return {
+    goalAmount,
+    raisedAmount,
+    donorCount: cause.donorCount || 0,
+    donationCount: cause.donationCount || 0,
+    percentOfGoal: goalAmount
+      ? Math.round((raisedAmount / goalAmount) * 10000) / 100
+      : null,
+    remainingAmount: goalAmount
+      ? Math.max(0, Math.round((goalAmount - raisedAmount) * 100) / 100)
+      : null,
+    daysLeft:
+      cause.endDate && !isClosed
+        ? Math.max(
+            0,
+            Math.ceil((new Date(cause.endDate).getTime() - Date.now()) / DAY_MS)
+          )
+        : null,
+    isClosed,
+  };
+};
+
+// Milestones already passed for a raised/goal pair
+const getReachedMilestones = (raisedAmount: number, goalAmount?: number) => {
+  if (!goalAmount) return [];
+  const percent = (raisedAmount / goalAmount) * 100;
+  return CAUSE_GOAL_MILESTONES.filter((milestone) => percent >= milestone);
+};
 
 const parseMonthInput = (month: string, boundary: 'start' | 'end') => {
   const [yearStr, monthStr] = month.split('-');
@@ -181,6 +229,9 @@ const createCauseIntoDB = async (payload: {
   description?: string;
   category: CauseCategoryType;
   organization: string;
+  goalAmount?: number;
+  startDate?: string;
+  endDate?: string;
 }) => {
   const session = await startSession();
 
@@ -238,6 +289,13 @@ const getCauseByIdFromDB = async (causeId: string) => {
   return cause;
 };
 
+// Get cause by ID with goal progress
+const getCauseDetailsFromDB = async (causeId: string) => {
+  const cause = await getCauseByIdFromDB(causeId);
+
+  return { ...cause.toObject(), progress: buildCauseProgress(cause) };
+};
+
 // Get all causes with filters, search, pagination and sorting
 const getCausesFromDB = async (query: Record<string, unknown>) => {
   const baseQuery = Cause.find().populate(
@@ -265,6 +323,7 @@ const getCausesFromDB = async (query: Record<string, unknown>) => {
       $match: {
         cause: { $in: causeIds },
         status: 'completed', // Only count completed donations
+        isMatchingGift: { $ne: true },
       },
     },
     {
@@ -291,6 +350,7 @@ const getCausesFromDB = async (query: Record<string, unknown>) => {
       $match: {
         cause: { $in: causeIds },
         status: 'completed',
+        isMatchingGift: { $ne: true },
       },
     },
     {
@@ -310,6 +370,16 @@ const getCausesFromDB = async (query: Record<string, unknown>) => {
         donationDate: { $first: '$donationDate' },
         amount: { $first: '$amount' },
         cause: { $first: '$cause' },
+        isAnonymous: { $first: '$isAnonymous' },
+      },
+    },
+    // Public listing: hide identity of anonymous donors
+    {
+      $set: {
+        _id: { $cond: ['$isAnonymous', null, '$_id'] },
+        name: { $cond: ['$isAnonymous', ANONYMOUS_DONOR.name, '$name'] },
+        image: { $cond: ['$isAnonymous', null, '$image'] },
+        isAnonymous: { $eq: ['$isAnonymous', true] },
       },
     },
 
@@ -346,6 +416,7 @@ const getCausesFromDB = async (query: Record<string, unknown>) => {
     causeObject.totalDonors = stats?.totalDonors || 0;
     causeObject.totalDonations = stats?.totalDonations || 0;
     causeObject.recentDonors = recentDonorList || [];
+    causeObject.progress = buildCauseProgress(cause);
 
     return causeObject;
   });
@@ -376,7 +447,12 @@ const getCausesByOrganizationFromDB = async (
   const result = await causeQuery.modelQuery;
   const meta = await causeQuery.countTotal();
 
-  return { causes: result, meta };
+  const causes = result.map((cause) => ({
+    ...cause.toObject(),
+    progress: buildCauseProgress(cause),
+  }));
+
+  return { causes, meta };
 };
 
 // Update cause
@@ -386,6 +462,9 @@ const updateCauseIntoDB = async (
     name?: string;
     description?: string;
     category?: CauseCategoryType;
+    goalAmount?: number;
+    startDate?: string;
+    endDate?: string;
   }
 ) => {
   // Check if cause exists
@@ -394,7 +473,27 @@ const updateCauseIntoDB = async (
     throw new AppError(httpStatus.NOT_FOUND, 'Cause not found!');
   }
 
-  const cause = await Cause.findByIdAndUpdate(causeId, payload, {
+  const update: Record<string, unknown> = { ...payload };
+
+  // New goal: only notify milestones not yet reached against it
+  if (payload.goalAmount !== undefined) {
+    update.goalMilestonesNotified = getReachedMilestones(
+      existingCause.raisedAmount || 0,
+      payload.goalAmount
+    );
+  }
+
+  // Deadline moved into the future: reopen a closed cause
+  if (
+    payload.endDate &&
+    new Date(payload.endDate) > new Date() &&
+    existingCause.fundraisingStatus === CAUSE_FUNDRAISING_STATUS.CLOSED
+  ) {
+    update.fundraisingStatus = CAUSE_FUNDRAISING_STATUS.OPEN;
+    update.$unset = { closedAt: 1 };
+  }
+
+  const cause = await Cause.findByIdAndUpdate(causeId, update, {
     new: true,
     runValidators: true,
   }).populate('organization', 'name serviceType coverImage');
@@ -464,9 +563,176 @@ const updateCauseStatusIntoDB = async (
   return cause;
 };
 
+// Replace cause cover images
+const updateCoverImagesIntoDB = async (
+  causeId: string,
+  files: Express.Multer.File[] | undefined
+) => {
+  if (!files || files.length === 0) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Cover images are required!');
+  }
+  if (files.length > CAUSE_MAX_COVER_IMAGES) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `A cause can have at most ${CAUSE_MAX_COVER_IMAGES} cover images!`
+    );
+  }
+
+  const cause = await Cause.findById(causeId);
+  if (!cause) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Cause not found!');
+  }
+
+  // 1. Upload new images
+  const coverImages: string[] = [];
+  for (const [index, file] of files.entries()) {
+    const uploadResult = await uploadToS3({
+      buffer: file.buffer,
+      key: `${causeId}-${Date.now()}-${index}`,
+      contentType: file.mimetype,
+      folder: 'causes/covers',
+    });
+    coverImages.push(uploadResult.url);
+  }
+
+  // 2. Cleanup old images
+  for (const oldImageUrl of cause.coverImages || []) {
+    const oldKey = getS3KeyFromUrl(oldImageUrl);
+    if (oldKey) {
+      await deleteFromS3(oldKey).catch((err) =>
+        console.error('Failed to delete old cause image from S3:', err)
+      );
+    }
+  }
+
+  cause.coverImages = coverImages;
+  await cause.save();
+
+  return cause.populate('organization', 'name serviceType coverImage');
+};
+
+// Recompute raised amount and donor count from completed donations, then
+// notify the organization about newly reached goal milestones.
+const syncCauseProgress = async (causeId: string | Types.ObjectId) => {
+  const causeObjectId = new Types.ObjectId(causeId.toString());
+
+  const [stats] = await Donation.aggregate([
+    { $match: { cause: causeObjectId, status: 'completed' } },
+    {
+      $group: {
+        _id: '$cause',
+        // Partial refunds stay 'completed'; count only what was kept, in
+        // the organization's settlement currency like the goal
+        raisedAmount: {
+          $sum: {
+            $multiply: [
+              { $subtract: ['$amount', { $ifNull: ['$refundedAmount', 0] }] },
+              { $ifNull: ['$exchangeRate', 1] },
+            ],
+          },
+        },
+        donors: { $addToSet: '$donor' },
+        // Matched gifts add to the total, not to the donor's gift count
+        donationCount: {
+          $sum: { $cond: [{ $eq: ['$isMatchingGift', true] }, 0, 1] },
+        },
+      },
+    },
+  ]);
+
+  const raisedAmount = Math.round((stats?.raisedAmount || 0) * 100) / 100;
+
+  const cause = await Cause.findByIdAndUpdate(
+    causeObjectId,
+    {
+      raisedAmount,
+      donorCount: stats?.donors?.length || 0,
+      donationCount: stats?.donationCount || 0,
+    },
+    { new: true }
+  );
+  if (!cause?.goalAmount) return cause;
+
+  // Claim each reached milestone atomically so it is announced once
+  const reached = getReachedMilestones(raisedAmount, cause.goalAmount);
+  const newlyReached: number[] = [];
+  for (const milestone of reached) {
+    const claimed = await Cause.findOneAndUpdate(
+      { _id: causeObjectId, goalMilestonesNotified: { $ne: milestone } },
+      { $addToSet: { goalMilestonesNotified: milestone } }
+    );
+    if (claimed) newlyReached.push(milestone);
+  }
+
+  // Announce only the highest one when several are crossed at once
+  if (newlyReached.length > 0) {
+    const milestone = Math.max(...newlyReached);
+    try {
+      const organization = await Organization.findById(cause.organization);
+      if (organization) {
+        await createNotification(
+          organization.auth.toString(),
+          NOTIFICATION_TYPE.CAUSE_GOAL_MILESTONE,
+          milestone >= 100
+            ? `Goal reached! "${cause.name}" has raised $${raisedAmount} of its $${cause.goalAmount} goal.`
+            : `"${cause.name}" is ${milestone}% of the way to its $${cause.goalAmount} goal.`,
+          cause._id.toString(),
+          { milestone: milestone.toString() }
+        );
+      }
+    } catch (err) {
+      console.log(`❌🔔 Cause milestone notification Failed!`);
+    }
+  }
+
+  return cause;
+};
+
+// Close causes whose deadline has passed (deadline job)
+const closeExpiredCausesFromDB = async () => {
+  const now = new Date();
+  const expiredCauses = await Cause.find({
+    fundraisingStatus: CAUSE_FUNDRAISING_STATUS.OPEN,
+    endDate: { $lte: now },
+  });
+
+  let closedCount = 0;
+  const errors: Array<{ id: string; error: string }> = [];
+
+  for (const expired of expiredCauses) {
+    try {
+      const cause = await Cause.findOneAndUpdate(
+        { _id: expired._id, fundraisingStatus: CAUSE_FUNDRAISING_STATUS.OPEN },
+        { fundraisingStatus: CAUSE_FUNDRAISING_STATUS.CLOSED, closedAt: now },
+        { new: true }
+      );
+      if (!cause) continue;
+      closedCount++;
+
+      const organization = await Organization.findById(cause.organization);
+      if (organization) {
+        await createNotification(
+          organization.auth.toString(),
+          NOTIFICATION_TYPE.CAUSE_CLOSED,
+          `"${cause.name}" has reached its deadline and is now closed with $${cause.raisedAmount || 0} raised.`,
+          cause._id.toString()
+        );
+      }
+    } catch (error) {
+      errors.push({
+        id: expired._id.toString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { totalProcessed: expiredCauses.length, closedCount, errors };
+};
+
 export const CauseService = {
   createCauseIntoDB,
   getCauseByIdFromDB,
+  getCauseDetailsFromDB,
   getCausesFromDB,
   getCausesByOrganizationFromDB,
   getRaisedCausesByOrganizationFromDB,
@@ -474,4 +740,8 @@ export const CauseService = {
   deleteCauseFromDB,
   getCauseCategoriesFromDB,
   updateCauseStatusIntoDB,
+  updateCoverImagesIntoDB,
+  syncCauseProgress,
+  closeExpiredCausesFromDB,
+  buildCauseProgress,
 };
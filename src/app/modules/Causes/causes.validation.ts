@@ -5,25 +5,57 @@ import {
   causeStatusTypeValues,
 } from './causes.constant';
 
+// Shared fundraising goal & deadline fields
+const fundraisingGoalFields = {
+  goalAmount: z
+    .number()
+    .min(1, { message: 'Goal amount must be at least $1!' })
+    .optional(),
+  startDate: z
+    .string()
+    .datetime({ message: 'Invalid date format!' })
+    .optional(),
+  endDate: z
+    .string()
+    .datetime({ message: 'Invalid date format!' })
+    .optional(),
+};
+
+const isValidFundraisingWindow = (data: {
+  startDate?: string;
+  endDate?: string;
+}) =>
+  !data.startDate ||
+  !data.endDate ||
+  new Date(data.endDate) > new Date(data.startDate);
+
+const fundraisingWindowError = {
+  message: 'End date must be after start date!',
+  path: ['endDate'],
+};
+
 // Create cause schema
 const createCauseSchema = z.object({
-  body: z.object({
-    name: z
-      .string({
-        message: 'Cause name is required!',
-      })
-      .min(1)
-      .max(100),
-    description: z.string().max(500).optional(),
-    category: z.enum(causeCategoryTypeValues as [string, ...string[]], {
-      message: 'Invalid cause category!',
-    }),
-    organizationId: z
-      .string({
-        message: 'Organization ID is required!',
-      })
-      .optional(), // Optional because organization can set their own
-  }),
+  body: z
+    .object({
+      name: z
+        .string({
+          message: 'Cause name is required!',
+        })
+        .min(1)
+        .max(100),
+      description: z.string().max(500).optional(),
+      category: z.enum(causeCategoryTypeValues as [string, ...string[]], {
+        message: 'Invalid cause category!',
+      }),
+      organizationId: z
+        .string({
+          message: 'Organization ID is required!',
+        })
+        .optional(), // Optional because organization can set their own
+      ...fundraisingGoalFields,
+    })
+    .refine(isValidFundraisingWindow, fundraisingWindowError),
 });
 
 // Update cause schema
@@ -37,8 +69,10 @@ const updateCauseSchema = z.object({
           message: 'Invalid cause category!',
         })
         .optional(),
+      ...fundraisingGoalFields,
     })
-    .strict(),
+    .strict()
+    .refine(isValidFundraisingWindow, fundraisingWindowError),
   params: z.object({
     id: z.string({
       message: 'Cause ID is required!',
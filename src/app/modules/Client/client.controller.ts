@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { AppError, asyncHandler, sendResponse } from '../../utils';
 import httpStatus from 'http-status';
 import clientService from './client.service';
+import { TaxStatementService } from '../TaxStatement/taxStatement.service';
 
 const getRoundupStats = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user._id?.toString();
@@ -127,6 +128,46 @@ const updateClientProfile = asyncHandler(
   }
 );
 
+// End-of-financial-year tax statements
+const getMyTaxStatements = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user._id?.toString();
+
+    if (!userId) {
+      throw new AppError(httpStatus.NOT_FOUND, 'User not found!');
+    }
+
+    const result = await TaxStatementService.getMyStatements(userId);
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Tax statements fetched successfully!',
+      data: result,
+    });
+  }
+);
+
+const requestTaxStatement = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user._id?.toString();
+
+    if (!userId) {
+      throw new AppError(httpStatus.NOT_FOUND, 'User not found!');
+    }
+
+    const result = await TaxStatementService.requestMyStatement(
+      userId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Tax statement generated successfully!',
+      data: result,
+    });
+  }
+);
+
 export const clientController = {
   getRoundupStats,
   getOnetimeDonationStats,
@@ -134,4 +175,6 @@ export const clientController = {
   getUserRecurringDonationsForSpecificOrganization,
   getUnifiedHistory,
   updateClientProfile,
+  getMyTaxStatements,
+  requestTaxStatement,
 };
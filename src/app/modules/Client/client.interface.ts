@@ -13,6 +13,8 @@ export interface IClient extends Document {
   phoneNumber: string;
 
   image: string;
+  donateAnonymously: boolean; // Default anonymity for new donations
+  displayCurrency: string; // Currency the donor enters and sees amounts in
 
   // phoneNumber: string;
 }
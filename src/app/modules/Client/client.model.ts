@@ -1,6 +1,8 @@
 import { IClient } from './client.interface';
 import { Schema, model } from 'mongoose';
 import { defaultUserImage } from '../Auth/auth.constant';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
+import { SUPPORTED_CURRENCIES } from '../FxRate/fxRate.constant';
 
 const clientSchema = new Schema<IClient>(
   {
@@ -36,6 +38,17 @@ const clientSchema = new Schema<IClient>(
     phoneNumber: {
       type: String,
     },
+
+    // Hide identity from organizations, admins and public pages by default
+    donateAnonymously: {
+      type: Boolean,
+      default: false,
+    },
+    displayCurrency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      default: DEFAULT_CURRENCY,
+    },
   },
   { timestamps: true, versionKey: false }
 );
@@ -49,4 +49,18 @@ router.patch(
   clientController.updateClientProfile
 );
 
+// End-of-financial-year tax statements
+router.get(
+  '/tax-statements',
+  auth(ROLE.CLIENT),
+  clientController.getMyTaxStatements
+);
+
+router.post(
+  '/tax-statements',
+  auth(ROLE.CLIENT),
+  validateRequest(clientValidationSchema.requestTaxStatementSchema),
+  clientController.requestTaxStatement
+);
+
 export const clientRoutes = router;
@@ -391,7 +391,13 @@ export const getRecurringDonationStats = async (userId: string) => {
   const currentWeek = getDateRanges('this_week');
 
   const result = await Donation.aggregate([
-    { $match: { donor: client._id, donationType: 'recurring' } },
+    {
+      $match: {
+        donor: client._id,
+        donationType: 'recurring',
+        isMatchingGift: { $ne: true },
+      },
+    },
     {
       $facet: {
         todaysRecurringAmount: [
@@ -506,6 +512,7 @@ export const getUserRecurringDonationsForSpecificOrganization = async (
       donor: client?._id,
       organization: organization?._id,
       donationType: 'recurring',
+      isMatchingGift: { $ne: true },
     })
       .populate<{ scheduledDonationId: IScheduledDonation }>(
         'scheduledDonationId',
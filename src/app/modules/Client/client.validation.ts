@@ -1,5 +1,6 @@
 import z from 'zod';
 import { auth } from '../../middlewares';
+import { currencySchema } from '../FxRate/fxRate.validation';
 
 const getUserRecurringDonationsForSpecificOrganizationSchema = z.object({
   query: z.object({
@@ -23,6 +24,19 @@ const updateClientProfileSchema = z.object({
     state: z.string().optional(),
     postalCode: z.string().optional(),
     phoneNumber: z.string().optional(),
+    donateAnonymously: z.boolean().optional(),
+    displayCurrency: currencySchema.optional(),
+  }),
+});
+
+// Income year the statement covers (e.g. 2026 = July 2025 - June 2026)
+const requestTaxStatementSchema = z.object({
+  body: z.object({
+    financialYear: z
+      .number()
+      .int({ message: 'Financial year must be a whole year!' })
+      .optional(),
+    sendEmail: z.boolean().optional().default(false),
   }),
 });
 
@@ -30,4 +44,5 @@ export const clientValidationSchema = {
   getUserRecurringDonationsForSpecificOrganizationSchema,
   getHistorySchema,
   updateClientProfileSchema,
+  requestTaxStatementSchema,
 };
@@ -0,0 +1,26 @@
+export const DISPUTE_STATUS = {
+  NEEDS_RESPONSE: 'needs_response', // Evidence due to Stripe
+  UNDER_REVIEW: 'under_review', // Evidence submitted, bank deciding
+  WON: 'won', // Funds reinstated
+  LOST: 'lost', // Funds returned to the cardholder
+  CLOSED: 'closed', // Inquiry closed without a chargeback
+} as const;
+
+export const DISPUTE_STATUS_VALUES = Object.values(DISPUTE_STATUS);
+
+// Stripe dispute status -> our status
+export const STRIPE_DISPUTE_STATUS_MAP: Record<
+  string,
+  (typeof DISPUTE_STATUS)[keyof typeof DISPUTE_STATUS]
+> = {
+  warning_needs_response: DISPUTE_STATUS.NEEDS_RESPONSE,
+  needs_response: DISPUTE_STATUS.NEEDS_RESPONSE,
+  warning_under_review: DISPUTE_STATUS.UNDER_REVIEW,
+  under_review: DISPUTE_STATUS.UNDER_REVIEW,
+  won: DISPUTE_STATUS.WON,
+  lost: DISPUTE_STATUS.LOST,
+  warning_closed: DISPUTE_STATUS.CLOSED,
+};
+
+// Donor history included in an evidence package
+export const EVIDENCE_RECENT_DONATIONS_LIMIT = 10;
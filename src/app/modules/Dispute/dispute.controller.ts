@@ -0,0 +1,83 @@
+import httpStatus from 'http-status';
+import { Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { DisputeService } from './dispute.service';
+
+// 1. List disputes
+const getDisputes = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    const role = req.user?.role;
+    if (!userId || !role) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DisputeService.getDisputes(
+      userId,
+      role,
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Disputes retrieved successfully',
+      data: result.disputes,
+      meta: result.meta,
+    });
+  }
+);
+
+// 2. Get dispute by ID
+const getDisputeById = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    const role = req.user?.role;
+    if (!userId || !role) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DisputeService.getDisputeById(
+      userId,
+      role,
+      req.params.id.toString()
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Dispute retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 3. Collect (and optionally submit) evidence
+const collectEvidence = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DisputeService.collectEvidence(
+      userId,
+      req.params.id.toString(),
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: req.body.submit
+        ? 'Dispute evidence submitted successfully'
+        : 'Dispute evidence collected successfully',
+      data: result,
+    });
+  }
+);
+
+export const DisputeController = {
+  getDisputes,
+  getDisputeById,
+  collectEvidence,
+};
@@ -0,0 +1,39 @@
+import { Document, Types } from 'mongoose';
+import { DISPUTE_STATUS } from './dispute.constant';
+
+export type TDisputeStatus =
+  (typeof DISPUTE_STATUS)[keyof typeof DISPUTE_STATUS];
+
+export interface IDispute {
+  // One record per donation on the disputed charge (baskets have several)
+  donation: Types.ObjectId;
+  organization: Types.ObjectId;
+  donor: Types.ObjectId;
+
+  stripeDisputeId: string;
+  stripeChargeId: string;
+  stripePaymentIntentId: string;
+
+  amount: number; // This donation's share of the disputed amount
+  currency: string;
+  reason: string;
+  status: TDisputeStatus;
+  stripeStatus: string;
+  evidenceDueBy?: Date;
+
+  // Side effects, tracked so replayed events apply them once
+  fundsWithdrawn: number; // Debited from the organization's ledger
+  pointsHeld: number;
+
+  evidence?: Record<string, unknown>; // Last package built by an admin
+  evidenceCollectedAt?: Date;
+  evidenceCollectedBy?: Types.ObjectId;
+  evidenceSubmittedAt?: Date;
+
+  closedAt?: Date;
+}
+
+export interface IDisputeModel extends IDispute, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
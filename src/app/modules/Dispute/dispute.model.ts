@@ -0,0 +1,101 @@
+import { Schema, model } from 'mongoose';
+import { IDisputeModel } from './dispute.interface';
+import { DISPUTE_STATUS, DISPUTE_STATUS_VALUES } from './dispute.constant';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
+
+const disputeSchema = new Schema<IDisputeModel>(
+  {
+    donation: {
+      type: Schema.Types.ObjectId,
+      ref: 'Donation',
+      required: true,
+      index: true,
+    },
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+      index: true,
+    },
+    donor: {
+      type: Schema.Types.ObjectId,
+      ref: 'Client',
+      required: true,
+    },
+
+    stripeDisputeId: {
+      type: String,
+      required: true,
+    },
+    stripeChargeId: {
+      type: String,
+      required: true,
+    },
+    stripePaymentIntentId: {
+      type: String,
+      required: true,
+    },
+
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      default: DEFAULT_CURRENCY,
+    },
+    reason: {
+      type: String,
+      default: 'general',
+    },
+    status: {
+      type: String,
+      enum: DISPUTE_STATUS_VALUES,
+      default: DISPUTE_STATUS.NEEDS_RESPONSE,
+    },
+    stripeStatus: {
+      type: String,
+      required: true,
+    },
+    evidenceDueBy: {
+      type: Date,
+    },
+
+    fundsWithdrawn: {
+      type: Number,
+      default: 0,
+    },
+    pointsHeld: {
+      type: Number,
+      default: 0,
+    },
+
+    evidence: {
+      type: Schema.Types.Mixed,
+    },
+    evidenceCollectedAt: {
+      type: Date,
+    },
+    evidenceCollectedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+    },
+    evidenceSubmittedAt: {
+      type: Date,
+    },
+
+    closedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+disputeSchema.index({ stripeDisputeId: 1, donation: 1 }, { unique: true });
+disputeSchema.index({ status: 1, evidenceDueBy: 1 });
+
+export const Dispute = model<IDisputeModel>('Dispute', disputeSchema);
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { DisputeController } from './dispute.controller';
+import { DisputeValidation } from './dispute.validation';
+
+const router = Router();
+
+// 1. List disputes (admin: all, organization: own)
+router.get(
+  '/',
+  auth(ROLE.ADMIN, ROLE.ORGANIZATION),
+  validateRequest(DisputeValidation.getDisputesSchema),
+  DisputeController.getDisputes
+);
+
+// 2. Collect evidence for submission (admin)
+router.post(
+  '/:id/evidence',
+  auth(ROLE.ADMIN),
+  validateRequest(DisputeValidation.collectEvidenceSchema),
+  DisputeController.collectEvidence
+);
+
+// 3. Get dispute by ID
+router.get(
+  '/:id',
+  auth(ROLE.ADMIN, ROLE.ORGANIZATION),
+  validateRequest(DisputeValidation.disputeIdParamsSchema),
+  DisputeController.getDisputeById
+);
+
+export const DisputeRoutes = router;
@@ -0,0 +1,488 @@
+/* eslint-disable no-console */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+import Stripe from 'stripe';
+
+import { AppError } from '../../utils';
+import QueryBuilder from '../../builders/QueryBuilder';
+import Auth from '../Auth/auth.model';
+import { ROLE } from '../Auth/auth.constant';
+import Client from '../Client/client.model';
+import Organization from '../Organization/organization.model';
+import { Donation } from '../Donation/donation.model';
+import { BalanceService } from '../Balance/balance.service';
+import { pointsServices } from '../Points/points.service';
+import { badgeService } from '../badge/badge.service';
+import { CauseService } from '../Causes/causes.service';
+import { FundraiserService } from '../Fundraiser/fundraiser.service';
+import { PledgeService } from '../Pledge/pledge.service';
+import { MatchingCampaignService } from '../MatchingCampaign/matchingCampaign.service';
+import { Receipt } from '../Receipt/receipt.model';
+import { receiptServices } from '../Receipt/receipt.service';
+import { StripeService } from '../Stripe/stripe.service';
+import { createNotification } from '../Notification/notification.service';
+import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
+import { Dispute } from './dispute.model';
+import { IDisputeModel } from './dispute.interface';
+import {
+  DISPUTE_STATUS,
+  EVIDENCE_RECENT_DONATIONS_LIMIT,
+  STRIPE_DISPUTE_STATUS_MAP,
+} from './dispute.constant';
+import { TCollectEvidencePayload } from './dispute.validation';
+
+const mapStatus = (stripeStatus: string) =>
+  STRIPE_DISPUTE_STATUS_MAP[stripeStatus] || DISPUTE_STATUS.NEEDS_RESPONSE;
+
+const notifyAdmins = async (message: string, relatedId: string) => {
+  const admins = await Auth.find({ role: ROLE.ADMIN }).select('_id');
+  await Promise.all(
+    admins.map((admin) =>
+      createNotification(
+        admin._id.toString(),
+        NOTIFICATION_TYPE.DISPUTE_OPENED,
+        message,
+        relatedId
+      )
+    )
+  );
+};
+
+// Donations paid by the disputed charge (several for a giving basket)
+const findDisputedDonations = async (stripeDispute: Stripe.Dispute) => {
+  const paymentIntentId =
+    typeof stripeDispute.payment_intent === 'string'
+      ? stripeDispute.payment_intent
+      : stripeDispute.payment_intent?.id;
+  if (!paymentIntentId) return { paymentIntentId: '', donations: [] };
+
+  const donations = await Donation.find({
+    stripePaymentIntentId: paymentIntentId,
+    isMatchingGift: { $ne: true },
+  });
+
+  return { paymentIntentId, donations };
+};
+
+// 1. charge.dispute.created: record it, withdraw funds, hold points
+const handleDisputeCreated = async (stripeDispute: Stripe.Dispute) => {
+  const { paymentIntentId, donations } =
+    await findDisputedDonations(stripeDispute);
+  if (donations.length === 0) {
+    console.warn(
+      `⚠️ No donation found for dispute ${stripeDispute.id} (PI: ${paymentIntentId})`
+    );
+    return;
+  }
+
+  const disputedAmount = stripeDispute.amount / 100;
+  const chargeAmount = donations.reduce(
+    (sum, donation) => sum + donation.totalAmount,
+    0
+  );
+
+  for (const donation of donations) {
+    const donationId = donation._id!.toString();
+    const share = chargeAmount > 0 ? donation.totalAmount / chargeAmount : 1;
+
+    // Keyed on the Stripe dispute so a replayed event is a no-op
+    const existing = await Dispute.findOne({
+      stripeDisputeId: stripeDispute.id,
+      donation: donation._id,
+    });
+    if (existing) continue;
+
+    const dispute = await Dispute.create({
+      donation: donation._id,
+      organization: donation.organization,
+      donor: donation.donor,
+      stripeDisputeId: stripeDispute.id,
+      stripeChargeId:
+        typeof stripeDispute.charge === 'string'
+          ? stripeDispute.charge
+          : stripeDispute.charge.id,
+      stripePaymentIntentId: paymentIntentId,
+      amount: Number((disputedAmount * share).toFixed(2)),
+      currency: stripeDispute.currency.toUpperCase(),
+      reason: stripeDispute.reason,
+      status: mapStatus(stripeDispute.status),
+      stripeStatus: stripeDispute.status,
+      evidenceDueBy: stripeDispute.evidence_details?.due_by
+        ? new Date(stripeDispute.evidence_details.due_by * 1000)
+        : undefined,
+    });
+    const disputeId = dispute._id!.toString();
+
+    // The organization's share of what the bank pulled back
+    const fundsWithdrawn = Number(
+      Math.min(
+        donation.netAmount,
+        (donation.netAmount * dispute.amount) / (donation.totalAmount || 1)
+      ).toFixed(2)
+    );
+    try {
+      await BalanceService.logDisputeTransaction(
+        donation.organization.toString(),
+        donationId,
+        disputeId,
+        fundsWithdrawn,
+        'debit'
+      );
+      dispute.fundsWithdrawn = fundsWithdrawn;
+    } catch (err: any) {
+      console.error(`❌ Failed to log disputed funds:`, err.message);
+    }
+
+    try {
+      dispute.pointsHeld = await pointsServices.holdPoints(
+        donation.donor,
+        (donation.pointsEarned || 0) - (donation.pointsReversed || 0)
+      );
+    } catch (err: any) {
+      console.error(`❌ Failed to hold donor points:`, err.message);
+    }
+    await dispute.save();
+
+    const message = `A $${dispute.amount.toFixed(2)} donation has been disputed by the cardholder (${dispute.reason}).`;
+    try {
+      const organization = await Organization.findById(donation.organization);
+      if (organization) {
+        await createNotification(
+          organization.auth.toString(),
+          NOTIFICATION_TYPE.DISPUTE_OPENED,
+          message,
+          disputeId
+        );
+      }
+      await notifyAdmins(message, disputeId);
+    } catch (err: any) {
+      console.error(`❌ Dispute notification failed:`, err.message);
+    }
+
+    console.log(`⚠️ Dispute ${stripeDispute.id} recorded for ${donationId}`);
+  }
+};
+
+// 2. charge.dispute.updated: keep status and deadline in sync
+const handleDisputeUpdated = async (stripeDispute: Stripe.Dispute) => {
+  await Dispute.updateMany(
+    { stripeDisputeId: stripeDispute.id, closedAt: { $exists: false } },
+    {
+      status: mapStatus(stripeDispute.status),
+      stripeStatus: stripeDispute.status,
+      ...(stripeDispute.evidence_details?.due_by && {
+        evidenceDueBy: new Date(stripeDispute.evidence_details.due_by * 1000),
+      }),
+    }
+  );
+};
+
+// Settle one closed dispute record against its donation
+const settleClosedDispute = async (
+  dispute: IDisputeModel,
+  stripeStatus: string
+) => {
+  const status = mapStatus(stripeStatus);
+  const disputeId = dispute._id!.toString();
+  const donationId = dispute.donation.toString();
+
+  // Claim the close so a replayed event settles once
+  const claimed = await Dispute.findOneAndUpdate(
+    { _id: dispute._id, closedAt: { $exists: false } },
+    { status, stripeStatus, closedAt: new Date() },
+    { new: true }
+  );
+  if (!claimed) return;
+
+  if (dispute.pointsHeld > 0) {
+    await pointsServices.releaseHeldPoints(dispute.donor, dispute.pointsHeld);
+  }
+
+  if (status !== DISPUTE_STATUS.LOST) {
+    // Won (or inquiry closed): the organization gets the funds back
+    if (dispute.fundsWithdrawn > 0) {
+      await BalanceService.logDisputeTransaction(
+        dispute.organization.toString(),
+        donationId,
+        disputeId,
+        dispute.fundsWithdrawn,
+        'credit'
+      );
+    }
+    return;
+  }
+
+  // Lost: the gift is gone, unwind it like a refund
+  const donation = await Donation.findByIdAndUpdate(
+    donationId,
+    { status: 'charged_back' },
+    { new: true }
+  ).populate<{ donor: { _id: Types.ObjectId; auth: Types.ObjectId } }>(
+    'donor',
+    'auth'
+  );
+  if (!donation) return;
+
+  const pointsToReverse =
+    (donation.pointsEarned || 0) - (donation.pointsReversed || 0);
+  if (pointsToReverse > 0) {
+    const reversed = await pointsServices.reversePointsForRefund(
+      donation.donor._id,
+      donationId,
+      pointsToReverse,
+      dispute.amount,
+      donation.donor.auth
+    );
+    await Donation.findByIdAndUpdate(donationId, {
+      $inc: { pointsReversed: reversed },
+    });
+  }
+
+  const keptAmount = donation.amount - (donation.refundedAmount || 0);
+  await badgeService.reverseBadgeProgressForRefund(
+    donationId,
+    keptAmount,
+    true
+  );
+  await MatchingCampaignService.releaseMatchForDonation(donationId);
+  if (donation.cause) await CauseService.syncCauseProgress(donation.cause);
+  if (donation.fundraiser) {
+    await FundraiserService.syncFundraiserProgress(donation.fundraiser);
+  }
+  if (donation.pledge) await PledgeService.syncPledgeProgress(donation.pledge);
+};
+
+// 3. charge.dispute.closed: won, lost or inquiry closed
+const handleDisputeClosed = async (stripeDispute: Stripe.Dispute) => {
+  const disputes = await Dispute.find({ stripeDisputeId: stripeDispute.id });
+
+  for (const dispute of disputes) {
+    try {
+      await settleClosedDispute(dispute, stripeDispute.status);
+
+      const organization = await Organization.findById(dispute.organization);
+      if (organization) {
+        await createNotification(
+          organization.auth.toString(),
+          NOTIFICATION_TYPE.DISPUTE_CLOSED,
+          stripeDispute.status === 'lost'
+            ? `A disputed $${dispute.amount.toFixed(2)} donation was lost and returned to the cardholder.`
+            : `A disputed $${dispute.amount.toFixed(2)} donation was resolved in your favour.`,
+          dispute._id!.toString()
+        );
+      }
+    } catch (err: any) {
+      console.error(`❌ Failed to settle dispute ${dispute._id}:`, err.message);
+    }
+  }
+};
+
+// 4. List disputes (admins see all, organizations their own)
+const getDisputes = async (
+  userId: string,
+  role: string,
+  query: Record<string, unknown>
+) => {
+  const filter: Record<string, unknown> = {};
+  if (role === ROLE.ORGANIZATION) {
+    const organization = await Organization.findOne({ auth: userId });
+    if (!organization) {
+      throw new AppError(httpStatus.NOT_FOUND, 'Organization not found!');
+    }
+    filter.organization = organization._id;
+  }
+
+  const disputeQuery = new QueryBuilder<IDisputeModel>(
+    Dispute.find(filter)
+      .select('-evidence')
+      .populate('donation', 'amount totalAmount donationType donationDate')
+      .populate('organization', 'name'),
+    query
+  )
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const disputes = await disputeQuery.modelQuery;
+  const meta = await disputeQuery.countTotal();
+
+  return { disputes, meta };
+};
+
+// 5. Get dispute by ID
+const getDisputeById = async (
+  userId: string,
+  role: string,
+  disputeId: string
+) => {
+  const dispute = await Dispute.findById(disputeId)
+    .populate('donation')
+    .populate('organization', 'name auth');
+  if (!dispute) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Dispute not found!');
+  }
+
+  if (role === ROLE.ORGANIZATION) {
+    const organization = dispute.organization as unknown as {
+      auth: Types.ObjectId;
+    };
+    if (organization.auth.toString() !== userId) {
+      throw new AppError(httpStatus.FORBIDDEN, 'Permission denied');
+    }
+  }
+
+  return dispute;
+};
+
+// 6. Admin: package receipt, donation metadata and donor history
+const collectEvidence = async (
+  adminAuthId: string,
+  disputeId: string,
+  payload: TCollectEvidencePayload
+) => {
+  const dispute = await Dispute.findById(disputeId);
+  if (!dispute) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Dispute not found!');
+  }
+
+  const donation = await Donation.findById(dispute.donation)
+    .populate<{ cause: { name: string } }>('cause', 'name')
+    .populate<{ organization: { name: string } }>('organization', 'name');
+  if (!donation) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Donation not found!');
+  }
+
+  const donor = await Client.findById(dispute.donor).populate<{
+    auth: { email: string; createdAt: Date };
+  }>('auth', 'email createdAt');
+  if (!donor) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+  }
+
+  // Receipt PDF with a fresh signed link
+  const receiptDoc = donation.receiptId
+    ? await Receipt.findById(donation.receiptId).select('receiptNumber')
+    : null;
+  const receipt = receiptDoc
+    ? {
+        receiptNumber: receiptDoc.receiptNumber,
+        pdfUrl: await receiptServices.regenerateReceiptURL(
+          receiptDoc._id!.toString()
+        ),
+      }
+    : null;
+
+  const [history] = await Donation.aggregate([
+    { $match: { donor: donor._id, isMatchingGift: { $ne: true } } },
+    {
+      $group: {
+        _id: null,
+        completedCount: {
+          $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] },
+        },
+        completedAmount: {
+          $sum: {
+            $cond: [{ $eq: ['$status', 'completed'] }, '$amount', 0],
+          },
+        },
+        refundedCount: {
+          $sum: { $cond: [{ $gt: ['$refundedAmount', 0] }, 1, 0] },
+        },
+        firstDonationAt: { $min: '$donationDate' },
+      },
+    },
+  ]);
+
+  const [recentDonations, previousDisputes] = await Promise.all([
+    Donation.find({
+      donor: donor._id,
+      _id: { $ne: donation._id },
+      status: 'completed',
+      isMatchingGift: { $ne: true },
+    })
+      .sort({ donationDate: -1 })
+      .limit(EVIDENCE_RECENT_DONATIONS_LIMIT)
+      .select('amount currency donationType donationDate'),
+    Dispute.countDocuments({
+      donor: donor._id,
+      _id: { $ne: dispute._id },
+    }),
+  ]);
+
+  const evidence = {
+    receipt,
+    donation: {
+      id: donation._id,
+      amount: donation.amount,
+      totalAmount: donation.totalAmount,
+      currency: donation.currency,
+      donationType: donation.donationType,
+      donationDate: donation.donationDate,
+      organization: donation.organization?.name,
+      cause: donation.cause?.name,
+      specialMessage: donation.specialMessage,
+      stripePaymentIntentId: donation.stripePaymentIntentId,
+      stripeChargeId: dispute.stripeChargeId,
+      metadata: donation.metadata,
+    },
+    donor: {
+      name: donor.name,
+      email: donor.auth?.email,
+      memberSince: donor.auth?.createdAt,
+      completedDonations: history?.completedCount || 0,
+      completedAmount: Number((history?.completedAmount || 0).toFixed(2)),
+      refundedDonations: history?.refundedCount || 0,
+      firstDonationAt: history?.firstDonationAt,
+      previousDisputes,
+      recentDonations,
+    },
+    notes: payload.notes,
+  };
+
+  dispute.evidence = evidence;
+  dispute.evidenceCollectedAt = new Date();
+  dispute.evidenceCollectedBy = new Types.ObjectId(adminAuthId);
+
+  if (payload.submit) {
+    const serviceDate = new Date(donation.donationDate)
+      .toISOString()
+      .slice(0, 10);
+
+    await StripeService.updateDisputeEvidence(
+      dispute.stripeDisputeId,
+      {
+        customer_name: donor.name,
+        customer_email_address: donor.auth?.email,
+        product_description: `Donation to ${evidence.donation.organization || 'a registered charity'}${evidence.donation.cause ? ` (${evidence.donation.cause})` : ''}`,
+        service_date: serviceDate,
+        uncategorized_text: [
+          receipt
+            ? `Receipt ${receipt.receiptNumber}: ${receipt.pdfUrl}`
+            : 'No receipt issued.',
+          `Donor since ${evidence.donor.memberSince?.toISOString().slice(0, 10) || 'unknown'} with ${evidence.donor.completedDonations} completed donations totalling $${evidence.donor.completedAmount}.`,
+          `Previous disputes: ${previousDisputes}. Refunded donations: ${evidence.donor.refundedDonations}.`,
+          payload.notes,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+      },
+      true
+    );
+    dispute.evidenceSubmittedAt = new Date();
+    dispute.status = DISPUTE_STATUS.UNDER_REVIEW;
+  }
+
+  await dispute.save();
+  return dispute;
+};
+
+export const DisputeService = {
+  handleDisputeCreated,
+  handleDisputeUpdated,
+  handleDisputeClosed,
+  getDisputes,
+  getDisputeById,
+  collectEvidence,
+};
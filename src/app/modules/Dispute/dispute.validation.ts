@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { DISPUTE_STATUS_VALUES } from './dispute.constant';
+
+// 1. Dispute ID params schema
+const disputeIdParamsSchema = z.object({
+  params: z.object({
+    id: z
+      .string({
+        error: 'Dispute ID is required!',
+      })
+      .min(1, { message: 'Dispute ID is required!' }),
+  }),
+});
+
+// 2. List disputes schema
+const getDisputesSchema = z.object({
+  query: z.object({
+    status: z.enum(DISPUTE_STATUS_VALUES as [string, ...string[]]).optional(),
+    page: z.string().optional(),
+    limit: z.string().optional(),
+    sort: z.string().optional(),
+  }),
+});
+
+// 3. Collect (and optionally submit) evidence schema
+const collectEvidenceSchema = z.object({
+  params: disputeIdParamsSchema.shape.params,
+  body: z.object({
+    // Also send the package to Stripe and close the evidence window
+    submit: z.boolean().optional().default(false),
+
+    notes: z
+      .string()
+      .max(2000, { message: 'Notes must be less than 2000 characters!' })
+      .optional(),
+  }),
+});
+
+export const DisputeValidation = {
+  disputeIdParamsSchema,
+  getDisputesSchema,
+  collectEvidenceSchema,
+};
+
+export type TCollectEvidencePayload = z.infer<
+  typeof collectEvidenceSchema
+>['body'];
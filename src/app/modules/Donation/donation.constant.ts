@@ -1,4 +1,5 @@
 import config from '../../config';
+import { IFeeRates } from '../FeeSchedule/feeSchedule.interface';
 
 export const DONATION_STATUS = [
   'pending',
@@ -9,12 +10,64 @@ export const DONATION_STATUS = [
   'canceled',
   'refunding',
   'renewed',
+  'charged_back', // Dispute lost - funds returned to the cardholder
 ] as const;
 
 export const DONATION_TYPE = ['one-time', 'recurring', 'round-up'] as const;
 
 export const DEFAULT_CURRENCY = 'USD';
 
+// Online gifts go through Stripe; offline ones are recorded by the organization
+export const PAYMENT_CHANNEL = ['online', 'offline'] as const;
+
+export const OFFLINE_PAYMENT_METHOD = [
+  'cash',
+  'bank_transfer',
+  'cheque',
+  'other',
+] as const;
+
+// Shown on receipts as the payment method
+export const OFFLINE_PAYMENT_METHOD_LABEL: Record<
+  (typeof OFFLINE_PAYMENT_METHOD)[number],
+  string
+> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank Transfer',
+  cheque: 'Cheque',
+  other: 'Offline',
+};
+
+// Anonymous giving: identity shown to organizations, admins and public pages
+export const ANONYMOUS_DONOR_NAME = 'Anonymous';
+
+export const ANONYMOUS_DONOR = {
+  _id: 'anonymous',
+  name: ANONYMOUS_DONOR_NAME,
+  email: '',
+  image: undefined,
+  isAnonymous: true,
+};
+
+// Donor wall moderation of specialMessage
+export const MESSAGE_STATUS = {
+  PENDING: 'pending', // Not reviewed yet (messages from before the wall)
+  APPROVED: 'approved', // Visible on the donor wall
+  HELD: 'held', // Caught by the profanity / abuse filter
+  HIDDEN: 'hidden', // Hidden by the organization
+} as const;
+
+export const MESSAGE_STATUS_VALUES = Object.values(MESSAGE_STATUS);
+
+// Tribute donations ("in honour of" / "in memory of")
+export const TRIBUTE_TYPE = ['in_honour', 'in_memory'] as const;
+
+export const TRIBUTE_TYPE_LABEL: Record<(typeof TRIBUTE_TYPE)[number], string> =
+  {
+    in_honour: 'In honour of',
+    in_memory: 'In memory of',
+  };
+
 // Recurring donation frequency options
 export const RECURRING_FREQUENCY = [
   'daily',
@@ -23,6 +76,7 @@ export const RECURRING_FREQUENCY = [
   'quarterly',
   'yearly',
   'custom',
+  'hijri', // Follows a Hijri calendar rule (see hijriRule)
 ] as const;
 
 // Round-up threshold options
@@ -63,6 +117,16 @@ export const monthAbbreviations = [
   'DEC',
 ];
 
+/**
+ * Platform-wide rates from config, used when no fee schedule applies
+ */
+export const getDefaultFeeRates = (): IFeeRates => ({
+  platformFeePercent: Number(config.paymentSetting.platformFeePercent) || 0.05,
+  gstPercentage: Number(config.paymentSetting.gstPercentage) || 0.1,
+  stripeFeePercent: Number(config.paymentSetting.stripeFeePercent) || 0.029,
+  stripeFixedFee: Number(config.paymentSetting.stripeFixedFee) || 0.3,
+});
+
 /**
  * Calculate Australian Fees
  *
@@ -82,18 +146,20 @@ export const monthAbbreviations = [
  *
  * @param baseAmount - The intended donation amount (e.g., $100)
  * @param coverFees - Whether the donor wants to cover the platform fees (not Stripe fees)
+ * @param rates - Rates from the applicable fee schedule (defaults to config)
  */
 
 export const calculateAustralianFees = (
   baseAmount: number,
-  coverFees: boolean
+  coverFees: boolean,
+  rates: IFeeRates = getDefaultFeeRates()
 ) => {
-  const platformFeePercent =
-    Number(config.paymentSetting.platformFeePercent) || 0.05;
-  const gstRate = Number(config.paymentSetting.gstPercentage) || 0.1;
-  const stripeFeePercent =
-    Number(config.paymentSetting.stripeFeePercent) || 0.029;
-  const stripeFixedFee = Number(config.paymentSetting.stripeFixedFee) || 0.3;
+  const {
+    platformFeePercent,
+    gstPercentage: gstRate,
+    stripeFeePercent,
+    stripeFixedFee,
+  } = rates;
 
   // 1. Calculate Platform Fee + GST (based on baseAmount)
   const platformFee = Number((baseAmount * platformFeePercent).toFixed(2));
@@ -170,3 +236,101 @@ export const getTaxRateDisplay = (): string => {
   const gstRate = Number(config.paymentSetting.gstPercentage) || 0.1;
   return `${(gstRate * 100).toFixed(0)}%`;
 };
+
+/**
+ * Calculate Basket Fees (multi-organization checkout)
+ *
+ * Each line is priced with `calculateAustralianFees` so platform fee and GST
+ * stay identical to a standalone donation. The Stripe fee is then recomputed
+ * once for the combined charge (single fixed fee) and allocated to lines in
+ * proportion to their base amount. The last line absorbs rounding so the line
+ * totals always add up to the amount charged to the card.
+ *
+ * Lines may use different fee schedules; only their platform fee and GST
+ * rates apply, as the single card charge always uses the standard Stripe
+ * rates.
+ *
+ * @param amounts - Base amount of every basket line, in order
+ * @param coverFees - Whether the donor covers the platform fees for all lines
+ * @param lineRates - Fee schedule rates for each line (defaults to config)
+ */
+export const calculateBasketFees = (
+  amounts: number[],
+  coverFees: boolean,
+  lineRates: IFeeRates[] = []
+) => {
+  const { stripeFeePercent, stripeFixedFee } = getDefaultFeeRates();
+
+  // 1. Per-line platform fee + GST
+  const lineFees = amounts.map((amount, index) =>
+    calculateAustralianFees(amount, coverFees, lineRates[index])
+  );
+
+  const baseAmount = Number(
+    amounts.reduce((sum, amount) => sum + amount, 0).toFixed(2)
+  );
+  const applicationFee = Number(
+    lineFees.reduce((sum, fee) => sum + fee.applicationFee, 0).toFixed(2)
+  );
+
+  // 2. One Stripe fee for the whole charge
+  const numerator = coverFees
+    ? baseAmount + applicationFee + stripeFixedFee
+    : baseAmount + stripeFixedFee;
+  const totalCharge = Number((numerator / (1 - stripeFeePercent)).toFixed(2));
+  const stripeFee = Number(
+    (totalCharge * stripeFeePercent + stripeFixedFee).toFixed(2)
+  );
+
+  // 3. Allocate Stripe fee and charge back to each line
+  let allocatedStripeFee = 0;
+  let allocatedCharge = 0;
+
+  const lines = lineFees.map((fee, index) => {
+    const isLast = index === lineFees.length - 1;
+
+    const lineStripeFee = isLast
+      ? Number((stripeFee - allocatedStripeFee).toFixed(2))
+      : Number(((stripeFee * fee.baseAmount) / baseAmount).toFixed(2));
+
+    const lineCharge = isLast
+      ? Number((totalCharge - allocatedCharge).toFixed(2))
+      : Number(
+          (
+            fee.baseAmount +
+            lineStripeFee +
+            (coverFees ? fee.applicationFee : 0)
+          ).toFixed(2)
+        );
+
+    allocatedStripeFee += lineStripeFee;
+    allocatedCharge += lineCharge;
+
+    return {
+      baseAmount: fee.baseAmount,
+      platformFee: fee.platformFee,
+      gstOnFee: fee.gstOnFee,
+      stripeFee: lineStripeFee,
+      applicationFee: fee.applicationFee,
+      totalCharge: lineCharge,
+      netToOrg: Number(
+        (lineCharge - lineStripeFee - fee.applicationFee).toFixed(2)
+      ),
+    };
+  });
+
+  return {
+    baseAmount,
+    platformFee: Number(
+      lineFees.reduce((sum, fee) => sum + fee.platformFee, 0).toFixed(2)
+    ),
+    gstOnFee: Number(
+      lineFees.reduce((sum, fee) => sum + fee.gstOnFee, 0).toFixed(2)
+    ),
+    stripeFee,
+    applicationFee,
+    totalCharge,
+    coverFees,
+    lines,
+  };
+};
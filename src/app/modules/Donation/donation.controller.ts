@@ -315,12 +315,13 @@ const refundDonation = asyncHandler(
       throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
     }
 
-    // Get validated params and body
-    const { id } = req.params;
-    const { reason } = req.body;
-
     // Call service layer
-    const donation = await DonationService.refundDonation(id, userId, reason);
+    const donation = await DonationService.refundDonation(
+      req.params.id.toString(),
+      userId,
+      req.user?.role as string,
+      req.body
+    );
 
     // Send standardized response
     sendResponse(res, {
@@ -464,6 +465,44 @@ const getClientStats = asyncHandler(
   }
 );
 
+// 14. Record an offline (cash / bank transfer) donation
+const recordOfflineDonation = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonationService.recordOfflineDonation(
+      userId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.CREATED,
+      message: 'Offline donation recorded successfully',
+      data: result,
+    });
+  }
+);
+
+// 15. Find a donor by email for offline recording
+const lookupOfflineDonor = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const { email } = (
+      req as ExtendedRequest & { validatedQuery: { email: string } }
+    ).validatedQuery;
+
+    const result = await DonationService.lookupOfflineDonor(email);
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: result ? 'Donor found' : 'No donor found with this email',
+      data: result,
+    });
+  }
+);
+
 export const DonationController = {
   createOneTimeDonation,
 
@@ -485,4 +524,6 @@ export const DonationController = {
 
   // Client Stats
   getClientStats,
+  recordOfflineDonation,
+  lookupOfflineDonor,
 };
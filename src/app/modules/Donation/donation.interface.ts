@@ -1,4 +1,27 @@
 import { Document, Types } from 'mongoose';
+import { IPledgeStats } from '../Pledge/pledge.interface';
+import { IAppliedFeeSchedule } from '../FeeSchedule/feeSchedule.interface';
+import { MESSAGE_STATUS } from './donation.constant';
+
+// Tribute block shared by one-time and scheduled donations
+export interface ITribute {
+  tributeType: 'in_honour' | 'in_memory';
+  honoreeName: string;
+  recipientName?: string;
+  recipientEmail?: string; // Receives the e-card once payment succeeds
+  message?: string;
+  ecardSentAt?: Date;
+}
+
+export type TMessageStatus =
+  (typeof MESSAGE_STATUS)[keyof typeof MESSAGE_STATUS];
+
+// Organization's public reply to a donor message
+export interface IMessageReply {
+  message: string;
+  repliedBy: Types.ObjectId; // Auth of the organization user
+  repliedAt: Date;
+}
 
 export interface IDonation {
   donor: Types.ObjectId;
@@ -14,8 +37,11 @@ export interface IDonation {
   stripeFee: number; // ✅ NEW: Stripe Transaction Fee (e.g. 1.75% + 30c)
   netAmount: number; // The clean amount credited to the Organization
   totalAmount: number; // The actual charge to the card
+  feeSchedule?: IAppliedFeeSchedule; // Rates the fees above were priced with
 
-  currency: string;
+  currency: string; // Original (charged) currency
+  settlementCurrency?: string; // Organization's settlement currency
+  exchangeRate?: number; // FX table rate: 1 unit of currency in settlement
   status:
     | 'pending'
     | 'processing'
@@ -23,7 +49,8 @@ export interface IDonation {
     | 'failed'
     | 'refunded'
     | 'canceled'
-    | 'refunding';
+    | 'refunding'
+    | 'charged_back';
   donationDate: Date;
   stripePaymentIntentId?: string;
   stripePaymentMethodId?: string;
@@ -31,13 +58,51 @@ export interface IDonation {
   stripeSessionId?: string;
   stripeCustomerId?: string;
   specialMessage?: string;
+  tribute?: ITribute;
+  isAnonymous?: boolean; // Hide donor identity on public supporter lists
+
+  // Donor wall moderation (set automatically when a message is written)
+  messageStatus?: TMessageStatus;
+  messageFlags?: string[]; // Filter matches, shown to moderators only
+  messageModeratedBy?: Types.ObjectId;
+  messageModeratedAt?: Date;
+  messageReply?: IMessageReply;
   refundReason?: string;
+  refundedAmount?: number; // Settled refunds, in gift (not charge) terms
+  pendingRefundAmount?: number; // Requested, waiting for charge.refunded
+  refundRequestedBy?: Types.ObjectId; // Auth of the last refund requester
+  pointsReversed?: number; // Share of pointsEarned claimed back so far
   pointsEarned: number;
 
   // Additional fields for recurring and round-up donations
   scheduledDonationId?: Types.ObjectId;
+  retryAttempt?: number; // Set when charged as a retry of a failed instalment
   roundUpId?: Types.ObjectId;
   roundUpTransactionIds?: Types.ObjectId[];
+
+  // Giving basket (multi-organization checkout)
+  basket?: Types.ObjectId;
+  basketLineId?: Types.ObjectId;
+  stripeTransferId?: string;
+
+  // Peer-to-peer fundraiser the gift was made through
+  fundraiser?: Types.ObjectId;
+
+  // Pledge this gift pays towards
+  pledge?: Types.ObjectId;
+
+  // Offline gifts (cash, bank transfer) recorded by the organization
+  paymentChannel: 'online' | 'offline';
+  offlineMethod?: 'cash' | 'bank_transfer' | 'cheque' | 'other';
+  offlineReference?: string; // Bank reference, cheque number, etc.
+  recordedBy?: Types.ObjectId; // Auth of the organization user
+
+  // Matching-gift campaigns
+  matchingCampaign?: Types.ObjectId;
+  matchedDonation?: Types.ObjectId; // Original <-> matched gift link
+  isMatchingGift?: boolean; // True on the sponsor-funded gift
+  matchedAmount?: number; // Set on the original donation
+
   receiptGenerated: boolean;
   receiptId?: Types.ObjectId;
 
@@ -94,6 +159,16 @@ export interface ICheckoutSessionRequest {
   coverFees?: boolean;
 }
 
+// Hijri recurrence rule of a scheduled donation (frequency 'hijri')
+export interface IHijriRecurrenceRule {
+  type: 'last_nights' | 'weekday' | 'annual';
+  month: number; // 1 = Muharram ... 12 = Dhu al-Hijjah
+  nights?: number; // last_nights: how many of the month's last nights
+  weekday?: number; // weekday: 0 = Sunday ... 6 = Saturday
+  day?: number; // annual: day of the Hijri month
+  timeOfDay?: string; // 'HH:mm' in the plan's timezone
+}
+
 /**
  * ScheduledDonation interface
  */
@@ -109,25 +184,71 @@ export interface IScheduledDonation {
   currency: string;
   cause: Types.ObjectId;
   specialMessage?: string;
+  tribute?: ITribute;
+  isAnonymous?: boolean; // Copied onto every executed donation
 
   // Payment Information
   stripeCustomerId: string;
   paymentMethod: Types.ObjectId;
 
   // Scheduling Configuration
-  frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
+  frequency:
+    | 'daily'
+    | 'weekly'
+    | 'monthly'
+    | 'quarterly'
+    | 'yearly'
+    | 'custom'
+    | 'hijri';
   customInterval?: {
     value: number;
     unit: 'days' | 'weeks' | 'months';
   };
+  hijriRule?: IHijriRecurrenceRule;
+  timezone?: string; // IANA zone the schedule runs in
   startDate: Date;
   nextDonationDate: Date;
-  status?: 'active' | 'processing' | 'paused';
+  status?: 'active' | 'processing' | 'past_due' | 'paused' | 'completed';
+  pausedReason?: 'donor' | 'payment_failed';
+
+  // Limits (whichever comes first completes the plan)
+  endDate?: Date; // No payments after this date
+  maxOccurrences?: number; // Stop after this many successful payments
+  completedAt?: Date;
+  completedReason?: 'end_date' | 'max_occurrences';
+
+  // Annual escalation ("increase by 5% each year")
+  escalation?: {
+    percent: number; // e.g. 5 = +5% a year
+    maxAmount?: number; // Escalation stops at this amount
+    nextEscalationDate: Date;
+  };
 
   // Status & Execution Tracking
   isActive: boolean;
   lastExecutedDate?: Date;
   totalExecutions: number;
+
+  // Dunning (failed charge recovery)
+  failedAttempts?: number; // Failed charges for the current instalment
+  firstFailedAt?: Date; // Retries are scheduled from this date
+  lastFailedAt?: Date;
+  lastFailureReason?: string;
+  nextRetryDate?: Date;
+}
+
+// One failed charge of a scheduled donation (feeds the recovery report)
+export interface IScheduledDonationFailure {
+  scheduledDonation: Types.ObjectId;
+  donor: Types.ObjectId;
+  organization: Types.ObjectId;
+  cause: Types.ObjectId;
+  amount: number;
+  currency: string;
+  attemptNumber: number; // 1 = the original charge, 2+ = retries
+  reason?: string;
+  outcome: 'retry_scheduled' | 'paused';
+  nextRetryDate?: Date;
 }
 
 // RoundUp interface
@@ -160,6 +281,13 @@ export interface IScheduledDonationModel extends IScheduledDonation, Document {
   updatedAt: Date;
 }
 
+export interface IScheduledDonationFailureModel
+  extends IScheduledDonationFailure,
+    Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface IRoundUpModel extends IRoundUp, Document {
   createdAt: Date;
   updatedAt: Date;
@@ -189,6 +317,7 @@ export interface ITopDonor {
     name: string;
     email: string;
     image?: string;
+    isAnonymous?: boolean;
   };
   totalAmount: number;
   donationCount: number;
@@ -203,9 +332,22 @@ export interface IRecentDonor {
     name: string;
     email: string;
     image?: string;
+    isAnonymous?: boolean;
   };
   lastDonationDate: Date;
   lastDonationAmount: number;
+  lastDonationChannel: 'online' | 'offline';
+}
+
+// Gifts recorded by the organization (cash, bank transfer, cheque)
+export interface IOfflineDonationSummary {
+  totalAmount: IPercentageChange;
+  donationCount: number;
+  byMethod: {
+    method: 'cash' | 'bank_transfer' | 'cheque' | 'other';
+    totalAmount: number;
+    donationCount: number;
+  }[];
 }
 
 export interface CauseData {
@@ -243,6 +385,8 @@ export interface IDonationAnalytics {
   topDonors: ITopDonor[];
   recentDonors: IRecentDonor[];
   breakDownByCause: IOrganizationStatsResponse;
+  pledges: IPledgeStats;
+  offlineDonations: IOfflineDonationSummary;
 }
 
 // Define the filter type for reuse
@@ -1,11 +1,54 @@
 import { Schema, model } from 'mongoose';
-import { IDonationModel } from './donation.interface';
+import { IDonationModel, ITribute } from './donation.interface';
+import { screenMessage } from '../../utils/moderation.utils';
+import { appliedFeeScheduleSchema } from '../FeeSchedule/feeSchedule.model';
 import {
   DONATION_STATUS,
   DONATION_TYPE,
   DEFAULT_CURRENCY,
+  MESSAGE_STATUS,
+  MESSAGE_STATUS_VALUES,
+  OFFLINE_PAYMENT_METHOD,
+  PAYMENT_CHANNEL,
+  TRIBUTE_TYPE,
 } from './donation.constant';
 
+// Tribute sub-document (also used by ScheduledDonation)
+export const tributeSchema = new Schema<ITribute>(
+  {
+    tributeType: {
+      type: String,
+      enum: TRIBUTE_TYPE,
+      required: true,
+    },
+    honoreeName: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    recipientName: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    recipientEmail: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    ecardSentAt: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
 const donationSchema = new Schema<IDonationModel>(
   {
     donor: {
@@ -59,11 +102,23 @@ const donationSchema = new Schema<IDonationModel>(
       required: [true, 'Total amount is required'], // The amount charged to the card
       min: [0.01, 'Total amount must be at least 0.01'],
     },
+    feeSchedule: {
+      type: appliedFeeScheduleSchema,
+    },
 
     currency: {
       type: String,
       default: DEFAULT_CURRENCY,
     },
+    settlementCurrency: {
+      type: String,
+      default: DEFAULT_CURRENCY,
+    },
+    exchangeRate: {
+      type: Number,
+      default: 1,
+      min: 0,
+    },
     status: {
       type: String,
       enum: DONATION_STATUS,
@@ -97,9 +152,56 @@ const donationSchema = new Schema<IDonationModel>(
     specialMessage: {
       type: String,
     },
+    isAnonymous: {
+      type: Boolean,
+      default: false,
+    },
+    tribute: {
+      type: tributeSchema,
+    },
+
+    // Donor wall moderation
+    messageStatus: {
+      type: String,
+      enum: MESSAGE_STATUS_VALUES,
+    },
+    messageFlags: {
+      type: [String],
+      default: undefined,
+    },
+    messageModeratedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+    },
+    messageModeratedAt: {
+      type: Date,
+    },
+    messageReply: {
+      message: { type: String, trim: true },
+      repliedBy: { type: Schema.Types.ObjectId, ref: 'Auth' },
+      repliedAt: { type: Date },
+    },
     refundReason: {
       type: String,
     },
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    pendingRefundAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    refundRequestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+    },
+    pointsReversed: {
+      type: Number,
+      default: 0,
+    },
     pointsEarned: {
       type: Number,
       default: 0,
@@ -110,6 +212,10 @@ const donationSchema = new Schema<IDonationModel>(
       type: Schema.Types.ObjectId,
       ref: 'ScheduledDonation',
     },
+    retryAttempt: {
+      type: Number,
+      min: 1,
+    },
     roundUpId: {
       type: Schema.Types.ObjectId,
       ref: 'RoundUp',
@@ -118,6 +224,68 @@ const donationSchema = new Schema<IDonationModel>(
       type: [Schema.Types.ObjectId],
       ref: 'RoundUpTransaction',
     },
+
+    // Giving basket (multi-organization checkout)
+    basket: {
+      type: Schema.Types.ObjectId,
+      ref: 'DonationBasket',
+    },
+    basketLineId: {
+      type: Schema.Types.ObjectId,
+    },
+    stripeTransferId: {
+      type: String,
+    },
+
+    // Peer-to-peer fundraiser the gift was made through
+    fundraiser: {
+      type: Schema.Types.ObjectId,
+      ref: 'Fundraiser',
+    },
+
+    // Pledge the gift pays towards
+    pledge: {
+      type: Schema.Types.ObjectId,
+      ref: 'Pledge',
+      index: true,
+    },
+
+    // Offline gifts (cash, bank transfer) recorded by the organization
+    paymentChannel: {
+      type: String,
+      enum: PAYMENT_CHANNEL,
+      default: 'online',
+    },
+    offlineMethod: {
+      type: String,
+      enum: OFFLINE_PAYMENT_METHOD,
+    },
+    offlineReference: {
+      type: String,
+      trim: true,
+    },
+    recordedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+    },
+
+    // Matching-gift campaigns
+    matchingCampaign: {
+      type: Schema.Types.ObjectId,
+      ref: 'MatchingCampaign',
+    },
+    matchedDonation: {
+      type: Schema.Types.ObjectId,
+      ref: 'Donation',
+    },
+    isMatchingGift: {
+      type: Boolean,
+      default: false,
+    },
+    matchedAmount: {
+      type: Number,
+    },
+
     receiptGenerated: {
       type: Boolean,
       default: false,
@@ -147,12 +315,35 @@ const donationSchema = new Schema<IDonationModel>(
   }
 );
 
+// New messages go straight to the wall unless the filter holds them
+donationSchema.pre('save', function (next) {
+  if (this.isModified('specialMessage')) {
+    if (this.specialMessage?.trim()) {
+      const { isFlagged, reasons } = screenMessage(this.specialMessage);
+      this.messageStatus = isFlagged
+        ? MESSAGE_STATUS.HELD
+        : MESSAGE_STATUS.APPROVED;
+      this.messageFlags = isFlagged ? reasons : undefined;
+    } else {
+      this.messageStatus = undefined;
+      this.messageFlags = undefined;
+    }
+  }
+  next();
+});
+
 // Indexes
 donationSchema.index({ donor: 1, donationDate: -1 });
 donationSchema.index({ organization: 1, donationDate: -1 });
 donationSchema.index({ status: 1, donationDate: -1 });
 donationSchema.index({ scheduledDonationId: 1 });
 donationSchema.index({ roundUpId: 1 });
+donationSchema.index({ basket: 1 });
+donationSchema.index({ fundraiser: 1, status: 1, donationDate: -1 });
+donationSchema.index({ matchingCampaign: 1, isMatchingGift: 1 });
+donationSchema.index({ cause: 1, messageStatus: 1, donationDate: -1 });
+donationSchema.index({ organization: 1, messageStatus: 1, donationDate: -1 });
+donationSchema.index({ organization: 1, paymentChannel: 1, donationDate: -1 });
 donationSchema.index({ idempotencyKey: 1, donor: 1 }, { unique: true });
 donationSchema.index({ lastPaymentAttempt: 1 });
 donationSchema.index({ totalAmount: 1 });
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { auth } from '../../middlewares';
+import { auth, idempotency } from '../../middlewares';
 import { validateRequest } from '../../middlewares/validateRequest';
 import { DonationController } from './donation.controller';
 import { DonationValidation } from './donation.validation';
@@ -11,6 +11,7 @@ const router = Router();
 router.post(
   '/one-time/create',
   auth(ROLE.CLIENT),
+  idempotency(),
   validateRequest(DonationValidation.createOneTimeDonationSchema),
   DonationController.createOneTimeDonation
 );
@@ -19,10 +20,28 @@ router.post(
 router.post(
   '/:donationId/retry',
   auth(ROLE.CLIENT),
+  idempotency(),
   validateRequest(DonationValidation.retryFailedPaymentSchema),
   DonationController.retryFailedPayment
 );
 
+// 2b. Record a cash / bank transfer donation received by the organization
+router.post(
+  '/offline',
+  auth(ROLE.ORGANIZATION),
+  idempotency(),
+  validateRequest(DonationValidation.recordOfflineDonationSchema),
+  DonationController.recordOfflineDonation
+);
+
+// 2c. Find an existing donor before recording an offline donation
+router.get(
+  '/offline/donor-lookup',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(DonationValidation.lookupOfflineDonorSchema),
+  DonationController.lookupOfflineDonor
+);
+
 // 3. Get donation full status with payment info
 router.get(
   '/:id/status',
@@ -73,7 +92,8 @@ router.post(
 // 8. Refund donation
 router.post(
   '/:id/refund',
-  auth(ROLE.CLIENT, ROLE.ADMIN),
+  auth(ROLE.CLIENT, ROLE.ORGANIZATION, ROLE.ADMIN),
+  idempotency(),
   validateRequest(DonationValidation.refundDonationSchema),
   DonationController.refundDonation
 );
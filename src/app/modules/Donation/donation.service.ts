@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { Types } from 'mongoose';
 import mongoose from 'mongoose';
+import crypto from 'crypto';
 import { Donation } from './donation.model';
 import {
   CategoryData,
@@ -18,8 +19,13 @@ import {
   TTimeFilter,
   IClientDonationStats,
   IDonationWithTracking,
+  IOfflineDonationSummary,
 } from './donation.interface';
-import { TCreateOneTimeDonationPayload } from './donation.validation';
+import {
+  TCreateOneTimeDonationPayload,
+  TRecordOfflineDonationPayload,
+  TRefundDonationBody,
+} from './donation.validation';
 import { AppError } from '../../utils';
 import httpStatus from 'http-status';
 import { StripeService } from '../Stripe/stripe.service';
@@ -36,11 +42,19 @@ import {
   getDateRanges,
 } from '../../lib/filter-helper';
 import { IAuth } from '../Auth/auth.interface';
+import { AUTH_STATUS, ROLE } from '../Auth/auth.constant';
+import Auth from '../Auth/auth.model';
 import Cause from '../Causes/causes.model';
-import { CAUSE_STATUS_TYPE } from '../Causes/causes.constant';
 import {
+  CAUSE_FUNDRAISING_STATUS,
+  CAUSE_STATUS_TYPE,
+} from '../Causes/causes.constant';
+import {
+  ANONYMOUS_DONOR,
   calculateAustralianFees,
+  DEFAULT_CURRENCY,
   monthAbbreviations,
+  OFFLINE_PAYMENT_METHOD_LABEL,
   REFUND_WINDOW_DAYS,
 } from './donation.constant';
 import { ScheduledDonation } from '../ScheduledDonation/scheduledDonation.model';
@@ -48,6 +62,18 @@ import { RoundUpModel } from '../RoundUp/roundUp.model';
 import { StripeAccount } from '../OrganizationAccount/stripe-account.model';
 import { Subscription } from '../Subscription/subscription.model';
 import { SubscriptionService } from '../Subscription/subscription.service';
+import { DonationBasketService } from '../DonationBasket/donationBasket.service';
+import { FundraiserService } from '../Fundraiser/fundraiser.service';
+import { PledgeService } from '../Pledge/pledge.service';
+import { FxRateService } from '../FxRate/fxRate.service';
+import { PlatformSettingService } from '../PlatformSetting/platformSetting.service';
+import { FeeScheduleService } from '../FeeSchedule/feeSchedule.service';
+import { receiptServices } from '../Receipt/receipt.service';
+import { pointsServices } from '../Points/points.service';
+import { badgeService } from '../badge/badge.service';
+import { CauseService } from '../Causes/causes.service';
+import { createNotification } from '../Notification/notification.service';
+import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
 
 // Helper function to generate unique idempotency key
 const generateIdempotencyKey = (): string => {
@@ -68,6 +94,10 @@ const createOneTimeDonation = async (
     userId,
     paymentMethodId,
     specialMessage,
+    tribute,
+    fundraiserId,
+    pledgeId,
+    isAnonymous,
   } = payload;
 
   // 1. Check if donor exists
@@ -108,8 +138,39 @@ const createOneTimeDonation = async (
         `Cannot create donation for cause with status: ${cause.status}.`
       );
     }
+    if (cause.fundraisingStatus === CAUSE_FUNDRAISING_STATUS.CLOSED) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Cause ${cause.name} is closed and no longer accepts donations.`
+      );
+    }
+  }
+
+  // 4b. Validate peer-to-peer fundraiser (gift still goes to the cause)
+  if (fundraiserId) {
+    await FundraiserService.validateFundraiserForDonation(
+      fundraiserId,
+      causeId,
+      organizationId
+    );
   }
 
+  // 4c. Validate pledge being paid off
+  if (pledgeId) {
+    await PledgeService.validatePledgeForDonation(
+      pledgeId,
+      donor._id.toString(),
+      organizationId,
+      causeId
+    );
+  }
+
+  // 4d. Donor pays in their display currency; org reports in its own
+  const currencySnapshot = await FxRateService.buildCurrencySnapshot(
+    donor.displayCurrency || DEFAULT_CURRENCY,
+    organization.settlementCurrency || DEFAULT_CURRENCY
+  );
+
   // 5. Validate Payment Method
   const paymentMethod = await PaymentMethodService.getPaymentMethodById(
     paymentMethodId,
@@ -120,8 +181,11 @@ const createOneTimeDonation = async (
     throw new AppError(httpStatus.BAD_REQUEST, 'Payment method is not active!');
   }
 
-  // 6. Calculate Fees
-  const financials = calculateAustralianFees(amount, coverFees);
+  // 6. Calculate Fees (with the fee schedule live for this org and cause)
+  const financials = await FeeScheduleService.calculateFees(amount, coverFees, {
+    organizationId,
+    causeId,
+  });
   const applicationFee = financials.platformFeeWithStripe;
   console.log(`💰 Donation Breakdown (Destination Charge):`);
   console.log(`   Base: $${financials.baseAmount.toFixed(2)}`);
@@ -154,10 +218,16 @@ const createOneTimeDonation = async (
       stripeFee: financials.stripeFee,
       netAmount: financials.netToOrg,
       totalAmount: financials.totalCharge,
+      feeSchedule: financials.feeSchedule,
 
-      currency: 'USD',
+      ...currencySnapshot,
       status: 'pending',
       specialMessage,
+      tribute,
+      // Per-donation choice wins over the donor's profile default
+      isAnonymous: isAnonymous ?? donor.donateAnonymously ?? false,
+      fundraiser: fundraiserId ? new Types.ObjectId(fundraiserId) : undefined,
+      pledge: pledgeId ? new Types.ObjectId(pledgeId) : undefined,
       pointsEarned: Math.floor(financials.baseAmount * 100),
 
       stripeCustomerId: paymentMethod.stripeCustomerId,
@@ -182,7 +252,7 @@ const createOneTimeDonation = async (
       stripeFee: financials.stripeFee,
       netToOrg: financials.netToOrg,
 
-      currency: 'USD',
+      currency: currencySnapshot.currency,
       customerId: paymentMethod.stripeCustomerId,
       paymentMethodId: paymentMethod.stripePaymentMethodId,
       donationId: donationUniqueId.toString(),
@@ -328,7 +398,11 @@ const getDonationsByUser = async (
     if (modifiedQuery.status === 'all') delete modifiedQuery.status;
     if (modifiedQuery.donationType === 'all') delete modifiedQuery.donationType;
 
-    const baseQuery = Donation.find({ donor: donor._id })
+    // Sponsor-funded matched gifts are shown on the original donation
+    const baseQuery = Donation.find({
+      donor: donor._id,
+      isMatchingGift: { $ne: true },
+    })
       .populate('organization', 'name')
       .populate('cause', 'name');
 
@@ -392,6 +466,12 @@ const getDonationsByOrganization = async (
       matchQuery.donationType =
         query.donationType === 'roundup' ? 'round-up' : query.donationType;
     }
+    // Donations from before offline recording have no channel stored
+    if (query.paymentChannel === 'offline') {
+      matchQuery.paymentChannel = 'offline';
+    } else if (query.paymentChannel === 'online') {
+      matchQuery.paymentChannel = { $ne: 'offline' };
+    }
 
     const pipeline: any[] = [
       { $match: matchQuery },
@@ -440,15 +520,28 @@ const getDonationsByOrganization = async (
       },
       { $unwind: { path: '$receiptData', preserveNullAndEmptyArrays: true } },
 
-      // 6. Search Filter (Applies to Name, Email, and Special Message)
+      // 6. Search Filter (Applies to Name, Email, Special Message and Honoree)
       ...(searchTerm
         ? [
             {
               $match: {
                 $or: [
-                  { 'donorData.name': { $regex: searchTerm, $options: 'i' } },
-                  { 'authData.email': { $regex: searchTerm, $options: 'i' } },
+                  // Anonymous donors must not be discoverable by identity
+                  {
+                    isAnonymous: { $ne: true },
+                    'donorData.name': { $regex: searchTerm, $options: 'i' },
+                  },
+                  {
+                    isAnonymous: { $ne: true },
+                    'authData.email': { $regex: searchTerm, $options: 'i' },
+                  },
                   { specialMessage: { $regex: searchTerm, $options: 'i' } },
+                  {
+                    'tribute.honoreeName': {
+                      $regex: searchTerm,
+                      $options: 'i',
+                    },
+                  },
                 ],
               },
             },
@@ -481,23 +574,54 @@ const getDonationsByOrganization = async (
                 donationType: 1,
                 donationDate: 1,
                 specialMessage: 1,
+                tribute: {
+                  tributeType: 1,
+                  honoreeName: 1,
+                  recipientName: 1,
+                  message: 1,
+                  ecardSentAt: 1,
+                },
                 coverFees: 1,
                 platformFee: 1,
                 gstOnFee: 1,
                 stripeFee: 1,
+                paymentChannel: { $ifNull: ['$paymentChannel', 'online'] },
+                offlineMethod: 1,
+                offlineReference: 1,
+                isAnonymous: { $eq: ['$isAnonymous', true] },
                 donor: {
-                  _id: '$donorData._id',
-                  name: '$donorData.name',
-                  image: '$donorData.image',
-                  auth: {
-                    email: '$authData.email',
-                  },
+                  $cond: [
+                    { $eq: ['$isAnonymous', true] },
+                    {
+                      _id: ANONYMOUS_DONOR._id,
+                      name: ANONYMOUS_DONOR.name,
+                      auth: { email: ANONYMOUS_DONOR.email },
+                    },
+                    {
+                      _id: '$donorData._id',
+                      name: '$donorData.name',
+                      image: '$donorData.image',
+                      auth: {
+                        email: '$authData.email',
+                      },
+                    },
+                  ],
                 },
                 cause: {
                   _id: '$causeData._id',
                   name: '$causeData.name',
                 },
-                receiptId: '$receiptData',
+                // Receipt snapshot carries donor details; keep only references
+                receiptId: {
+                  $cond: [
+                    { $eq: ['$isAnonymous', true] },
+                    {
+                      _id: '$receiptData._id',
+                      receiptNumber: '$receiptData.receiptNumber',
+                    },
+                    '$receiptData',
+                  ],
+                },
               },
             },
           ],
@@ -683,10 +807,11 @@ const retryFailedPayment = async (
     );
   }
 
-  //  Recalculate fees to ensure consistency
+  //  Recalculate fees with the rates the donation was priced with
   const financials = calculateAustralianFees(
     donation.amount,
-    donation.coverFees
+    donation.coverFees,
+    donation.feeSchedule
   );
 
   // Platform Fee = Platform Revenue + GST + Stripe Fee
@@ -810,34 +935,80 @@ const cancelDonation = async (
   return donation;
 };
 
-// 13. Refund donation
+// 13. Refund donation (the whole gift, or part of it)
 const refundDonation = async (
   donationId: string,
   userId: string,
-  reason?: string
+  userRole: string,
+  payload: TRefundDonationBody
 ): Promise<IDonation> => {
   if (!donationId) {
     throw new AppError(httpStatus.BAD_REQUEST, 'Donation ID required!');
   }
+  const { reason, amount } = payload;
 
-  // 1. Check if user exists
-  const donor = await Client.findOne({ auth: userId });
-  if (!donor?._id) {
-    throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
-  }
-
-  // 2. Find the donation
+  // 1. Find the donation
   const donation = await Donation.findById(donationId);
   if (!donation) {
     throw new AppError(httpStatus.NOT_FOUND, 'Donation not found!');
   }
 
-  // 3. Permission Check (Only the donor can ask)
-  if (donation.donor.toString() !== donor._id.toString()) {
-    throw new AppError(httpStatus.FORBIDDEN, 'Permission denied');
+  // 2. Permission Check (the donor, the receiving organization or an admin)
+  if (userRole === ROLE.CLIENT) {
+    const donor = await Client.findOne({ auth: userId });
+    if (!donor?._id) {
+      throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+    }
+    if (donation.donor.toString() !== donor._id.toString()) {
+      throw new AppError(httpStatus.FORBIDDEN, 'Permission denied');
+    }
+  } else if (userRole === ROLE.ORGANIZATION) {
+    const organization = await Organization.findOne({ auth: userId });
+    if (
+      !organization ||
+      donation.organization.toString() !== organization._id.toString()
+    ) {
+      throw new AppError(httpStatus.FORBIDDEN, 'Permission denied');
+    }
+  }
+
+  // Offline gifts never went through Stripe, nothing to refund there
+  if (donation.paymentChannel === 'offline') {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Offline donations cannot be refunded through the platform.'
+    );
+  }
+
+  // Sponsor-funded gifts follow the original donation
+  if (donation.isMatchingGift) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Matched gifts are released automatically when the original donation is refunded.'
+    );
+  }
+
+  // Basket donations share one charge - refund only this line's share
+  if (donation.basket && donation.basketLineId) {
+    if (amount !== undefined && amount < donation.amount) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'Basket donations can only be refunded in full.'
+      );
+    }
+    await DonationBasketService.refundBasketLineForDonation(
+      donation.basket.toString(),
+      donation.basketLineId.toString(),
+      reason
+    );
+    return (await Donation.findByIdAndUpdate(
+      donationId,
+      { refundRequestedBy: new Types.ObjectId(userId) },
+      { new: true }
+    )) as IDonation;
   }
 
-  // 4. Status Check
+  // 3. Status Check
   if (donation.status === 'refunded') {
     throw new AppError(httpStatus.BAD_REQUEST, 'Already refunded');
   }
@@ -848,7 +1019,7 @@ const refundDonation = async (
     );
   }
 
-  // 5. 7-Day Time Limit Check
+  // 4. 7-Day Time Limit Check
   const now = new Date();
   const donationDate = new Date(donation.donationDate || donation.createdAt);
 
@@ -868,12 +1039,74 @@ const refundDonation = async (
     throw new AppError(httpStatus.BAD_REQUEST, 'No payment intent found');
   }
 
+  // Split round-ups share one charge - refund only this line's share
+  const isSplitLine =
+    donation.donationType === 'round-up' &&
+    !!(await Donation.exists({
+      stripePaymentIntentId: donation.stripePaymentIntentId,
+      _id: { $ne: donation._id },
+    }));
+  if (isSplitLine && amount !== undefined && amount < donation.amount) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Split round-up donations can only be refunded in full.'
+    );
+  }
+
+  // 5. Amount Check (earlier partial refunds, settled or still pending)
+  const alreadyRefunded =
+    (donation.refundedAmount || 0) + (donation.pendingRefundAmount || 0);
+  const refundable = Number(
+    (donation.amount - alreadyRefunded).toFixed(2)
+  );
+  if (refundable <= 0) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Nothing left to refund on this donation.'
+    );
+  }
+
+  const refundAmount = Number((amount ?? refundable).toFixed(2));
+  if (refundAmount > refundable) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Refund amount exceeds the refundable balance of $${refundable.toFixed(2)}.`
+    );
+  }
+
+  // A full refund of an untouched gift also returns any covered fees
+  const isFullRefund = alreadyRefunded === 0 && refundAmount === refundable;
+
   try {
-    // Process Refund in Stripe
-    await StripeService.createRefund(donation.stripePaymentIntentId);
+    if (isSplitLine) {
+      // Pull the organization's share back, then refund the donor's share
+      if (donation.stripeTransferId) {
+        await StripeService.reverseTransfer(
+          donation.stripeTransferId,
+          donation.netAmount,
+          { donationId }
+        );
+      }
+      await StripeService.createRefund(
+        donation.stripePaymentIntentId,
+        donation.totalAmount
+      );
+    } else {
+      // Process Refund in Stripe
+      await StripeService.createRefund(
+        donation.stripePaymentIntentId,
+        isFullRefund ? undefined : refundAmount
+      );
+    }
 
-    // Update Status
-    donation.status = 'refunding'; // Will be 'refunded' via webhook
+    // Settled through charge.refunded
+    donation.pendingRefundAmount = Number(
+      ((donation.pendingRefundAmount || 0) + refundAmount).toFixed(2)
+    );
+    donation.refundRequestedBy = new Types.ObjectId(userId);
+    if (refundAmount === refundable) {
+      donation.status = 'refunding'; // Will be 'refunded' via webhook
+    }
     if (reason) {
       donation.refundReason = reason;
     }
@@ -1171,6 +1404,7 @@ const getTopDonors = async (
           _id: '$donor',
           totalAmount: { $sum: '$netAmount' },
           donationCount: { $sum: 1 },
+          isAnonymous: { $max: '$isAnonymous' },
         },
       },
       { $sort: { totalAmount: -1 } },
@@ -1211,12 +1445,14 @@ const getTopDonors = async (
     const change = calculatePercentageChange(donor.totalAmount, previousAmount);
 
     return {
-      donor: {
-        _id: donorId,
-        name: client?.name as string,
-        email: (client?.auth as unknown as IAuth)?.email as string,
-        image: client?.image,
-      },
+      donor: donor.isAnonymous
+        ? ANONYMOUS_DONOR
+        : {
+            _id: donorId,
+            name: client?.name as string,
+            email: (client?.auth as unknown as IAuth)?.email as string,
+            image: client?.image,
+          },
       totalAmount: formatCurrency(donor.totalAmount),
       donationCount: donor.donationCount,
       previousAmount: formatCurrency(previousAmount),
@@ -1256,6 +1492,10 @@ const getRecentDonors = async (
         _id: '$donor',
         lastDonationDate: { $first: '$donationDate' },
         lastDonationAmount: { $first: '$netAmount' },
+        lastDonationChannel: {
+          $first: { $ifNull: ['$paymentChannel', 'online'] },
+        },
+        isAnonymous: { $first: '$isAnonymous' },
       },
     },
     { $sort: { lastDonationDate: -1 } },
@@ -1275,18 +1515,77 @@ const getRecentDonors = async (
     const client = clientMap.get(donorId);
 
     return {
-      donor: {
-        _id: donorId,
-        name: client?.name as string,
-        email: (client?.auth as unknown as IAuth)?.email as string,
-        image: client?.image,
-      },
+      donor: donation.isAnonymous
+        ? ANONYMOUS_DONOR
+        : {
+            _id: donorId,
+            name: client?.name as string,
+            email: (client?.auth as unknown as IAuth)?.email as string,
+            image: client?.image,
+          },
       lastDonationDate: donation.lastDonationDate,
       lastDonationAmount: formatCurrency(donation.lastDonationAmount),
+      lastDonationChannel: donation.lastDonationChannel,
     };
   });
 };
 
+// Offline gifts are also counted in the totals above; this splits them out
+const getOfflineDonationSummary = async (
+  current: IAnalyticsPeriod,
+  previous: IAnalyticsPeriod,
+  organizationId?: string
+): Promise<IOfflineDonationSummary> => {
+  const baseQuery = {
+    ...buildBaseQuery(organizationId),
+    paymentChannel: 'offline',
+  };
+
+  const [currentData, previousData] = await Promise.all([
+    Donation.aggregate([
+      {
+        $match: {
+          ...baseQuery,
+          donationDate: { $gte: current.startDate, $lte: current.endDate },
+        },
+      },
+      {
+        $group: {
+          _id: '$offlineMethod',
+          total: { $sum: '$netAmount' },
+          count: { $sum: 1 },
+        },
+      },
+      { $sort: { total: -1 } },
+    ]),
+    Donation.aggregate([
+      {
+        $match: {
+          ...baseQuery,
+          donationDate: { $gte: previous.startDate, $lte: previous.endDate },
+        },
+      },
+      { $group: { _id: null, total: { $sum: '$netAmount' } } },
+    ]),
+  ]);
+
+  const currentTotal = currentData.reduce((sum, d) => sum + d.total, 0);
+  const previousTotal = previousData[0]?.total || 0;
+
+  return {
+    totalAmount: {
+      value: formatCurrency(currentTotal),
+      ...calculatePercentageChange(currentTotal, previousTotal),
+    },
+    donationCount: currentData.reduce((sum, d) => sum + d.count, 0),
+    byMethod: currentData.map((d) => ({
+      method: d._id,
+      totalAmount: formatCurrency(d.total),
+      donationCount: d.count,
+    })),
+  };
+};
+
 const getOrganizationCauseStats = async (
   organizationId: string
 ): Promise<IOrganizationStatsResponse> => {
@@ -1492,6 +1791,8 @@ const getDonationAnalytics = async (
     topDonors,
     recentDonors,
     breakDownByCause,
+    pledges,
+    offlineDonations,
   ] = await Promise.all([
     getTotalDonatedAmount(
       current,
@@ -1511,6 +1812,8 @@ const getDonationAnalytics = async (
     getTopDonors(current, previous, organizationId),
     getRecentDonors(current, organizationId),
     getOrganizationCauseStats(organizationId!),
+    PledgeService.getOrganizationPledgeStats(organizationId!),
+    getOfflineDonationSummary(current, previous, organizationId),
   ]);
 
   return {
@@ -1522,6 +1825,8 @@ const getDonationAnalytics = async (
     topDonors,
     recentDonors,
     breakDownByCause,
+    pledges,
+    offlineDonations,
   };
 };
 
@@ -1644,6 +1949,7 @@ const getClientStats = async (
       $match: {
         donor: donor._id,
         status: 'completed',
+        isMatchingGift: { $ne: true },
         donationDate: { $gte: start, $lte: end },
       },
     },
@@ -1826,6 +2132,277 @@ const getClientStats = async (
   } as any;
 };
 
+// ========================================
+// OFFLINE DONATIONS (cash, bank transfer, cheque)
+// ========================================
+
+// Find a donor by email before recording an offline donation
+const lookupOfflineDonor = async (email: string) => {
+  const donorAuth = await Auth.findOne({
+    email,
+    role: ROLE.CLIENT,
+    isDeleted: { $ne: true },
+  }).select('email');
+  if (!donorAuth) return null;
+
+  const client = await Client.findOne({ auth: donorAuth._id }).select(
+    'name image'
+  );
+  if (!client) return null;
+
+  return {
+    _id: client._id,
+    name: client.name,
+    image: client.image,
+    email: donorAuth.email,
+  };
+};
+
+/**
+ * Existing donor by ID or email, otherwise a placeholder account. The
+ * placeholder stays unverified so the donor can claim it later by signing
+ * up with the same email (OTP) and resetting the password.
+ */
+const resolveOfflineDonor = async (
+  payload: Pick<TRecordOfflineDonationPayload, 'donorId' | 'donor'>
+) => {
+  if (payload.donorId) {
+    const client = await Client.findById(payload.donorId);
+    if (!client) {
+      throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+    }
+    return client;
+  }
+
+  const { name, email } = payload.donor!;
+  const existingAuth = await Auth.findOne({ email });
+  if (existingAuth) {
+    if (existingAuth.role !== ROLE.CLIENT) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'This email belongs to an account that cannot donate!'
+      );
+    }
+
+    const client = await Client.findOne({ auth: existingAuth._id });
+    if (!client) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'This donor has not finished setting up their profile yet!'
+      );
+    }
+    return client;
+  }
+
+  const session = await mongoose.startSession();
+  try {
+    session.startTransaction();
+
+    const [donorAuth] = await Auth.create(
+      [
+        {
+          email,
+          role: ROLE.CLIENT,
+          status: AUTH_STATUS.PENDING,
+          isVerifiedByOTP: false,
+          isProfile: true,
+          password: crypto.randomBytes(24).toString('hex'),
+          otp: crypto.randomInt(100000, 1000000).toString(),
+          otpExpiry: new Date(), // Expired, signup sends a fresh OTP
+        },
+      ],
+      { session }
+    );
+
+    const [client] = await Client.create(
+      [
+        {
+          auth: donorAuth._id,
+          name,
+          address: 'N/A',
+          state: 'N/A',
+          postalCode: 'N/A',
+        },
+      ],
+      { session }
+    );
+
+    await session.commitTransaction();
+    return client;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Record a gift the organization received outside Stripe
+const recordOfflineDonation = async (
+  userId: string,
+  payload: TRecordOfflineDonationPayload
+) => {
+  const {
+    amount,
+    currency,
+    method,
+    donationDate,
+    causeId,
+    reference,
+    specialMessage,
+    pledgeId,
+    isAnonymous,
+  } = payload;
+
+  // 1. Organization of the recording user
+  const organization = await Organization.findOne({ auth: userId });
+  if (!organization) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Organization not found!');
+  }
+  const organizationId = organization._id.toString();
+
+  // 2. Cause must belong to the organization
+  let cause = null;
+  if (causeId) {
+    cause = await Cause.findById(causeId);
+    if (!cause || cause.organization?.toString() !== organizationId) {
+      throw new AppError(httpStatus.NOT_FOUND, 'Cause not found!');
+    }
+    if (cause.status !== CAUSE_STATUS_TYPE.VERIFIED) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Cannot record donation for cause with status: ${cause.status}.`
+      );
+    }
+  }
+
+  // 3. Donor (lookup or create)
+  const donor = await resolveOfflineDonor(payload);
+
+  if (pledgeId) {
+    await PledgeService.validatePledgeForDonation(
+      pledgeId,
+      donor._id.toString(),
+      organizationId,
+      causeId
+    );
+  }
+
+  // 4. Offline gifts are received in full: no Stripe or platform fees
+  const settlementCurrency =
+    organization.settlementCurrency || DEFAULT_CURRENCY;
+  const currencySnapshot = await FxRateService.buildCurrencySnapshot(
+    currency || settlementCurrency,
+    settlementCurrency
+  );
+  const settings = await PlatformSettingService.getSettings();
+  const { earnPoints, countTowardsBadges } = settings.offlineDonations;
+
+  const donation = await Donation.create({
+    donor: donor._id,
+    organization: organization._id,
+    cause: cause ? cause._id : undefined,
+    donationType: 'one-time',
+
+    amount,
+    coverFees: false,
+    platformFee: 0,
+    gstOnFee: 0,
+    stripeFee: 0,
+    netAmount: amount,
+    totalAmount: amount,
+
+    ...currencySnapshot,
+    status: 'completed',
+    donationDate: new Date(donationDate),
+    specialMessage,
+    isAnonymous: isAnonymous ?? donor.donateAnonymously ?? false,
+    pledge: pledgeId ? new Types.ObjectId(pledgeId) : undefined,
+    pointsEarned: earnPoints ? Math.floor(amount * 100) : 0,
+
+    paymentChannel: 'offline',
+    offlineMethod: method,
+    offlineReference: reference,
+    recordedBy: new Types.ObjectId(userId),
+    idempotencyKey: generateIdempotencyKey(),
+  });
+  const donationId = donation._id.toString();
+
+  // 5. Receipt (also emailed to the donor)
+  const receipt = await receiptServices.generateReceipt({
+    donationId: donation._id,
+    donorId: donor._id,
+    organizationId: organization._id,
+    causeId: cause?._id,
+    amount,
+    coverFees: false,
+    platformFee: 0,
+    gstOnFee: 0,
+    stripeFee: 0,
+    totalAmount: amount,
+    netAmount: amount,
+    currency: donation.currency,
+    donationType: 'one-time',
+    donationDate: donation.donationDate,
+    paymentMethod: OFFLINE_PAYMENT_METHOD_LABEL[method],
+    specialMessage,
+  });
+
+  // 6. Progress, points and badges (never blocks the recorded gift)
+  if (cause) {
+    try {
+      await CauseService.syncCauseProgress(cause._id);
+    } catch (err) {
+      console.error(`❌ Cause progress sync failed (${cause._id}):`, err);
+    }
+  }
+
+  try {
+    await PledgeService.handlePledgeDonationSucceeded(donationId);
+  } catch (err) {
+    console.error(`❌ Pledge progress sync failed:`, err);
+  }
+
+  if (earnPoints) {
+    try {
+      await pointsServices.awardPointsForDonation(
+        donor._id,
+        donationId,
+        amount
+      );
+    } catch (err) {
+      console.error(`❌ Points awarding failed:`, err);
+    }
+  }
+
+  if (countTowardsBadges) {
+    try {
+      await badgeService.checkAndUpdateBadgesForDonation(
+        donor._id.toString(),
+        donationId
+      );
+    } catch (err) {
+      console.error(`❌ Badge checking failed:`, err);
+    }
+  }
+
+  try {
+    await createNotification(
+      donor.auth.toString(),
+      NOTIFICATION_TYPE.DONATION_SUCCESS,
+      `Your ${OFFLINE_PAYMENT_METHOD_LABEL[method].toLowerCase()} donation of $${amount} to ${organization.name} has been recorded.`,
+      donationId
+    );
+  } catch (err) {
+    console.log(`❌🔔 Offline donation notification Failed!`);
+  }
+
+  return {
+    donation: await Donation.findById(donationId),
+    receipt,
+  };
+};
+
 export const DonationService = {
   createOneTimeDonation,
   getDonationById,
@@ -1851,4 +2428,6 @@ export const DonationService = {
   getRecentDonors,
   getOrganizationYearlyTrends,
   getClientStats,
+  lookupOfflineDonor,
+  recordOfflineDonation,
 };
@@ -1,4 +1,37 @@
 import { z } from 'zod';
+import { OFFLINE_PAYMENT_METHOD, TRIBUTE_TYPE } from './donation.constant';
+
+// Tribute block ("in honour of" / "in memory of")
+export const tributeSchema = z.object({
+  tributeType: z.enum(TRIBUTE_TYPE, {
+    error: 'Tribute type must be in_honour or in_memory!',
+  }),
+
+  honoreeName: z
+    .string({
+      error: 'Honoree name is required!',
+    })
+    .trim()
+    .min(1, { message: 'Honoree name is required!' })
+    .max(100, { message: 'Honoree name must be less than 100 characters!' }),
+
+  recipientName: z
+    .string()
+    .trim()
+    .max(100, { message: 'Recipient name must be less than 100 characters!' })
+    .optional(),
+
+  recipientEmail: z
+    .string()
+    .email({ message: 'Invalid recipient email!' })
+    .optional(),
+
+  message: z
+    .string()
+    .max(500, { message: 'Message must be less than 500 characters!' })
+    .transform((message) => message?.trim())
+    .optional(),
+});
 
 // 2. Get user donations schema (with QueryBuilder support)
 const getUserDonationsSchema = z.object({
@@ -35,6 +68,7 @@ const getUserDonationsSchema = z.object({
         'failed',
         'refunded',
         'canceled',
+        'charged_back',
         'all',
       ])
       .optional(),
@@ -98,6 +132,7 @@ const getOrganizationDonationsSchema = z.object({
         'failed',
         'refunded',
         'canceled',
+        'charged_back',
         'all',
       ])
       .optional(),
@@ -109,6 +144,8 @@ const getOrganizationDonationsSchema = z.object({
         return val;
       })
       .optional(),
+
+    paymentChannel: z.enum(['online', 'offline', 'all']).optional(),
   }),
 });
 
@@ -351,6 +388,12 @@ const refundDonationSchema = z.object({
       .string()
       .max(500, { message: 'Reason must be less than 500 characters!' })
       .optional(),
+
+    // Omit to refund whatever is left of the gift
+    amount: z
+      .number()
+      .positive({ message: 'Refund amount must be greater than 0!' })
+      .optional(),
   }),
 });
 
@@ -414,6 +457,101 @@ const createOneTimeDonationSchema = z.object({
       .max(500, { message: 'Message must be less than 500 characters!' })
       .transform((message) => message?.trim())
       .optional(),
+
+    tribute: tributeSchema.optional(),
+
+    // Give through a peer-to-peer fundraiser page
+    fundraiserId: z.string().min(1).optional(),
+
+    // Pay towards an open pledge
+    pledgeId: z.string().min(1).optional(),
+
+    isAnonymous: z.boolean().optional(), // Falls back to profile default
+  }),
+});
+
+// 11. Record an offline (cash / bank transfer) donation schema
+const recordOfflineDonationSchema = z.object({
+  body: z
+    .object({
+      // Existing donor, or name + email to find or create one
+      donorId: z.string().min(1).optional(),
+
+      donor: z
+        .object({
+          name: z
+            .string({ error: 'Donor name is required!' })
+            .trim()
+            .min(1, { message: 'Donor name is required!' })
+            .max(100, {
+              message: 'Donor name must be less than 100 characters!',
+            }),
+          email: z
+            .string({ error: 'Donor email is required!' })
+            .trim()
+            .email({ message: 'Invalid donor email!' })
+            .transform((email) => email.toLowerCase()),
+        })
+        .optional(),
+
+      amount: z
+        .number({
+          error: 'Amount is required!',
+        })
+        .min(1, { message: 'Amount must be at least $1!' })
+        .max(100000, { message: 'Amount cannot exceed $100,000!' }),
+
+      // Defaults to the organization's settlement currency
+      currency: z
+        .string()
+        .length(3, { message: 'Currency must be 3 characters (e.g., AUD)!' })
+        .transform((val) => val.toUpperCase())
+        .optional(),
+
+      method: z.enum(OFFLINE_PAYMENT_METHOD, {
+        error: 'Method must be cash, bank_transfer, cheque or other!',
+      }),
+
+      donationDate: z
+        .string({ error: 'Donation date is required!' })
+        .datetime({ message: 'Invalid date format!' })
+        .refine((date) => new Date(date) <= new Date(), {
+          message: 'Donation date cannot be in the future!',
+        }),
+
+      causeId: z.string().min(1).optional(),
+
+      reference: z
+        .string()
+        .trim()
+        .max(100, { message: 'Reference must be less than 100 characters!' })
+        .optional(),
+
+      specialMessage: z
+        .string()
+        .max(500, { message: 'Message must be less than 500 characters!' })
+        .transform((message) => message?.trim())
+        .optional(),
+
+      // Pay towards an open pledge of this donor
+      pledgeId: z.string().min(1).optional(),
+
+      isAnonymous: z.boolean().optional(),
+    })
+    .refine((body) => Boolean(body.donorId) !== Boolean(body.donor), {
+      message: 'Provide either donorId or donor details, not both!',
+      path: ['donorId'],
+    }),
+});
+
+// 12. Find a donor by email before recording an offline donation
+const lookupOfflineDonorSchema = z.object({
+  query: z.object({
+    email: z
+      .string({ error: 'Email is required!' })
+      .trim()
+      .email({ message: 'Invalid email!' })
+      .transform((email) => email.toLowerCase()),
   }),
 });
 
@@ -514,12 +652,17 @@ export const DonationValidation = {
   getDonationAnalyticsSchema,
   getOrganizationDonationYearlyTrends,
   getClientStatsSchema,
+  recordOfflineDonationSchema,
+  lookupOfflineDonorSchema,
 };
 
 // Export types for TypeScript inference
 export type TCreateOneTimeDonationPayload = z.infer<
   typeof createOneTimeDonationSchema.shape.body
 >;
+export type TRecordOfflineDonationPayload = z.infer<
+  typeof recordOfflineDonationSchema.shape.body
+>;
 export type TGetUserDonationsQuery = z.infer<
   typeof getUserDonationsSchema.shape.query
 >;
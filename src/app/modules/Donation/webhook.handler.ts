@@ -5,6 +5,8 @@ import { Stripe } from 'stripe';
 import { sendResponse, AppError } from '../../utils';
 import httpStatus from 'http-status';
 import { Donation } from './donation.model';
+import { ANONYMOUS_DONOR_NAME } from './donation.constant';
+import { IDonation } from './donation.interface';
 import { StripeService } from '../Stripe/stripe.service';
 import { ExtendedRequest } from '../../types';
 import mongoose, { Types } from 'mongoose';
@@ -19,7 +21,7 @@ import { BalanceService } from '../Balance/balance.service';
 import { PAYOUT_STATUS } from '../Payout/payout.constant';
 import { Payout } from '../Payout/payout.model';
 import { BalanceTransaction } from '../Balance/balance.model';
-import { calculateNextDonationDate } from '../ScheduledDonation/scheduledDonation.service';
+import { ScheduledDonationService } from '../ScheduledDonation/scheduledDonation.service';
 import { StripeAccount } from '../OrganizationAccount/stripe-account.model';
 import { createNotification } from '../Notification/notification.service';
 import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
@@ -33,6 +35,18 @@ import {
   SUBSCRIPTION_STATUS,
   TPlanType,
 } from '../Subscription/subscription.constant';
+import { DonationBasket } from '../DonationBasket/donationBasket.model';
+import {
+  BASKET_LINE_STATUS,
+  BASKET_STATUS,
+} from '../DonationBasket/donationBasket.constant';
+import { OrganizationModel } from '../Organization/organization.model';
+import { sendTributeEcardEmail } from '../../utils/emailService';
+import { MatchingCampaignService } from '../MatchingCampaign/matchingCampaign.service';
+import { CauseService } from '../Causes/causes.service';
+import { FundraiserService } from '../Fundraiser/fundraiser.service';
+import { PledgeService } from '../Pledge/pledge.service';
+import { DisputeService } from '../Dispute/dispute.service';
 
 // ========================================
 // SCHEDULED DONATION: Success Handler
@@ -43,33 +57,12 @@ const updateScheduledDonationAfterSuccess = async (
   try {
     console.log(`🔄 Updating scheduled donation: ${scheduledDonationId}`);
 
-    const scheduledDonation = await ScheduledDonation.findById(
-      scheduledDonationId
-    );
-
-    if (!scheduledDonation) {
-      console.error(`❌ Scheduled donation not found: ${scheduledDonationId}`);
-      return;
-    }
-
-    const now = new Date();
-    const nextDate = calculateNextDonationDate(
-      now,
-      scheduledDonation.frequency,
-      scheduledDonation.customInterval
+    // Moves the plan on, resets dunning and completes it at its limits
+    await ScheduledDonationService.updateScheduledDonationAfterExecution(
+      scheduledDonationId,
+      true
     );
 
-    await ScheduledDonation.findByIdAndUpdate(scheduledDonationId, {
-      $set: {
-        lastExecutedDate: now,
-        nextDonationDate: nextDate,
-        status: 'active',
-      },
-      $inc: {
-        totalExecutions: 1,
-      },
-    });
-
     console.log(`✅ Scheduled donation updated successfully`);
   } catch (error: unknown) {
     const err = error as Error;
@@ -94,27 +87,15 @@ const updateScheduledDonationAfterFailure = async (
       `❌ Updating scheduled donation after failure: ${scheduledDonationId}`
     );
 
-    await ScheduledDonation.findOneAndUpdate(
-      {
-        _id: scheduledDonationId,
-        status: 'processing',
-      },
-      {
-        $set: {
-          status: 'active',
-        },
-      }
-    );
-
-    console.log(
-      `🔓 Unlocked scheduled donation ${scheduledDonationId} after failure: ${
-        errorMessage || 'Unknown error'
-      }`
+    // Schedules the next retry (or pauses the plan) and tells the donor
+    await ScheduledDonationService.recordPaymentFailure(
+      scheduledDonationId,
+      errorMessage
     );
   } catch (error: unknown) {
     const err = error as Error;
     console.error(
-      `❌ Error unlocking scheduled donation: ${err.message}`,
+      `❌ Error recording scheduled donation failure: ${err.message}`,
       err.stack
     );
   }
@@ -125,7 +106,8 @@ const updateScheduledDonationAfterFailure = async (
 // ========================================
 const generateReceiptAfterPayment = async (
   donation: any,
-  paymentIntent: Stripe.PaymentIntent
+  paymentIntent: Stripe.PaymentIntent,
+  match?: { matchedAmount: number; campaign: { sponsorName: string } } | null
 ) => {
   try {
     console.log(`📄 Generating receipt for donation: ${donation._id}`);
@@ -153,12 +135,21 @@ const generateReceiptAfterPayment = async (
       stripeFee: donation.stripeFee || 0,
       totalAmount: donation.totalAmount,
       netAmount: donation.netAmount || 0,
+      feeSchedule: donation.feeSchedule,
 
       currency: donation.currency || paymentIntent.currency.toUpperCase(),
       donationType: donation.donationType || 'one-time',
       donationDate: new Date(),
       paymentMethod: 'Stripe',
       specialMessage: donation.specialMessage,
+      tribute: donation.tribute?.honoreeName
+        ? {
+            tributeType: donation.tribute.tributeType,
+            honoreeName: donation.tribute.honoreeName,
+          }
+        : undefined,
+      matchedAmount: match?.matchedAmount,
+      matchedBy: match?.campaign.sponsorName,
     };
 
     const receipt = await receiptServices.generateReceipt(receiptPayload);
@@ -171,6 +162,47 @@ const generateReceiptAfterPayment = async (
   }
 };
 
+// ========================================
+// TRIBUTE: Send E-card After Payment
+// ========================================
+const sendTributeEcardAfterPayment = async (donation: any) => {
+  const tribute = donation.tribute;
+  if (!tribute?.recipientEmail || tribute.ecardSentAt) return;
+
+  await sendTributeEcardEmail({
+    to: tribute.recipientEmail,
+    recipientName: tribute.recipientName,
+    donorName: donation.donor?.name || 'A donor',
+    organizationName: donation.organization?.name || 'a charity',
+    tributeType: tribute.tributeType,
+    honoreeName: tribute.honoreeName,
+    message: tribute.message,
+  });
+
+  await Donation.findByIdAndUpdate(donation._id, {
+    'tribute.ecardSentAt': new Date(),
+  });
+
+  console.log(`💌 Tribute e-card sent to ${tribute.recipientEmail}`);
+};
+
+// ========================================
+// CAUSE: Goal Progress Sync
+// ========================================
+const syncCauseProgressAfterPayment = async (causes: any[]) => {
+  const causeIds = new Set(
+    causes.filter(Boolean).map((cause) => (cause._id || cause).toString())
+  );
+
+  for (const causeId of causeIds) {
+    try {
+      await CauseService.syncCauseProgress(causeId);
+    } catch (err: any) {
+      console.error(`❌ Cause progress sync failed (${causeId}):`, err.message);
+    }
+  }
+};
+
 // ========================================
 // ROUND-UP: Success Handler
 // ========================================
@@ -290,6 +322,713 @@ const handleRoundUpDonationFailure = async (
   }
 };
 
+// ========================================
+// ROUND-UP SPLIT: Success Handler (fan-out)
+// ========================================
+const handleRoundUpSplitPaymentSucceeded = async (
+  paymentIntent: Stripe.PaymentIntent
+) => {
+  const { roundUpId, splitId, userId } = paymentIntent.metadata;
+  const chargeId = paymentIntent.latest_charge as string;
+  const transferGroup = `roundup_${splitId}`;
+
+  const lineDonations = await Donation.find({
+    stripePaymentIntentId: paymentIntent.id,
+    status: { $in: ['pending', 'processing'] },
+  });
+
+  if (lineDonations.length === 0) {
+    console.error('❌ Split round-up donations not found for payment');
+    return;
+  }
+
+  let completedCount = 0;
+  let completedAmount = 0;
+
+  // 1. Settle each line donation
+  for (const lineDonation of lineDonations) {
+    // Lock the line (only the first delivery of this event settles it)
+    const donation = await Donation.findOneAndUpdate(
+      {
+        _id: lineDonation._id,
+        status: { $in: ['pending', 'processing'] },
+      },
+      {
+        status: 'completed',
+        stripeChargeId: chargeId,
+        donationDate: new Date(),
+      },
+      { new: true }
+    ).populate<{ donor: IClient }>('donor');
+
+    if (!donation) continue;
+
+    completedCount += 1;
+    completedAmount += donation.amount;
+
+    const donor = donation.donor;
+    const orgId = donation.organization.toString();
+
+    // 1a. Move the organization's share out of the platform charge
+    try {
+      const stripeAccount = await StripeAccount.findOne({
+        organization: orgId,
+      });
+      if (!stripeAccount) {
+        throw new Error('Stripe account not found');
+      }
+
+      const transfer = await StripeService.transferFundsToConnectedAccount(
+        stripeAccount.stripeAccountId,
+        donation.netAmount || 0,
+        donation.currency,
+        {
+          roundUpId,
+          donationId: donation._id!.toString(),
+        },
+        { sourceTransaction: chargeId, transferGroup }
+      );
+
+      donation.stripeTransferId = transfer.id;
+      await donation.save();
+      console.log(`✅ Transfer ${transfer.id} created for Org: ${orgId}`);
+    } catch (err: any) {
+      console.error(`❌ Transfer failed for Org ${orgId}:`, err.message);
+    }
+
+    // 1b. Log funds to history ledger
+    try {
+      await BalanceService.logDonationTransaction(
+        orgId,
+        donation._id!.toString(),
+        'round-up'
+      );
+    } catch (err: any) {
+      console.error(`❌ Failed to log transaction:`, err.message);
+    }
+
+    // 1c. Apply matching-gift campaigns (before the receipt prints it)
+    let match = null;
+    try {
+      match = await MatchingCampaignService.applyMatchForDonation(
+        donation._id!.toString()
+      );
+    } catch (err) {
+      console.error(`❌ Matching failed:`, err);
+    }
+
+    // 1d. Generate receipt
+    try {
+      await generateReceiptAfterPayment(donation, paymentIntent, match);
+    } catch (err) {
+      console.error(`❌ Receipt generation failed:`, err);
+    }
+
+    // 1e. Award points
+    try {
+      await pointsServices.awardPointsForDonation(
+        donor._id.toString(),
+        donation._id!.toString(),
+        donation.amount,
+        undefined,
+        { feeSchedule: donation.feeSchedule?.name }
+      );
+    } catch (err) {
+      console.error(`❌ Points awarding failed:`, err);
+    }
+
+    // 1f. Check and update badges
+    try {
+      await badgeService.checkAndUpdateBadgesForDonation(
+        donor._id.toString(),
+        donation._id!.toString()
+      );
+    } catch (err) {
+      console.error(`❌ Badge checking failed:`, err);
+    }
+
+    // 1g. Notify Organization
+    try {
+      const organization = await OrganizationModel.findById(orgId);
+      if (organization) {
+        await createNotification(
+          organization.auth.toString(),
+          NOTIFICATION_TYPE.NEW_DONATION,
+          `New round-up donation received: $${donation.amount} from ${donation.isAnonymous ? ANONYMOUS_DONOR_NAME : donor.name}`,
+          donation._id!.toString()
+        );
+      }
+    } catch (err) {
+      console.log(`❌🔔 Organization notification Failed!`);
+    }
+  }
+
+  // 2. Update cause goal progress
+  await syncCauseProgressAfterPayment(
+    lineDonations.map((donation) => donation.cause)
+  );
+
+  // 3. Mark the micro-transactions donated and close the cycle
+  if (roundUpId) {
+    await handleRoundUpDonationSuccess(roundUpId, paymentIntent.id);
+  }
+
+  // 4. Notify Donor once for the whole split
+  try {
+    await createNotification(
+      userId,
+      NOTIFICATION_TYPE.DONATION_SUCCESS,
+      `Your round-up donation of $${completedAmount.toFixed(2)} to ${completedCount} organization(s) was successful!`,
+      roundUpId
+    );
+  } catch (err) {
+    console.log(`❌🔔 Cilent notification Failed!`);
+  }
+
+  console.log(
+    `\n✅ Split round-up ${splitId} settled into ${completedCount} donations\n`
+  );
+};
+
+// ========================================
+// ROUND-UP SPLIT: Failed / Canceled Handler
+// ========================================
+const handleRoundUpSplitPaymentUnsuccessful = async (
+  paymentIntent: Stripe.PaymentIntent,
+  status: 'failed' | 'canceled'
+) => {
+  const { roundUpId, userId, baseAmount } = paymentIntent.metadata;
+
+  const result = await Donation.updateMany(
+    {
+      stripePaymentIntentId: paymentIntent.id,
+      status: { $in: ['pending', 'processing'] },
+    },
+    {
+      status,
+      $inc: { paymentAttempts: 1 },
+      lastPaymentAttempt: new Date(),
+    }
+  );
+  if (result.modifiedCount === 0) return;
+
+  // Release the micro-transactions for the next attempt
+  if (roundUpId) {
+    await handleRoundUpDonationFailure(
+      roundUpId,
+      paymentIntent.id,
+      status === 'failed'
+        ? paymentIntent.last_payment_error?.message
+        : 'Payment canceled by user or system'
+    );
+  }
+
+  try {
+    await createNotification(
+      userId,
+      status === 'failed'
+        ? NOTIFICATION_TYPE.DONATION_FAILED
+        : NOTIFICATION_TYPE.DONATION_CANCELLED,
+      status === 'failed'
+        ? `Your round-up donation of $${baseAmount} failed. Please check your payment method.`
+        : `Your round-up donation of $${baseAmount} cancelled successfully!`,
+      roundUpId
+    );
+  } catch (err) {
+    console.log(`❌🔔 Cilent notification Failed!`);
+  }
+
+  console.log(`✅ Split round-up ${paymentIntent.id} marked as ${status}`);
+};
+
+// ========================================
+// GIVING BASKET: Success Handler (fan-out)
+// ========================================
+const handleBasketPaymentSucceeded = async (
+  paymentIntent: Stripe.PaymentIntent
+) => {
+  const basketId = paymentIntent.metadata?.basketId;
+  const chargeId = paymentIntent.latest_charge as string;
+
+  // 1. Lock basket (only the first delivery of this event fans out)
+  const basket = await DonationBasket.findOneAndUpdate(
+    {
+      $or: [
+        { stripePaymentIntentId: paymentIntent.id },
+        ...(basketId ? [{ _id: new Types.ObjectId(basketId) }] : []),
+      ],
+      status: {
+        $in: [BASKET_STATUS.PENDING, BASKET_STATUS.PROCESSING],
+      },
+    },
+    {
+      status: BASKET_STATUS.COMPLETED,
+      stripePaymentIntentId: paymentIntent.id,
+      stripeChargeId: chargeId,
+      completedAt: new Date(),
+    },
+    { new: true }
+  ).populate<{ donor: IClient }>('donor');
+
+  if (!basket) {
+    console.error('❌ Basket not found for payment_intent.succeeded');
+    return;
+  }
+
+  const donor = basket.donor;
+  const transferGroup = `basket_${basket._id}`;
+  let completedCount = 0;
+  let completedAmount = 0;
+
+  // 2. One child donation per open line
+  for (const line of basket.lines) {
+    if (line.status !== BASKET_LINE_STATUS.PENDING) continue;
+
+    const orgId = line.organization.toString();
+    let donation;
+
+    // 2a. Record the donation and move the organization's share out of the
+    // platform charge. A line that can't be paid out is refunded below.
+    try {
+      donation = await Donation.create({
+        donor: donor._id,
+        organization: line.organization,
+        cause: line.cause,
+        donationType: 'one-time',
+
+        amount: line.amount,
+        coverFees: basket.coverFees,
+        platformFee: line.platformFee,
+        gstOnFee: line.gstOnFee,
+        stripeFee: line.stripeFee,
+        netAmount: line.netAmount,
+        totalAmount: line.totalAmount,
+        feeSchedule: line.feeSchedule,
+
+        currency: basket.currency,
+        settlementCurrency: line.settlementCurrency,
+        exchangeRate: line.exchangeRate,
+        status: 'processing',
+        donationDate: new Date(),
+        specialMessage: line.specialMessage,
+        isAnonymous: basket.isAnonymous,
+        pointsEarned: Math.floor(line.amount * 100),
+
+        stripeChargeId: chargeId,
+        stripeCustomerId: basket.stripeCustomerId,
+        stripePaymentMethodId: basket.stripePaymentMethodId,
+        idempotencyKey: `${basket.idempotencyKey}-${line._id}`,
+        basket: basket._id,
+        basketLineId: line._id,
+      });
+
+      line.donation = donation._id as Types.ObjectId;
+
+      const stripeAccount = await StripeAccount.findOne({
+        organization: orgId,
+      });
+      if (!stripeAccount) {
+        throw new Error('Stripe account not found');
+      }
+
+      const transfer = await StripeService.transferFundsToConnectedAccount(
+        stripeAccount.stripeAccountId,
+        line.netAmount,
+        basket.currency,
+        {
+          basketId: basket._id!.toString(),
+          donationId: donation._id!.toString(),
+        },
+        { sourceTransaction: chargeId, transferGroup }
+      );
+
+      line.stripeTransferId = transfer.id;
+      donation.stripeTransferId = transfer.id;
+      donation.status = 'completed';
+      await donation.save();
+      console.log(`✅ Transfer ${transfer.id} created for Org: ${orgId}`);
+    } catch (err: any) {
+      line.status = BASKET_LINE_STATUS.FAILED;
+      console.error(`❌ Basket line ${line._id} fan-out failed:`, err.message);
+
+      if (donation) {
+        await Donation.findByIdAndUpdate(donation._id, { status: 'failed' });
+      }
+      continue;
+    }
+
+    line.status = BASKET_LINE_STATUS.COMPLETED;
+    completedCount += 1;
+    completedAmount += line.amount;
+
+    // 2b. Log funds to history ledger
+    try {
+      await BalanceService.logDonationTransaction(
+        orgId,
+        donation._id!.toString(),
+        'one-time'
+      );
+    } catch (err: any) {
+      console.error(`❌ Failed to log transaction:`, err.message);
+    }
+
+    // 2c. Apply matching-gift campaigns (before the receipt prints it)
+    let match = null;
+    try {
+      match = await MatchingCampaignService.applyMatchForDonation(
+        donation._id!.toString()
+      );
+    } catch (err) {
+      console.error(`❌ Matching failed:`, err);
+    }
+
+    // 2d. Generate receipt
+    try {
+      await generateReceiptAfterPayment(donation, paymentIntent, match);
+    } catch (err) {
+      console.error(`❌ Receipt generation failed:`, err);
+    }
+
+    // 2e. Award points
+    try {
+      await pointsServices.awardPointsForDonation(
+        donor._id.toString(),
+        donation._id!.toString(),
+        donation.amount,
+        undefined,
+        { feeSchedule: donation.feeSchedule?.name }
+      );
+    } catch (err) {
+      console.error(`❌ Points awarding failed:`, err);
+    }
+
+    // 2f. Check and update badges
+    try {
+      await badgeService.checkAndUpdateBadgesForDonation(
+        donor._id.toString(),
+        donation._id!.toString()
+      );
+    } catch (err) {
+      console.error(`❌ Badge checking failed:`, err);
+    }
+
+    // 2g. Notify Organization
+    try {
+      const organization = await OrganizationModel.findById(orgId);
+      if (organization) {
+        await createNotification(
+          organization.auth.toString(),
+          NOTIFICATION_TYPE.NEW_DONATION,
+          `New one-time donation received: $${line.amount} from ${donation.isAnonymous ? ANONYMOUS_DONOR_NAME : donor.name}`,
+          donation._id!.toString()
+        );
+      }
+    } catch (err) {
+      console.log(`❌🔔 Organization notification Failed!`);
+    }
+  }
+
+  // 3. Give back the share of lines removed before the payment succeeded
+  // and of lines that couldn't be paid out
+  const unpaidLines = basket.lines.filter(
+    (line) =>
+      line.status === BASKET_LINE_STATUS.CANCELED ||
+      line.status === BASKET_LINE_STATUS.FAILED
+  );
+  if (unpaidLines.length > 0) {
+    try {
+      const refund = await StripeService.createRefund(
+        paymentIntent.id,
+        Number(
+          unpaidLines
+            .reduce((sum, line) => sum + line.totalAmount, 0)
+            .toFixed(2)
+        )
+      );
+
+      unpaidLines.forEach((line) => {
+        line.stripeRefundId = refund.id;
+        line.refundedAt = new Date();
+      });
+      console.log(`✅ Refunded ${unpaidLines.length} unpaid basket lines`);
+    } catch (err: any) {
+      console.error(`❌ Refund of unpaid basket lines failed:`, err.message);
+    }
+  }
+
+  // No line could be paid out, so the whole charge went back to the donor
+  if (completedCount === 0) {
+    basket.status = BASKET_STATUS.FAILED;
+  }
+  await basket.save();
+
+  // 4. Update cause goal progress
+  await syncCauseProgressAfterPayment(
+    basket.lines
+      .filter((line) => line.status === BASKET_LINE_STATUS.COMPLETED)
+      .map((line) => line.cause)
+  );
+
+  // 5. Notify Donor once for the whole basket
+  try {
+    await createNotification(
+      donor.auth.toString(),
+      completedCount > 0
+        ? NOTIFICATION_TYPE.DONATION_SUCCESS
+        : NOTIFICATION_TYPE.DONATION_FAILED,
+      completedCount > 0
+        ? `Your basket donation of $${completedAmount.toFixed(2)} to ${completedCount} organization(s) was successful!`
+        : `Your basket donation of $${basket.amount} could not be completed and has been refunded.`,
+      basket._id!.toString()
+    );
+  } catch (err) {
+    console.log(`❌🔔 Cilent notification Failed!`);
+  }
+
+  console.log(
+    `\n✅ Basket ${basket._id} fanned out into ${completedCount} donations\n`
+  );
+};
+
+// ========================================
+// GIVING BASKET: Failed / Canceled Handler
+// ========================================
+const handleBasketPaymentUnsuccessful = async (
+  paymentIntent: Stripe.PaymentIntent,
+  status: 'failed' | 'canceled'
+) => {
+  const basketId = paymentIntent.metadata?.basketId;
+
+  // The basket may not have its Payment Intent ID saved yet
+  const basket = await DonationBasket.findOneAndUpdate(
+    {
+      $or: [
+        { stripePaymentIntentId: paymentIntent.id },
+        ...(basketId ? [{ _id: new Types.ObjectId(basketId) }] : []),
+      ],
+      status: {
+        $in: [BASKET_STATUS.PENDING, BASKET_STATUS.PROCESSING],
+      },
+    },
+    { status, stripePaymentIntentId: paymentIntent.id },
+    { new: true }
+  ).populate<{ donor: IClient }>('donor');
+
+  if (!basket) return;
+
+  basket.lines.forEach((line) => {
+    if (line.status === BASKET_LINE_STATUS.PENDING) {
+      line.status = status;
+    }
+  });
+  await basket.save();
+
+  try {
+    await createNotification(
+      basket.donor.auth.toString(),
+      status === 'failed'
+        ? NOTIFICATION_TYPE.DONATION_FAILED
+        : NOTIFICATION_TYPE.DONATION_CANCELLED,
+      status === 'failed'
+        ? `Your basket donation of $${basket.amount} failed. Please check your payment method.`
+        : `Your basket donation of $${basket.amount} cancelled successfully!`,
+      basket._id!.toString()
+    );
+  } catch (err) {
+    console.log(`❌🔔 Cilent notification Failed!`);
+  }
+
+  console.log(`✅ Basket ${basket._id} marked as ${status}`);
+};
+
+// Settles a donation's refund up to refundedAmount (cumulative, in donation
+// terms) and claws back the refunded share of what it earned
+const settleDonationRefund = async (
+  current: IDonation & { _id: Types.ObjectId },
+  refundedAmount: number
+) => {
+  const previousRefunded = current.refundedAmount || 0;
+  const refundDelta = Number((refundedAmount - previousRefunded).toFixed(2));
+  if (refundDelta <= 0) {
+    console.log(`ℹ️ Refund already settled for donation ${current._id}`);
+    return false;
+  }
+  const isFullyRefunded = refundedAmount >= current.amount;
+
+  // Guarded on the previous total so a replayed event settles once
+  const donation = await Donation.findOneAndUpdate(
+    {
+      _id: current._id,
+      status: { $in: ['completed', 'refunding'] },
+      ...(previousRefunded
+        ? { refundedAmount: previousRefunded }
+        : { refundedAmount: { $in: [0, null] } }),
+    },
+    {
+      status: isFullyRefunded ? 'refunded' : 'completed',
+      refundedAmount,
+      pendingRefundAmount: Math.max(
+        Number(((current.pendingRefundAmount || 0) - refundDelta).toFixed(2)),
+        0
+      ),
+    },
+    { new: true }
+  )
+    .populate<{ donor: IClient }>('donor')
+    .populate<{ organization: IORGANIZATION }>('organization')
+    .populate<{ cuase: ICause }>('cause');
+
+  if (!donation) {
+    console.warn(
+      `⚠️ Refund for donation ${current._id} was settled concurrently`
+    );
+    return false;
+  }
+
+  const donationId = donation._id!.toString();
+
+  try {
+    const orgId =
+      (donation.organization as any)._id?.toString() ||
+      donation.organization.toString();
+
+    await BalanceService.logRefundTransaction(orgId, donationId, refundDelta);
+    console.log(`✅ Refund logged for Org: ${orgId}`);
+  } catch (err: any) {
+    console.error(`❌ Failed to log refund:`, err.message);
+  }
+
+  // Claim back the refunded share of the points earned
+  try {
+    const pointsTarget = isFullyRefunded
+      ? donation.pointsEarned
+      : Math.floor((donation.pointsEarned * refundedAmount) / donation.amount);
+    const pointsToReverse = pointsTarget - (donation.pointsReversed || 0);
+
+    if (pointsToReverse > 0) {
+      await pointsServices.reversePointsForRefund(
+        donation.donor._id.toString(),
+        donationId,
+        pointsToReverse,
+        refundDelta,
+        (donation.refundRequestedBy || donation.donor.auth).toString()
+      );
+      await Donation.findByIdAndUpdate(donationId, {
+        pointsReversed: pointsTarget,
+      });
+    }
+  } catch (err: any) {
+    console.error(`❌ Points reversal failed:`, err.message);
+  }
+
+  try {
+    await badgeService.reverseBadgeProgressForRefund(
+      donationId,
+      refundDelta,
+      isFullyRefunded
+    );
+  } catch (err: any) {
+    console.error(`❌ Badge progress reversal failed:`, err.message);
+  }
+
+  // Give the sponsor's match back to the campaign budget
+  if (isFullyRefunded) {
+    try {
+      await MatchingCampaignService.releaseMatchForDonation(donationId);
+    } catch (err: any) {
+      console.error(`❌ Failed to release matched gift:`, err.message);
+    }
+  } else {
+    // The donor keeps a receipt for what was actually given
+    try {
+      await receiptServices.reissueAdjustedReceipt(donationId);
+    } catch (err: any) {
+      console.error(`❌ Adjusted receipt failed:`, err.message);
+    }
+  }
+
+  await syncCauseProgressAfterPayment([donation.cause]);
+
+  if (donation.fundraiser) {
+    try {
+      await FundraiserService.syncFundraiserProgress(donation.fundraiser);
+    } catch (err: any) {
+      console.error(`❌ Fundraiser progress sync failed:`, err.message);
+    }
+  }
+
+  if (donation.pledge) {
+    try {
+      await PledgeService.syncPledgeProgress(donation.pledge);
+    } catch (err: any) {
+      console.error(`❌ Pledge progress sync failed:`, err.message);
+    }
+  }
+
+  try {
+    const donorAuthId = donation?.donor.auth?.toString() as string;
+    // Notify Donor
+    await createNotification(
+      donorAuthId,
+      NOTIFICATION_TYPE.DONATION_REFUNDED,
+      isFullyRefunded
+        ? `Your donation of $${donation?.amount} has been refunded. Please check your payment method for details.`
+        : `$${refundDelta.toFixed(2)} of your $${donation.amount} donation has been refunded. An adjusted receipt is on its way.`,
+      donationId
+    );
+    console.log(`🔔 Cilent notification sucussfully sent!`);
+  } catch (err) {
+    console.log(`❌🔔 Cilent notification Failed!`);
+  }
+
+  console.log(
+    `✅ Donation ${isFullyRefunded ? 'refunded' : 'partially refunded'} ($${refundDelta.toFixed(2)}).`
+  );
+  return true;
+};
+
+// ========================================
+// GIVING BASKET: Refunded Handler
+// ========================================
+const handleBasketChargeRefunded = async (paymentIntentId: string) => {
+  const basket = await DonationBasket.findOne({
+    stripePaymentIntentId: paymentIntentId,
+  });
+
+  if (!basket) return false;
+
+  const refundingLines = basket.lines.filter(
+    (line) => line.status === BASKET_LINE_STATUS.REFUNDING
+  );
+
+  // e.g. the automatic refund of canceled lines - nothing to settle
+  if (refundingLines.length === 0) return true;
+
+  for (const line of refundingLines) {
+    line.status = BASKET_LINE_STATUS.REFUNDED;
+    line.refundedAt = new Date();
+
+    if (!line.donation) continue;
+
+    // Settled like any other refund: points, badges, match and progress
+    const lineDonation = await Donation.findById(line.donation);
+    if (lineDonation) {
+      await settleDonationRefund(lineDonation, lineDonation.amount);
+    }
+  }
+
+  const hasPaidLines = basket.lines.some(
+    (line) => line.status === BASKET_LINE_STATUS.COMPLETED
+  );
+  basket.status = hasPaidLines
+    ? BASKET_STATUS.PARTIALLY_REFUNDED
+    : BASKET_STATUS.REFUNDED;
+  await basket.save();
+
+  console.log(`✅ Basket ${basket._id} refund settled (${basket.status})`);
+  return true;
+};
+
 // ========================================
 // PAYMENT INTENT: Succeeded Handler
 // ========================================
@@ -304,6 +1043,18 @@ const handlePaymentIntentSucceeded = async (
   console.log(`========================================\n`);
 
   try {
+    // Giving basket: one payment, many donations
+    if (metadata?.type === 'donation_basket') {
+      await handleBasketPaymentSucceeded(paymentIntent);
+      return;
+    }
+
+    // Split round-up: one payment, one donation per charity
+    if (metadata?.type === 'roundup_split_donation') {
+      await handleRoundUpSplitPaymentSucceeded(paymentIntent);
+      return;
+    }
+
     // Try to find donation by payment intent ID
     let donation = await Donation.findOneAndUpdate(
       {
@@ -403,19 +1154,63 @@ const handlePaymentIntentSucceeded = async (
       }
     }
 
+    // 1b. Apply matching-gift campaigns (before the receipt prints it)
+    let match = null;
+    try {
+      match = await MatchingCampaignService.applyMatchForDonation(
+        donation._id!.toString()
+      );
+    } catch (err) {
+      console.error(`❌ Matching failed:`, err);
+    }
+
+    // 1c. Update cause goal progress
+    await syncCauseProgressAfterPayment([donation.cause]);
+
+    // 1d. Credit peer-to-peer fundraiser
+    if (donation.fundraiser) {
+      try {
+        await FundraiserService.handleFundraiserDonationSucceeded(
+          donation._id!.toString()
+        );
+      } catch (err) {
+        console.error(`❌ Fundraiser crediting failed:`, err);
+      }
+    }
+
+    // 1e. Count the payment towards its pledge
+    if (donation.pledge) {
+      try {
+        await PledgeService.handlePledgeDonationSucceeded(
+          donation._id!.toString()
+        );
+      } catch (err) {
+        console.error(`❌ Pledge crediting failed:`, err);
+      }
+    }
+
     // 2. Generate receipt
     try {
-      await generateReceiptAfterPayment(donation, paymentIntent);
+      await generateReceiptAfterPayment(donation, paymentIntent, match);
     } catch (err) {
       console.error(`❌ Receipt generation failed:`, err);
     }
 
+    // 2b. Send tribute e-card
+    try {
+      await sendTributeEcardAfterPayment(donation);
+    } catch (err) {
+      console.error(`❌ Tribute e-card failed:`, err);
+    }
+
     // 3. Award points
     try {
       await pointsServices.awardPointsForDonation(
         donation.donor._id.toString(),
         donation._id!.toString(),
-        donation.amount
+        donation.amount,
+        undefined,
+        { feeSchedule: donation.feeSchedule?.name }
       );
       console.log(`✅ Points awarded to donor`);
     } catch (err) {
@@ -453,7 +1248,7 @@ const handlePaymentIntentSucceeded = async (
       await createNotification(
         donation.organization.auth.toString(), // Use org's auth ID
         NOTIFICATION_TYPE.NEW_DONATION,
-        `New ${donation?.donationType} donation received: $${donation.amount} from ${donation.donor.name}`,
+        `New ${donation?.donationType} donation received: $${donation.amount} from ${donation.isAnonymous ? ANONYMOUS_DONOR_NAME : donation.donor.name}`,
         donation._id!.toString(),
         { ...donation }
       );
@@ -488,6 +1283,16 @@ const handlePaymentIntentFailed = async (
   console.log(`========================================\n`);
 
   try {
+    if (metadata?.type === 'donation_basket') {
+      await handleBasketPaymentUnsuccessful(paymentIntent, 'failed');
+      return;
+    }
+
+    if (metadata?.type === 'roundup_split_donation') {
+      await handleRoundUpSplitPaymentUnsuccessful(paymentIntent, 'failed');
+      return;
+    }
+
     const donation = await Donation.findOneAndUpdate(
       {
         stripePaymentIntentId: paymentIntent.id,
@@ -573,18 +1378,21 @@ const handlePaymentIntentFailed = async (
       );
     }
 
-    try {
-      const donorAuthId = donation?.donor.auth?.toString() as string;
-      // Notify Donor
-      await createNotification(
-        donorAuthId,
-        NOTIFICATION_TYPE.DONATION_FAILED,
-        `Your ${donation?.donationType} donation attempt of $${donation?.amount} failed. Please check your payment method.`,
-        donation?._id!.toString()
-      );
-      console.log(`🔔 Cilent notification sucussfully sent!`);
-    } catch (err) {
-      console.log(`❌🔔 Cilent notification Failed!`);
+    // Recurring donors get a staged dunning notice instead
+    if (!donation?.scheduledDonationId) {
+      try {
+        const donorAuthId = donation?.donor.auth?.toString() as string;
+        // Notify Donor
+        await createNotification(
+          donorAuthId,
+          NOTIFICATION_TYPE.DONATION_FAILED,
+          `Your ${donation?.donationType} donation attempt of $${donation?.amount} failed. Please check your payment method.`,
+          donation?._id!.toString()
+        );
+        console.log(`🔔 Cilent notification sucussfully sent!`);
+      } catch (err) {
+        console.log(`❌🔔 Cilent notification Failed!`);
+      }
     }
 
     console.log(`✅ Payment failure processed`);
@@ -608,6 +1416,16 @@ const handlePaymentIntentCanceled = async (
   console.log(`========================================\n`);
 
   try {
+    if (metadata?.type === 'donation_basket') {
+      await handleBasketPaymentUnsuccessful(paymentIntent, 'canceled');
+      return;
+    }
+
+    if (metadata?.type === 'roundup_split_donation') {
+      await handleRoundUpSplitPaymentUnsuccessful(paymentIntent, 'canceled');
+      return;
+    }
+
     const donation = await Donation.findOneAndUpdate(
       {
         stripePaymentIntentId: paymentIntent.id,
@@ -636,7 +1454,7 @@ const handlePaymentIntentCanceled = async (
       donation?.scheduledDonationId
     ) {
       await updateScheduledDonationAfterFailure(
-        metadata.scheduledDonationId,
+        donation.scheduledDonationId.toString(),
         'Payment canceled by user or system'
       );
     }
@@ -661,6 +1479,41 @@ const handlePaymentIntentCanceled = async (
   }
 };
 
+// Split round-up lines share one charge and each is refunded in full for its
+// share of it. The cumulative amount_refunded says which of the requested
+// line refunds Stripe has made so far.
+const handleSplitChargeRefunded = async (charge: Stripe.Charge) => {
+  const lines = await Donation.find({
+    stripePaymentIntentId: charge.payment_intent as string,
+    donationType: 'round-up',
+  }).sort({ updatedAt: 1 });
+
+  if (lines.length < 2) return false;
+
+  const settledCharge = lines
+    .filter((line) => line.status === 'refunded')
+    .reduce((sum, line) => sum + line.totalAmount, 0);
+  let unsettled = Number(
+    (charge.amount_refunded / 100 - settledCharge).toFixed(2)
+  );
+
+  for (const line of lines) {
+    if (charge.refunded) {
+      // A full refund made in Stripe also covers lines nobody requested
+      if (!(['completed', 'refunding'] as string[]).includes(line.status)) {
+        continue;
+      }
+    } else if (line.status !== 'refunding' || line.totalAmount > unsettled) {
+      continue;
+    }
+
+    unsettled = Number((unsettled - line.totalAmount).toFixed(2));
+    await settleDonationRefund(line, line.amount);
+  }
+
+  return true;
+};
+
 // ========================================
 // CHARGE: Refunded Handler
 // ========================================
@@ -672,54 +1525,33 @@ const handleChargeRefunded = async (charge: Stripe.Charge) => {
   if (!paymentIntentId) return;
 
   try {
-    // 1. Find and update Donation
-    const donation = await Donation.findOneAndUpdate(
-      {
-        stripePaymentIntentId: paymentIntentId,
-        status: { $in: ['completed', 'refunding'] },
-      },
-      { status: 'refunded' },
-      { new: true }
-    )
-      .populate<{ donor: IClient }>('donor')
-      .populate<{ organization: IORGANIZATION }>('organization')
-      .populate<{ cuase: ICause }>('cause');
+    // Giving basket refunds are settled per line
+    if (await handleBasketChargeRefunded(paymentIntentId)) return;
 
-    if (donation) {
-      try {
-        const orgId =
-          (donation.organization as any)._id?.toString() ||
-          donation.organization.toString();
-
-        await BalanceService.logRefundTransaction(
-          orgId,
-          donation._id!.toString()
-        );
-        console.log(`✅ Refund logged for Org: ${orgId}`);
-      } catch (err: any) {
-        console.error(`❌ Failed to log refund:`, err.message);
-      }
+    // Split round-up refunds are settled per line
+    if (await handleSplitChargeRefunded(charge)) return;
 
-      try {
-        const donorAuthId = donation?.donor.auth?.toString() as string;
-        // Notify Donor
-        await createNotification(
-          donorAuthId,
-          NOTIFICATION_TYPE.DONATION_REFUNDED,
-          `Your donation of $${donation?.amount} has been refunded. Please check your payment method for details.`,
-          donation?._id!.toString()
-        );
-        console.log(`🔔 Cilent notification sucussfully sent!`);
-      } catch (err) {
-        console.log(`❌🔔 Cilent notification Failed!`);
-      }
-    } else {
+    // 1. Find the Donation and work out what this event newly refunds.
+    // amount_refunded is cumulative and in charge terms (fees included).
+    const current = await Donation.findOne({
+      stripePaymentIntentId: paymentIntentId,
+      status: { $in: ['completed', 'refunding'] },
+    });
+    if (!current) {
       console.warn(
         `⚠️ Donation not found or not eligible for refund via webhook (PI: ${paymentIntentId})`
       );
+      return;
     }
 
-    console.log(`✅ Donation status updated to REFUNDED.`);
+    const refundedAmount = charge.refunded
+      ? current.amount
+      : Math.min(
+          Number((charge.amount_refunded / 100).toFixed(2)),
+          current.amount
+        );
+
+    await settleDonationRefund(current, refundedAmount);
   } catch (error) {
     console.error(`❌ Failed to update donation status to refunded:`, error);
   }
@@ -1079,6 +1911,24 @@ const handleStripeWebhook = async (
         await handleChargeRefunded(event.data.object as Stripe.Charge);
         break;
 
+      case 'charge.dispute.created':
+        await DisputeService.handleDisputeCreated(
+          event.data.object as Stripe.Dispute
+        );
+        break;
+
+      case 'charge.dispute.updated':
+        await DisputeService.handleDisputeUpdated(
+          event.data.object as Stripe.Dispute
+        );
+        break;
+
+      case 'charge.dispute.closed':
+        await DisputeService.handleDisputeClosed(
+          event.data.object as Stripe.Dispute
+        );
+        break;
+
       case 'payout.paid':
         await handlePayoutPaid(event.data.object as Stripe.Payout);
         break;
@@ -0,0 +1,25 @@
+export const BASKET_STATUS = {
+  PENDING: 'pending', // Created, payment not yet confirmed
+  PROCESSING: 'processing', // PaymentIntent confirmed, waiting for webhook
+  COMPLETED: 'completed', // Paid and fanned out into child donations
+  PARTIALLY_REFUNDED: 'partially_refunded', // Some lines refunded
+  REFUNDING: 'refunding', // Refund requested, waiting for webhook
+  REFUNDED: 'refunded', // Every paid line refunded
+  FAILED: 'failed',
+  CANCELED: 'canceled',
+} as const;
+
+export const BASKET_LINE_STATUS = {
+  PENDING: 'pending',
+  COMPLETED: 'completed',
+  CANCELED: 'canceled', // Removed before payment succeeded
+  REFUNDING: 'refunding',
+  REFUNDED: 'refunded',
+  FAILED: 'failed',
+} as const;
+
+// Keep baskets small enough to review on a single checkout screen
+export const BASKET_MAX_LINES = 10;
+
+export const BASKET_STATUS_VALUES = Object.values(BASKET_STATUS);
+export const BASKET_LINE_STATUS_VALUES = Object.values(BASKET_LINE_STATUS);
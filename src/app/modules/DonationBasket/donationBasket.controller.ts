@@ -0,0 +1,152 @@
+import httpStatus from 'http-status';
+import { Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { DonationBasketService } from './donationBasket.service';
+
+// 1. Create giving basket with a single Payment Intent
+const createBasket = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonationBasketService.createBasket({
+      ...req.body,
+      userId,
+    });
+
+    sendResponse(res, {
+      statusCode: httpStatus.CREATED,
+      message: 'Basket created and payment initiated successfully',
+      data: {
+        basket: result.basket,
+        payment: {
+          clientSecret: result.paymentIntent.client_secret,
+          paymentIntentId: result.paymentIntent.payment_intent_id,
+          status: result.basket.status,
+        },
+      },
+    });
+  }
+);
+
+// 2. Get basket by ID
+const getBasketById = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonationBasketService.getBasketById(
+      req.params.basketId.toString(),
+      userId
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Basket retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 3. Cancel whole basket
+const cancelBasket = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonationBasketService.cancelBasket(
+      req.params.basketId.toString(),
+      userId
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Basket cancelled successfully',
+      data: result,
+    });
+  }
+);
+
+// 4. Cancel single basket line
+const cancelBasketLine = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonationBasketService.cancelBasketLine(
+      req.params.basketId.toString(),
+      req.params.lineId.toString(),
+      userId
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Basket line cancelled successfully',
+      data: result,
+    });
+  }
+);
+
+// 5. Refund whole basket
+const refundBasket = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonationBasketService.refundBasket(
+      req.params.basketId.toString(),
+      userId,
+      req.body?.reason
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Basket refund initiated successfully',
+      data: result,
+    });
+  }
+);
+
+// 6. Refund single basket line
+const refundBasketLine = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonationBasketService.refundBasketLine(
+      req.params.basketId.toString(),
+      req.params.lineId.toString(),
+      userId,
+      req.body?.reason
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Basket line refund initiated successfully',
+      data: result,
+    });
+  }
+);
+
+export const DonationBasketController = {
+  createBasket,
+  getBasketById,
+  cancelBasket,
+  cancelBasketLine,
+  refundBasket,
+  refundBasketLine,
+};
@@ -0,0 +1,67 @@
+import { Document, Types } from 'mongoose';
+import { BASKET_LINE_STATUS, BASKET_STATUS } from './donationBasket.constant';
+import { IAppliedFeeSchedule } from '../FeeSchedule/feeSchedule.interface';
+
+export type TBasketStatus = (typeof BASKET_STATUS)[keyof typeof BASKET_STATUS];
+export type TBasketLineStatus =
+  (typeof BASKET_LINE_STATUS)[keyof typeof BASKET_LINE_STATUS];
+
+export interface IDonationBasketLine {
+  _id: Types.ObjectId;
+  organization: Types.ObjectId;
+  cause: Types.ObjectId;
+
+  // Per-line breakdown (see calculateBasketFees)
+  amount: number; // Base Donation Amount
+  platformFee: number;
+  gstOnFee: number;
+  stripeFee: number; // Share of the single Stripe fee
+  netAmount: number; // Transferred to the organization
+  totalAmount: number; // Share of the card charge
+  feeSchedule?: IAppliedFeeSchedule; // Rates the line was priced with
+
+  // FX snapshot taken at checkout (see FxRateService)
+  settlementCurrency: string;
+  exchangeRate: number;
+
+  specialMessage?: string;
+  status: TBasketLineStatus;
+
+  // Filled in once the payment succeeds
+  donation?: Types.ObjectId;
+  stripeTransferId?: string;
+  stripeReversalId?: string; // Transfer pulled back for a refund
+  stripeRefundId?: string; // Set when an unpaid line's share is given back
+  refundedAt?: Date;
+}
+
+export interface IDonationBasket {
+  donor: Types.ObjectId;
+  lines: Types.DocumentArray<IDonationBasketLine & Document>;
+
+  // Basket totals
+  amount: number;
+  coverFees: boolean;
+  platformFee: number;
+  gstOnFee: number;
+  stripeFee: number;
+  totalAmount: number;
+  currency: string;
+
+  status: TBasketStatus;
+  specialMessage?: string;
+  isAnonymous: boolean; // Copied onto every child donation
+  refundReason?: string;
+  completedAt?: Date;
+
+  stripePaymentIntentId?: string;
+  stripeChargeId?: string;
+  stripeCustomerId?: string;
+  stripePaymentMethodId?: string;
+  idempotencyKey: string;
+}
+
+export interface IDonationBasketModel extends IDonationBasket, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
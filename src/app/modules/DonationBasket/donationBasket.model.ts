@@ -0,0 +1,112 @@
+import { Schema, model } from 'mongoose';
+import {
+  IDonationBasketLine,
+  IDonationBasketModel,
+} from './donationBasket.interface';
+import {
+  BASKET_LINE_STATUS,
+  BASKET_LINE_STATUS_VALUES,
+  BASKET_STATUS,
+  BASKET_STATUS_VALUES,
+} from './donationBasket.constant';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
+import { appliedFeeScheduleSchema } from '../FeeSchedule/feeSchedule.model';
+
+const basketLineSchema = new Schema<IDonationBasketLine>({
+  organization: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: true,
+  },
+  cause: {
+    type: Schema.Types.ObjectId,
+    ref: 'Cause',
+    required: true,
+  },
+
+  amount: { type: Number, required: true, min: 0.01 },
+  platformFee: { type: Number, default: 0 },
+  gstOnFee: { type: Number, default: 0 },
+  stripeFee: { type: Number, default: 0 },
+  netAmount: { type: Number, required: true },
+  totalAmount: { type: Number, required: true },
+  feeSchedule: { type: appliedFeeScheduleSchema },
+
+  settlementCurrency: { type: String, default: DEFAULT_CURRENCY },
+  exchangeRate: { type: Number, default: 1, min: 0 },
+
+  specialMessage: { type: String },
+  status: {
+    type: String,
+    enum: BASKET_LINE_STATUS_VALUES,
+    default: BASKET_LINE_STATUS.PENDING,
+  },
+
+  donation: { type: Schema.Types.ObjectId, ref: 'Donation' },
+  stripeTransferId: { type: String },
+  stripeReversalId: { type: String },
+  stripeRefundId: { type: String },
+  refundedAt: { type: Date },
+});
+
+const donationBasketSchema = new Schema<IDonationBasketModel>(
+  {
+    donor: {
+      type: Schema.Types.ObjectId,
+      ref: 'Client',
+      required: true,
+      index: true,
+    },
+    lines: {
+      type: [basketLineSchema],
+      validate: {
+        validator: (lines: unknown[]) => lines.length > 0,
+        message: 'Basket must contain at least one line',
+      },
+    },
+
+    amount: { type: Number, required: true },
+    coverFees: { type: Boolean, default: false },
+    platformFee: { type: Number, default: 0 },
+    gstOnFee: { type: Number, default: 0 },
+    stripeFee: { type: Number, default: 0 },
+    totalAmount: { type: Number, required: true },
+    currency: { type: String, default: DEFAULT_CURRENCY },
+    isAnonymous: { type: Boolean, default: false },
+
+    status: {
+      type: String,
+      enum: BASKET_STATUS_VALUES,
+      default: BASKET_STATUS.PENDING,
+      index: true,
+    },
+    specialMessage: { type: String },
+    refundReason: { type: String },
+    completedAt: { type: Date },
+
+    stripePaymentIntentId: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+    stripeChargeId: { type: String },
+    stripeCustomerId: { type: String },
+    stripePaymentMethodId: { type: String },
+    idempotencyKey: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+donationBasketSchema.index({ donor: 1, createdAt: -1 });
+
+export const DonationBasket = model<IDonationBasketModel>(
+  'DonationBasket',
+  donationBasketSchema
+);
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { auth, idempotency, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { DonationBasketController } from './donationBasket.controller';
+import { DonationBasketValidation } from './donationBasket.validation';
+
+const router = Router();
+
+// 1. Create giving basket (several organizations, one payment)
+router.post(
+  '/create',
+  auth(ROLE.CLIENT),
+  idempotency(),
+  validateRequest(DonationBasketValidation.createBasketSchema),
+  DonationBasketController.createBasket
+);
+
+// 2. Get basket with line status
+router.get(
+  '/:basketId',
+  auth(ROLE.CLIENT),
+  validateRequest(DonationBasketValidation.basketIdParamsSchema),
+  DonationBasketController.getBasketById
+);
+
+// 3. Cancel whole basket (before payment succeeds)
+router.post(
+  '/:basketId/cancel',
+  auth(ROLE.CLIENT),
+  validateRequest(DonationBasketValidation.basketIdParamsSchema),
+  DonationBasketController.cancelBasket
+);
+
+// 4. Cancel a single line (before payment succeeds)
+router.post(
+  '/:basketId/lines/:lineId/cancel',
+  auth(ROLE.CLIENT),
+  validateRequest(DonationBasketValidation.basketLineParamsSchema),
+  DonationBasketController.cancelBasketLine
+);
+
+// 5. Refund whole basket
+router.post(
+  '/:basketId/refund',
+  auth(ROLE.CLIENT),
+  validateRequest(DonationBasketValidation.refundBasketSchema),
+  DonationBasketController.refundBasket
+);
+
+// 6. Refund a single line
+router.post(
+  '/:basketId/lines/:lineId/refund',
+  auth(ROLE.CLIENT),
+  validateRequest(DonationBasketValidation.refundBasketLineSchema),
+  DonationBasketController.refundBasketLine
+);
+
+export const DonationBasketRoutes = router;
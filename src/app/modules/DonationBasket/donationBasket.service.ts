@@ -0,0 +1,514 @@
+/* eslint-disable no-console */
+import { Types } from 'mongoose';
+import httpStatus from 'http-status';
+import { AppError } from '../../utils';
+import Client from '../Client/client.model';
+import Organization from '../Organization/organization.model';
+import Cause from '../Causes/causes.model';
+import {
+  CAUSE_FUNDRAISING_STATUS,
+  CAUSE_STATUS_TYPE,
+} from '../Causes/causes.constant';
+import { StripeAccount } from '../OrganizationAccount/stripe-account.model';
+import { PaymentMethodService } from '../PaymentMethod/paymentMethod.service';
+import { StripeService } from '../Stripe/stripe.service';
+import { FxRateService } from '../FxRate/fxRate.service';
+import { FeeScheduleService } from '../FeeSchedule/feeSchedule.service';
+import { ICurrencySnapshot } from '../FxRate/fxRate.interface';
+import { Donation } from '../Donation/donation.model';
+import {
+  calculateBasketFees,
+  DEFAULT_CURRENCY,
+  REFUND_WINDOW_DAYS,
+} from '../Donation/donation.constant';
+import { DonationBasket } from './donationBasket.model';
+import {
+  IDonationBasketLine,
+  IDonationBasketModel,
+} from './donationBasket.interface';
+import { BASKET_LINE_STATUS, BASKET_STATUS } from './donationBasket.constant';
+import { TCreateBasketPayload } from './donationBasket.validation';
+
+// Helper function to generate unique idempotency key
+const generateIdempotencyKey = (): string => {
+  return `bkt-${new Types.ObjectId().toString()}-${Date.now()}`;
+};
+
+// Helper: load a basket and make sure it belongs to the requesting donor
+const getOwnedBasket = async (basketId: string, userId: string) => {
+  const donor = await Client.findOne({ auth: userId });
+  if (!donor?._id) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+  }
+
+  const basket = await DonationBasket.findById(basketId);
+  if (!basket) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Basket not found!');
+  }
+
+  if (basket.donor.toString() !== donor._id.toString()) {
+    throw new AppError(httpStatus.FORBIDDEN, 'Permission denied');
+  }
+
+  return basket;
+};
+
+// 1. Create giving basket with a single Payment Intent (Platform Charge)
+const createBasket = async (
+  payload: TCreateBasketPayload & {
+    userId: string;
+  }
+) => {
+  const {
+    lines,
+    coverFees = false,
+    paymentMethodId,
+    specialMessage,
+    isAnonymous,
+    userId,
+  } = payload;
+
+  // 1. Check if donor exists
+  const donor = await Client.findOne({ auth: userId });
+  if (!donor?._id) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+  }
+
+  // 2. Validate every organization, Stripe account and cause
+  const basketCurrency = donor.displayCurrency || DEFAULT_CURRENCY;
+  const lineCurrencies: ICurrencySnapshot[] = [];
+
+  for (const line of lines) {
+    const organization = await Organization.findById(line.organizationId);
+    if (!organization) {
+      throw new AppError(
+        httpStatus.NOT_FOUND,
+        `Organization not found: ${line.organizationId}`
+      );
+    }
+
+    const stripeAccount = await StripeAccount.findOne({
+      organization: line.organizationId,
+      status: 'active',
+    });
+    if (!stripeAccount || !stripeAccount.chargesEnabled) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `${organization.name} is not set up to receive payments (Stripe account inactive).`
+      );
+    }
+
+    const cause = await Cause.findById(line.causeId);
+    if (!cause) {
+      throw new AppError(
+        httpStatus.NOT_FOUND,
+        `Cause not found: ${line.causeId}`
+      );
+    }
+    if (cause.organization.toString() !== line.organizationId) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Cause ${cause.name} does not belong to ${organization.name}.`
+      );
+    }
+    if (cause.status !== CAUSE_STATUS_TYPE.VERIFIED) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Cannot create donation for cause with status: ${cause.status}.`
+      );
+    }
+    if (cause.fundraisingStatus === CAUSE_FUNDRAISING_STATUS.CLOSED) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Cause ${cause.name} is closed and no longer accepts donations.`
+      );
+    }
+
+    // Each organization reports the line in its own settlement currency
+    lineCurrencies.push(
+      await FxRateService.buildCurrencySnapshot(
+        basketCurrency,
+        organization.settlementCurrency || DEFAULT_CURRENCY
+      )
+    );
+  }
+
+  // 3. Validate Payment Method
+  const paymentMethod = await PaymentMethodService.getPaymentMethodById(
+    paymentMethodId,
+    userId
+  );
+
+  if (!paymentMethod.isActive) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Payment method is not active!');
+  }
+
+  // 4. Calculate Fees (per line schedule, single Stripe fee)
+  const lineSchedules = await Promise.all(
+    lines.map((line) =>
+      FeeScheduleService.resolveFeeSchedule({
+        organizationId: line.organizationId,
+        causeId: line.causeId,
+      })
+    )
+  );
+  const financials = calculateBasketFees(
+    lines.map((line) => line.amount),
+    coverFees,
+    lineSchedules
+  );
+  console.log(`🧺 Basket Breakdown (${lines.length} lines):`);
+  console.log(`   Base: $${financials.baseAmount.toFixed(2)}`);
+  console.log(`   Stripe Fee: $${financials.stripeFee.toFixed(2)}`);
+  console.log(`   Total Charged: $${financials.totalCharge.toFixed(2)}`);
+
+  // 5. Create Basket Record
+  // Saved before the charge so payment webhooks can always find it
+  const basketId = new Types.ObjectId();
+
+  const basket = new DonationBasket({
+    _id: basketId,
+    donor: donor._id,
+    lines: lines.map((line, index) => ({
+      organization: new Types.ObjectId(line.organizationId),
+      cause: new Types.ObjectId(line.causeId),
+      amount: financials.lines[index].baseAmount,
+      platformFee: financials.lines[index].platformFee,
+      gstOnFee: financials.lines[index].gstOnFee,
+      stripeFee: financials.lines[index].stripeFee,
+      netAmount: financials.lines[index].netToOrg,
+      totalAmount: financials.lines[index].totalCharge,
+      feeSchedule: lineSchedules[index],
+      specialMessage: line.specialMessage || specialMessage,
+      settlementCurrency: lineCurrencies[index].settlementCurrency,
+      exchangeRate: lineCurrencies[index].exchangeRate,
+      status: BASKET_LINE_STATUS.PENDING,
+    })),
+
+    amount: financials.baseAmount,
+    coverFees: financials.coverFees,
+    platformFee: financials.platformFee,
+    gstOnFee: financials.gstOnFee,
+    stripeFee: financials.stripeFee,
+    totalAmount: financials.totalCharge,
+    currency: basketCurrency,
+
+    status: BASKET_STATUS.PENDING,
+    specialMessage,
+    isAnonymous: isAnonymous ?? donor.donateAnonymously ?? false,
+    stripeCustomerId: paymentMethod.stripeCustomerId,
+    stripePaymentMethodId: paymentMethod.stripePaymentMethodId,
+    idempotencyKey: generateIdempotencyKey(),
+  });
+  await basket.save();
+
+  // 6. Create one Payment Intent for the whole basket. It is confirmed at
+  // once, so its webhooks may arrive before this call returns.
+  let paymentIntent;
+  try {
+    paymentIntent = await StripeService.createBasketPaymentIntent({
+      basketId: basketId.toString(),
+      donorId: donor._id.toString(),
+      amount: financials.baseAmount,
+      totalAmount: financials.totalCharge,
+      currency: basketCurrency,
+      customerId: paymentMethod.stripeCustomerId,
+      paymentMethodId: paymentMethod.stripePaymentMethodId,
+      lineCount: lines.length,
+      coverFees: financials.coverFees,
+      platformFee: financials.platformFee,
+      gstOnFee: financials.gstOnFee,
+      stripeFee: financials.stripeFee,
+    });
+  } catch (error: unknown) {
+    basket.status = BASKET_STATUS.FAILED;
+    basket.lines.forEach((line) => {
+      line.status = BASKET_LINE_STATUS.FAILED;
+    });
+    await basket.save();
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      `Failed to create basket: ${errorMessage}`
+    );
+  }
+
+  // Unless the payment webhook has already settled the basket
+  const savedBasket =
+    (await DonationBasket.findOneAndUpdate(
+      { _id: basketId, status: BASKET_STATUS.PENDING },
+      {
+        stripePaymentIntentId: paymentIntent.payment_intent_id,
+        status: BASKET_STATUS.PROCESSING,
+      },
+      { new: true }
+    )) ?? (await DonationBasket.findById(basketId));
+  if (!savedBasket) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Basket not found!');
+  }
+
+  return {
+    basket: savedBasket,
+    paymentIntent,
+  };
+};
+
+// 2. Get basket by ID (donor must own it)
+const getBasketById = async (basketId: string, userId: string) => {
+  const basket = await getOwnedBasket(basketId, userId);
+
+  return await basket.populate([
+    { path: 'lines.organization', select: 'name coverImage' },
+    { path: 'lines.cause', select: 'name category' },
+    { path: 'lines.donation', select: 'status receiptId donationDate' },
+  ]);
+};
+
+// 3. Cancel the whole basket before the payment succeeds
+const cancelBasket = async (basketId: string, userId: string) => {
+  const basket = await getOwnedBasket(basketId, userId);
+
+  if (
+    !([BASKET_STATUS.PENDING, BASKET_STATUS.PROCESSING] as string[]).includes(
+      basket.status
+    )
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Cannot cancel basket with status: ${basket.status}`
+    );
+  }
+
+  if (basket.stripePaymentIntentId) {
+    try {
+      await StripeService.cancelPaymentIntent(basket.stripePaymentIntentId);
+    } catch (error) {
+      console.error(
+        `Failed to cancel payment intent ${basket.stripePaymentIntentId}:`,
+        error
+      );
+    }
+  }
+
+  basket.status = BASKET_STATUS.CANCELED;
+  basket.lines.forEach((line) => {
+    line.status = BASKET_LINE_STATUS.CANCELED;
+  });
+  await basket.save();
+
+  return basket;
+};
+
+// 4. Cancel a single line before the payment succeeds
+// The line's share is refunded automatically when the payment completes.
+const cancelBasketLine = async (
+  basketId: string,
+  lineId: string,
+  userId: string
+) => {
+  const basket = await getOwnedBasket(basketId, userId);
+
+  const line = basket.lines.id(lineId);
+  if (!line) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Basket line not found!');
+  }
+
+  if (
+    !([BASKET_STATUS.PENDING, BASKET_STATUS.PROCESSING] as string[]).includes(
+      basket.status
+    ) ||
+    line.status !== BASKET_LINE_STATUS.PENDING
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Cannot cancel line with status: ${line.status}. Request a refund instead.`
+    );
+  }
+
+  const remainingLines = basket.lines.filter(
+    (l) => l.status === BASKET_LINE_STATUS.PENDING
+  );
+
+  // Last open line: cancel the whole payment instead
+  if (remainingLines.length === 1) {
+    return await cancelBasket(basketId, userId);
+  }
+
+  line.status = BASKET_LINE_STATUS.CANCELED;
+  await basket.save();
+
+  return basket;
+};
+
+// Helper: refund a set of completed lines in one Stripe refund
+const refundLines = async (
+  basket: IDonationBasketModel,
+  lines: IDonationBasketLine[],
+  reason?: string
+) => {
+  // 1. Status Check
+  if (
+    !(
+      [BASKET_STATUS.COMPLETED, BASKET_STATUS.PARTIALLY_REFUNDED] as string[]
+    ).includes(basket.status)
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Cannot refund basket with status: ${basket.status}`
+    );
+  }
+
+  if (lines.length === 0) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Nothing left to refund');
+  }
+
+  const notRefundable = lines.find(
+    (line) => line.status !== BASKET_LINE_STATUS.COMPLETED
+  );
+  if (notRefundable) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Cannot refund line with status: ${notRefundable.status}`
+    );
+  }
+
+  // 2. Refund Window Check
+  const paidAt = new Date(basket.completedAt || basket.createdAt);
+  const diffInDays = (Date.now() - paidAt.getTime()) / (1000 * 3600 * 24);
+
+  if (diffInDays > REFUND_WINDOW_DAYS) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Refund period expired. Refunds are only allowed within ${REFUND_WINDOW_DAYS} days of donation.`
+    );
+  }
+
+  if (!basket.stripePaymentIntentId) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'No payment intent found');
+  }
+
+  try {
+    // 3. Pull each organization's share back to the platform. Each reversal
+    // is saved at once so a retry after a failure doesn't repeat it.
+    for (const line of lines) {
+      if (line.stripeTransferId && !line.stripeReversalId) {
+        const reversal = await StripeService.reverseTransfer(
+          line.stripeTransferId,
+          line.netAmount,
+          {
+            basketId: basket._id!.toString(),
+            lineId: line._id.toString(),
+          }
+        );
+        line.stripeReversalId = reversal.id;
+        await basket.save();
+      }
+    }
+
+    // 4. Refund the donor's share of the card charge
+    const refundAmount = Number(
+      lines.reduce((sum, line) => sum + line.totalAmount, 0).toFixed(2)
+    );
+    await StripeService.createRefund(
+      basket.stripePaymentIntentId,
+      refundAmount
+    );
+
+    // 5. Update Status (Will be 'refunded' via webhook)
+    lines.forEach((line) => {
+      line.status = BASKET_LINE_STATUS.REFUNDING;
+    });
+    // Other paid lines stay refundable until the webhook settles this one
+    const hasPaidLines = basket.lines.some(
+      (line) => line.status === BASKET_LINE_STATUS.COMPLETED
+    );
+    if (!hasPaidLines) {
+      basket.status = BASKET_STATUS.REFUNDING;
+    }
+    if (reason) {
+      basket.refundReason = reason;
+    }
+    await basket.save();
+
+    await Donation.updateMany(
+      { _id: { $in: lines.map((line) => line.donation) } },
+      {
+        status: 'refunding',
+        ...(reason && { refundReason: reason }),
+      }
+    );
+
+    return basket;
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      `Failed to process refund: ${errorMessage}`
+    );
+  }
+};
+
+// 5. Refund every paid line of a basket
+const refundBasket = async (
+  basketId: string,
+  userId: string,
+  reason?: string
+) => {
+  const basket = await getOwnedBasket(basketId, userId);
+
+  const paidLines = basket.lines.filter(
+    (line) => line.status === BASKET_LINE_STATUS.COMPLETED
+  );
+
+  return await refundLines(basket, paidLines, reason);
+};
+
+// 6. Refund a single line of a basket
+const refundBasketLine = async (
+  basketId: string,
+  lineId: string,
+  userId: string,
+  reason?: string
+) => {
+  const basket = await getOwnedBasket(basketId, userId);
+
+  const line = basket.lines.id(lineId);
+  if (!line) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Basket line not found!');
+  }
+
+  return await refundLines(basket, [line], reason);
+};
+
+// 7. Refund a basket line on behalf of its donation. The caller has already
+// checked that the user may refund that donation (donor, org or admin).
+const refundBasketLineForDonation = async (
+  basketId: string,
+  lineId: string,
+  reason?: string
+) => {
+  const basket = await DonationBasket.findById(basketId);
+  if (!basket) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Basket not found!');
+  }
+
+  const line = basket.lines.id(lineId);
+  if (!line) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Basket line not found!');
+  }
+
+  return await refundLines(basket, [line], reason);
+};
+
+export const DonationBasketService = {
+  createBasket,
+  getBasketById,
+  cancelBasket,
+  cancelBasketLine,
+  refundBasket,
+  refundBasketLine,
+  refundBasketLineForDonation,
+};
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { BASKET_MAX_LINES } from './donationBasket.constant';
+
+const basketLineSchema = z.object({
+  organizationId: z
+    .string({
+      error: 'Organization ID is required!',
+    })
+    .min(1, { message: 'Organization ID is required!' }),
+
+  causeId: z
+    .string({
+      error: 'Cause ID is required!',
+    })
+    .min(1, { message: 'Cause ID is required!' }),
+
+  amount: z
+    .number({
+      error: 'Amount is required!',
+    })
+    .min(1, { message: 'Amount must be at least $1!' })
+    .max(10000, { message: 'Amount cannot exceed $10,000!' }),
+
+  specialMessage: z
+    .string()
+    .max(500, { message: 'Message must be less than 500 characters!' })
+    .transform((message) => message?.trim())
+    .optional(),
+});
+
+// 1. Create giving basket schema
+const createBasketSchema = z.object({
+  body: z.object({
+    lines: z
+      .array(basketLineSchema)
+      .min(1, { message: 'Basket must contain at least one line!' })
+      .max(BASKET_MAX_LINES, {
+        message: `Basket cannot contain more than ${BASKET_MAX_LINES} lines!`,
+      })
+      .refine(
+        (lines) =>
+          new Set(lines.map((l) => `${l.organizationId}:${l.causeId}`))
+            .size === lines.length,
+        { message: 'Each organization/cause pair can appear only once!' }
+      ),
+
+    coverFees: z.boolean().optional().default(false),
+
+    isAnonymous: z.boolean().optional(), // Falls back to profile default
+
+    paymentMethodId: z.string({
+      error: 'Payment method ID is required!',
+    }),
+
+    specialMessage: z
+      .string()
+      .max(500, { message: 'Message must be less than 500 characters!' })
+      .transform((message) => message?.trim())
+      .optional(),
+  }),
+});
+
+// 2. Basket ID params schema
+const basketIdParamsSchema = z.object({
+  params: z.object({
+    basketId: z
+      .string({
+        error: 'Basket ID is required!',
+      })
+      .min(1, { message: 'Basket ID is required!' }),
+  }),
+});
+
+// 3. Basket line params schema
+const basketLineParamsSchema = z.object({
+  params: z.object({
+    basketId: z
+      .string({
+        error: 'Basket ID is required!',
+      })
+      .min(1, { message: 'Basket ID is required!' }),
+    lineId: z
+      .string({
+        error: 'Line ID is required!',
+      })
+      .min(1, { message: 'Line ID is required!' }),
+  }),
+});
+
+// 4. Refund basket schema
+const refundBasketSchema = basketIdParamsSchema.extend({
+  body: z.object({
+    reason: z
+      .string()
+      .max(500, { message: 'Reason must be less than 500 characters!' })
+      .optional(),
+  }),
+});
+
+// 5. Refund basket line schema
+const refundBasketLineSchema = basketLineParamsSchema.extend({
+  body: z.object({
+    reason: z
+      .string()
+      .max(500, { message: 'Reason must be less than 500 characters!' })
+      .optional(),
+  }),
+});
+
+export const DonationBasketValidation = {
+  createBasketSchema,
+  basketIdParamsSchema,
+  basketLineParamsSchema,
+  refundBasketSchema,
+  refundBasketLineSchema,
+};
+
+export type TCreateBasketPayload = z.infer<typeof createBasketSchema>['body'];
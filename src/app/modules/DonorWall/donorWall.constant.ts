@@ -0,0 +1,11 @@
+export const MODERATION_ACTION = {
+  APPROVE: 'approve',
+  HIDE: 'hide',
+} as const;
+
+export const MODERATION_ACTION_VALUES = Object.values(MODERATION_ACTION);
+
+// Moderation queue filter: held and not-yet-reviewed messages
+export const NEEDS_REVIEW = 'needs_review';
+
+export const MAX_REPLY_LENGTH = 500;
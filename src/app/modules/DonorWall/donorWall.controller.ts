@@ -0,0 +1,152 @@
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { DonorWallService } from './donorWall.service';
+
+// 1. Public donor wall for a cause
+const getCauseWall = asyncHandler(async (req: Request, res: Response) => {
+  const result = await DonorWallService.getCauseWall(
+    req.params.causeId.toString(),
+    req.query as Record<string, unknown>
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    message: 'Donor wall retrieved successfully',
+    data: result.entries,
+    meta: result.meta,
+  });
+});
+
+// 2. Public donor wall for an organization
+const getOrganizationWall = asyncHandler(
+  async (req: Request, res: Response) => {
+    const result = await DonorWallService.getOrganizationWall(
+      req.params.organizationId.toString(),
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Donor wall retrieved successfully',
+      data: result.entries,
+      meta: result.meta,
+    });
+  }
+);
+
+// 3. Moderation queue
+const getModerationQueue = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonorWallService.getModerationQueue(
+      userId,
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Donor messages retrieved successfully',
+      data: result.messages,
+      meta: result.meta,
+    });
+  }
+);
+
+// 4. Approve or hide a message
+const moderateMessage = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonorWallService.moderateMessage(
+      userId,
+      req.params.id.toString(),
+      req.body.action
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: `Message ${result.messageStatus} successfully`,
+      data: result,
+    });
+  }
+);
+
+// 5. Reply to a message
+const replyToMessage = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonorWallService.replyToMessage(
+      userId,
+      req.params.id.toString(),
+      req.body.message
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Reply sent successfully',
+      data: result,
+    });
+  }
+);
+
+// 6. Donor wall settings
+const getMyWallSettings = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonorWallService.getMyWallSettings(userId);
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Donor wall settings retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+const updateMyWallSettings = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await DonorWallService.updateMyWallSettings(
+      userId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Donor wall settings updated successfully',
+      data: result,
+    });
+  }
+);
+
+export const DonorWallController = {
+  getCauseWall,
+  getOrganizationWall,
+  getModerationQueue,
+  moderateMessage,
+  replyToMessage,
+  getMyWallSettings,
+  updateMyWallSettings,
+};
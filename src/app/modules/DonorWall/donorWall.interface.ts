@@ -0,0 +1,32 @@
+import { Document, Types } from 'mongoose';
+
+// Per-organization donor wall preferences
+export interface IDonorWallSetting {
+  organization: Types.ObjectId;
+  isEnabled: boolean;
+  showAmounts: boolean; // Gift amounts are hidden unless switched on
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type IDonorWallSettingModel = IDonorWallSetting & Document;
+
+// One supporter on a public donor wall
+export interface IDonorWallEntry {
+  _id: string;
+  name: string;
+  image: string | null;
+  isAnonymous: boolean;
+  amount?: number;
+  currency?: string;
+  message?: string;
+  reply?: {
+    message: string;
+    repliedAt: Date;
+  };
+  cause?: {
+    _id: string;
+    name: string;
+  };
+  donationDate: Date;
+}
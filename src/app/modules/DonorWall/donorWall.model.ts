@@ -0,0 +1,30 @@
+import { Schema, model } from 'mongoose';
+import { IDonorWallSettingModel } from './donorWall.interface';
+
+const donorWallSettingSchema = new Schema<IDonorWallSettingModel>(
+  {
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+      unique: true,
+    },
+    isEnabled: {
+      type: Boolean,
+      default: true,
+    },
+    showAmounts: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: true,
+  }
+);
+
+export const DonorWallSetting = model<IDonorWallSettingModel>(
+  'DonorWallSetting',
+  donorWallSettingSchema
+);
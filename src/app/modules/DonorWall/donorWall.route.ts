@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { DonorWallController } from './donorWall.controller';
+import { DonorWallValidation } from './donorWall.validation';
+
+const router = Router();
+
+// 1. Public donor walls
+router.get(
+  '/cause/:causeId',
+  validateRequest(DonorWallValidation.causeWallSchema),
+  DonorWallController.getCauseWall
+);
+
+router.get(
+  '/organization/:organizationId',
+  validateRequest(DonorWallValidation.organizationWallSchema),
+  DonorWallController.getOrganizationWall
+);
+
+// 2. Wall settings (own organization)
+router.get(
+  '/settings',
+  auth(ROLE.ORGANIZATION),
+  DonorWallController.getMyWallSettings
+);
+
+router.patch(
+  '/settings',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(DonorWallValidation.updateWallSettingsSchema),
+  DonorWallController.updateMyWallSettings
+);
+
+// 3. Moderation queue
+router.get(
+  '/moderation',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(DonorWallValidation.moderationQueueSchema),
+  DonorWallController.getModerationQueue
+);
+
+// 4. Approve or hide a message
+router.patch(
+  '/moderation/:id',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(DonorWallValidation.moderateMessageSchema),
+  DonorWallController.moderateMessage
+);
+
+// 5. Reply to a message (notifies the donor)
+router.post(
+  '/moderation/:id/reply',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(DonorWallValidation.replyToMessageSchema),
+  DonorWallController.replyToMessage
+);
+
+export const DonorWallRoutes = router;
@@ -0,0 +1,350 @@
+/* eslint-disable no-console */
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+
+import { AppError } from '../../utils';
+import { Donation } from '../Donation/donation.model';
+import {
+  ANONYMOUS_DONOR,
+  ANONYMOUS_DONOR_NAME,
+  MESSAGE_STATUS,
+} from '../Donation/donation.constant';
+import { IMessageReply } from '../Donation/donation.interface';
+import Cause from '../Causes/causes.model';
+import { CAUSE_STATUS_TYPE } from '../Causes/causes.constant';
+import Organization from '../Organization/organization.model';
+import Client from '../Client/client.model';
+import { createNotification } from '../Notification/notification.service';
+import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
+import { DonorWallSetting } from './donorWall.model';
+import { IDonorWallEntry } from './donorWall.interface';
+import { MODERATION_ACTION, NEEDS_REVIEW } from './donorWall.constant';
+import {
+  TModerationAction,
+  TUpdateWallSettingsPayload,
+} from './donorWall.validation';
+
+// Completed gifts only; sponsor-funded matches aren't supporters
+const WALL_BASE_FILTER = {
+  status: 'completed',
+  isMatchingGift: { $ne: true },
+};
+
+type TWallDonation = {
+  _id: Types.ObjectId;
+  donor?: { name: string; image?: string };
+  cause?: { _id: Types.ObjectId; name: string };
+  amount: number;
+  currency: string;
+  specialMessage?: string;
+  messageStatus?: string;
+  messageReply?: IMessageReply;
+  isAnonymous?: boolean;
+  donationDate: Date;
+};
+
+const getWallSettings = async (organizationId: string | Types.ObjectId) => {
+  const settings = await DonorWallSetting.findOne({
+    organization: organizationId,
+  }).lean();
+
+  return {
+    isEnabled: settings?.isEnabled ?? true,
+    showAmounts: settings?.showAmounts ?? false,
+  };
+};
+
+// Only approved messages (and their replies) are ever shown publicly
+const toWallEntry = (
+  donation: TWallDonation,
+  showAmounts: boolean
+): IDonorWallEntry => {
+  const anonymous = donation.isAnonymous === true;
+  const showMessage =
+    donation.messageStatus === MESSAGE_STATUS.APPROVED &&
+    !!donation.specialMessage;
+
+  return {
+    _id: donation._id.toString(),
+    name: anonymous
+      ? ANONYMOUS_DONOR_NAME
+      : donation.donor?.name || ANONYMOUS_DONOR_NAME,
+    image: anonymous ? null : donation.donor?.image || null,
+    isAnonymous: anonymous,
+    amount: showAmounts ? donation.amount : undefined,
+    currency: showAmounts ? donation.currency : undefined,
+    message: showMessage ? donation.specialMessage : undefined,
+    reply:
+      showMessage && donation.messageReply?.message
+        ? {
+            message: donation.messageReply.message,
+            repliedAt: donation.messageReply.repliedAt,
+          }
+        : undefined,
+    cause: donation.cause
+      ? { _id: donation.cause._id.toString(), name: donation.cause.name }
+      : undefined,
+    donationDate: donation.donationDate,
+  };
+};
+
+const buildWall = async (
+  filter: Record<string, unknown>,
+  showAmounts: boolean,
+  query: Record<string, unknown>
+) => {
+  const page = Number(query.page) || 1;
+  const limit = Number(query.limit) || 20;
+
+  const [donations, total] = await Promise.all([
+    Donation.find(filter)
+      .select(
+        'donor cause amount currency specialMessage messageStatus messageReply isAnonymous donationDate'
+      )
+      .populate('donor', 'name image')
+      .populate('cause', 'name')
+      .sort({ donationDate: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean<TWallDonation[]>(),
+    Donation.countDocuments(filter),
+  ]);
+
+  return {
+    entries: donations.map((donation) => toWallEntry(donation, showAmounts)),
+    meta: {
+      page,
+      limit,
+      total,
+      totalPage: Math.ceil(total / limit),
+    },
+  };
+};
+
+// 1. Public donor wall for a cause
+const getCauseWall = async (
+  causeId: string,
+  query: Record<string, unknown>
+) => {
+  const cause = await Cause.findById(causeId);
+  if (!cause || cause.status !== CAUSE_STATUS_TYPE.VERIFIED) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Cause not found!');
+  }
+
+  const settings = await getWallSettings(cause.organization);
+  if (!settings.isEnabled) {
+    throw new AppError(
+      httpStatus.NOT_FOUND,
+      'This organization has turned off its donor wall!'
+    );
+  }
+
+  return buildWall(
+    { ...WALL_BASE_FILTER, cause: cause._id },
+    settings.showAmounts,
+    query
+  );
+};
+
+// 2. Public donor wall for an organization (optionally one cause)
+const getOrganizationWall = async (
+  organizationId: string,
+  query: Record<string, unknown>
+) => {
+  const organization = await Organization.findById(organizationId);
+  if (!organization) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Organization not found!');
+  }
+
+  const settings = await getWallSettings(organization._id);
+  if (!settings.isEnabled) {
+    throw new AppError(
+      httpStatus.NOT_FOUND,
+      'This organization has turned off its donor wall!'
+    );
+  }
+
+  const filter: Record<string, unknown> = {
+    ...WALL_BASE_FILTER,
+    organization: organization._id,
+  };
+  if (query.causeId) filter.cause = new Types.ObjectId(String(query.causeId));
+
+  return buildWall(filter, settings.showAmounts, query);
+};
+
+const getMyOrganization = async (userId: string) => {
+  const organization = await Organization.findOne({ auth: userId });
+  if (!organization) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Organization not found!');
+  }
+  return organization;
+};
+
+// 3. Messages waiting for (or past) moderation
+const getModerationQueue = async (
+  userId: string,
+  query: Record<string, unknown>
+) => {
+  const organization = await getMyOrganization(userId);
+
+  const page = Number(query.page) || 1;
+  const limit = Number(query.limit) || 20;
+  const status = (query.status as string) || NEEDS_REVIEW;
+
+  const filter: Record<string, unknown> = {
+    organization: organization._id,
+    status: 'completed',
+    specialMessage: { $nin: [null, ''] },
+  };
+  if (query.causeId) filter.cause = new Types.ObjectId(String(query.causeId));
+
+  // Messages written before the wall existed have no status yet
+  if (status === NEEDS_REVIEW) {
+    filter.messageStatus = {
+      $in: [MESSAGE_STATUS.HELD, MESSAGE_STATUS.PENDING, null],
+    };
+  } else if (status === MESSAGE_STATUS.PENDING) {
+    filter.messageStatus = { $in: [MESSAGE_STATUS.PENDING, null] };
+  } else {
+    filter.messageStatus = status;
+  }
+
+  const [donations, total] = await Promise.all([
+    Donation.find(filter)
+      .select(
+        'donor cause amount currency specialMessage messageStatus messageFlags messageReply messageModeratedAt isAnonymous donationDate'
+      )
+      .populate<{ donor: { _id: Types.ObjectId; name: string } }>(
+        'donor',
+        'name image'
+      )
+      .populate('cause', 'name')
+      .sort({ donationDate: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    Donation.countDocuments(filter),
+  ]);
+
+  const messages = donations.map((donation) => ({
+    ...donation,
+    donor: donation.isAnonymous ? ANONYMOUS_DONOR : donation.donor,
+    messageStatus: donation.messageStatus || MESSAGE_STATUS.PENDING,
+  }));
+
+  return {
+    messages,
+    meta: {
+      page,
+      limit,
+      total,
+      totalPage: Math.ceil(total / limit),
+    },
+  };
+};
+
+const getOwnedMessage = async (userId: string, donationId: string) => {
+  const organization = await getMyOrganization(userId);
+
+  const donation = await Donation.findById(donationId);
+  if (
+    !donation ||
+    donation.organization.toString() !== organization._id.toString()
+  ) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Donation not found!');
+  }
+  if (!donation.specialMessage?.trim()) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'This donation has no message to moderate!'
+    );
+  }
+
+  return { organization, donation };
+};
+
+// 4. Approve or hide a message
+const moderateMessage = async (
+  userId: string,
+  donationId: string,
+  action: TModerationAction
+) => {
+  const { donation } = await getOwnedMessage(userId, donationId);
+
+  donation.messageStatus =
+    action === MODERATION_ACTION.APPROVE
+      ? MESSAGE_STATUS.APPROVED
+      : MESSAGE_STATUS.HIDDEN;
+  donation.messageModeratedBy = new Types.ObjectId(userId);
+  donation.messageModeratedAt = new Date();
+  await donation.save();
+
+  return donation;
+};
+
+// 5. Reply to a message (shown under it on the wall once approved)
+const replyToMessage = async (
+  userId: string,
+  donationId: string,
+  message: string
+) => {
+  const { organization, donation } = await getOwnedMessage(
+    userId,
+    donationId
+  );
+
+  donation.messageReply = {
+    message,
+    repliedBy: new Types.ObjectId(userId),
+    repliedAt: new Date(),
+  };
+  await donation.save();
+
+  const donor = await Client.findById(donation.donor).select('auth');
+  if (donor) {
+    try {
+      await createNotification(
+        donor.auth.toString(),
+        NOTIFICATION_TYPE.REPLY_MESSAGE,
+        `${organization.name} replied to your message: "${message}"`,
+        donation._id.toString()
+      );
+    } catch (err) {
+      console.log(`❌🔔 Reply notification Failed!`);
+    }
+  }
+
+  return donation;
+};
+
+// 6. Wall settings for the organization's own wall
+const getMyWallSettings = async (userId: string) => {
+  const organization = await getMyOrganization(userId);
+  return getWallSettings(organization._id);
+};
+
+const updateMyWallSettings = async (
+  userId: string,
+  payload: TUpdateWallSettingsPayload
+) => {
+  const organization = await getMyOrganization(userId);
+
+  const settings = await DonorWallSetting.findOneAndUpdate(
+    { organization: organization._id },
+    payload,
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  return settings;
+};
+
+export const DonorWallService = {
+  getCauseWall,
+  getOrganizationWall,
+  getModerationQueue,
+  moderateMessage,
+  replyToMessage,
+  getMyWallSettings,
+  updateMyWallSettings,
+};
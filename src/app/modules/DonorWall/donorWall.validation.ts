@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { MESSAGE_STATUS_VALUES } from '../Donation/donation.constant';
+import {
+  MAX_REPLY_LENGTH,
+  MODERATION_ACTION_VALUES,
+  NEEDS_REVIEW,
+} from './donorWall.constant';
+
+const paginationQuery = {
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).optional(),
+};
+
+// 1. Public wall for a cause
+const causeWallSchema = z.object({
+  params: z.object({
+    causeId: z
+      .string({
+        error: 'Cause ID is required!',
+      })
+      .min(1, { message: 'Cause ID is required!' }),
+  }),
+  query: z.object(paginationQuery),
+});
+
+// 2. Public wall for an organization
+const organizationWallSchema = z.object({
+  params: z.object({
+    organizationId: z
+      .string({
+        error: 'Organization ID is required!',
+      })
+      .min(1, { message: 'Organization ID is required!' }),
+  }),
+  query: z.object({
+    ...paginationQuery,
+    causeId: z.string().optional(),
+  }),
+});
+
+// 3. Organization moderation queue
+const moderationQueueSchema = z.object({
+  query: z.object({
+    ...paginationQuery,
+    status: z
+      .enum([NEEDS_REVIEW, ...MESSAGE_STATUS_VALUES], {
+        error: `Status must be ${NEEDS_REVIEW}, ${MESSAGE_STATUS_VALUES.join(', ')}!`,
+      })
+      .optional(),
+    causeId: z.string().optional(),
+  }),
+});
+
+const donationIdParams = z.object({
+  id: z
+    .string({
+      error: 'Donation ID is required!',
+    })
+    .min(1, { message: 'Donation ID is required!' }),
+});
+
+// 4. Approve or hide a message
+const moderateMessageSchema = z.object({
+  params: donationIdParams,
+  body: z.object({
+    action: z.enum(MODERATION_ACTION_VALUES, {
+      error: 'Action must be approve or hide!',
+    }),
+  }),
+});
+
+// 5. Reply to a message
+const replyToMessageSchema = z.object({
+  params: donationIdParams,
+  body: z.object({
+    message: z
+      .string({
+        error: 'Reply is required!',
+      })
+      .trim()
+      .min(1, { message: 'Reply is required!' })
+      .max(MAX_REPLY_LENGTH, {
+        message: `Reply cannot exceed ${MAX_REPLY_LENGTH} characters!`,
+      }),
+  }),
+});
+
+// 6. Wall settings
+const updateWallSettingsSchema = z.object({
+  body: z
+    .object({
+      isEnabled: z.boolean().optional(),
+      showAmounts: z.boolean().optional(),
+    })
+    .strict(),
+});
+
+export const DonorWallValidation = {
+  causeWallSchema,
+  organizationWallSchema,
+  moderationQueueSchema,
+  moderateMessageSchema,
+  replyToMessageSchema,
+  updateWallSettingsSchema,
+};
+
+export type TModerationAction = z.infer<
+  typeof moderateMessageSchema
+>['body']['action'];
+export type TUpdateWallSettingsPayload = z.infer<
+  typeof updateWallSettingsSchema
+>['body'];
@@ -0,0 +1,84 @@
+export const EXPORT_DATASET = {
+  DONATIONS: 'donations',
+  RECEIPTS: 'receipts',
+  TRANSACTIONS: 'transactions', // BalanceTransaction history
+} as const;
+
+export const EXPORT_FORMAT = {
+  CSV: 'csv',
+  XLSX: 'xlsx',
+} as const;
+
+export const EXPORT_JOB_STATUS = {
+  PROCESSING: 'processing',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const;
+
+export const EXPORT_DATASET_VALUES = Object.values(EXPORT_DATASET);
+export const EXPORT_FORMAT_VALUES = Object.values(EXPORT_FORMAT);
+export const EXPORT_JOB_STATUS_VALUES = Object.values(EXPORT_JOB_STATUS);
+
+// Column key -> header label, in default order
+export const EXPORT_COLUMNS = {
+  [EXPORT_DATASET.DONATIONS]: {
+    donationDate: 'Date',
+    donationId: 'Donation ID',
+    donorName: 'Donor Name',
+    donorEmail: 'Donor Email',
+    cause: 'Cause',
+    donationType: 'Type',
+    paymentChannel: 'Channel',
+    offlineMethod: 'Offline Method',
+    status: 'Status',
+    amount: 'Amount',
+    refundedAmount: 'Refunded',
+    platformFee: 'Platform Fee',
+    gstOnFee: 'GST on Fee',
+    stripeFee: 'Stripe Fee',
+    netAmount: 'Net Amount',
+    totalAmount: 'Total Charged',
+    currency: 'Currency',
+    settlementCurrency: 'Settlement Currency',
+    exchangeRate: 'Exchange Rate',
+    receiptNumber: 'Receipt Number',
+    isAnonymous: 'Anonymous',
+    specialMessage: 'Message',
+  },
+  [EXPORT_DATASET.RECEIPTS]: {
+    receiptNumber: 'Receipt Number',
+    donationDate: 'Donation Date',
+    donorName: 'Donor Name',
+    donorEmail: 'Donor Email',
+    donationType: 'Type',
+    amount: 'Amount',
+    refundedAmount: 'Refunded',
+    platformFee: 'Platform Fee',
+    gstOnFee: 'GST on Fee',
+    stripeFee: 'Stripe Fee',
+    totalAmount: 'Total Charged',
+    currency: 'Currency',
+    taxDeductible: 'Tax Deductible',
+    zakatEligible: 'Zakat Eligible',
+    status: 'Status',
+    generatedAt: 'Issued At',
+  },
+  [EXPORT_DATASET.TRANSACTIONS]: {
+    createdAt: 'Date',
+    type: 'Type',
+    category: 'Category',
+    amount: 'Amount',
+    donationType: 'Donation Type',
+    donation: 'Donation ID',
+    payout: 'Payout ID',
+    description: 'Description',
+  },
+} as const;
+
+// Above this many rows the file is built in the background and sent to S3
+export const BACKGROUND_EXPORT_THRESHOLD = 5000;
+
+export const EXPORT_S3_FOLDER = 'exports';
+export const EXPORT_LINK_EXPIRY_SECONDS = 24 * 60 * 60; // 1 day
+
+export const MAX_EXPORT_PRESETS = 20;
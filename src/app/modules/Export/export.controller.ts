@@ -0,0 +1,200 @@
+import httpStatus from 'http-status';
+import { Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { toCsvRow, buildXlsxBuffer } from '../../utils/export.utils';
+import { ExportService } from './export.service';
+import { TExportDataset } from './export.interface';
+import { EXPORT_FORMAT } from './export.constant';
+import { TExportQuery } from './export.validation';
+
+// 1. Download donations, receipts or ledger transactions
+const createExport = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const query = (req as ExtendedRequest & { validatedQuery: TExportQuery })
+      .validatedQuery;
+
+    const result = await ExportService.createExport(
+      userId,
+      req.params.dataset.toString() as TExportDataset,
+      query
+    );
+
+    // Large export: built in the background, organization notified when ready
+    if (result.job) {
+      sendResponse(res, {
+        statusCode: httpStatus.ACCEPTED,
+        message:
+          'Export is being prepared. You will be notified when it is ready.',
+        data: result.job,
+      });
+      return;
+    }
+
+    const { file } = result;
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`
+    );
+
+    if (file.format === EXPORT_FORMAT.XLSX) {
+      const buffer = await buildXlsxBuffer(
+        file.sheetName,
+        file.headers,
+        file.rows
+      );
+      res.status(httpStatus.OK).send(buffer);
+      return;
+    }
+
+    // CSV rows are streamed straight from the cursor
+    res.status(httpStatus.OK);
+    res.write(toCsvRow(file.headers));
+    for await (const row of file.rows) {
+      res.write(toCsvRow(row));
+    }
+    res.end();
+  }
+);
+
+// 2. Get export jobs
+const getExportJobs = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await ExportService.getExportJobs(
+      userId,
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Export jobs retrieved successfully',
+      data: result.jobs,
+      meta: result.meta,
+    });
+  }
+);
+
+// 3. Get export job with download link
+const getExportJobById = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await ExportService.getExportJobById(
+      userId,
+      req.params.id.toString()
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Export job retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 4. Get column presets (and the available columns per dataset)
+const getPresets = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await ExportService.getPresets(
+      userId,
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Export presets retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 5. Save column preset
+const createPreset = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await ExportService.createPreset(userId, req.body);
+
+    sendResponse(res, {
+      statusCode: httpStatus.CREATED,
+      message: 'Export preset saved successfully',
+      data: result,
+    });
+  }
+);
+
+// 6. Update column preset
+const updatePreset = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await ExportService.updatePreset(
+      userId,
+      req.params.id.toString(),
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Export preset updated successfully',
+      data: result,
+    });
+  }
+);
+
+// 7. Delete column preset
+const deletePreset = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await ExportService.deletePreset(
+      userId,
+      req.params.id.toString()
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Export preset deleted successfully',
+      data: result,
+    });
+  }
+);
+
+export const ExportController = {
+  createExport,
+  getExportJobs,
+  getExportJobById,
+  getPresets,
+  createPreset,
+  updatePreset,
+  deletePreset,
+};
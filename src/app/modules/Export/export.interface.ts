@@ -0,0 +1,55 @@
+import { Document, Types } from 'mongoose';
+import {
+  EXPORT_DATASET,
+  EXPORT_FORMAT,
+  EXPORT_JOB_STATUS,
+} from './export.constant';
+
+export type TExportDataset =
+  (typeof EXPORT_DATASET)[keyof typeof EXPORT_DATASET];
+export type TExportFormat = (typeof EXPORT_FORMAT)[keyof typeof EXPORT_FORMAT];
+export type TExportJobStatus =
+  (typeof EXPORT_JOB_STATUS)[keyof typeof EXPORT_JOB_STATUS];
+
+export interface IExportFilters {
+  startDate?: string;
+  endDate?: string;
+  causeId?: string;
+  donationType?: string;
+  status?: string;
+  category?: string; // Transactions only
+}
+
+// Saved column choice, shared by everyone on the organization account
+export interface IExportPreset {
+  organization: Types.ObjectId;
+  createdBy: Types.ObjectId;
+  name: string;
+  dataset: TExportDataset;
+  columns: string[];
+}
+
+export interface IExportPresetModel extends IExportPreset, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Background export (large files go to S3)
+export interface IExportJob {
+  organization: Types.ObjectId;
+  requestedBy: Types.ObjectId;
+  dataset: TExportDataset;
+  format: TExportFormat;
+  filters: IExportFilters;
+  columns: string[];
+  status: TExportJobStatus;
+  rowCount: number;
+  fileKey?: string;
+  error?: string;
+  completedAt?: Date;
+}
+
+export interface IExportJobModel extends IExportJob, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,110 @@
+import { Schema, model } from 'mongoose';
+import { IExportJobModel, IExportPresetModel } from './export.interface';
+import {
+  EXPORT_DATASET_VALUES,
+  EXPORT_FORMAT_VALUES,
+  EXPORT_JOB_STATUS,
+  EXPORT_JOB_STATUS_VALUES,
+} from './export.constant';
+
+const exportPresetSchema = new Schema<IExportPresetModel>(
+  {
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 60,
+    },
+    dataset: {
+      type: String,
+      enum: EXPORT_DATASET_VALUES,
+      required: true,
+    },
+    columns: {
+      type: [String],
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+exportPresetSchema.index(
+  { organization: 1, dataset: 1, name: 1 },
+  { unique: true }
+);
+
+const exportJobSchema = new Schema<IExportJobModel>(
+  {
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+      index: true,
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+      required: true,
+    },
+    dataset: {
+      type: String,
+      enum: EXPORT_DATASET_VALUES,
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: EXPORT_FORMAT_VALUES,
+      required: true,
+    },
+    filters: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    columns: {
+      type: [String],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: EXPORT_JOB_STATUS_VALUES,
+      default: EXPORT_JOB_STATUS.PROCESSING,
+    },
+    rowCount: {
+      type: Number,
+      default: 0,
+    },
+    fileKey: {
+      type: String,
+    },
+    error: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export const ExportPreset = model<IExportPresetModel>(
+  'ExportPreset',
+  exportPresetSchema
+);
+
+export const ExportJob = model<IExportJobModel>('ExportJob', exportJobSchema);
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { ExportController } from './export.controller';
+import { ExportValidation } from './export.validation';
+
+const router = Router();
+
+// 1. Column presets
+router.get('/presets', auth(ROLE.ORGANIZATION), ExportController.getPresets);
+
+router.post(
+  '/presets',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(ExportValidation.createPresetSchema),
+  ExportController.createPreset
+);
+
+router.patch(
+  '/presets/:id',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(ExportValidation.updatePresetSchema),
+  ExportController.updatePreset
+);
+
+router.delete(
+  '/presets/:id',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(ExportValidation.idParamsSchema),
+  ExportController.deletePreset
+);
+
+// 2. Background export jobs
+router.get('/jobs', auth(ROLE.ORGANIZATION), ExportController.getExportJobs);
+
+router.get(
+  '/jobs/:id',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(ExportValidation.idParamsSchema),
+  ExportController.getExportJobById
+);
+
+// 3. Download donations, receipts or transactions (CSV streamed, XLSX file)
+router.get(
+  '/:dataset',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(ExportValidation.exportQuerySchema),
+  ExportController.createExport
+);
+
+export const ExportRoutes = router;
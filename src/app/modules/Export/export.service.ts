@@ -0,0 +1,578 @@
+/* eslint-disable no-console */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+
+import { AppError, getSignedS3Url, uploadToS3 } from '../../utils';
+import QueryBuilder from '../../builders/QueryBuilder';
+import {
+  buildXlsxBuffer,
+  EXPORT_CONTENT_TYPE,
+  TExportCell,
+  toCsvRow,
+} from '../../utils/export.utils';
+import Organization from '../Organization/organization.model';
+import { Donation } from '../Donation/donation.model';
+import {
+  ANONYMOUS_DONOR,
+  DONATION_STATUS,
+} from '../Donation/donation.constant';
+import { Receipt } from '../Receipt/receipt.model';
+import { BalanceTransaction } from '../Balance/balance.model';
+import { createNotification } from '../Notification/notification.service';
+import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
+import { ExportJob, ExportPreset } from './export.model';
+import {
+  IExportFilters,
+  IExportJobModel,
+  TExportDataset,
+  TExportFormat,
+} from './export.interface';
+import {
+  BACKGROUND_EXPORT_THRESHOLD,
+  EXPORT_COLUMNS,
+  EXPORT_DATASET,
+  EXPORT_FORMAT,
+  EXPORT_JOB_STATUS,
+  EXPORT_LINK_EXPIRY_SECONDS,
+  EXPORT_S3_FOLDER,
+  MAX_EXPORT_PRESETS,
+} from './export.constant';
+import {
+  TCreatePresetPayload,
+  TExportQuery,
+  TUpdatePresetPayload,
+} from './export.validation';
+
+type TExportRecord = Record<string, TExportCell>;
+
+const RECEIPT_STATUS = ['pending', 'generated', 'sent', 'failed'];
+
+const getOrganizationByAuth = async (userId: string) => {
+  const organization = await Organization.findOne({ auth: userId });
+  if (!organization) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Organization not found!');
+  }
+  return organization;
+};
+
+const assertColumns = (dataset: TExportDataset, columns: string[]) => {
+  const available = EXPORT_COLUMNS[dataset];
+  const unknown = columns.filter((column) => !(column in available));
+  if (unknown.length > 0) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Unknown ${dataset} columns: ${unknown.join(', ')}`
+    );
+  }
+};
+
+const buildDateRange = (filters: IExportFilters) => {
+  if (!filters.startDate && !filters.endDate) return undefined;
+  return {
+    ...(filters.startDate && { $gte: new Date(filters.startDate) }),
+    ...(filters.endDate && { $lte: new Date(filters.endDate) }),
+  };
+};
+
+// Mongo filter per dataset, mirroring the list endpoints
+const buildFilter = (
+  organizationId: Types.ObjectId,
+  dataset: TExportDataset,
+  filters: IExportFilters
+) => {
+  const filter: Record<string, any> = { organization: organizationId };
+  const dateRange = buildDateRange(filters);
+  const donationType =
+    filters.donationType && filters.donationType !== 'all'
+      ? filters.donationType
+      : undefined;
+  const status =
+    filters.status && filters.status !== 'all' ? filters.status : undefined;
+
+  if (dataset === EXPORT_DATASET.TRANSACTIONS) {
+    if (filters.category) filter.category = filters.category;
+    if (donationType) filter.donationType = donationType;
+    if (dateRange) filter.createdAt = dateRange;
+    return filter;
+  }
+
+  if (status) {
+    const allowed =
+      dataset === EXPORT_DATASET.RECEIPTS
+        ? RECEIPT_STATUS
+        : (DONATION_STATUS as readonly string[]);
+    if (!allowed.includes(status)) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Invalid ${dataset} status: ${status}`
+      );
+    }
+    filter.status = status;
+  }
+  if (donationType) filter.donationType = donationType;
+  if (filters.causeId) {
+    if (!Types.ObjectId.isValid(filters.causeId)) {
+      throw new AppError(httpStatus.BAD_REQUEST, 'Invalid cause ID!');
+    }
+    filter.cause = new Types.ObjectId(filters.causeId);
+  }
+  if (dateRange) filter.donationDate = dateRange;
+
+  return filter;
+};
+
+const countRows = (dataset: TExportDataset, filter: Record<string, any>) => {
+  if (dataset === EXPORT_DATASET.DONATIONS) {
+    return Donation.countDocuments(filter);
+  }
+  if (dataset === EXPORT_DATASET.RECEIPTS) {
+    return Receipt.countDocuments(filter);
+  }
+  return BalanceTransaction.countDocuments(filter);
+};
+
+// ================================
+// Row sources (cursors, one document at a time)
+// ================================
+async function* donationRecords(
+  filter: Record<string, any>
+): AsyncGenerator<TExportRecord> {
+  const cursor = Donation.find(filter)
+    .sort({ donationDate: -1 })
+    .populate({
+      path: 'donor',
+      select: 'name auth',
+      populate: { path: 'auth', select: 'email' },
+    })
+    .populate('cause', 'name')
+    .populate('receiptId', 'receiptNumber')
+    .lean()
+    .cursor();
+
+  for await (const donation of cursor as AsyncIterable<any>) {
+    const anonymous = donation.isAnonymous === true;
+    yield {
+      donationDate: donation.donationDate,
+      donationId: donation._id.toString(),
+      donorName: anonymous ? ANONYMOUS_DONOR.name : donation.donor?.name,
+      donorEmail: anonymous
+        ? ANONYMOUS_DONOR.email
+        : donation.donor?.auth?.email,
+      cause: donation.cause?.name,
+      donationType: donation.donationType,
+      paymentChannel: donation.paymentChannel || 'online',
+      offlineMethod: donation.offlineMethod,
+      status: donation.status,
+      amount: donation.amount,
+      refundedAmount: donation.refundedAmount || 0,
+      platformFee: donation.platformFee,
+      gstOnFee: donation.gstOnFee,
+      stripeFee: donation.stripeFee,
+      netAmount: donation.netAmount,
+      totalAmount: donation.totalAmount,
+      currency: donation.currency,
+      settlementCurrency: donation.settlementCurrency,
+      exchangeRate: donation.exchangeRate,
+      receiptNumber: donation.receiptId?.receiptNumber,
+      isAnonymous: anonymous,
+      specialMessage: donation.specialMessage,
+    };
+  }
+}
+
+async function* receiptRecords(
+  filter: Record<string, any>
+): AsyncGenerator<TExportRecord> {
+  const cursor = Receipt.find(filter)
+    .sort({ donationDate: -1 })
+    .populate('donation', 'isAnonymous')
+    .lean()
+    .cursor();
+
+  for await (const receipt of cursor as AsyncIterable<any>) {
+    // Receipts keep real donor details for the donor; hide them from the org
+    const anonymous = receipt.donation?.isAnonymous === true;
+    yield {
+      receiptNumber: receipt.receiptNumber,
+      donationDate: receipt.donationDate,
+      donorName: anonymous ? ANONYMOUS_DONOR.name : receipt.donorName,
+      donorEmail: anonymous ? ANONYMOUS_DONOR.email : receipt.donorEmail,
+      donationType: receipt.donationType,
+      amount: receipt.amount,
+      refundedAmount: receipt.refundedAmount || 0,
+      platformFee: receipt.platformFee,
+      gstOnFee: receipt.gstOnFee,
+      stripeFee: receipt.stripeFee,
+      totalAmount: receipt.totalAmount,
+      currency: receipt.currency,
+      taxDeductible: receipt.taxDeductible,
+      zakatEligible: receipt.zakatEligible,
+      status: receipt.status,
+      generatedAt: receipt.generatedAt,
+    };
+  }
+}
+
+async function* transactionRecords(
+  filter: Record<string, any>
+): AsyncGenerator<TExportRecord> {
+  const cursor = BalanceTransaction.find(filter)
+    .sort({ createdAt: -1 })
+    .lean()
+    .cursor();
+
+  for await (const transaction of cursor as AsyncIterable<any>) {
+    yield {
+      createdAt: transaction.createdAt,
+      type: transaction.type,
+      category: transaction.category,
+      amount: transaction.amount,
+      donationType: transaction.donationType,
+      donation: transaction.donation?.toString(),
+      payout: transaction.payout?.toString(),
+      description: transaction.description,
+    };
+  }
+}
+
+async function* exportRows(
+  dataset: TExportDataset,
+  filter: Record<string, any>,
+  columns: string[]
+): AsyncGenerator<TExportCell[]> {
+  const records =
+    dataset === EXPORT_DATASET.DONATIONS
+      ? donationRecords(filter)
+      : dataset === EXPORT_DATASET.RECEIPTS
+        ? receiptRecords(filter)
+        : transactionRecords(filter);
+
+  for await (const record of records) {
+    yield columns.map((column) => record[column]);
+  }
+}
+
+const getHeaders = (dataset: TExportDataset, columns: string[]) => {
+  const labels: Record<string, string> = EXPORT_COLUMNS[dataset];
+  return columns.map((column) => labels[column]);
+};
+
+const buildFileName = (dataset: TExportDataset, format: TExportFormat) =>
+  `${dataset}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+// Whole file in memory (background jobs only)
+const buildFileBuffer = async (
+  dataset: TExportDataset,
+  format: TExportFormat,
+  headers: string[],
+  rows: AsyncIterable<TExportCell[]>
+): Promise<Buffer> => {
+  if (format === EXPORT_FORMAT.XLSX) {
+    return buildXlsxBuffer(dataset, headers, rows);
+  }
+
+  const lines = [toCsvRow(headers)];
+  for await (const row of rows) lines.push(toCsvRow(row));
+  return Buffer.from(lines.join(''), 'utf8');
+};
+
+const resolveColumns = async (
+  organizationId: Types.ObjectId,
+  dataset: TExportDataset,
+  query: TExportQuery
+) => {
+  let columns: string[] = Object.keys(EXPORT_COLUMNS[dataset]);
+
+  if (query.presetId) {
+    const preset = await ExportPreset.findOne({
+      _id: query.presetId,
+      organization: organizationId,
+      dataset,
+    }).lean();
+    if (!preset) {
+      throw new AppError(httpStatus.NOT_FOUND, 'Export preset not found!');
+    }
+    columns = preset.columns;
+  } else if (query.columns && query.columns.length > 0) {
+    columns = query.columns;
+  }
+
+  assertColumns(dataset, columns);
+  return columns;
+};
+
+// 1. Build a file for download, or queue a background job for large exports
+const createExport = async (
+  userId: string,
+  dataset: TExportDataset,
+  query: TExportQuery
+) => {
+  const organization = await getOrganizationByAuth(userId);
+  const format = query.format as TExportFormat;
+
+  const filters: IExportFilters = {
+    startDate: query.startDate,
+    endDate: query.endDate,
+    causeId: query.causeId,
+    donationType: query.donationType,
+    status: query.status,
+    category: query.category,
+  };
+  const filter = buildFilter(organization._id, dataset, filters);
+  const columns = await resolveColumns(organization._id, dataset, query);
+  const rowCount = await countRows(dataset, filter);
+
+  if (rowCount > BACKGROUND_EXPORT_THRESHOLD) {
+    const job = await ExportJob.create({
+      organization: organization._id,
+      requestedBy: new Types.ObjectId(userId),
+      dataset,
+      format,
+      filters,
+      columns,
+      rowCount,
+    });
+
+    processExportJob(job._id!.toString()).catch((err) =>
+      console.error(`❌ Export job ${job._id} crashed:`, err)
+    );
+
+    return { job };
+  }
+
+  return {
+    file: {
+      fileName: buildFileName(dataset, format),
+      sheetName: dataset,
+      format,
+      contentType: EXPORT_CONTENT_TYPE[format],
+      headers: getHeaders(dataset, columns),
+      rows: exportRows(dataset, filter, columns),
+    },
+  };
+};
+
+// 2. Build a large export, upload it and notify the organization
+const processExportJob = async (jobId: string) => {
+  const job = await ExportJob.findOne({
+    _id: jobId,
+    status: EXPORT_JOB_STATUS.PROCESSING,
+  });
+  if (!job) return;
+
+  const organization = await Organization.findById(job.organization).select(
+    'auth'
+  );
+
+  try {
+    const filter = buildFilter(job.organization, job.dataset, job.filters);
+    const buffer = await buildFileBuffer(
+      job.dataset,
+      job.format,
+      getHeaders(job.dataset, job.columns),
+      exportRows(job.dataset, filter, job.columns)
+    );
+
+    // Random key: uploads are public-read, so the path must not be guessable
+    const { key } = await uploadToS3({
+      buffer,
+      key: `${crypto.randomUUID()}/${buildFileName(job.dataset, job.format)}`,
+      contentType: EXPORT_CONTENT_TYPE[job.format],
+      folder: `${EXPORT_S3_FOLDER}/${job.organization.toString()}`,
+    });
+
+    job.status = EXPORT_JOB_STATUS.COMPLETED;
+    job.fileKey = key;
+    job.completedAt = new Date();
+    await job.save();
+
+    if (organization) {
+      await createNotification(
+        organization.auth.toString(),
+        NOTIFICATION_TYPE.EXPORT_READY,
+        `Your ${job.dataset} export (${job.rowCount} rows) is ready to download.`,
+        job._id!.toString(),
+        { dataset: job.dataset, format: job.format }
+      );
+    }
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`❌ Export job ${jobId} failed:`, message);
+
+    job.status = EXPORT_JOB_STATUS.FAILED;
+    job.error = message;
+    job.completedAt = new Date();
+    await job.save();
+
+    if (organization) {
+      await createNotification(
+        organization.auth.toString(),
+        NOTIFICATION_TYPE.EXPORT_FAILED,
+        `Your ${job.dataset} export could not be generated. Please try again.`,
+        job._id!.toString()
+      );
+    }
+  }
+};
+
+// 3. Export jobs for the organization
+const getExportJobs = async (
+  userId: string,
+  query: Record<string, unknown>
+) => {
+  const organization = await getOrganizationByAuth(userId);
+
+  const jobQuery = new QueryBuilder<IExportJobModel>(
+    ExportJob.find({ organization: organization._id }),
+    query
+  )
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const jobs = await jobQuery.modelQuery;
+  const meta = await jobQuery.countTotal();
+
+  return { jobs, meta };
+};
+
+// 4. Export job with a fresh download link
+const getExportJobById = async (userId: string, jobId: string) => {
+  const organization = await getOrganizationByAuth(userId);
+
+  const job = await ExportJob.findOne({
+    _id: jobId,
+    organization: organization._id,
+  }).lean();
+  if (!job) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Export job not found!');
+  }
+
+  const downloadUrl =
+    job.status === EXPORT_JOB_STATUS.COMPLETED && job.fileKey
+      ? await getSignedS3Url({
+          key: job.fileKey,
+          expiresIn: EXPORT_LINK_EXPIRY_SECONDS,
+        })
+      : undefined;
+
+  return { ...job, downloadUrl };
+};
+
+// 5. Column presets
+const getPresets = async (userId: string, query: Record<string, unknown>) => {
+  const organization = await getOrganizationByAuth(userId);
+
+  const filter: Record<string, unknown> = { organization: organization._id };
+  if (query.dataset) filter.dataset = query.dataset;
+
+  const presets = await ExportPreset.find(filter).sort({ name: 1 }).lean();
+
+  return {
+    presets,
+    columns: EXPORT_COLUMNS,
+  };
+};
+
+const createPreset = async (userId: string, payload: TCreatePresetPayload) => {
+  const organization = await getOrganizationByAuth(userId);
+  const dataset = payload.dataset as TExportDataset;
+  assertColumns(dataset, payload.columns);
+
+  const presetCount = await ExportPreset.countDocuments({
+    organization: organization._id,
+  });
+  if (presetCount >= MAX_EXPORT_PRESETS) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `You can save up to ${MAX_EXPORT_PRESETS} export presets!`
+    );
+  }
+
+  const existing = await ExportPreset.findOne({
+    organization: organization._id,
+    dataset,
+    name: payload.name,
+  });
+  if (existing) {
+    throw new AppError(
+      httpStatus.CONFLICT,
+      'A preset with this name already exists!'
+    );
+  }
+
+  return ExportPreset.create({
+    organization: organization._id,
+    createdBy: new Types.ObjectId(userId),
+    name: payload.name,
+    dataset,
+    columns: payload.columns,
+  });
+};
+
+const updatePreset = async (
+  userId: string,
+  presetId: string,
+  payload: TUpdatePresetPayload
+) => {
+  const organization = await getOrganizationByAuth(userId);
+
+  const preset = await ExportPreset.findOne({
+    _id: presetId,
+    organization: organization._id,
+  });
+  if (!preset) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Export preset not found!');
+  }
+
+  if (payload.columns) {
+    assertColumns(preset.dataset, payload.columns);
+    preset.columns = payload.columns;
+  }
+  if (payload.name && payload.name !== preset.name) {
+    const existing = await ExportPreset.findOne({
+      organization: organization._id,
+      dataset: preset.dataset,
+      name: payload.name,
+    });
+    if (existing) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'A preset with this name already exists!'
+      );
+    }
+    preset.name = payload.name;
+  }
+
+  await preset.save();
+  return preset;
+};
+
+const deletePreset = async (userId: string, presetId: string) => {
+  const organization = await getOrganizationByAuth(userId);
+
+  const preset = await ExportPreset.findOneAndDelete({
+    _id: presetId,
+    organization: organization._id,
+  });
+  if (!preset) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Export preset not found!');
+  }
+
+  return preset;
+};
+
+export const ExportService = {
+  createExport,
+  processExportJob,
+  getExportJobs,
+  getExportJobById,
+  getPresets,
+  createPreset,
+  updatePreset,
+  deletePreset,
+};
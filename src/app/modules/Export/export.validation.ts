@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import {
+  EXPORT_DATASET_VALUES,
+  EXPORT_FORMAT,
+  EXPORT_FORMAT_VALUES,
+} from './export.constant';
+
+const columnsSchema = z
+  .array(z.string().min(1), {
+    error: 'Columns are required!',
+  })
+  .min(1, { message: 'Select at least one column!' });
+
+// 1. Export query (same filters as the list endpoints)
+const exportQuerySchema = z.object({
+  params: z.object({
+    dataset: z.enum(EXPORT_DATASET_VALUES as [string, ...string[]], {
+      error: 'Invalid export dataset!',
+    }),
+  }),
+  query: z.object({
+    format: z
+      .enum(EXPORT_FORMAT_VALUES as [string, ...string[]])
+      .optional()
+      .default(EXPORT_FORMAT.CSV),
+
+    startDate: z
+      .string()
+      .datetime({ message: 'Invalid start date format!' })
+      .optional(),
+    endDate: z
+      .string()
+      .datetime({ message: 'Invalid end date format!' })
+      .optional(),
+
+    causeId: z.string().optional(),
+
+    donationType: z
+      .enum(['one-time', 'recurring', 'round-up', 'roundup', 'all'])
+      .transform((val) => {
+        if (val === 'roundup') return 'round-up';
+        return val;
+      })
+      .optional(),
+
+    // Donation status for donations, receipt status for receipts
+    status: z.string().optional(),
+
+    // Transactions only
+    category: z.string().optional(),
+
+    // Comma separated column keys, or a saved preset
+    columns: z
+      .string()
+      .transform((val) =>
+        val
+          .split(',')
+          .map((column) => column.trim())
+          .filter(Boolean)
+      )
+      .optional(),
+    presetId: z.string().optional(),
+  }),
+});
+
+// 2. Create column preset
+const createPresetSchema = z.object({
+  body: z.object({
+    name: z
+      .string({
+        error: 'Preset name is required!',
+      })
+      .trim()
+      .min(1, { message: 'Preset name is required!' })
+      .max(60, { message: 'Preset name cannot exceed 60 characters!' }),
+
+    dataset: z.enum(EXPORT_DATASET_VALUES as [string, ...string[]], {
+      error: 'Invalid export dataset!',
+    }),
+
+    columns: columnsSchema,
+  }),
+});
+
+// 3. Update column preset
+const updatePresetSchema = z.object({
+  params: z.object({
+    id: z
+      .string({
+        error: 'Preset ID is required!',
+      })
+      .min(1, { message: 'Preset ID is required!' }),
+  }),
+  body: z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, { message: 'Preset name cannot be empty!' })
+      .max(60, { message: 'Preset name cannot exceed 60 characters!' })
+      .optional(),
+
+    columns: columnsSchema.optional(),
+  }),
+});
+
+// 4. Preset / job ID params schema
+const idParamsSchema = z.object({
+  params: z.object({
+    id: z
+      .string({
+        error: 'ID is required!',
+      })
+      .min(1, { message: 'ID is required!' }),
+  }),
+});
+
+export const ExportValidation = {
+  exportQuerySchema,
+  createPresetSchema,
+  updatePresetSchema,
+  idParamsSchema,
+};
+
+export type TExportQuery = z.infer<typeof exportQuerySchema>['query'];
+export type TCreatePresetPayload = z.infer<typeof createPresetSchema>['body'];
+export type TUpdatePresetPayload = z.infer<typeof updatePresetSchema>['body'];
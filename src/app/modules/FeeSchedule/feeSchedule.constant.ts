@@ -0,0 +1,14 @@
+// Name recorded on donations priced with the config (env) rates
+export const STANDARD_FEE_SCHEDULE_NAME = 'Standard';
+
+// Rates are fractions: 0.05 = 5%
+export const MAX_FEE_PERCENT = 0.5;
+export const MAX_FIXED_FEE = 5;
+
+// Rate fields that are frozen once a schedule has started
+export const FEE_RATE_FIELDS = [
+  'platformFeePercent',
+  'gstPercentage',
+  'stripeFeePercent',
+  'stripeFixedFee',
+] as const;
@@ -0,0 +1,111 @@
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { FeeScheduleService } from './feeSchedule.service';
+import { TFeeQuoteQuery } from './feeSchedule.validation';
+
+// 1. Public fee quote
+const getFeeQuote = asyncHandler(async (req: Request, res: Response) => {
+  const query = (req as Request & { validatedQuery: TFeeQuoteQuery })
+    .validatedQuery;
+
+  const result = await FeeScheduleService.getFeeQuote(query);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    message: 'Fee quote calculated successfully',
+    data: result,
+  });
+});
+
+// 2. Admin: create fee schedule
+const createFeeSchedule = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await FeeScheduleService.createFeeSchedule(
+      userId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.CREATED,
+      message: 'Fee schedule created successfully',
+      data: result,
+    });
+  }
+);
+
+// 3. Admin: list fee schedules
+const getFeeSchedules = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const result = await FeeScheduleService.getFeeSchedules(
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Fee schedules retrieved successfully',
+      data: result.schedules,
+      meta: result.meta,
+    });
+  }
+);
+
+// 4. Admin: get fee schedule
+const getFeeScheduleById = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const result = await FeeScheduleService.getFeeScheduleById(
+      req.params.id.toString()
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Fee schedule retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 5. Admin: update fee schedule
+const updateFeeSchedule = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const result = await FeeScheduleService.updateFeeSchedule(
+      req.params.id.toString(),
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Fee schedule updated successfully',
+      data: result,
+    });
+  }
+);
+
+// 6. Admin: delete fee schedule
+const deleteFeeSchedule = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    await FeeScheduleService.deleteFeeSchedule(req.params.id.toString());
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Fee schedule deleted successfully',
+      data: null,
+    });
+  }
+);
+
+export const FeeScheduleController = {
+  getFeeQuote,
+  createFeeSchedule,
+  getFeeSchedules,
+  getFeeScheduleById,
+  updateFeeSchedule,
+  deleteFeeSchedule,
+};
@@ -0,0 +1,43 @@
+import { Document, Types } from 'mongoose';
+import { CauseCategoryType } from '../Causes/causes.interface';
+
+export interface IFeeRates {
+  platformFeePercent: number;
+  gstPercentage: number; // GST charged on the platform fee
+  stripeFeePercent: number;
+  stripeFixedFee: number;
+}
+
+export interface IFeeSchedule {
+  name: string;
+  description?: string;
+
+  // Rates (unset ones fall back to the config defaults)
+  platformFeePercent: number;
+  gstPercentage?: number;
+  stripeFeePercent?: number;
+  stripeFixedFee?: number;
+
+  // Who it applies to; empty lists mean everyone
+  organizations: Types.ObjectId[];
+  causeCategories: CauseCategoryType[];
+
+  // When it applies; effectiveTo is exclusive, open-ended when unset
+  effectiveFrom: Date;
+  effectiveTo?: Date;
+
+  priority: number; // Breaks ties between equally specific schedules
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+}
+
+export interface IFeeScheduleModel extends IFeeSchedule, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Snapshot stored on donations and basket lines at pricing time
+export interface IAppliedFeeSchedule extends IFeeRates {
+  schedule?: Types.ObjectId; // Unset when the standard rates applied
+  name: string;
+}
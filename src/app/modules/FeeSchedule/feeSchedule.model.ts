@@ -0,0 +1,101 @@
+import { Schema, model } from 'mongoose';
+import {
+  IAppliedFeeSchedule,
+  IFeeScheduleModel,
+} from './feeSchedule.interface';
+import { causeCategoryTypeValues } from '../Causes/causes.constant';
+
+const feeScheduleSchema = new Schema<IFeeScheduleModel>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+
+    platformFeePercent: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    gstPercentage: {
+      type: Number,
+      min: 0,
+    },
+    stripeFeePercent: {
+      type: Number,
+      min: 0,
+    },
+    stripeFixedFee: {
+      type: Number,
+      min: 0,
+    },
+
+    organizations: {
+      type: [Schema.Types.ObjectId],
+      ref: 'Organization',
+      default: [],
+    },
+    causeCategories: {
+      type: [String],
+      enum: causeCategoryTypeValues,
+      default: [],
+    },
+
+    effectiveFrom: {
+      type: Date,
+      required: true,
+    },
+    effectiveTo: {
+      type: Date,
+    },
+
+    priority: {
+      type: Number,
+      default: 0,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// For resolving the live schedule at checkout
+feeScheduleSchema.index({ isActive: 1, effectiveFrom: 1, effectiveTo: 1 });
+feeScheduleSchema.index({ organizations: 1 });
+
+export const FeeSchedule = model<IFeeScheduleModel>(
+  'FeeSchedule',
+  feeScheduleSchema
+);
+
+// Embedded snapshot of the schedule a donation was priced with
+export const appliedFeeScheduleSchema = new Schema<IAppliedFeeSchedule>(
+  {
+    schedule: {
+      type: Schema.Types.ObjectId,
+      ref: 'FeeSchedule',
+    },
+    name: { type: String, required: true },
+    platformFeePercent: { type: Number, required: true },
+    gstPercentage: { type: Number, required: true },
+    stripeFeePercent: { type: Number, required: true },
+    stripeFixedFee: { type: Number, required: true },
+  },
+  { _id: false }
+);
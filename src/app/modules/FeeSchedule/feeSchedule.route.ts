@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { FeeScheduleController } from './feeSchedule.controller';
+import { FeeScheduleValidation } from './feeSchedule.validation';
+
+const router = Router();
+
+// 1. Public fee quote (before checkout)
+router.get(
+  '/quote',
+  validateRequest(FeeScheduleValidation.feeQuoteSchema),
+  FeeScheduleController.getFeeQuote
+);
+
+// 2. Admin: create fee schedule
+router.post(
+  '/',
+  auth(ROLE.ADMIN),
+  validateRequest(FeeScheduleValidation.createFeeScheduleSchema),
+  FeeScheduleController.createFeeSchedule
+);
+
+// 3. Admin: list fee schedules
+router.get(
+  '/',
+  auth(ROLE.ADMIN),
+  validateRequest(FeeScheduleValidation.getFeeSchedulesSchema),
+  FeeScheduleController.getFeeSchedules
+);
+
+// 4. Admin: get fee schedule
+router.get(
+  '/:id',
+  auth(ROLE.ADMIN),
+  validateRequest(FeeScheduleValidation.feeScheduleIdSchema),
+  FeeScheduleController.getFeeScheduleById
+);
+
+// 5. Admin: update fee schedule
+router.patch(
+  '/:id',
+  auth(ROLE.ADMIN),
+  validateRequest(FeeScheduleValidation.updateFeeScheduleSchema),
+  FeeScheduleController.updateFeeSchedule
+);
+
+// 6. Admin: delete fee schedule (only before it starts)
+router.delete(
+  '/:id',
+  auth(ROLE.ADMIN),
+  validateRequest(FeeScheduleValidation.feeScheduleIdSchema),
+  FeeScheduleController.deleteFeeSchedule
+);
+
+export const FeeScheduleRoutes = router;
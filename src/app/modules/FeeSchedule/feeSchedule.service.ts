@@ -0,0 +1,306 @@
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+
+import { AppError } from '../../utils';
+import {
+  calculateAustralianFees,
+  getDefaultFeeRates,
+} from '../Donation/donation.constant';
+import Organization from '../Organization/organization.model';
+import Cause from '../Causes/causes.model';
+import { FeeSchedule } from './feeSchedule.model';
+import {
+  IAppliedFeeSchedule,
+  IFeeScheduleModel,
+} from './feeSchedule.interface';
+import {
+  FEE_RATE_FIELDS,
+  STANDARD_FEE_SCHEDULE_NAME,
+} from './feeSchedule.constant';
+import {
+  TCreateFeeSchedulePayload,
+  TFeeQuoteQuery,
+  TUpdateFeeSchedulePayload,
+} from './feeSchedule.validation';
+
+type TFeeTarget = {
+  organizationId: string | Types.ObjectId;
+  causeId?: string | Types.ObjectId | null;
+  date?: Date;
+};
+
+// Organization match outranks category match, which outranks global
+const specificity = (schedule: IFeeScheduleModel) =>
+  (schedule.organizations.length ? 2 : 0) +
+  (schedule.causeCategories.length ? 1 : 0);
+
+const assertOrganizationsExist = async (organizationIds: string[]) => {
+  if (!organizationIds.length) return;
+
+  const count = await Organization.countDocuments({
+    _id: { $in: organizationIds },
+  });
+  if (count !== new Set(organizationIds).size) {
+    throw new AppError(
+      httpStatus.NOT_FOUND,
+      'One or more organizations were not found!'
+    );
+  }
+};
+
+/**
+ * Find the fee schedule live for an organization (and cause) at a date.
+ * Falls back to the config rates when no schedule matches.
+ */
+const resolveFeeSchedule = async (
+  target: TFeeTarget
+): Promise<IAppliedFeeSchedule> => {
+  const date = target.date || new Date();
+  const defaults = getDefaultFeeRates();
+
+  const cause = target.causeId
+    ? await Cause.findById(target.causeId).select('category')
+    : null;
+
+  const candidates = await FeeSchedule.find({
+    isActive: true,
+    effectiveFrom: { $lte: date },
+    $and: [
+      { $or: [{ effectiveTo: null }, { effectiveTo: { $gt: date } }] },
+      {
+        $or: [
+          { organizations: { $size: 0 } },
+          { organizations: new Types.ObjectId(target.organizationId) },
+        ],
+      },
+      {
+        $or: [
+          { causeCategories: { $size: 0 } },
+          ...(cause ? [{ causeCategories: cause.category }] : []),
+        ],
+      },
+    ],
+  });
+
+  const [schedule] = candidates.sort(
+    (a, b) =>
+      specificity(b) - specificity(a) ||
+      b.priority - a.priority ||
+      b.effectiveFrom.getTime() - a.effectiveFrom.getTime()
+  );
+
+  if (!schedule) {
+    return { name: STANDARD_FEE_SCHEDULE_NAME, ...defaults };
+  }
+
+  return {
+    schedule: schedule._id as Types.ObjectId,
+    name: schedule.name,
+    platformFeePercent: schedule.platformFeePercent,
+    gstPercentage: schedule.gstPercentage ?? defaults.gstPercentage,
+    stripeFeePercent: schedule.stripeFeePercent ?? defaults.stripeFeePercent,
+    stripeFixedFee: schedule.stripeFixedFee ?? defaults.stripeFixedFee,
+  };
+};
+
+// Price a donation with the schedule that applies to it right now
+const calculateFees = async (
+  amount: number,
+  coverFees: boolean,
+  target: TFeeTarget
+) => {
+  const feeSchedule = await resolveFeeSchedule(target);
+
+  return {
+    ...calculateAustralianFees(amount, coverFees, feeSchedule),
+    feeSchedule,
+  };
+};
+
+// 1. Public fee quote shown before checkout
+const getFeeQuote = async (query: TFeeQuoteQuery) => {
+  const organization = await Organization.findById(query.organizationId);
+  if (!organization) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Organization not found!');
+  }
+
+  if (query.causeId) {
+    const cause = await Cause.findById(query.causeId).select('organization');
+    if (!cause || cause.organization.toString() !== query.organizationId) {
+      throw new AppError(httpStatus.NOT_FOUND, 'Cause not found!');
+    }
+  }
+
+  const financials = await calculateFees(query.amount, query.coverFees, {
+    organizationId: organization._id,
+    causeId: query.causeId,
+  });
+  const { feeSchedule } = financials;
+
+  return {
+    feeSchedule: {
+      _id: feeSchedule.schedule,
+      name: feeSchedule.name,
+      platformFeePercent: feeSchedule.platformFeePercent,
+      gstPercentage: feeSchedule.gstPercentage,
+      stripeFeePercent: feeSchedule.stripeFeePercent,
+      stripeFixedFee: feeSchedule.stripeFixedFee,
+    },
+    coverFees: financials.coverFees,
+    baseAmount: financials.baseAmount,
+    platformFee: financials.platformFee,
+    gstOnFee: financials.gstOnFee,
+    stripeFee: financials.stripeFee,
+    totalCharge: financials.totalCharge,
+    netToOrg: financials.netToOrg,
+  };
+};
+
+// 2. Admin: create a schedule
+const createFeeSchedule = async (
+  userId: string,
+  payload: TCreateFeeSchedulePayload
+) => {
+  await assertOrganizationsExist(payload.organizations);
+
+  const schedule = await FeeSchedule.create({
+    ...payload,
+    organizations: payload.organizations.map((id) => new Types.ObjectId(id)),
+    createdBy: new Types.ObjectId(userId),
+  });
+
+  return schedule;
+};
+
+// 3. Admin: list schedules
+const getFeeSchedules = async (query: Record<string, unknown>) => {
+  const page = Number(query.page) || 1;
+  const limit = Number(query.limit) || 20;
+
+  const filter: Record<string, unknown> = {};
+  if (query.organizationId) {
+    filter.organizations = new Types.ObjectId(String(query.organizationId));
+  }
+  if (query.isActive) filter.isActive = query.isActive === 'true';
+
+  const [schedules, total] = await Promise.all([
+    FeeSchedule.find(filter)
+      .populate('organizations', 'name')
+      .sort({ effectiveFrom: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    FeeSchedule.countDocuments(filter),
+  ]);
+
+  return {
+    schedules,
+    meta: {
+      page,
+      limit,
+      total,
+      totalPage: Math.ceil(total / limit),
+    },
+  };
+};
+
+// 4. Admin: get one schedule
+const getFeeScheduleById = async (scheduleId: string) => {
+  const schedule = await FeeSchedule.findById(scheduleId).populate(
+    'organizations',
+    'name'
+  );
+  if (!schedule) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Fee schedule not found!');
+  }
+
+  return schedule;
+};
+
+// 5. Admin: update a schedule. Once started, its rates and scope are
+// history: end it and create a new schedule instead.
+const updateFeeSchedule = async (
+  scheduleId: string,
+  payload: TUpdateFeeSchedulePayload
+) => {
+  const schedule = await FeeSchedule.findById(scheduleId);
+  if (!schedule) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Fee schedule not found!');
+  }
+
+  const now = new Date();
+  if (schedule.effectiveFrom <= now) {
+    const frozen = [
+      ...FEE_RATE_FIELDS,
+      'organizations',
+      'causeCategories',
+      'effectiveFrom',
+    ] as const;
+    const changed = frozen.filter((field) => payload[field] !== undefined);
+    if (changed.length) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `This schedule is already in effect, so ${changed.join(', ')} cannot change. End it and create a new schedule instead!`
+      );
+    }
+    if (payload.effectiveTo && payload.effectiveTo < now) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'A schedule in effect cannot be ended in the past!'
+      );
+    }
+  }
+
+  if (payload.organizations) {
+    await assertOrganizationsExist(payload.organizations);
+  }
+
+  const { effectiveTo, organizations, ...rest } = payload;
+  schedule.set(rest);
+  if (organizations) {
+    schedule.organizations = organizations.map(
+      (id) => new Types.ObjectId(id)
+    );
+  }
+  if (effectiveTo !== undefined) {
+    schedule.effectiveTo = effectiveTo ?? undefined;
+  }
+
+  if (schedule.effectiveTo && schedule.effectiveTo <= schedule.effectiveFrom) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Effective to date must be after the effective from date!'
+    );
+  }
+
+  await schedule.save();
+  return schedule;
+};
+
+// 6. Admin: delete a schedule that has not started yet
+const deleteFeeSchedule = async (scheduleId: string) => {
+  const schedule = await FeeSchedule.findById(scheduleId);
+  if (!schedule) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Fee schedule not found!');
+  }
+
+  if (schedule.effectiveFrom <= new Date()) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'This schedule is already in effect. End or deactivate it instead!'
+    );
+  }
+
+  await schedule.deleteOne();
+  return schedule;
+};
+
+export const FeeScheduleService = {
+  resolveFeeSchedule,
+  calculateFees,
+  getFeeQuote,
+  createFeeSchedule,
+  getFeeSchedules,
+  getFeeScheduleById,
+  updateFeeSchedule,
+  deleteFeeSchedule,
+};
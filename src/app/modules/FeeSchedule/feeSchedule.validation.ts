@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { causeCategoryTypeValues } from '../Causes/causes.constant';
+import { MAX_FEE_PERCENT, MAX_FIXED_FEE } from './feeSchedule.constant';
+
+const feePercentSchema = z
+  .number()
+  .min(0, { message: 'Fee rates cannot be negative!' })
+  .max(MAX_FEE_PERCENT, {
+    message: `Fee rates are fractions and cannot exceed ${MAX_FEE_PERCENT}!`,
+  });
+
+const fixedFeeSchema = z
+  .number()
+  .min(0, { message: 'Fixed fee cannot be negative!' })
+  .max(MAX_FIXED_FEE, {
+    message: `Fixed fee cannot exceed $${MAX_FIXED_FEE}!`,
+  });
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: 'Name is required!' })
+  .max(100, { message: 'Name must be less than 100 characters!' });
+
+const descriptionSchema = z
+  .string()
+  .trim()
+  .max(500, { message: 'Description must be less than 500 characters!' });
+
+const organizationsSchema = z.array(
+  z.string().min(1, { message: 'Organization ID is required!' })
+);
+
+const causeCategoriesSchema = z.array(
+  z.enum(causeCategoryTypeValues as [string, ...string[]])
+);
+
+// 1. Admin: create a fee schedule
+const createFeeScheduleSchema = z.object({
+  body: z
+    .object({
+      name: nameSchema,
+      description: descriptionSchema.optional(),
+      platformFeePercent: feePercentSchema,
+      gstPercentage: feePercentSchema.optional(),
+      stripeFeePercent: feePercentSchema.optional(),
+      stripeFixedFee: fixedFeeSchema.optional(),
+      organizations: organizationsSchema.optional().default([]),
+      causeCategories: causeCategoriesSchema.optional().default([]),
+      effectiveFrom: z.coerce.date({
+        message: 'Effective from date is required!',
+      }),
+      effectiveTo: z.coerce.date().optional(),
+      priority: z.number().int().optional(),
+      isActive: z.boolean().optional(),
+    })
+    .refine(
+      (data) => !data.effectiveTo || data.effectiveTo > data.effectiveFrom,
+      {
+        message: 'Effective to date must be after the effective from date!',
+        path: ['effectiveTo'],
+      }
+    ),
+});
+
+// 2. Admin: update a fee schedule (rates freeze once it has started)
+const updateFeeScheduleSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, { message: 'Fee schedule ID is required!' }),
+  }),
+  body: z
+    .object({
+      name: nameSchema.optional(),
+      description: descriptionSchema.optional(),
+      platformFeePercent: feePercentSchema.optional(),
+      gstPercentage: feePercentSchema.optional(),
+      stripeFeePercent: feePercentSchema.optional(),
+      stripeFixedFee: fixedFeeSchema.optional(),
+      organizations: organizationsSchema.optional(),
+      causeCategories: causeCategoriesSchema.optional(),
+      effectiveFrom: z.coerce.date().optional(),
+      effectiveTo: z.coerce.date().nullable().optional(), // null = open-ended
+      priority: z.number().int().optional(),
+      isActive: z.boolean().optional(),
+    })
+    .strict(),
+});
+
+// 3. Admin: list fee schedules
+const getFeeSchedulesSchema = z.object({
+  query: z.object({
+    organizationId: z.string().optional(),
+    isActive: z.enum(['true', 'false']).optional(),
+    page: z.coerce.number().min(1).optional(),
+    limit: z.coerce.number().min(1).max(100).optional(),
+  }),
+});
+
+const feeScheduleIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, { message: 'Fee schedule ID is required!' }),
+  }),
+});
+
+// 4. Public: fee quote shown before checkout
+const feeQuoteSchema = z.object({
+  query: z.object({
+    organizationId: z
+      .string({ message: 'Organization ID is required!' })
+      .min(1, { message: 'Organization ID is required!' }),
+    causeId: z.string().min(1).optional(),
+    amount: z.coerce
+      .number({ message: 'Amount is required!' })
+      .min(1, { message: 'Amount must be at least $1!' })
+      .max(10000, { message: 'Amount cannot exceed $10,000!' }),
+    coverFees: z
+      .enum(['true', 'false'])
+      .optional()
+      .default('false')
+      .transform((value) => value === 'true'),
+  }),
+});
+
+export const FeeScheduleValidation = {
+  createFeeScheduleSchema,
+  updateFeeScheduleSchema,
+  getFeeSchedulesSchema,
+  feeScheduleIdSchema,
+  feeQuoteSchema,
+};
+
+export type TCreateFeeSchedulePayload = z.infer<
+  typeof createFeeScheduleSchema
+>['body'];
+export type TUpdateFeeSchedulePayload = z.infer<
+  typeof updateFeeScheduleSchema
+>['body'];
+export type TFeeQuoteQuery = z.infer<typeof feeQuoteSchema>['query'];
@@ -0,0 +1,11 @@
+export const FUNDRAISER_STATUS = {
+  ACTIVE: 'active', // Accepting donations
+  PAUSED: 'paused', // Hidden from lists, owner can resume
+  CLOSED: 'closed', // Finished for good
+} as const;
+
+export const FUNDRAISER_STATUS_VALUES = Object.values(FUNDRAISER_STATUS);
+
+// lowercase words separated by single hyphens, e.g. "ahmeds-ramadan-challenge"
+export const FUNDRAISER_SLUG_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+export const FUNDRAISER_SLUG_MAX_LENGTH = 60;
@@ -0,0 +1,123 @@
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { FundraiserService } from './fundraiser.service';
+
+// 1. Create fundraiser page
+const createFundraiser = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await FundraiserService.createFundraiser(userId, req.body);
+
+    sendResponse(res, {
+      statusCode: httpStatus.CREATED,
+      message: 'Fundraiser created successfully',
+      data: result,
+    });
+  }
+);
+
+// 2. Update own fundraiser
+const updateFundraiser = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await FundraiserService.updateFundraiser(
+      req.params.id.toString(),
+      userId,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Fundraiser updated successfully',
+      data: result,
+    });
+  }
+);
+
+// 3. Get my fundraisers
+const getMyFundraisers = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await FundraiserService.getMyFundraisers(
+      userId,
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Fundraisers retrieved successfully',
+      data: result.fundraisers,
+      meta: result.meta,
+    });
+  }
+);
+
+// 4. Public list of active fundraisers
+const getFundraisers = asyncHandler(async (req: Request, res: Response) => {
+  const result = await FundraiserService.getFundraisers(
+    req.query as Record<string, unknown>
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    message: 'Fundraisers retrieved successfully',
+    data: result.fundraisers,
+    meta: result.meta,
+  });
+});
+
+// 5. Public fundraiser page
+const getFundraiserBySlug = asyncHandler(
+  async (req: Request, res: Response) => {
+    const result = await FundraiserService.getFundraiserBySlug(
+      req.params.slug.toString()
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Fundraiser retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 6. Public supporter list
+const getFundraiserSupporters = asyncHandler(
+  async (req: Request, res: Response) => {
+    const result = await FundraiserService.getFundraiserSupporters(
+      req.params.id.toString(),
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Fundraiser supporters retrieved successfully',
+      data: result.supporters,
+      meta: result.meta,
+    });
+  }
+);
+
+export const FundraiserController = {
+  createFundraiser,
+  updateFundraiser,
+  getMyFundraisers,
+  getFundraisers,
+  getFundraiserBySlug,
+  getFundraiserSupporters,
+};
@@ -0,0 +1,39 @@
+import { Document, Types } from 'mongoose';
+import { FUNDRAISER_STATUS } from './fundraiser.constant';
+
+export type TFundraiserStatus =
+  (typeof FUNDRAISER_STATUS)[keyof typeof FUNDRAISER_STATUS];
+
+export interface IFundraiser {
+  owner: Types.ObjectId; // Client running the page
+  cause: Types.ObjectId;
+  organization: Types.ObjectId; // Taken from the cause
+
+  title: string;
+  story: string;
+  slug: string;
+  coverImage?: string;
+  goalAmount: number;
+  endDate?: Date;
+  status: TFundraiserStatus;
+
+  // Progress (recomputed from completed donations and refunds)
+  raisedAmount: number;
+  supporterCount: number;
+  donationCount: number;
+  goalReachedAt?: Date;
+}
+
+export interface IFundraiserModel extends IFundraiser, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IFundraiserSupporter {
+  name: string;
+  image: string | null;
+  isAnonymous: boolean;
+  amount: number;
+  message?: string;
+  donationDate: Date;
+}
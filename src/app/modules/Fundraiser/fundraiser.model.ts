@@ -0,0 +1,93 @@
+import { Schema, model } from 'mongoose';
+import { IFundraiserModel } from './fundraiser.interface';
+import {
+  FUNDRAISER_SLUG_MAX_LENGTH,
+  FUNDRAISER_STATUS,
+  FUNDRAISER_STATUS_VALUES,
+} from './fundraiser.constant';
+
+const fundraiserSchema = new Schema<IFundraiserModel>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'Client',
+      required: true,
+      index: true,
+    },
+    cause: {
+      type: Schema.Types.ObjectId,
+      ref: 'Cause',
+      required: true,
+      index: true,
+    },
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+    },
+
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    story: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 5000,
+    },
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+      maxlength: FUNDRAISER_SLUG_MAX_LENGTH,
+    },
+    coverImage: {
+      type: String,
+    },
+    goalAmount: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    endDate: {
+      type: Date,
+    },
+    status: {
+      type: String,
+      enum: FUNDRAISER_STATUS_VALUES,
+      default: FUNDRAISER_STATUS.ACTIVE,
+      index: true,
+    },
+
+    // Progress (recomputed from completed donations and refunds)
+    raisedAmount: {
+      type: Number,
+      default: 0,
+    },
+    supporterCount: {
+      type: Number,
+      default: 0,
+    },
+    donationCount: {
+      type: Number,
+      default: 0,
+    },
+    goalReachedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export const Fundraiser = model<IFundraiserModel>(
+  'Fundraiser',
+  fundraiserSchema
+);
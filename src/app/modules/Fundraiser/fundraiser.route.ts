@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { FundraiserController } from './fundraiser.controller';
+import { FundraiserValidation } from './fundraiser.validation';
+
+const router = Router();
+
+// 1. Create fundraiser page for a cause
+router.post(
+  '/',
+  auth(ROLE.CLIENT),
+  validateRequest(FundraiserValidation.createFundraiserSchema),
+  FundraiserController.createFundraiser
+);
+
+// 2. Public list of active fundraisers
+router.get(
+  '/',
+  validateRequest(FundraiserValidation.getFundraisersQuerySchema),
+  FundraiserController.getFundraisers
+);
+
+// 3. Get my fundraisers
+router.get(
+  '/my-fundraisers',
+  auth(ROLE.CLIENT),
+  FundraiserController.getMyFundraisers
+);
+
+// 4. Public fundraiser page (shareable link)
+router.get(
+  '/slug/:slug',
+  validateRequest(FundraiserValidation.fundraiserSlugParamsSchema),
+  FundraiserController.getFundraiserBySlug
+);
+
+// 5. Public supporter list
+router.get(
+  '/:id/supporters',
+  validateRequest(FundraiserValidation.fundraiserIdParamsSchema),
+  FundraiserController.getFundraiserSupporters
+);
+
+// 6. Update own fundraiser
+router.patch(
+  '/:id',
+  auth(ROLE.CLIENT),
+  validateRequest(FundraiserValidation.updateFundraiserSchema),
+  FundraiserController.updateFundraiser
+);
+
+export const FundraiserRoutes = router;
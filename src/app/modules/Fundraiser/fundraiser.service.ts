@@ -0,0 +1,454 @@
+/* eslint-disable no-console */
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+
+import config from '../../config';
+import { AppError } from '../../utils';
+import QueryBuilder from '../../builders/QueryBuilder';
+import Client from '../Client/client.model';
+import Cause from '../Causes/causes.model';
+import {
+  CAUSE_FUNDRAISING_STATUS,
+  CAUSE_STATUS_TYPE,
+} from '../Causes/causes.constant';
+import { Donation } from '../Donation/donation.model';
+import {
+  ANONYMOUS_DONOR_NAME,
+  MESSAGE_STATUS,
+} from '../Donation/donation.constant';
+import { badgeService } from '../badge/badge.service';
+import { createNotification } from '../Notification/notification.service';
+import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
+import { Fundraiser } from './fundraiser.model';
+import {
+  IFundraiserModel,
+  IFundraiserSupporter,
+} from './fundraiser.interface';
+import {
+  FUNDRAISER_SLUG_MAX_LENGTH,
+  FUNDRAISER_STATUS,
+} from './fundraiser.constant';
+import {
+  TCreateFundraiserPayload,
+  TUpdateFundraiserPayload,
+} from './fundraiser.validation';
+
+const buildShareUrl = (slug: string) =>
+  `${config.clientUrl}/fundraiser/${slug}`;
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/[\s-]+/g, '-')
+    .slice(0, FUNDRAISER_SLUG_MAX_LENGTH - 5)
+    .replace(/^-+|-+$/g, '');
+
+// Use the requested slug or derive one from the title, adding a short
+// suffix when the derived one is already taken.
+const resolveSlug = async (title: string, requestedSlug?: string) => {
+  if (requestedSlug) {
+    const taken = await Fundraiser.exists({ slug: requestedSlug });
+    if (taken) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'This fundraiser link is already taken!'
+      );
+    }
+    return requestedSlug;
+  }
+
+  const base = slugify(title) || 'fundraiser';
+  let slug = base;
+  while (await Fundraiser.exists({ slug })) {
+    slug = `${base}-${Math.random().toString(36).slice(2, 6)}`;
+  }
+  return slug;
+};
+
+const withShareUrl = (fundraiser: IFundraiserModel) => ({
+  ...fundraiser.toObject(),
+  shareUrl: buildShareUrl(fundraiser.slug),
+  percentOfGoal:
+    Math.round((fundraiser.raisedAmount / fundraiser.goalAmount) * 10000) /
+    100,
+});
+
+// Load a fundraiser owned by the logged-in client
+const getOwnedFundraiser = async (fundraiserId: string, userId: string) => {
+  const client = await Client.findOne({ auth: userId });
+  if (!client) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Client not found!');
+  }
+
+  const fundraiser = await Fundraiser.findById(fundraiserId);
+  if (!fundraiser) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Fundraiser not found!');
+  }
+
+  if (fundraiser.owner.toString() !== client._id.toString()) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'You do not have access to this fundraiser!'
+    );
+  }
+
+  return fundraiser;
+};
+
+// 1. Create fundraiser page for an existing cause
+const createFundraiser = async (
+  userId: string,
+  payload: TCreateFundraiserPayload
+) => {
+  const client = await Client.findOne({ auth: userId });
+  if (!client) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Client not found!');
+  }
+
+  const cause = await Cause.findById(payload.causeId);
+  if (!cause) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Cause not found!');
+  }
+  if (cause.status !== CAUSE_STATUS_TYPE.VERIFIED) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Fundraisers can only be created for verified causes!'
+    );
+  }
+  if (cause.fundraisingStatus === CAUSE_FUNDRAISING_STATUS.CLOSED) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Cause ${cause.name} is closed and no longer accepts donations.`
+    );
+  }
+
+  const slug = await resolveSlug(payload.title, payload.slug);
+
+  const fundraiser = await Fundraiser.create({
+    owner: client._id,
+    cause: cause._id,
+    organization: cause.organization,
+    title: payload.title,
+    story: payload.story,
+    slug,
+    goalAmount: payload.goalAmount,
+    endDate: payload.endDate ? new Date(payload.endDate) : undefined,
+    status: FUNDRAISER_STATUS.ACTIVE,
+  });
+
+  console.log(`🏃 Fundraiser created: ${fundraiser.slug} by ${client.name}`);
+
+  return withShareUrl(fundraiser);
+};
+
+// 2. Update own fundraiser (story, goal, deadline, pause/close)
+const updateFundraiser = async (
+  fundraiserId: string,
+  userId: string,
+  payload: TUpdateFundraiserPayload
+) => {
+  const fundraiser = await getOwnedFundraiser(fundraiserId, userId);
+
+  if (fundraiser.status === FUNDRAISER_STATUS.CLOSED) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Closed fundraisers cannot be changed!'
+    );
+  }
+
+  if (payload.title !== undefined) fundraiser.title = payload.title;
+  if (payload.story !== undefined) fundraiser.story = payload.story;
+  if (payload.status !== undefined) {
+    fundraiser.status = payload.status as IFundraiserModel['status'];
+  }
+  if (payload.endDate !== undefined) {
+    fundraiser.endDate = payload.endDate
+      ? new Date(payload.endDate)
+      : undefined;
+  }
+  if (payload.goalAmount !== undefined) {
+    fundraiser.goalAmount = payload.goalAmount;
+    // A raised goal can be reached (and celebrated) again
+    if (fundraiser.raisedAmount < payload.goalAmount) {
+      fundraiser.goalReachedAt = undefined;
+    }
+  }
+
+  await fundraiser.save();
+
+  return withShareUrl(fundraiser);
+};
+
+// 3. Get fundraisers run by the logged-in client
+const getMyFundraisers = async (
+  userId: string,
+  query: Record<string, unknown>
+) => {
+  const client = await Client.findOne({ auth: userId });
+  if (!client) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Client not found!');
+  }
+
+  const fundraiserQuery = new QueryBuilder<IFundraiserModel>(
+    Fundraiser.find({ owner: client._id })
+      .populate('cause', 'name category')
+      .populate('organization', 'name logoImage'),
+    query
+  )
+    .search(['title'])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const fundraisers = await fundraiserQuery.modelQuery;
+  const meta = await fundraiserQuery.countTotal();
+
+  return { fundraisers: fundraisers.map(withShareUrl), meta };
+};
+
+// 4. Public list of active fundraisers (e.g. for a cause page)
+const getFundraisers = async (query: Record<string, unknown>) => {
+  const fundraiserQuery = new QueryBuilder<IFundraiserModel>(
+    Fundraiser.find({ status: FUNDRAISER_STATUS.ACTIVE })
+      .populate('owner', 'name image')
+      .populate('cause', 'name category')
+      .populate('organization', 'name logoImage'),
+    query
+  )
+    .search(['title'])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const fundraisers = await fundraiserQuery.modelQuery;
+  const meta = await fundraiserQuery.countTotal();
+
+  return { fundraisers: fundraisers.map(withShareUrl), meta };
+};
+
+// 5. Public fundraiser page by slug
+const getFundraiserBySlug = async (slug: string) => {
+  const fundraiser = await Fundraiser.findOne({ slug: slug.toLowerCase() })
+    .populate('owner', 'name image')
+    .populate('cause', 'name description category')
+    .populate('organization', 'name logoImage coverImage');
+
+  if (!fundraiser) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Fundraiser not found!');
+  }
+
+  return withShareUrl(fundraiser);
+};
+
+// 6. Public supporter list (anonymous gifts hide the donor)
+const getFundraiserSupporters = async (
+  fundraiserId: string,
+  query: Record<string, unknown>
+) => {
+  const fundraiser = await Fundraiser.findById(fundraiserId);
+  if (!fundraiser) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Fundraiser not found!');
+  }
+
+  const page = Number(query.page) || 1;
+  const limit = Number(query.limit) || 10;
+  const filter = { fundraiser: fundraiser._id, status: 'completed' };
+
+  const [donations, total] = await Promise.all([
+    Donation.find(filter)
+      .select(
+        'donor amount specialMessage messageStatus isAnonymous donationDate'
+      )
+      .populate<{ donor: { name: string; image?: string } }>(
+        'donor',
+        'name image'
+      )
+      .sort({ donationDate: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    Donation.countDocuments(filter),
+  ]);
+
+  const supporters: IFundraiserSupporter[] = donations.map((donation) => ({
+    name: donation.isAnonymous
+      ? ANONYMOUS_DONOR_NAME
+      : donation.donor?.name || ANONYMOUS_DONOR_NAME,
+    image: donation.isAnonymous ? null : donation.donor?.image || null,
+    isAnonymous: !!donation.isAnonymous,
+    amount: donation.amount,
+    // Held or hidden messages stay off public pages
+    message:
+      donation.messageStatus === MESSAGE_STATUS.APPROVED
+        ? donation.specialMessage
+        : undefined,
+    donationDate: donation.donationDate,
+  }));
+
+  return {
+    supporters,
+    meta: {
+      page,
+      limit,
+      total,
+      totalPage: Math.ceil(total / limit),
+    },
+  };
+};
+
+// Ensure a donation made through a fundraiser page targets its cause
+const validateFundraiserForDonation = async (
+  fundraiserId: string,
+  causeId: string,
+  organizationId: string
+) => {
+  const fundraiser = await Fundraiser.findById(fundraiserId);
+  if (!fundraiser) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Fundraiser not found!');
+  }
+  if (fundraiser.status !== FUNDRAISER_STATUS.ACTIVE) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'This fundraiser is not accepting donations!'
+    );
+  }
+  if (fundraiser.endDate && fundraiser.endDate < new Date()) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'This fundraiser has ended!');
+  }
+  if (
+    fundraiser.cause.toString() !== causeId ||
+    fundraiser.organization.toString() !== organizationId
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Fundraiser does not belong to this cause!'
+    );
+  }
+
+  return fundraiser;
+};
+
+// Recompute totals from completed donations (payments and refunds)
+const syncFundraiserProgress = async (
+  fundraiserId: string | Types.ObjectId
+) => {
+  const fundraiserObjectId = new Types.ObjectId(fundraiserId.toString());
+
+  const [stats] = await Donation.aggregate([
+    { $match: { fundraiser: fundraiserObjectId, status: 'completed' } },
+    {
+      $group: {
+        _id: '$fundraiser',
+        // Partial refunds stay 'completed'; count only what was kept
+        raisedAmount: {
+          $sum: {
+            $subtract: ['$amount', { $ifNull: ['$refundedAmount', 0] }],
+          },
+        },
+        supporters: { $addToSet: '$donor' },
+        donationCount: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const raisedAmount = Math.round((stats?.raisedAmount || 0) * 100) / 100;
+
+  return Fundraiser.findByIdAndUpdate(
+    fundraiserObjectId,
+    {
+      raisedAmount,
+      supporterCount: stats?.supporters?.length || 0,
+      donationCount: stats?.donationCount || 0,
+    },
+    { new: true }
+  ).populate<{ owner: { _id: Types.ObjectId; auth: Types.ObjectId } }>(
+    'owner',
+    'auth'
+  );
+};
+
+// 7. Credit a completed donation to its fundraiser: totals, owner
+// notifications and fundraising badges.
+const handleFundraiserDonationSucceeded = async (donationId: string) => {
+  const donation = await Donation.findById(donationId).populate<{
+    donor: { _id: Types.ObjectId; name: string };
+  }>('donor', 'name');
+  if (!donation?.fundraiser) return;
+
+  const fundraiser = await syncFundraiserProgress(donation.fundraiser);
+  if (!fundraiser) return;
+
+  const ownerId = fundraiser.owner._id.toString();
+  const ownerAuthId = fundraiser.owner.auth.toString();
+  const isOwnGift = donation.donor._id.toString() === ownerId;
+
+  // 1. Notify owner about the new supporter
+  if (!isOwnGift) {
+    try {
+      const supporterName = donation.isAnonymous
+        ? 'An anonymous supporter'
+        : donation.donor.name;
+      await createNotification(
+        ownerAuthId,
+        NOTIFICATION_TYPE.FUNDRAISER_DONATION,
+        `${supporterName} donated $${donation.amount} to your fundraiser "${fundraiser.title}"!`,
+        fundraiser._id!.toString()
+      );
+    } catch (err) {
+      console.log(`❌🔔 Fundraiser owner notification Failed!`);
+    }
+  }
+
+  // 2. Celebrate the goal once
+  if (fundraiser.raisedAmount >= fundraiser.goalAmount) {
+    const claimed = await Fundraiser.findOneAndUpdate(
+      { _id: fundraiser._id, goalReachedAt: { $exists: false } },
+      { goalReachedAt: new Date() }
+    );
+    if (claimed) {
+      try {
+        await createNotification(
+          ownerAuthId,
+          NOTIFICATION_TYPE.FUNDRAISER_GOAL_REACHED,
+          `Your fundraiser "${fundraiser.title}" reached its $${fundraiser.goalAmount} goal!`,
+          fundraiser._id!.toString()
+        );
+      } catch (err) {
+        console.log(`❌🔔 Fundraiser goal notification Failed!`);
+      }
+    }
+  }
+
+  // 3. Fundraising badges for the owner
+  if (!isOwnGift) {
+    try {
+      await badgeService.checkAndUpdateBadgesForFundraising(
+        ownerId,
+        donation._id!.toString()
+      );
+    } catch (err) {
+      console.error(`❌ Fundraising badge checking failed:`, err);
+    }
+  }
+
+  console.log(
+    `🏃 Fundraiser ${fundraiser.slug} credited with $${donation.amount}`
+  );
+};
+
+export const FundraiserService = {
+  createFundraiser,
+  updateFundraiser,
+  getMyFundraisers,
+  getFundraisers,
+  getFundraiserBySlug,
+  getFundraiserSupporters,
+  validateFundraiserForDonation,
+  syncFundraiserProgress,
+  handleFundraiserDonationSucceeded,
+};
@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import {
+  FUNDRAISER_SLUG_MAX_LENGTH,
+  FUNDRAISER_SLUG_REGEX,
+  FUNDRAISER_STATUS_VALUES,
+} from './fundraiser.constant';
+
+const slugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(3, { message: 'Link must be at least 3 characters!' })
+  .max(FUNDRAISER_SLUG_MAX_LENGTH, {
+    message: `Link must be less than ${FUNDRAISER_SLUG_MAX_LENGTH} characters!`,
+  })
+  .regex(FUNDRAISER_SLUG_REGEX, {
+    message: 'Link may only contain letters, numbers and single hyphens!',
+  });
+
+// 1. Create fundraiser schema
+const createFundraiserSchema = z.object({
+  body: z.object({
+    causeId: z
+      .string({
+        error: 'Cause ID is required!',
+      })
+      .min(1, { message: 'Cause ID is required!' }),
+
+    title: z
+      .string({
+        error: 'Title is required!',
+      })
+      .trim()
+      .min(3, { message: 'Title must be at least 3 characters!' })
+      .max(100, { message: 'Title must be less than 100 characters!' }),
+
+    story: z
+      .string({
+        error: 'Story is required!',
+      })
+      .trim()
+      .min(1, { message: 'Story is required!' })
+      .max(5000, { message: 'Story must be less than 5000 characters!' }),
+
+    goalAmount: z
+      .number({
+        error: 'Goal amount is required!',
+      })
+      .min(1, { message: 'Goal amount must be at least $1!' }),
+
+    slug: slugSchema.optional(),
+
+    endDate: z
+      .string()
+      .datetime({ message: 'Invalid date format!' })
+      .refine((date) => new Date(date) > new Date(), {
+        message: 'End date must be in the future!',
+      })
+      .optional(),
+  }),
+});
+
+// 2. Update fundraiser schema
+const updateFundraiserSchema = z.object({
+  params: z.object({
+    id: z
+      .string({
+        error: 'Fundraiser ID is required!',
+      })
+      .min(1, { message: 'Fundraiser ID is required!' }),
+  }),
+  body: z
+    .object({
+      title: z.string().trim().min(3).max(100).optional(),
+      story: z.string().trim().min(1).max(5000).optional(),
+      goalAmount: z
+        .number()
+        .min(1, { message: 'Goal amount must be at least $1!' })
+        .optional(),
+      endDate: z
+        .string()
+        .datetime({ message: 'Invalid date format!' })
+        .nullable()
+        .optional(),
+      status: z
+        .enum(FUNDRAISER_STATUS_VALUES as [string, ...string[]], {
+          error: 'Invalid fundraiser status!',
+        })
+        .optional(),
+    })
+    .strict(),
+});
+
+// 3. Fundraiser ID params schema
+const fundraiserIdParamsSchema = z.object({
+  params: z.object({
+    id: z
+      .string({
+        error: 'Fundraiser ID is required!',
+      })
+      .min(1, { message: 'Fundraiser ID is required!' }),
+  }),
+});
+
+// 4. Public page by slug schema
+const fundraiserSlugParamsSchema = z.object({
+  params: z.object({
+    slug: z
+      .string({
+        error: 'Fundraiser link is required!',
+      })
+      .min(1, { message: 'Fundraiser link is required!' }),
+  }),
+});
+
+// 5. Public fundraiser list schema
+const getFundraisersQuerySchema = z.object({
+  query: z
+    .object({
+      searchTerm: z.string().optional(),
+      cause: z.string().optional(),
+      organization: z.string().optional(),
+      page: z.coerce.number().int().positive().default(1).optional(),
+      limit: z.coerce.number().int().positive().max(100).default(10).optional(),
+      sort: z.string().optional(),
+    })
+    .optional(),
+});
+
+export const FundraiserValidation = {
+  createFundraiserSchema,
+  updateFundraiserSchema,
+  fundraiserIdParamsSchema,
+  fundraiserSlugParamsSchema,
+  getFundraisersQuerySchema,
+};
+
+export type TCreateFundraiserPayload = z.infer<
+  typeof createFundraiserSchema
+>['body'];
+export type TUpdateFundraiserPayload = z.infer<
+  typeof updateFundraiserSchema
+>['body'];
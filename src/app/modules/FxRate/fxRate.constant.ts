@@ -0,0 +1,18 @@
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
+
+// ISO 4217 codes donors can display in and organizations can settle in
+export const SUPPORTED_CURRENCIES = [
+  'USD',
+  'AUD',
+  'NZD',
+  'GBP',
+  'EUR',
+  'CAD',
+  'SGD',
+  'MYR',
+] as const;
+
+// Every rate in the table is quoted against this currency (rate = 1)
+export const FX_BASE_CURRENCY = DEFAULT_CURRENCY;
+
+export const FX_RATE_DECIMALS = 6;
@@ -0,0 +1,40 @@
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { FxRateService } from './fxRate.service';
+
+// 1. Get FX table
+const getFxRates = asyncHandler(async (_req: Request, res: Response) => {
+  const result = await FxRateService.getFxRates();
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    message: 'Exchange rates retrieved successfully',
+    data: result,
+  });
+});
+
+// 2. Admin: create or update rates
+const upsertFxRates = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await FxRateService.upsertFxRates(userId, req.body);
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Exchange rates updated successfully',
+      data: result,
+    });
+  }
+);
+
+export const FxRateController = {
+  getFxRates,
+  upsertFxRates,
+};
@@ -0,0 +1,22 @@
+import { Document, Types } from 'mongoose';
+import { SUPPORTED_CURRENCIES } from './fxRate.constant';
+
+export type TSupportedCurrency = (typeof SUPPORTED_CURRENCIES)[number];
+
+export interface IFxRate {
+  currency: TSupportedCurrency;
+  rateToBase: number; // Units of FX_BASE_CURRENCY per 1 unit of `currency`
+  updatedBy?: Types.ObjectId;
+}
+
+export interface IFxRateModel extends IFxRate, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Stored on every Donation, RoundUpTransaction and Payout
+export interface ICurrencySnapshot {
+  currency: string; // Original currency
+  settlementCurrency: string;
+  exchangeRate: number; // 1 unit of `currency` in `settlementCurrency`
+}
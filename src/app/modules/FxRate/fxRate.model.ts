@@ -0,0 +1,29 @@
+import { Schema, model } from 'mongoose';
+import { IFxRateModel } from './fxRate.interface';
+import { SUPPORTED_CURRENCIES } from './fxRate.constant';
+
+const fxRateSchema = new Schema<IFxRateModel>(
+  {
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: true,
+      unique: true,
+    },
+    rateToBase: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export const FxRate = model<IFxRateModel>('FxRate', fxRateSchema);
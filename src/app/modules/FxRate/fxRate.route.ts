@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { FxRateController } from './fxRate.controller';
+import { FxRateValidation } from './fxRate.validation';
+
+const router = Router();
+
+// 1. Get FX table
+router.get('/', FxRateController.getFxRates);
+
+// 2. Create or update rates (admin)
+router.put(
+  '/',
+  auth(ROLE.ADMIN),
+  validateRequest(FxRateValidation.upsertFxRatesSchema),
+  FxRateController.upsertFxRates
+);
+
+export const FxRateRoutes = router;
@@ -0,0 +1,101 @@
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+
+import { AppError } from '../../utils';
+import { FxRate } from './fxRate.model';
+import { ICurrencySnapshot } from './fxRate.interface';
+import { FX_BASE_CURRENCY, FX_RATE_DECIMALS } from './fxRate.constant';
+import { TUpsertFxRatesPayload } from './fxRate.validation';
+
+const getRateToBase = async (currency: string): Promise<number> => {
+  const code = currency.toUpperCase();
+  if (code === FX_BASE_CURRENCY) return 1;
+
+  const fxRate = await FxRate.findOne({ currency: code }).lean();
+  if (!fxRate) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `No FX rate configured for ${code}. An admin must add it to the FX table.`
+    );
+  }
+
+  return fxRate.rateToBase;
+};
+
+// 1. Full FX table (base currency included)
+const getFxRates = async () => {
+  const rates = await FxRate.find().sort({ currency: 1 }).lean();
+
+  return {
+    baseCurrency: FX_BASE_CURRENCY,
+    rates: [
+      { currency: FX_BASE_CURRENCY, rateToBase: 1, updatedAt: null },
+      ...rates.map((rate) => ({
+        currency: rate.currency,
+        rateToBase: rate.rateToBase,
+        updatedAt: rate.updatedAt,
+      })),
+    ],
+  };
+};
+
+// 2. Admin: create or update rates
+const upsertFxRates = async (
+  adminAuthId: string,
+  payload: TUpsertFxRatesPayload
+) => {
+  await FxRate.bulkWrite(
+    payload.rates.map((rate) => ({
+      updateOne: {
+        filter: { currency: rate.currency },
+        update: {
+          $set: {
+            rateToBase: rate.rateToBase,
+            updatedBy: new Types.ObjectId(adminAuthId),
+          },
+        },
+        upsert: true,
+      },
+    }))
+  );
+
+  return getFxRates();
+};
+
+// 3. Rate to convert 1 unit of `from` into `to` (table only, no network)
+const getExchangeRate = async (from: string, to: string): Promise<number> => {
+  if (from.toUpperCase() === to.toUpperCase()) return 1;
+
+  const [fromRate, toRate] = await Promise.all([
+    getRateToBase(from),
+    getRateToBase(to),
+  ]);
+
+  return Number((fromRate / toRate).toFixed(FX_RATE_DECIMALS));
+};
+
+// 4. Currency fields stored on donations, round-ups and payouts
+const buildCurrencySnapshot = async (
+  currency: string,
+  settlementCurrency: string
+): Promise<ICurrencySnapshot> => ({
+  currency: currency.toUpperCase(),
+  settlementCurrency: settlementCurrency.toUpperCase(),
+  exchangeRate: await getExchangeRate(currency, settlementCurrency),
+});
+
+const convertAmount = async (amount: number, from: string, to: string) => {
+  const exchangeRate = await getExchangeRate(from, to);
+  return {
+    amount: Number((amount * exchangeRate).toFixed(2)),
+    exchangeRate,
+  };
+};
+
+export const FxRateService = {
+  getFxRates,
+  upsertFxRates,
+  getExchangeRate,
+  buildCurrencySnapshot,
+  convertAmount,
+};
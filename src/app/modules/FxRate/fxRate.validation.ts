@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { FX_BASE_CURRENCY, SUPPORTED_CURRENCIES } from './fxRate.constant';
+
+export const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .pipe(
+    z.enum(SUPPORTED_CURRENCIES, {
+      message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`,
+    })
+  );
+
+// 1. Admin: upsert FX rates
+const upsertFxRatesSchema = z.object({
+  body: z.object({
+    rates: z
+      .array(
+        z.object({
+          currency: currencySchema.refine(
+            (currency) => currency !== FX_BASE_CURRENCY,
+            { message: `${FX_BASE_CURRENCY} is the base currency (always 1)!` }
+          ),
+          rateToBase: z
+            .number({
+              error: 'Rate is required!',
+            })
+            .positive({ message: 'Rate must be greater than 0!' }),
+        })
+      )
+      .min(1, { message: 'At least one rate is required!' })
+      .refine(
+        (rates) =>
+          new Set(rates.map((rate) => rate.currency)).size === rates.length,
+        { message: 'Each currency can appear only once!' }
+      ),
+  }),
+});
+
+export const FxRateValidation = {
+  upsertFxRatesSchema,
+};
+
+export type TUpsertFxRatesPayload = z.infer<
+  typeof upsertFxRatesSchema
+>['body'];
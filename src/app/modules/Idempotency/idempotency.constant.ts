@@ -0,0 +1,13 @@
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+export const IDEMPOTENCY_STATUS = {
+  PROCESSING: 'processing', // Handler still running
+  COMPLETED: 'completed', // Response stored for replays
+} as const;
+
+export const IDEMPOTENCY_STATUS_VALUES = Object.values(IDEMPOTENCY_STATUS);
+
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+// Stored responses expire after this (Mongo TTL index)
+export const IDEMPOTENCY_TTL_HOURS = 24;
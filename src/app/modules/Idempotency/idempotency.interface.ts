@@ -0,0 +1,21 @@
+import { Document, Types } from 'mongoose';
+import { IDEMPOTENCY_STATUS } from './idempotency.constant';
+
+export type TIdempotencyStatus =
+  (typeof IDEMPOTENCY_STATUS)[keyof typeof IDEMPOTENCY_STATUS];
+
+export interface IIdempotencyRecord {
+  key: string;
+  user?: Types.ObjectId; // Keys are scoped to the caller
+  method: string;
+  path: string;
+  requestHash: string; // SHA-256 of method, path and body
+  status: TIdempotencyStatus;
+  responseStatus?: number;
+  responseBody?: unknown;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type IIdempotencyRecordModel = IIdempotencyRecord & Document;
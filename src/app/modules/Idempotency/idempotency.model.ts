@@ -0,0 +1,59 @@
+import { Schema, model } from 'mongoose';
+import { IIdempotencyRecordModel } from './idempotency.interface';
+import {
+  IDEMPOTENCY_STATUS,
+  IDEMPOTENCY_STATUS_VALUES,
+} from './idempotency.constant';
+
+const idempotencyRecordSchema = new Schema<IIdempotencyRecordModel>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+      default: null,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    requestHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: IDEMPOTENCY_STATUS_VALUES,
+      default: IDEMPOTENCY_STATUS.PROCESSING,
+    },
+    responseStatus: {
+      type: Number,
+    },
+    responseBody: {
+      type: Schema.Types.Mixed,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: true,
+  }
+);
+
+idempotencyRecordSchema.index({ user: 1, key: 1 }, { unique: true });
+idempotencyRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyRecord = model<IIdempotencyRecordModel>(
+  'IdempotencyRecord',
+  idempotencyRecordSchema
+);
@@ -0,0 +1,22 @@
+export const MATCHING_CAMPAIGN_STATUS = {
+  ACTIVE: 'active', // Matching donations inside the date window
+  PAUSED: 'paused', // Temporarily stopped by the sponsor
+  EXHAUSTED: 'exhausted', // Budget fully reserved
+  CANCELLED: 'cancelled', // Stopped permanently by sponsor or admin
+} as const;
+
+// Values double as the model name used by `refPath`
+export const MATCHING_SPONSOR_TYPE = {
+  BUSINESS: 'Business',
+  ORGANIZATION: 'Organization',
+} as const;
+
+export const MATCHING_CAMPAIGN_STATUS_VALUES = Object.values(
+  MATCHING_CAMPAIGN_STATUS
+);
+export const MATCHING_SPONSOR_TYPE_VALUES = Object.values(
+  MATCHING_SPONSOR_TYPE
+);
+
+// Reservation retries before giving up on a contended campaign
+export const MATCH_RESERVE_MAX_ATTEMPTS = 3;
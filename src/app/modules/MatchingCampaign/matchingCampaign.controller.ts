@@ -0,0 +1,145 @@
+import httpStatus from 'http-status';
+import { Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { MatchingCampaignService } from './matchingCampaign.service';
+
+// 1. Create matching campaign
+const createCampaign = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    const role = req.user?.role;
+    if (!userId || !role) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await MatchingCampaignService.createCampaign(
+      userId,
+      role,
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.CREATED,
+      message: 'Matching campaign created successfully',
+      data: result,
+    });
+  }
+);
+
+// 2. Get my matching campaigns
+const getMyCampaigns = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await MatchingCampaignService.getMyCampaigns(
+      userId,
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Matching campaigns retrieved successfully',
+      data: result.campaigns,
+      meta: result.meta,
+    });
+  }
+);
+
+// 3. Get live campaigns for a cause
+const getActiveCampaignsForCause = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const result = await MatchingCampaignService.getActiveCampaignsForCause(
+      req.params.causeId.toString()
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Active matching campaigns retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 4. Get matching campaign by ID
+const getCampaignById = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    const role = req.user?.role;
+    if (!userId || !role) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await MatchingCampaignService.getCampaignById(
+      req.params.id.toString(),
+      userId,
+      role
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Matching campaign retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 5. Pause, resume or cancel a campaign
+const updateCampaignStatus = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    const role = req.user?.role;
+    if (!userId || !role) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await MatchingCampaignService.updateCampaignStatus(
+      req.params.id.toString(),
+      userId,
+      role,
+      req.body.status
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: `Matching campaign ${result.status} successfully`,
+      data: result,
+    });
+  }
+);
+
+// 6. Sponsor campaign report
+const getCampaignReport = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    const role = req.user?.role;
+    if (!userId || !role) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await MatchingCampaignService.getCampaignReport(
+      req.params.id.toString(),
+      userId,
+      role
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Matching campaign report retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+export const MatchingCampaignController = {
+  createCampaign,
+  getMyCampaigns,
+  getActiveCampaignsForCause,
+  getCampaignById,
+  updateCampaignStatus,
+  getCampaignReport,
+};
@@ -0,0 +1,43 @@
+import { Document, Types } from 'mongoose';
+import { CauseCategoryType } from '../Causes/causes.interface';
+import {
+  MATCHING_CAMPAIGN_STATUS,
+  MATCHING_SPONSOR_TYPE,
+} from './matchingCampaign.constant';
+
+export type TMatchingCampaignStatus =
+  (typeof MATCHING_CAMPAIGN_STATUS)[keyof typeof MATCHING_CAMPAIGN_STATUS];
+export type TMatchingSponsorType =
+  (typeof MATCHING_SPONSOR_TYPE)[keyof typeof MATCHING_SPONSOR_TYPE];
+
+export interface IMatchingCampaign {
+  // Sponsor (Business or Organization)
+  sponsorType: TMatchingSponsorType;
+  sponsor: Types.ObjectId;
+  sponsorAuth: Types.ObjectId;
+  sponsorName: string; // Snapshot shown to donors and on receipts
+
+  name: string;
+  description?: string;
+
+  // Matching rules
+  matchRatio: number; // 1 = 1:1, 2 = 2:1, 0.5 = 50c per dollar
+  maxMatchPerDonation?: number;
+  eligibleCauses: Types.ObjectId[];
+  eligibleCategories: CauseCategoryType[];
+  startDate: Date;
+  endDate: Date;
+
+  // Budget
+  budget: number;
+  reservedAmount: number; // Matched so far (released again on refund)
+  matchedDonationCount: number;
+  currency: string;
+
+  status: TMatchingCampaignStatus;
+}
+
+export interface IMatchingCampaignModel extends IMatchingCampaign, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,115 @@
+import { Schema, model } from 'mongoose';
+import { IMatchingCampaignModel } from './matchingCampaign.interface';
+import {
+  MATCHING_CAMPAIGN_STATUS,
+  MATCHING_CAMPAIGN_STATUS_VALUES,
+  MATCHING_SPONSOR_TYPE_VALUES,
+} from './matchingCampaign.constant';
+import { causeCategoryTypeValues } from '../Causes/causes.constant';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
+
+const matchingCampaignSchema = new Schema<IMatchingCampaignModel>(
+  {
+    sponsorType: {
+      type: String,
+      enum: MATCHING_SPONSOR_TYPE_VALUES,
+      required: true,
+    },
+    sponsor: {
+      type: Schema.Types.ObjectId,
+      refPath: 'sponsorType',
+      required: true,
+      index: true,
+    },
+    sponsorAuth: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+      required: true,
+      index: true,
+    },
+    sponsorName: {
+      type: String,
+      required: true,
+    },
+
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+
+    matchRatio: {
+      type: Number,
+      required: true,
+      min: 0.01,
+    },
+    maxMatchPerDonation: {
+      type: Number,
+      min: 0.01,
+    },
+    eligibleCauses: {
+      type: [Schema.Types.ObjectId],
+      ref: 'Cause',
+      default: [],
+    },
+    eligibleCategories: {
+      type: [String],
+      enum: causeCategoryTypeValues,
+      default: [],
+    },
+    startDate: {
+      type: Date,
+      required: true,
+    },
+    endDate: {
+      type: Date,
+      required: true,
+    },
+
+    budget: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    reservedAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    matchedDonationCount: {
+      type: Number,
+      default: 0,
+    },
+    currency: {
+      type: String,
+      default: DEFAULT_CURRENCY,
+    },
+
+    status: {
+      type: String,
+      enum: MATCHING_CAMPAIGN_STATUS_VALUES,
+      default: MATCHING_CAMPAIGN_STATUS.ACTIVE,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// For finding live campaigns on payment success
+matchingCampaignSchema.index({ status: 1, startDate: 1, endDate: 1 });
+matchingCampaignSchema.index({ eligibleCauses: 1 });
+matchingCampaignSchema.index({ eligibleCategories: 1 });
+
+export const MatchingCampaign = model<IMatchingCampaignModel>(
+  'MatchingCampaign',
+  matchingCampaignSchema
+);
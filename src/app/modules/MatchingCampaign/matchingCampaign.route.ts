@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { MatchingCampaignController } from './matchingCampaign.controller';
+import { MatchingCampaignValidation } from './matchingCampaign.validation';
+
+const router = Router();
+
+// 1. Create matching campaign (sponsor)
+router.post(
+  '/',
+  auth(ROLE.BUSINESS, ROLE.ORGANIZATION),
+  validateRequest(MatchingCampaignValidation.createMatchingCampaignSchema),
+  MatchingCampaignController.createCampaign
+);
+
+// 2. Get my matching campaigns (sponsor)
+router.get(
+  '/my-campaigns',
+  auth(ROLE.BUSINESS, ROLE.ORGANIZATION),
+  MatchingCampaignController.getMyCampaigns
+);
+
+// 3. Live campaigns matching gifts to a cause (donor view)
+router.get(
+  '/cause/:causeId',
+  auth(ROLE.CLIENT, ROLE.ORGANIZATION, ROLE.BUSINESS, ROLE.ADMIN),
+  validateRequest(MatchingCampaignValidation.getCampaignsForCauseSchema),
+  MatchingCampaignController.getActiveCampaignsForCause
+);
+
+// 4. Sponsor campaign report
+router.get(
+  '/:id/report',
+  auth(ROLE.BUSINESS, ROLE.ORGANIZATION, ROLE.ADMIN),
+  validateRequest(MatchingCampaignValidation.campaignIdParamsSchema),
+  MatchingCampaignController.getCampaignReport
+);
+
+// 5. Pause, resume or cancel a campaign
+router.patch(
+  '/:id/status',
+  auth(ROLE.BUSINESS, ROLE.ORGANIZATION, ROLE.ADMIN),
+  validateRequest(MatchingCampaignValidation.updateCampaignStatusSchema),
+  MatchingCampaignController.updateCampaignStatus
+);
+
+// 6. Get matching campaign by ID
+router.get(
+  '/:id',
+  auth(ROLE.BUSINESS, ROLE.ORGANIZATION, ROLE.ADMIN),
+  validateRequest(MatchingCampaignValidation.campaignIdParamsSchema),
+  MatchingCampaignController.getCampaignById
+);
+
+export const MatchingCampaignRoutes = router;
@@ -0,0 +1,648 @@
+/* eslint-disable no-console */
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+
+import { AppError } from '../../utils';
+import QueryBuilder from '../../builders/QueryBuilder';
+import { ROLE } from '../Auth/auth.constant';
+import Business from '../Business/business.model';
+import { OrganizationModel } from '../Organization/organization.model';
+import Cause from '../Causes/causes.model';
+import { Donation } from '../Donation/donation.model';
+import { createNotification } from '../Notification/notification.service';
+import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
+import { MatchingCampaign } from './matchingCampaign.model';
+import {
+  IMatchingCampaignModel,
+  TMatchingCampaignStatus,
+  TMatchingSponsorType,
+} from './matchingCampaign.interface';
+import {
+  MATCH_RESERVE_MAX_ATTEMPTS,
+  MATCHING_CAMPAIGN_STATUS,
+  MATCHING_SPONSOR_TYPE,
+} from './matchingCampaign.constant';
+import { TCreateMatchingCampaignPayload } from './matchingCampaign.validation';
+
+type TPopulatedParty = {
+  _id: Types.ObjectId;
+  name: string;
+  auth: Types.ObjectId;
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Resolve the Business / Organization profile behind the logged-in user
+const resolveSponsor = async (
+  userId: string,
+  role: string
+): Promise<{
+  sponsorType: TMatchingSponsorType;
+  sponsorId: Types.ObjectId;
+  sponsorName: string;
+}> => {
+  if (role === ROLE.BUSINESS) {
+    const business = await Business.findOne({ auth: userId });
+    if (!business) {
+      throw new AppError(httpStatus.NOT_FOUND, 'Business not found!');
+    }
+    return {
+      sponsorType: MATCHING_SPONSOR_TYPE.BUSINESS,
+      sponsorId: business._id as Types.ObjectId,
+      sponsorName: business.name,
+    };
+  }
+
+  if (role === ROLE.ORGANIZATION) {
+    const organization = await OrganizationModel.findOne({ auth: userId });
+    if (!organization) {
+      throw new AppError(httpStatus.NOT_FOUND, 'Organization not found!');
+    }
+    return {
+      sponsorType: MATCHING_SPONSOR_TYPE.ORGANIZATION,
+      sponsorId: organization._id as Types.ObjectId,
+      sponsorName: organization.name,
+    };
+  }
+
+  throw new AppError(
+    httpStatus.FORBIDDEN,
+    'Only businesses and organizations can sponsor matching campaigns!'
+  );
+};
+
+// Load a campaign the user is allowed to manage (sponsor or admin)
+const getManageableCampaign = async (
+  campaignId: string,
+  userId: string,
+  role: string
+) => {
+  const campaign = await MatchingCampaign.findById(campaignId);
+  if (!campaign) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Matching campaign not found!');
+  }
+
+  if (role !== ROLE.ADMIN && campaign.sponsorAuth.toString() !== userId) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'You do not have access to this matching campaign!'
+    );
+  }
+
+  return campaign;
+};
+
+// 1. Create matching campaign
+const createCampaign = async (
+  userId: string,
+  role: string,
+  payload: TCreateMatchingCampaignPayload
+) => {
+  const sponsor = await resolveSponsor(userId, role);
+
+  // 1. Validate eligible causes
+  const eligibleCauses = [...new Set(payload.eligibleCauses)];
+  if (eligibleCauses.length > 0) {
+    const found = await Cause.countDocuments({
+      _id: { $in: eligibleCauses },
+    });
+    if (found !== eligibleCauses.length) {
+      throw new AppError(
+        httpStatus.NOT_FOUND,
+        'One or more eligible causes were not found!'
+      );
+    }
+  }
+
+  // 2. Create campaign (active immediately, matching starts at startDate)
+  const campaign = await MatchingCampaign.create({
+    sponsorType: sponsor.sponsorType,
+    sponsor: sponsor.sponsorId,
+    sponsorAuth: new Types.ObjectId(userId),
+    sponsorName: sponsor.sponsorName,
+    name: payload.name,
+    description: payload.description,
+    matchRatio: payload.matchRatio,
+    maxMatchPerDonation: payload.maxMatchPerDonation,
+    budget: roundCurrency(payload.budget),
+    eligibleCauses: eligibleCauses.map((id) => new Types.ObjectId(id)),
+    eligibleCategories: [...new Set(payload.eligibleCategories)],
+    startDate: new Date(payload.startDate),
+    endDate: new Date(payload.endDate),
+    status: MATCHING_CAMPAIGN_STATUS.ACTIVE,
+  });
+
+  console.log(
+    `🤝 Matching campaign created: ${campaign._id} by ${sponsor.sponsorName}`
+  );
+
+  return campaign;
+};
+
+// 2. Get campaigns sponsored by the logged-in user
+const getMyCampaigns = async (
+  userId: string,
+  query: Record<string, unknown>
+) => {
+  const modifiedQuery = { ...query };
+  if (modifiedQuery.status === 'all') delete modifiedQuery.status;
+
+  const campaignQuery = new QueryBuilder<IMatchingCampaignModel>(
+    MatchingCampaign.find({ sponsorAuth: userId }).populate(
+      'eligibleCauses',
+      'name category'
+    ),
+    modifiedQuery
+  )
+    .search(['name', 'description'])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const campaigns = await campaignQuery.modelQuery;
+  const meta = await campaignQuery.countTotal();
+
+  return { campaigns, meta };
+};
+
+// 3. Get single campaign
+const getCampaignById = async (
+  campaignId: string,
+  userId: string,
+  role: string
+) => {
+  const campaign = await getManageableCampaign(campaignId, userId, role);
+  await campaign.populate('eligibleCauses', 'name category');
+  return campaign;
+};
+
+// 4. Get live campaigns that would match a gift to this cause (donor view)
+const getActiveCampaignsForCause = async (causeId: string) => {
+  const cause = await Cause.findById(causeId);
+  if (!cause) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Cause not found!');
+  }
+
+  const now = new Date();
+  const campaigns = await MatchingCampaign.find({
+    status: MATCHING_CAMPAIGN_STATUS.ACTIVE,
+    startDate: { $lte: now },
+    endDate: { $gte: now },
+    $or: [
+      { eligibleCauses: cause._id },
+      { eligibleCategories: cause.category },
+    ],
+    $expr: { $lt: ['$reservedAmount', '$budget'] },
+  })
+    .select(
+      'sponsorName sponsorType name description matchRatio maxMatchPerDonation budget reservedAmount endDate'
+    )
+    .sort({ createdAt: 1 })
+    .lean();
+
+  return campaigns.map((campaign) => ({
+    ...campaign,
+    remainingBudget: roundCurrency(campaign.budget - campaign.reservedAmount),
+  }));
+};
+
+// 5. Pause, resume or cancel a campaign
+const updateCampaignStatus = async (
+  campaignId: string,
+  userId: string,
+  role: string,
+  status: TMatchingCampaignStatus
+) => {
+  const campaign = await getManageableCampaign(campaignId, userId, role);
+
+  if (campaign.status === MATCHING_CAMPAIGN_STATUS.CANCELLED) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Cancelled campaigns cannot be changed!'
+    );
+  }
+
+  if (status === MATCHING_CAMPAIGN_STATUS.ACTIVE) {
+    if (campaign.reservedAmount >= campaign.budget) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'Campaign budget is exhausted and cannot be resumed!'
+      );
+    }
+    if (campaign.endDate <= new Date()) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'Campaign has already ended and cannot be resumed!'
+      );
+    }
+  }
+
+  campaign.status = status;
+  await campaign.save();
+
+  console.log(`🤝 Matching campaign ${campaign._id} is now ${status}`);
+
+  return campaign;
+};
+
+// 6. Campaign report for the sponsor
+const getCampaignReport = async (
+  campaignId: string,
+  userId: string,
+  role: string
+) => {
+  const campaign = await getManageableCampaign(campaignId, userId, role);
+
+  const matchFilter = {
+    matchingCampaign: campaign._id,
+    isMatchingGift: true,
+  };
+
+  const [totals, byOrganization, byCause, recentMatches] = await Promise.all([
+    // 1. Totals by status (completed vs released on refund)
+    Donation.aggregate([
+      { $match: matchFilter },
+      {
+        $group: {
+          _id: '$status',
+          count: { $sum: 1 },
+          amount: { $sum: '$amount' },
+        },
+      },
+    ]),
+
+    // 2. Matched amount per organization
+    Donation.aggregate([
+      { $match: { ...matchFilter, status: 'completed' } },
+      {
+        $group: {
+          _id: '$organization',
+          matchedAmount: { $sum: '$amount' },
+          matchedCount: { $sum: 1 },
+        },
+      },
+      {
+        $lookup: {
+          from: 'organizations',
+          localField: '_id',
+          foreignField: '_id',
+          as: 'organization',
+        },
+      },
+      { $unwind: '$organization' },
+      {
+        $project: {
+          _id: 0,
+          organizationId: '$_id',
+          organizationName: '$organization.name',
+          matchedAmount: { $round: ['$matchedAmount', 2] },
+          matchedCount: 1,
+        },
+      },
+      { $sort: { matchedAmount: -1 } },
+    ]),
+
+    // 3. Matched amount per cause
+    Donation.aggregate([
+      { $match: { ...matchFilter, status: 'completed' } },
+      {
+        $group: {
+          _id: '$cause',
+          matchedAmount: { $sum: '$amount' },
+          matchedCount: { $sum: 1 },
+        },
+      },
+      {
+        $lookup: {
+          from: 'causes',
+          localField: '_id',
+          foreignField: '_id',
+          as: 'cause',
+        },
+      },
+      { $unwind: { path: '$cause', preserveNullAndEmptyArrays: true } },
+      {
+        $project: {
+          _id: 0,
+          causeId: '$_id',
+          causeName: '$cause.name',
+          category: '$cause.category',
+          matchedAmount: { $round: ['$matchedAmount', 2] },
+          matchedCount: 1,
+        },
+      },
+      { $sort: { matchedAmount: -1 } },
+    ]),
+
+    // 4. Latest matched gifts (donor identity is not shared with sponsors)
+    Donation.find(matchFilter)
+      .select('amount currency status donationDate organization cause')
+      .populate('organization', 'name')
+      .populate('cause', 'name')
+      .sort({ donationDate: -1 })
+      .limit(20)
+      .lean(),
+  ]);
+
+  const completed = totals.find((t) => t._id === 'completed');
+  const released = totals.find((t) => t._id === 'refunded');
+  const now = new Date();
+
+  return {
+    campaign: {
+      _id: campaign._id,
+      name: campaign.name,
+      sponsorName: campaign.sponsorName,
+      status: campaign.status,
+      isLive:
+        campaign.status === MATCHING_CAMPAIGN_STATUS.ACTIVE &&
+        campaign.startDate <= now &&
+        campaign.endDate >= now,
+      matchRatio: campaign.matchRatio,
+      maxMatchPerDonation: campaign.maxMatchPerDonation,
+      startDate: campaign.startDate,
+      endDate: campaign.endDate,
+      currency: campaign.currency,
+    },
+    budget: {
+      total: campaign.budget,
+      used: roundCurrency(campaign.reservedAmount),
+      remaining: roundCurrency(
+        Math.max(0, campaign.budget - campaign.reservedAmount)
+      ),
+      utilisationPercent:
+        campaign.budget > 0
+          ? Math.min(
+              100,
+              roundCurrency((campaign.reservedAmount / campaign.budget) * 100)
+            )
+          : 0,
+    },
+    summary: {
+      matchedCount: completed?.count || 0,
+      matchedAmount: roundCurrency(completed?.amount || 0),
+      releasedCount: released?.count || 0,
+      releasedAmount: roundCurrency(released?.amount || 0),
+    },
+    byOrganization,
+    byCause,
+    recentMatches,
+  };
+};
+
+// ========================================
+// PAYMENT SUCCESS: Matching
+// ========================================
+
+// Reserve match funds with compare-and-set on reservedAmount, so two
+// concurrent webhooks can never over-spend the budget.
+const reserveMatchFunds = async (
+  campaignId: Types.ObjectId,
+  donationAmount: number
+): Promise<{ campaign: IMatchingCampaignModel; amount: number } | null> => {
+  for (let attempt = 1; attempt <= MATCH_RESERVE_MAX_ATTEMPTS; attempt++) {
+    const campaign = await MatchingCampaign.findById(campaignId).lean();
+    if (!campaign || campaign.status !== MATCHING_CAMPAIGN_STATUS.ACTIVE) {
+      return null;
+    }
+
+    const remaining = roundCurrency(campaign.budget - campaign.reservedAmount);
+    let amount = roundCurrency(donationAmount * campaign.matchRatio);
+    if (campaign.maxMatchPerDonation) {
+      amount = Math.min(amount, campaign.maxMatchPerDonation);
+    }
+    amount = Math.min(amount, remaining);
+
+    if (amount < 0.01) return null;
+
+    const newReserved = roundCurrency(campaign.reservedAmount + amount);
+    const updated = await MatchingCampaign.findOneAndUpdate(
+      {
+        _id: campaignId,
+        status: MATCHING_CAMPAIGN_STATUS.ACTIVE,
+        reservedAmount: campaign.reservedAmount,
+      },
+      {
+        $set: {
+          reservedAmount: newReserved,
+          ...(newReserved >= campaign.budget && {
+            status: MATCHING_CAMPAIGN_STATUS.EXHAUSTED,
+          }),
+        },
+        $inc: { matchedDonationCount: 1 },
+      },
+      { new: true }
+    );
+
+    if (updated) return { campaign: updated, amount };
+
+    console.log(
+      `🔁 Match reservation contended for campaign ${campaignId} (attempt ${attempt})`
+    );
+  }
+
+  return null;
+};
+
+// Put reserved funds back (failed match or refunded original gift)
+const releaseMatchFunds = async (
+  campaignId: Types.ObjectId,
+  amount: number
+) => {
+  const campaign = await MatchingCampaign.findByIdAndUpdate(
+    campaignId,
+    { $inc: { reservedAmount: -amount, matchedDonationCount: -1 } },
+    { new: true }
+  );
+
+  // Budget is available again: resume an exhausted campaign
+  if (
+    campaign &&
+    campaign.status === MATCHING_CAMPAIGN_STATUS.EXHAUSTED &&
+    campaign.reservedAmount < campaign.budget &&
+    campaign.endDate > new Date()
+  ) {
+    campaign.status = MATCHING_CAMPAIGN_STATUS.ACTIVE;
+    await campaign.save();
+  }
+};
+
+// 7. Match a completed donation against the first eligible live campaign.
+// The matched gift is recorded as its own completed Donation linked to the
+// original; sponsors settle the matched total from the campaign report.
+const applyMatchForDonation = async (donationId: string) => {
+  const donation = await Donation.findById(donationId)
+    .populate<{ organization: TPopulatedParty }>('organization', 'name auth')
+    .populate<{ donor: TPopulatedParty }>('donor', 'name auth');
+
+  if (
+    !donation ||
+    donation.status !== 'completed' ||
+    donation.isMatchingGift ||
+    donation.matchedDonation ||
+    !donation.cause
+  ) {
+    return null;
+  }
+
+  const cause = await Cause.findById(donation.cause);
+  if (!cause) return null;
+
+  // 1. Live campaigns for this cause or its category, oldest first
+  const now = new Date();
+  const campaigns = await MatchingCampaign.find({
+    status: MATCHING_CAMPAIGN_STATUS.ACTIVE,
+    startDate: { $lte: now },
+    endDate: { $gte: now },
+    $or: [
+      { eligibleCauses: cause._id },
+      { eligibleCategories: cause.category },
+    ],
+    $expr: { $lt: ['$reservedAmount', '$budget'] },
+  })
+    .select('_id')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  for (const { _id: campaignId } of campaigns) {
+    // 2. Reserve funds atomically
+    const reservation = await reserveMatchFunds(
+      campaignId as Types.ObjectId,
+      donation.amount
+    );
+    if (!reservation) continue;
+
+    const { campaign, amount } = reservation;
+
+    // 3. Record the linked matched donation
+    let matchedDonation;
+    try {
+      matchedDonation = await Donation.create({
+        donor: donation.donor._id,
+        organization: donation.organization._id,
+        cause: donation.cause,
+        donationType: donation.donationType,
+
+        amount,
+        coverFees: false,
+        platformFee: 0,
+        gstOnFee: 0,
+        stripeFee: 0,
+        netAmount: amount,
+        totalAmount: amount,
+
+        currency: donation.currency,
+        settlementCurrency: donation.settlementCurrency,
+        exchangeRate: donation.exchangeRate,
+        status: 'completed',
+        donationDate: new Date(),
+        specialMessage: `Matched by ${campaign.sponsorName} (${campaign.name})`,
+        pointsEarned: 0,
+
+        matchingCampaign: campaign._id,
+        matchedDonation: donation._id,
+        isMatchingGift: true,
+        idempotencyKey: `match_${donation._id}`,
+      });
+    } catch (error: unknown) {
+      const err = error as Error;
+      console.error(`❌ Failed to record matched donation:`, err.message);
+      await releaseMatchFunds(campaign._id as Types.ObjectId, amount);
+      return null;
+    }
+
+    await Donation.findByIdAndUpdate(donation._id, {
+      matchingCampaign: campaign._id,
+      matchedDonation: matchedDonation._id,
+      matchedAmount: amount,
+    });
+
+    console.log(
+      `🤝 Donation ${donation._id} matched with $${amount} by campaign ${campaign._id}`
+    );
+
+    // 4. Notify Donor
+    try {
+      await createNotification(
+        donation.donor.auth.toString(),
+        NOTIFICATION_TYPE.DONATION_MATCHED,
+        `Your gift was matched! ${campaign.sponsorName} added $${amount} to your donation to ${donation.organization.name}.`,
+        donation._id!.toString(),
+        { matchedDonationId: matchedDonation._id!.toString() }
+      );
+    } catch (err) {
+      console.log(`❌🔔 Donor match notification Failed!`);
+    }
+
+    // 5. Notify Organization
+    try {
+      await createNotification(
+        donation.organization.auth.toString(),
+        NOTIFICATION_TYPE.NEW_DONATION,
+        `Matched gift received: $${amount} from ${campaign.sponsorName}`,
+        matchedDonation._id!.toString()
+      );
+    } catch (err) {
+      console.log(`❌🔔 Organization match notification Failed!`);
+    }
+
+    // 6. Notify Sponsor when the budget has run out
+    if (campaign.status === MATCHING_CAMPAIGN_STATUS.EXHAUSTED) {
+      try {
+        await createNotification(
+          campaign.sponsorAuth.toString(),
+          NOTIFICATION_TYPE.MATCHING_BUDGET_EXHAUSTED,
+          `Your matching campaign "${campaign.name}" has used its full budget of $${campaign.budget}.`,
+          campaign._id!.toString()
+        );
+      } catch (err) {
+        console.log(`❌🔔 Sponsor notification Failed!`);
+      }
+    }
+
+    return {
+      campaign,
+      matchedDonation,
+      matchedAmount: amount,
+    };
+  }
+
+  return null;
+};
+
+// 8. Reverse the match when the original donation is refunded
+const releaseMatchForDonation = async (donationId: string) => {
+  const donation = await Donation.findById(donationId);
+  if (!donation?.matchedDonation || donation.isMatchingGift) return;
+
+  const matchedDonation = await Donation.findOneAndUpdate(
+    { _id: donation.matchedDonation, status: 'completed' },
+    {
+      status: 'refunded',
+      refundReason: 'Original donation was refunded',
+    },
+    { new: true }
+  );
+  if (!matchedDonation?.matchingCampaign) return;
+
+  await releaseMatchFunds(
+    matchedDonation.matchingCampaign,
+    matchedDonation.amount
+  );
+
+  console.log(
+    `🤝 Released $${matchedDonation.amount} back to campaign ${matchedDonation.matchingCampaign}`
+  );
+};
+
+export const MatchingCampaignService = {
+  createCampaign,
+  getMyCampaigns,
+  getCampaignById,
+  getActiveCampaignsForCause,
+  updateCampaignStatus,
+  getCampaignReport,
+  applyMatchForDonation,
+  releaseMatchForDonation,
+};
@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { causeCategoryTypeValues } from '../Causes/causes.constant';
+import { MATCHING_CAMPAIGN_STATUS } from './matchingCampaign.constant';
+
+// 1. Create matching campaign schema
+const createMatchingCampaignSchema = z.object({
+  body: z
+    .object({
+      name: z
+        .string({
+          error: 'Campaign name is required!',
+        })
+        .trim()
+        .min(1, { message: 'Campaign name is required!' })
+        .max(100, { message: 'Name must be less than 100 characters!' }),
+
+      description: z
+        .string()
+        .max(500, { message: 'Description must be less than 500 characters!' })
+        .optional(),
+
+      matchRatio: z
+        .number({
+          error: 'Match ratio is required!',
+        })
+        .min(0.01, { message: 'Match ratio must be greater than 0!' })
+        .max(10, { message: 'Match ratio cannot exceed 10:1!' }),
+
+      maxMatchPerDonation: z
+        .number()
+        .min(1, { message: 'Per-donation cap must be at least $1!' })
+        .optional(),
+
+      budget: z
+        .number({
+          error: 'Budget is required!',
+        })
+        .min(1, { message: 'Budget must be at least $1!' }),
+
+      eligibleCauses: z.array(z.string().min(1)).optional().default([]),
+
+      eligibleCategories: z
+        .array(z.enum(causeCategoryTypeValues as [string, ...string[]]))
+        .optional()
+        .default([]),
+
+      startDate: z
+        .string({
+          error: 'Start date is required!',
+        })
+        .datetime({ message: 'Invalid date format!' }),
+
+      endDate: z
+        .string({
+          error: 'End date is required!',
+        })
+        .datetime({ message: 'Invalid date format!' })
+        .refine((date) => new Date(date) > new Date(), {
+          message: 'End date must be in the future!',
+        }),
+    })
+    .refine((data) => new Date(data.endDate) > new Date(data.startDate), {
+      message: 'End date must be after start date!',
+      path: ['endDate'],
+    })
+    .refine(
+      (data) =>
+        data.eligibleCauses.length > 0 || data.eligibleCategories.length > 0,
+      {
+        message: 'Select at least one eligible cause or category!',
+        path: ['eligibleCauses'],
+      }
+    ),
+});
+
+// 2. Campaign ID params schema
+const campaignIdParamsSchema = z.object({
+  params: z.object({
+    id: z
+      .string({
+        error: 'Campaign ID is required!',
+      })
+      .min(1, { message: 'Campaign ID is required!' }),
+  }),
+});
+
+// 3. Update campaign status schema
+const updateCampaignStatusSchema = campaignIdParamsSchema.extend({
+  body: z.object({
+    status: z.enum(
+      [
+        MATCHING_CAMPAIGN_STATUS.ACTIVE,
+        MATCHING_CAMPAIGN_STATUS.PAUSED,
+        MATCHING_CAMPAIGN_STATUS.CANCELLED,
+      ],
+      {
+        error: 'Status must be active, paused or cancelled!',
+      }
+    ),
+  }),
+});
+
+// 4. Live campaigns for a cause schema
+const getCampaignsForCauseSchema = z.object({
+  params: z.object({
+    causeId: z
+      .string({
+        error: 'Cause ID is required!',
+      })
+      .min(1, { message: 'Cause ID is required!' }),
+  }),
+});
+
+export const MatchingCampaignValidation = {
+  createMatchingCampaignSchema,
+  campaignIdParamsSchema,
+  updateCampaignStatusSchema,
+  getCampaignsForCauseSchema,
+};
+
+export type TCreateMatchingCampaignPayload = z.infer<
+  typeof createMatchingCampaignSchema
+>['body'];
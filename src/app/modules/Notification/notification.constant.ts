@@ -4,20 +4,34 @@ export const NOTIFICATION_TYPE = {
   DONATION_FAILED: 'donation_failed', // Trigger: Stripe Failed
   DONATION_CANCELLED: 'donation_cancelled', // Trigger: Stripe Failed
   DONATION_REFUNDED: 'donation_refunded', // Trigger: Stripe Failed
+  DONATION_MATCHED: 'donation_matched', // Trigger: Matching campaign match
   RECURRING_PLAN_STARTED: 'scheduled_donation',
   RECURRING_STATUS_CHANGED: 'scheduled_status_changed',
+  RECURRING_PAYMENT_FAILED: 'recurring_payment_failed', // Trigger: Recurring charge failed (retry scheduled or plan paused)
+  RECURRING_PLAN_COMPLETED: 'recurring_plan_completed', // Trigger: Plan reached its end date or payment cap
   THRESHOLD_REACHED: 'threshold_reached', // Trigger: Round-up limit hit
   BANK_DISCONNECTED: 'bank_disconnected', // Trigger: Plaid sync error
   BADGE_UNLOCKED: 'badge_unlocked', // Trigger: Badge Logic
   REWARD_CLAIMED: 'reward_claimed', // Trigger: Point deduction
   CLAIM_EXPIRING: 'claim_expiring', // Trigger: 5-min maintenance job
-  REPLY_MESSAGE: 'reply_message',
+  REPLY_MESSAGE: 'reply_message', // Trigger: Organization replies to a donor wall message
+  FUNDRAISER_DONATION: 'fundraiser_donation', // Trigger: Gift made through own fundraiser page
+  FUNDRAISER_GOAL_REACHED: 'fundraiser_goal_reached', // Trigger: Fundraiser hits its goal
+  ZAKAT_DUE_REMINDER: 'zakat_due_reminder', // Trigger: Zakat reminder job
+  PLEDGE_REMINDER: 'pledge_reminder', // Trigger: Pledge reminder job (due soon / overdue)
 
   // --- ORGANIZATION (CHARITY) ---
   NEW_DONATION: 'new_donation_received', // Trigger: PaymentIntent Succeeded
   PAYOUT_COMPLETED: 'payout_completed', // Trigger: Payout Job / Webhook
   PAYOUT_FAILED: 'payout_failed', // Trigger: Payout Job / Webhook
   STRIPE_RESTRICTED: 'stripe_restricted', // Trigger: account.updated webhook (KYC due)
+  CAUSE_GOAL_MILESTONE: 'cause_goal_milestone', // Trigger: Cause hits 50/75/100% of goal
+  CAUSE_CLOSED: 'cause_closed', // Trigger: Cause deadline job
+  DISPUTE_OPENED: 'dispute_opened', // Trigger: charge.dispute.created (also sent to admins)
+  DISPUTE_CLOSED: 'dispute_closed', // Trigger: charge.dispute.closed
+  PLEDGE_FULFILLED: 'pledge_fulfilled', // Trigger: Pledge paid in full
+  EXPORT_READY: 'export_ready', // Trigger: Background export uploaded to S3
+  EXPORT_FAILED: 'export_failed', // Trigger: Background export job error
   NEW_MESSAGE: 'new_message',
 
   // --- BUSINESS (REWARD PARTNER) ---
@@ -26,6 +40,9 @@ export const NOTIFICATION_TYPE = {
   REWARD_SOLD_OUT: 'reward_sold_out', // Trigger: remainingCount reaches 0
   BUSINESS_VERIFIED: 'business_verified', // Trigger: Admin status change
 
+  // --- MATCHING SPONSOR (BUSINESS OR ORGANIZATION) ---
+  MATCHING_BUDGET_EXHAUSTED: 'matching_budget_exhausted', // Trigger: Campaign budget used up
+
   // --- SUPER ADMIN (PLATFORM OWNER) ---
   NEW_ORG_PENDING: 'new_org_pending', // Trigger: Organization Signup
   SYSTEM_CRON_FAILURE: 'cron_failure', // Trigger: CronJobTracker failExecution
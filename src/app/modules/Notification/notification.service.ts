@@ -115,9 +115,17 @@ const createNotification = async (
       case NOTIFICATION_TYPE.DONATION_FAILED:
       case NOTIFICATION_TYPE.DONATION_CANCELLED:
       case NOTIFICATION_TYPE.DONATION_REFUNDED:
+      case NOTIFICATION_TYPE.DONATION_MATCHED:
+      case NOTIFICATION_TYPE.FUNDRAISER_DONATION:
+      case NOTIFICATION_TYPE.FUNDRAISER_GOAL_REACHED:
+      case NOTIFICATION_TYPE.ZAKAT_DUE_REMINDER:
+      case NOTIFICATION_TYPE.PLEDGE_REMINDER:
       case NOTIFICATION_TYPE.NEW_DONATION:
+      case NOTIFICATION_TYPE.CAUSE_GOAL_MILESTONE:
       case NOTIFICATION_TYPE.RECURRING_PLAN_STARTED:
       case NOTIFICATION_TYPE.RECURRING_STATUS_CHANGED:
+      case NOTIFICATION_TYPE.RECURRING_PAYMENT_FAILED:
+      case NOTIFICATION_TYPE.RECURRING_PLAN_COMPLETED:
       case NOTIFICATION_TYPE.THRESHOLD_REACHED:
         shouldSendPush = isDonationEnabled;
         break;
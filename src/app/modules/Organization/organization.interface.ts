@@ -29,6 +29,7 @@ export interface IORGANIZATION extends Document {
   tfnOrAbnNumber: string;
   acncNumber: string;
   zakatLicenseHolderNumber: string | null;
+  settlementCurrency: string; // Currency donations are reported in
 
   dateOfEstablishment: Date;
   registeredCharityName: string;
@@ -1,6 +1,8 @@
 import { model, now, Schema } from 'mongoose';
 import { IORGANIZATION } from './organization.interface';
 import { organizationServiceTypeValues } from './organization.constants';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
+import { SUPPORTED_CURRENCIES } from '../FxRate/fxRate.constant';
 
 const organizationSchema = new Schema<IORGANIZATION>(
   {
@@ -55,6 +57,11 @@ const organizationSchema = new Schema<IORGANIZATION>(
       type: String,
       default: null,
     },
+    settlementCurrency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      default: DEFAULT_CURRENCY,
+    },
 
     country: {
       type: String,
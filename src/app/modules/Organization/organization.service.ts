@@ -18,6 +18,7 @@ import Donation from '../Donation/donation.model';
 import { StripeAccount } from '../OrganizationAccount/stripe-account.model';
 import { getS3KeyFromUrl } from '../../utils/s3.utils';
 import { CAUSE_STATUS_TYPE } from '../Causes/causes.constant';
+import { ANONYMOUS_DONOR } from '../Donation/donation.constant';
 import { SubscriptionService } from '../Subscription/subscription.service';
 
 /**
@@ -541,12 +542,14 @@ const getOrganizationDetailsById = async (organizationId: string) => {
           },
         ],
         recentDonors: [
+          { $match: { isMatchingGift: { $ne: true } } },
           { $sort: { donationDate: -1 } },
           {
             $group: {
               _id: '$donor',
               lastDonationDate: { $first: '$donationDate' },
               lastDonationAmount: { $first: '$amount' },
+              isAnonymous: { $first: '$isAnonymous' },
             },
           },
           { $limit: 5 },
@@ -561,12 +564,24 @@ const getOrganizationDetailsById = async (organizationId: string) => {
           { $unwind: '$donorDetails' },
           {
             $project: {
-              donorId: '$_id',
+              donorId: { $cond: ['$isAnonymous', null, '$_id'] },
               lastDonationDate: 1,
               lastDonationAmount: 1,
-              donorName: '$donorDetails.name',
-              donorImage: '$donorDetails.image',
-              donorAddress: '$donorDetails.address',
+              // Public page: hide identity of anonymous donors
+              donorName: {
+                $cond: [
+                  '$isAnonymous',
+                  ANONYMOUS_DONOR.name,
+                  '$donorDetails.name',
+                ],
+              },
+              donorImage: {
+                $cond: ['$isAnonymous', null, '$donorDetails.image'],
+              },
+              donorAddress: {
+                $cond: ['$isAnonymous', null, '$donorDetails.address'],
+              },
+              isAnonymous: { $eq: ['$isAnonymous', true] },
               _id: 0,
             },
           },
@@ -3,6 +3,7 @@ import {
   ORGANIZATION_STATUS,
   organizationServiceTypeValues,
 } from './organization.constants';
+import { currencySchema } from '../FxRate/fxRate.validation';
 
 // Tab 1: Organization Details (without images)
 const editProfileOrgDetailsSchema = z.object({
@@ -30,6 +31,7 @@ const editOrgTaxDetailsSchema = z.object({
     registeredCharityName: z.string().optional(),
     tfnOrAbnNumber: z.string().optional(),
     zakatLicenseHolderNumber: z.string().nullable().optional(),
+    settlementCurrency: currencySchema.optional(),
   }),
 });
 
@@ -12,7 +12,9 @@ export interface IPayout {
   taxAmount: number;
   netAmount: number; // What org receives
 
-  currency: string;
+  currency: string; // Original (Stripe balance) currency
+  settlementCurrency: string; // Organization's settlement currency
+  exchangeRate: number; // FX table rate: 1 unit of currency in settlement
 
   // Scheduling
   scheduledDate: Date;
@@ -5,6 +5,7 @@ import {
   PAYOUT_STATUS,
   PAYOUT_STATUS_VALUES,
 } from './payout.constant';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
 
 const payoutSchema = new Schema<IPayoutModel>(
   {
@@ -26,7 +27,9 @@ const payoutSchema = new Schema<IPayoutModel>(
     taxAmount: { type: Number, default: 0 },
     netAmount: { type: Number, required: true }, // The actual amount sent
 
-    currency: { type: String, default: 'USD' },
+    currency: { type: String, default: DEFAULT_CURRENCY },
+    settlementCurrency: { type: String, default: DEFAULT_CURRENCY },
+    exchangeRate: { type: Number, default: 1, min: 0 },
 
     scheduledDate: {
       type: Date,
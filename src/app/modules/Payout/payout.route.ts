@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { auth, validateRequest } from '../../middlewares';
+import { auth, idempotency, validateRequest } from '../../middlewares';
 import { ROLE } from '../Auth/auth.constant';
 import { PayoutController } from './payout.controller';
 import { PayoutValidation } from './payout.validation';
@@ -10,6 +10,7 @@ const router = Router();
 router.post(
   '/request',
   auth(ROLE.ORGANIZATION),
+  idempotency(),
   validateRequest(PayoutValidation.createPayoutSchema),
   PayoutController.requestPayout
 );
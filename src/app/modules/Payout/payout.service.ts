@@ -10,6 +10,8 @@ import { StripeService } from '../Stripe/stripe.service';
 import Organization from '../Organization/organization.model';
 import { STRIPE_ACCOUNT_STATUS } from '../Organization/organization.constants';
 import { StripeAccount } from '../OrganizationAccount/stripe-account.model';
+import { FxRateService } from '../FxRate/fxRate.service';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
 
 const generatePayoutNumber = () => {
   const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
@@ -62,6 +64,12 @@ const requestPayout = async (
       );
     }
 
+    // Paid out in the Stripe balance currency, reported in the org's
+    const currencySnapshot = await FxRateService.buildCurrencySnapshot(
+      stripeBalance.currency,
+      organization.settlementCurrency || DEFAULT_CURRENCY
+    );
+
     // 3. Create Payout Record
     const payoutDate = scheduledDate ? new Date(scheduledDate) : new Date();
 
@@ -72,6 +80,7 @@ const requestPayout = async (
           payoutNumber: generatePayoutNumber(),
           requestedAmount: amount,
           netAmount: amount,
+          ...currencySnapshot,
           scheduledDate: payoutDate,
           status: PAYOUT_STATUS.PENDING,
           requestedBy: userId,
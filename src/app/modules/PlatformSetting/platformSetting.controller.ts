@@ -0,0 +1,45 @@
+import httpStatus from 'http-status';
+import { Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { PlatformSettingService } from './platformSetting.service';
+
+// 1. Get platform settings
+const getSettings = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const result = await PlatformSettingService.getSettings();
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Platform settings retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 2. Update platform settings
+const updateSettings = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await PlatformSettingService.updateSettings(
+      req.body,
+      userId
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Platform settings updated successfully',
+      data: result,
+    });
+  }
+);
+
+export const PlatformSettingController = {
+  getSettings,
+  updateSettings,
+};
@@ -0,0 +1,20 @@
+import { Document, Types } from 'mongoose';
+
+export interface IOfflineDonationSetting {
+  earnPoints: boolean; // Award points for gifts recorded by organizations
+  countTowardsBadges: boolean; // Progress donor badges with those gifts
+}
+
+export interface IRecurringRetrySetting {
+  retryDays: number[]; // Days after the first failed charge to retry on
+}
+
+export interface IPlatformSetting {
+  offlineDonations: IOfflineDonationSetting;
+  recurringRetries: IRecurringRetrySetting;
+  updatedBy?: Types.ObjectId; // Admin who last changed the settings
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type IPlatformSettingModel = IPlatformSetting & Document;
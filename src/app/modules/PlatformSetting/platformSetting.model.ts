@@ -0,0 +1,38 @@
+import { Schema, model } from 'mongoose';
+import { IPlatformSettingModel } from './platformSetting.interface';
+import { DEFAULT_RETRY_DAYS } from '../ScheduledDonation/scheduledDonation.constant';
+
+// Single document holding platform-wide switches managed by admins
+const platformSettingSchema = new Schema<IPlatformSettingModel>(
+  {
+    offlineDonations: {
+      earnPoints: {
+        type: Boolean,
+        default: false,
+      },
+      countTowardsBadges: {
+        type: Boolean,
+        default: false,
+      },
+    },
+    recurringRetries: {
+      retryDays: {
+        type: [Number],
+        default: DEFAULT_RETRY_DAYS,
+      },
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: true,
+  }
+);
+
+export const PlatformSetting = model<IPlatformSettingModel>(
+  'PlatformSetting',
+  platformSettingSchema
+);
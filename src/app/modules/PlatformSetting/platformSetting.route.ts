@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { PlatformSettingController } from './platformSetting.controller';
+import { PlatformSettingValidation } from './platformSetting.validation';
+
+const router = Router();
+
+router.get('/', auth(ROLE.ADMIN), PlatformSettingController.getSettings);
+
+router.patch(
+  '/',
+  auth(ROLE.ADMIN),
+  validateRequest(PlatformSettingValidation.updatePlatformSettingSchema),
+  PlatformSettingController.updateSettings
+);
+
+export const PlatformSettingRoutes = router;
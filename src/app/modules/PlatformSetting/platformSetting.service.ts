@@ -0,0 +1,44 @@
+import { Types } from 'mongoose';
+import { PlatformSetting } from './platformSetting.model';
+import { TUpdatePlatformSettingPayload } from './platformSetting.validation';
+
+// Creates the settings document with defaults on first read
+const getSettings = async () => {
+  const settings = await PlatformSetting.findOneAndUpdate(
+    {},
+    {},
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  return settings;
+};
+
+const updateSettings = async (
+  payload: TUpdatePlatformSettingPayload,
+  userId: string
+) => {
+  const update: Record<string, unknown> = {
+    updatedBy: new Types.ObjectId(userId),
+  };
+
+  // Dotted paths so one flag can change without resetting the other
+  Object.entries(payload.offlineDonations ?? {}).forEach(([key, value]) => {
+    if (value !== undefined) update[`offlineDonations.${key}`] = value;
+  });
+  if (payload.recurringRetries) {
+    update['recurringRetries.retryDays'] = payload.recurringRetries.retryDays;
+  }
+
+  const settings = await PlatformSetting.findOneAndUpdate({}, update, {
+    upsert: true,
+    new: true,
+    setDefaultsOnInsert: true,
+  });
+
+  return settings;
+};
+
+export const PlatformSettingService = {
+  getSettings,
+  updateSettings,
+};
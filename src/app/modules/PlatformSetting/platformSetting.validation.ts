@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import {
+  MAX_RETRY_COUNT,
+  MAX_RETRY_DAY,
+} from '../ScheduledDonation/scheduledDonation.constant';
+
+const updatePlatformSettingSchema = z.object({
+  body: z
+    .object({
+      offlineDonations: z
+        .object({
+          earnPoints: z.boolean().optional(),
+          countTowardsBadges: z.boolean().optional(),
+        })
+        .strict()
+        .optional(),
+      recurringRetries: z
+        .object({
+          retryDays: z
+            .array(
+              z
+                .number()
+                .int({ message: 'Retry days must be whole numbers!' })
+                .min(1, { message: 'Retry days must be at least 1!' })
+                .max(MAX_RETRY_DAY, {
+                  message: `Retry days cannot exceed ${MAX_RETRY_DAY}!`,
+                })
+            )
+            .min(1, { message: 'At least one retry is required!' })
+            .max(MAX_RETRY_COUNT, {
+              message: `No more than ${MAX_RETRY_COUNT} retries are allowed!`,
+            })
+            .refine(
+              (days) => days.every((day, i) => i === 0 || day > days[i - 1]),
+              { message: 'Retry days must be in increasing order!' }
+            ),
+        })
+        .strict()
+        .optional(),
+    })
+    .strict(),
+});
+
+export const PlatformSettingValidation = {
+  updatePlatformSettingSchema,
+};
+
+export type TUpdatePlatformSettingPayload = z.infer<
+  typeof updatePlatformSettingSchema.shape.body
+>;
@@ -0,0 +1,16 @@
+export const PLEDGE_STATUS = {
+  ACTIVE: 'active', // Waiting for payments
+  FULFILLED: 'fulfilled', // Paid in full
+  OVERDUE: 'overdue', // Due date passed with a balance left
+  CANCELLED: 'cancelled', // Withdrawn by the donor or organization
+} as const;
+
+export const PLEDGE_STATUS_VALUES = Object.values(PLEDGE_STATUS);
+
+// Pledge drive terms offered at fundraising dinners
+export const PLEDGE_TERM_DAYS = [30, 60] as const;
+export const DEFAULT_PLEDGE_TERM_DAYS = 30;
+export const MAX_PLEDGE_TERM_DAYS = 365;
+
+// Days before the due date a reminder goes out (0 = due today)
+export const PLEDGE_REMINDER_DAYS = [7, 3, 1, 0];
@@ -0,0 +1,152 @@
+import httpStatus from 'http-status';
+import { Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { PledgeService } from './pledge.service';
+
+// 1. Make a pledge
+const createPledge = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await PledgeService.createPledge(userId, req.body);
+
+    sendResponse(res, {
+      statusCode: httpStatus.CREATED,
+      message: 'Pledge created successfully',
+      data: result,
+    });
+  }
+);
+
+// 2. Get my pledges
+const getMyPledges = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await PledgeService.getMyPledges(
+      userId,
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Pledges retrieved successfully',
+      data: result.pledges,
+      meta: result.meta,
+    });
+  }
+);
+
+// 3. Get pledge with its payments
+const getPledgeById = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    const userRole = req.user?.role;
+    if (!userId || !userRole) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await PledgeService.getPledgeById(
+      req.params.id.toString(),
+      userId,
+      userRole
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Pledge retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 4. Cancel pledge
+const cancelPledge = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    const userRole = req.user?.role;
+    if (!userId || !userRole) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await PledgeService.cancelPledge(
+      req.params.id.toString(),
+      userId,
+      userRole
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Pledge cancelled successfully',
+      data: result,
+    });
+  }
+);
+
+// 5. Get organization pledges
+const getOrganizationPledges = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    const userRole = req.user?.role;
+    if (!userId || !userRole) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await PledgeService.getOrganizationPledges(
+      req.params.organizationId.toString(),
+      userId,
+      userRole,
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Organization pledges retrieved successfully',
+      data: result.pledges,
+      meta: result.meta,
+    });
+  }
+);
+
+// 6. Pledge dashboard (fulfilment rate and outstanding totals)
+const getPledgeDashboard = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    const userRole = req.user?.role;
+    if (!userId || !userRole) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const { causeId } = req.query as { causeId?: string };
+
+    const result = await PledgeService.getPledgeDashboard(
+      req.params.organizationId.toString(),
+      userId,
+      userRole,
+      causeId
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Pledge stats retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+export const PledgeController = {
+  createPledge,
+  getMyPledges,
+  getPledgeById,
+  cancelPledge,
+  getOrganizationPledges,
+  getPledgeDashboard,
+};
@@ -0,0 +1,48 @@
+import { Document, Types } from 'mongoose';
+import { PLEDGE_STATUS } from './pledge.constant';
+
+export type TPledgeStatus = (typeof PLEDGE_STATUS)[keyof typeof PLEDGE_STATUS];
+
+export interface IPledge {
+  donor: Types.ObjectId; // Client who made the promise
+  organization: Types.ObjectId;
+  cause?: Types.ObjectId;
+
+  amount: number;
+  currency: string;
+  dueDate: Date;
+  note?: string;
+  status: TPledgeStatus;
+
+  // Progress (recomputed from completed donations and refunds)
+  amountPaid: number;
+  donationCount: number;
+  fulfilledAt?: Date;
+  cancelledAt?: Date;
+
+  remindersSent: number[]; // PLEDGE_REMINDER_DAYS already sent
+  overdueNotifiedAt?: Date;
+}
+
+export interface IPledgeModel extends IPledge, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPledgeStats {
+  totalPledges: number;
+  pledgedAmount: number;
+  paidAmount: number;
+  outstandingAmount: number;
+  overdueAmount: number;
+  fulfilmentRate: number; // % of pledges paid in full
+  amountFulfilmentRate: number; // % of pledged money received
+  byStatus: Record<string, number>;
+  byCause: {
+    _id: string | null;
+    name: string | null;
+    pledgedAmount: number;
+    paidAmount: number;
+    outstandingAmount: number;
+  }[];
+}
@@ -0,0 +1,83 @@
+import { Schema, model } from 'mongoose';
+import { IPledgeModel } from './pledge.interface';
+import { PLEDGE_STATUS, PLEDGE_STATUS_VALUES } from './pledge.constant';
+
+const pledgeSchema = new Schema<IPledgeModel>(
+  {
+    donor: {
+      type: Schema.Types.ObjectId,
+      ref: 'Client',
+      required: true,
+      index: true,
+    },
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+      index: true,
+    },
+    cause: {
+      type: Schema.Types.ObjectId,
+      ref: 'Cause',
+    },
+
+    amount: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    currency: {
+      type: String,
+      default: 'USD',
+      uppercase: true,
+    },
+    dueDate: {
+      type: Date,
+      required: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    status: {
+      type: String,
+      enum: PLEDGE_STATUS_VALUES,
+      default: PLEDGE_STATUS.ACTIVE,
+    },
+
+    // Progress
+    amountPaid: {
+      type: Number,
+      default: 0,
+    },
+    donationCount: {
+      type: Number,
+      default: 0,
+    },
+    fulfilledAt: {
+      type: Date,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+
+    // Reminders
+    remindersSent: {
+      type: [Number],
+      default: [],
+    },
+    overdueNotifiedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+pledgeSchema.index({ status: 1, dueDate: 1 });
+pledgeSchema.index({ organization: 1, status: 1 });
+
+export const Pledge = model<IPledgeModel>('Pledge', pledgeSchema);
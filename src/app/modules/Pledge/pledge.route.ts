@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { PledgeController } from './pledge.controller';
+import { PledgeValidation } from './pledge.validation';
+
+const router = Router();
+
+// 1. Make a pledge (pay later with ordinary donations)
+router.post(
+  '/',
+  auth(ROLE.CLIENT),
+  validateRequest(PledgeValidation.createPledgeSchema),
+  PledgeController.createPledge
+);
+
+// 2. Get my pledges
+router.get('/me', auth(ROLE.CLIENT), PledgeController.getMyPledges);
+
+// 3. Organization pledges and dashboard
+router.get(
+  '/organization/:organizationId',
+  auth(ROLE.ORGANIZATION, ROLE.ADMIN),
+  validateRequest(PledgeValidation.organizationPledgesSchema),
+  PledgeController.getOrganizationPledges
+);
+
+router.get(
+  '/organization/:organizationId/stats',
+  auth(ROLE.ORGANIZATION, ROLE.ADMIN),
+  validateRequest(PledgeValidation.organizationPledgesSchema),
+  PledgeController.getPledgeDashboard
+);
+
+// 4. Get pledge with its payments
+router.get(
+  '/:id',
+  auth(ROLE.CLIENT, ROLE.ORGANIZATION, ROLE.ADMIN),
+  validateRequest(PledgeValidation.pledgeIdParamsSchema),
+  PledgeController.getPledgeById
+);
+
+// 5. Cancel pledge
+router.patch(
+  '/:id/cancel',
+  auth(ROLE.CLIENT, ROLE.ORGANIZATION),
+  validateRequest(PledgeValidation.pledgeIdParamsSchema),
+  PledgeController.cancelPledge
+);
+
+export const PledgeRoutes = router;
@@ -0,0 +1,608 @@
+/* eslint-disable no-console */
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+
+import { AppError } from '../../utils';
+import QueryBuilder from '../../builders/QueryBuilder';
+import { sendPledgeReminderEmail } from '../../utils/emailService';
+import { ROLE } from '../Auth/auth.constant';
+import Client from '../Client/client.model';
+import Cause from '../Causes/causes.model';
+import Organization from '../Organization/organization.model';
+import { Donation } from '../Donation/donation.model';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
+import { createNotification } from '../Notification/notification.service';
+import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
+import { Pledge } from './pledge.model';
+import { IPledgeModel, IPledgeStats } from './pledge.interface';
+import {
+  DEFAULT_PLEDGE_TERM_DAYS,
+  PLEDGE_REMINDER_DAYS,
+  PLEDGE_STATUS,
+} from './pledge.constant';
+import { TCreatePledgePayload } from './pledge.validation';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const roundMoney = (value: number) => Number(value.toFixed(2));
+
+const getRemaining = (pledge: { amount: number; amountPaid: number }) =>
+  roundMoney(Math.max(pledge.amount - pledge.amountPaid, 0));
+
+// Organizations can only see their own pledges; admins see all
+const assertOrganizationAccess = async (
+  organizationId: string,
+  userId: string,
+  role: string
+) => {
+  const organization = await Organization.findById(organizationId);
+  if (!organization) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Organization not found!');
+  }
+  if (role === ROLE.ORGANIZATION && organization.auth.toString() !== userId) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      "You do not have permission to access this organization's pledges"
+    );
+  }
+  return organization;
+};
+
+// Donor who made the pledge, its organization, or an admin
+const getAccessiblePledge = async (
+  pledgeId: string,
+  userId: string,
+  role: string
+) => {
+  const pledge = await Pledge.findById(pledgeId);
+  if (!pledge) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Pledge not found!');
+  }
+
+  if (role === ROLE.CLIENT) {
+    const client = await Client.findOne({ auth: userId });
+    if (!client || !pledge.donor.equals(client._id)) {
+      throw new AppError(httpStatus.FORBIDDEN, 'You cannot access this pledge');
+    }
+  } else if (role === ROLE.ORGANIZATION) {
+    const organization = await Organization.findOne({ auth: userId });
+    if (!organization || !pledge.organization.equals(organization._id)) {
+      throw new AppError(httpStatus.FORBIDDEN, 'You cannot access this pledge');
+    }
+  }
+
+  return pledge;
+};
+
+// 1. Donor promises an amount to be paid by a due date
+const createPledge = async (userId: string, payload: TCreatePledgePayload) => {
+  const donor = await Client.findOne({ auth: userId });
+  if (!donor) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+  }
+
+  const organization = await Organization.findById(payload.organizationId);
+  if (!organization) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Organization not found!');
+  }
+
+  if (payload.causeId) {
+    const cause = await Cause.findById(payload.causeId);
+    if (!cause) {
+      throw new AppError(httpStatus.NOT_FOUND, 'Cause not found!');
+    }
+    if (cause.organization.toString() !== payload.organizationId) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'Cause does not belong to this organization!'
+      );
+    }
+  }
+
+  const dueDate = payload.dueDate
+    ? new Date(payload.dueDate)
+    : new Date(
+        Date.now() + (payload.termDays || DEFAULT_PLEDGE_TERM_DAYS) * MS_PER_DAY
+      );
+
+  return Pledge.create({
+    donor: donor._id,
+    organization: organization._id,
+    cause: payload.causeId ? new Types.ObjectId(payload.causeId) : undefined,
+    amount: roundMoney(payload.amount),
+    currency: donor.displayCurrency || DEFAULT_CURRENCY,
+    dueDate,
+    note: payload.note,
+  });
+};
+
+// 2. Donor's pledges
+const getMyPledges = async (userId: string, query: Record<string, unknown>) => {
+  const donor = await Client.findOne({ auth: userId });
+  if (!donor) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+  }
+
+  const pledgeQuery = new QueryBuilder<IPledgeModel>(
+    Pledge.find({ donor: donor._id })
+      .populate('organization', 'name logoImage')
+      .populate('cause', 'name'),
+    query
+  )
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const pledges = await pledgeQuery.modelQuery;
+  const meta = await pledgeQuery.countTotal();
+
+  return { pledges, meta };
+};
+
+// 3. Pledge with the donations paid towards it
+const getPledgeById = async (
+  pledgeId: string,
+  userId: string,
+  role: string
+) => {
+  const pledge = await getAccessiblePledge(pledgeId, userId, role);
+  await pledge.populate([
+    { path: 'donor', select: 'name image' },
+    { path: 'organization', select: 'name logoImage' },
+    { path: 'cause', select: 'name' },
+  ]);
+
+  const donations = await Donation.find({ pledge: pledge._id })
+    .select(
+      'amount refundedAmount totalAmount currency status donationDate receiptId'
+    )
+    .sort({ donationDate: -1 })
+    .lean();
+
+  return {
+    ...pledge.toObject(),
+    remainingAmount: getRemaining(pledge),
+    donations,
+  };
+};
+
+// 4. Withdraw a pledge (donor or organization)
+const cancelPledge = async (pledgeId: string, userId: string, role: string) => {
+  const pledge = await getAccessiblePledge(pledgeId, userId, role);
+
+  if (
+    pledge.status === PLEDGE_STATUS.FULFILLED ||
+    pledge.status === PLEDGE_STATUS.CANCELLED
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Cannot cancel a ${pledge.status} pledge!`
+    );
+  }
+
+  pledge.status = PLEDGE_STATUS.CANCELLED;
+  pledge.cancelledAt = new Date();
+  await pledge.save();
+
+  return pledge;
+};
+
+// 5. Organization's pledges
+const getOrganizationPledges = async (
+  organizationId: string,
+  userId: string,
+  role: string,
+  query: Record<string, unknown>
+) => {
+  await assertOrganizationAccess(organizationId, userId, role);
+
+  const { causeId, ...restQuery } = query;
+  const filter: Record<string, unknown> = {
+    organization: new Types.ObjectId(organizationId),
+  };
+  if (causeId) filter.cause = new Types.ObjectId(causeId as string);
+
+  const pledgeQuery = new QueryBuilder<IPledgeModel>(
+    Pledge.find(filter)
+      .populate('donor', 'name image')
+      .populate('cause', 'name'),
+    restQuery
+  )
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const pledges = await pledgeQuery.modelQuery;
+  const meta = await pledgeQuery.countTotal();
+
+  return { pledges, meta };
+};
+
+// 6. Pledge dashboard: fulfilment rate and outstanding totals
+const getOrganizationPledgeStats = async (
+  organizationId: string,
+  causeId?: string
+): Promise<IPledgeStats> => {
+  const match: Record<string, unknown> = {
+    organization: new Types.ObjectId(organizationId),
+  };
+  if (causeId) match.cause = new Types.ObjectId(causeId);
+
+  // Overpayments don't make up for other pledges
+  const paidExpr = { $min: ['$amountPaid', '$amount'] };
+  const outstandingExpr = {
+    $max: [{ $subtract: ['$amount', '$amountPaid'] }, 0],
+  };
+
+  const [result] = await Pledge.aggregate([
+    { $match: match },
+    {
+      $facet: {
+        byStatus: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+        totals: [
+          { $match: { status: { $ne: PLEDGE_STATUS.CANCELLED } } },
+          {
+            $group: {
+              _id: null,
+              totalPledges: { $sum: 1 },
+              fulfilledPledges: {
+                $sum: {
+                  $cond: [{ $eq: ['$status', PLEDGE_STATUS.FULFILLED] }, 1, 0],
+                },
+              },
+              pledgedAmount: { $sum: '$amount' },
+              paidAmount: { $sum: paidExpr },
+              outstandingAmount: { $sum: outstandingExpr },
+              overdueAmount: {
+                $sum: {
+                  $cond: [
+                    { $eq: ['$status', PLEDGE_STATUS.OVERDUE] },
+                    outstandingExpr,
+                    0,
+                  ],
+                },
+              },
+            },
+          },
+        ],
+        byCause: [
+          { $match: { status: { $ne: PLEDGE_STATUS.CANCELLED } } },
+          {
+            $group: {
+              _id: '$cause',
+              pledgedAmount: { $sum: '$amount' },
+              paidAmount: { $sum: paidExpr },
+              outstandingAmount: { $sum: outstandingExpr },
+            },
+          },
+          {
+            $lookup: {
+              from: 'causes',
+              localField: '_id',
+              foreignField: '_id',
+              as: 'causeData',
+            },
+          },
+          { $sort: { outstandingAmount: -1 } },
+        ],
+      },
+    },
+  ]);
+
+  const totals = result?.totals?.[0];
+  const pledgedAmount = roundMoney(totals?.pledgedAmount || 0);
+  const paidAmount = roundMoney(totals?.paidAmount || 0);
+
+  return {
+    totalPledges: totals?.totalPledges || 0,
+    pledgedAmount,
+    paidAmount,
+    outstandingAmount: roundMoney(totals?.outstandingAmount || 0),
+    overdueAmount: roundMoney(totals?.overdueAmount || 0),
+    fulfilmentRate: totals?.totalPledges
+      ? Math.round((totals.fulfilledPledges / totals.totalPledges) * 100)
+      : 0,
+    amountFulfilmentRate: pledgedAmount
+      ? Math.round((paidAmount / pledgedAmount) * 100)
+      : 0,
+    byStatus: Object.fromEntries(
+      (result?.byStatus || []).map((row: { _id: string; count: number }) => [
+        row._id,
+        row.count,
+      ])
+    ),
+    byCause: (result?.byCause || []).map(
+      (row: {
+        _id: Types.ObjectId | null;
+        causeData: { name: string }[];
+        pledgedAmount: number;
+        paidAmount: number;
+        outstandingAmount: number;
+      }) => ({
+        _id: row._id ? row._id.toString() : null,
+        name: row.causeData[0]?.name || null,
+        pledgedAmount: roundMoney(row.pledgedAmount),
+        paidAmount: roundMoney(row.paidAmount),
+        outstandingAmount: roundMoney(row.outstandingAmount),
+      })
+    ),
+  };
+};
+
+const getPledgeDashboard = async (
+  organizationId: string,
+  userId: string,
+  role: string,
+  causeId?: string
+) => {
+  await assertOrganizationAccess(organizationId, userId, role);
+  return getOrganizationPledgeStats(organizationId, causeId);
+};
+
+// Ensure a donation paying towards a pledge matches it
+const validatePledgeForDonation = async (
+  pledgeId: string,
+  donorId: string,
+  organizationId: string,
+  causeId?: string
+) => {
+  const pledge = await Pledge.findById(pledgeId);
+  if (!pledge) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Pledge not found!');
+  }
+  if (pledge.donor.toString() !== donorId) {
+    throw new AppError(httpStatus.FORBIDDEN, 'This pledge is not yours!');
+  }
+  if (
+    pledge.status === PLEDGE_STATUS.FULFILLED ||
+    pledge.status === PLEDGE_STATUS.CANCELLED
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `This pledge is already ${pledge.status}!`
+    );
+  }
+  if (
+    pledge.organization.toString() !== organizationId ||
+    (pledge.cause && pledge.cause.toString() !== causeId)
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Donation must go to the pledged organization and cause!'
+    );
+  }
+
+  return pledge;
+};
+
+// Recompute progress from completed donations (payments and refunds)
+const syncPledgeProgress = async (pledgeId: string | Types.ObjectId) => {
+  const pledgeObjectId = new Types.ObjectId(pledgeId.toString());
+
+  const [stats] = await Donation.aggregate([
+    { $match: { pledge: pledgeObjectId, status: 'completed' } },
+    {
+      $group: {
+        _id: '$pledge',
+        // Partial refunds stay 'completed'; count only what was kept
+        amountPaid: {
+          $sum: {
+            $subtract: ['$amount', { $ifNull: ['$refundedAmount', 0] }],
+          },
+        },
+        donationCount: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const pledge = await Pledge.findByIdAndUpdate(
+    pledgeObjectId,
+    {
+      amountPaid: roundMoney(stats?.amountPaid || 0),
+      donationCount: stats?.donationCount || 0,
+    },
+    { new: true }
+  );
+  if (!pledge || pledge.status === PLEDGE_STATUS.CANCELLED) {
+    return { pledge, isNewlyFulfilled: false };
+  }
+
+  const isPaid = pledge.amountPaid >= pledge.amount;
+
+  if (isPaid && pledge.status !== PLEDGE_STATUS.FULFILLED) {
+    // Claim the transition so the organization is told once
+    const fulfilled = await Pledge.findOneAndUpdate(
+      {
+        _id: pledgeObjectId,
+        status: { $in: [PLEDGE_STATUS.ACTIVE, PLEDGE_STATUS.OVERDUE] },
+      },
+      { status: PLEDGE_STATUS.FULFILLED, fulfilledAt: new Date() },
+      { new: true }
+    );
+    return { pledge: fulfilled || pledge, isNewlyFulfilled: !!fulfilled };
+  }
+
+  // A refund took a fulfilled pledge below its amount
+  if (!isPaid && pledge.status === PLEDGE_STATUS.FULFILLED) {
+    const reopened = await Pledge.findByIdAndUpdate(
+      pledgeObjectId,
+      {
+        status:
+          pledge.dueDate < new Date()
+            ? PLEDGE_STATUS.OVERDUE
+            : PLEDGE_STATUS.ACTIVE,
+        $unset: { fulfilledAt: 1 },
+      },
+      { new: true }
+    );
+    return { pledge: reopened, isNewlyFulfilled: false };
+  }
+
+  return { pledge, isNewlyFulfilled: false };
+};
+
+// 7. Credit a completed donation to its pledge
+const handlePledgeDonationSucceeded = async (donationId: string) => {
+  const donation = await Donation.findById(donationId);
+  if (!donation?.pledge) return;
+
+  const { pledge, isNewlyFulfilled } = await syncPledgeProgress(
+    donation.pledge
+  );
+  if (!pledge || !isNewlyFulfilled) return;
+
+  const [organization, donor] = await Promise.all([
+    Organization.findById(pledge.organization).select('auth'),
+    Client.findById(pledge.donor).select('name'),
+  ]);
+  if (!organization) return;
+
+  try {
+    await createNotification(
+      organization.auth.toString(),
+      NOTIFICATION_TYPE.PLEDGE_FULFILLED,
+      `${donor?.name || 'A donor'} has fulfilled their $${pledge.amount} pledge.`,
+      pledge._id!.toString()
+    );
+  } catch (err) {
+    console.log(`❌🔔 Pledge fulfilled notification Failed!`);
+  }
+};
+
+const sendReminder = async (pledge: IPledgeModel, daysLeft: number) => {
+  const [client, organization, cause] = await Promise.all([
+    Client.findById(pledge.donor).populate<{
+      auth: { _id: Types.ObjectId; email: string };
+    }>('auth', 'email'),
+    Organization.findById(pledge.organization).select('name'),
+    pledge.cause ? Cause.findById(pledge.cause).select('name') : null,
+  ]);
+  if (!client) return;
+
+  const remaining = getRemaining(pledge);
+  const organizationName = organization?.name || 'the organization';
+  const isOverdue = daysLeft < 0;
+
+  const message = isOverdue
+    ? `Your pledge to ${organizationName} is overdue. $${remaining} of $${pledge.amount} remaining.`
+    : `Your pledge to ${organizationName} is due ${daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}. $${remaining} of $${pledge.amount} remaining.`;
+
+  await createNotification(
+    client.auth._id.toString(),
+    NOTIFICATION_TYPE.PLEDGE_REMINDER,
+    message,
+    pledge._id!.toString()
+  );
+
+  if (client.auth.email) {
+    try {
+      await sendPledgeReminderEmail({
+        to: client.auth.email,
+        donorName: client.name,
+        organizationName,
+        causeName: cause?.name,
+        amountPledged: pledge.amount,
+        amountRemaining: remaining,
+        dueDate: pledge.dueDate,
+        isOverdue,
+      });
+    } catch (err) {
+      console.error(`❌ Pledge reminder email failed:`, err);
+    }
+  }
+};
+
+// 8. Remind donors as pledges come due, and flag overdue pledges (cron)
+const sendPledgeReminders = async () => {
+  const now = new Date();
+  const today = new Date(now);
+  today.setUTCHours(0, 0, 0, 0);
+  const horizon = new Date(
+    today.getTime() + (Math.max(...PLEDGE_REMINDER_DAYS) + 1) * MS_PER_DAY
+  );
+
+  let sentCount = 0;
+  const errors: { id: string; error: string }[] = [];
+
+  // 1. Upcoming due dates
+  const duePledges = await Pledge.find({
+    status: PLEDGE_STATUS.ACTIVE,
+    dueDate: { $gte: now, $lt: horizon },
+  });
+
+  for (const pledge of duePledges) {
+    try {
+      const daysLeft = Math.floor(
+        (pledge.dueDate.getTime() - today.getTime()) / MS_PER_DAY
+      );
+      const dueWindows = PLEDGE_REMINDER_DAYS.filter(
+        (days) => daysLeft <= days && !pledge.remindersSent.includes(days)
+      );
+      if (dueWindows.length === 0) continue;
+
+      // Claim every window reached so a late pledge gets one reminder
+      const claimed = await Pledge.findOneAndUpdate(
+        { _id: pledge._id, remindersSent: { $nin: dueWindows } },
+        { $addToSet: { remindersSent: { $each: dueWindows } } }
+      );
+      if (!claimed) continue;
+
+      await sendReminder(pledge, daysLeft);
+      sentCount++;
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`❌ Pledge reminder failed for ${pledge._id}:`, message);
+      errors.push({ id: pledge._id!.toString(), error: message });
+    }
+  }
+
+  // 2. Past due with a balance left
+  const overduePledges = await Pledge.find({
+    status: PLEDGE_STATUS.ACTIVE,
+    dueDate: { $lt: now },
+  });
+
+  for (const pledge of overduePledges) {
+    try {
+      const claimed = await Pledge.findOneAndUpdate(
+        { _id: pledge._id, status: PLEDGE_STATUS.ACTIVE },
+        { status: PLEDGE_STATUS.OVERDUE, overdueNotifiedAt: new Date() }
+      );
+      if (!claimed) continue;
+
+      await sendReminder(pledge, -1);
+      sentCount++;
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(
+        `❌ Overdue pledge notice failed for ${pledge._id}:`,
+        message
+      );
+      errors.push({ id: pledge._id!.toString(), error: message });
+    }
+  }
+
+  return {
+    totalProcessed: duePledges.length + overduePledges.length,
+    sentCount,
+    errors,
+  };
+};
+
+export const PledgeService = {
+  createPledge,
+  getMyPledges,
+  getPledgeById,
+  cancelPledge,
+  getOrganizationPledges,
+  getOrganizationPledgeStats,
+  getPledgeDashboard,
+  validatePledgeForDonation,
+  syncPledgeProgress,
+  handlePledgeDonationSucceeded,
+  sendPledgeReminders,
+};
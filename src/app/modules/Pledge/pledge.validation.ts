@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import {
+  MAX_PLEDGE_TERM_DAYS,
+  PLEDGE_STATUS_VALUES,
+  PLEDGE_TERM_DAYS,
+} from './pledge.constant';
+
+// 1. Donor makes a pledge
+const createPledgeSchema = z.object({
+  body: z
+    .object({
+      organizationId: z
+        .string({
+          error: 'Organization ID is required!',
+        })
+        .min(1, { message: 'Organization ID is required!' }),
+
+      causeId: z.string().min(1).optional(),
+
+      amount: z
+        .number({
+          error: 'Pledge amount is required!',
+        })
+        .min(1, { message: 'Pledge amount must be at least $1!' }),
+
+      // Either a standard term or an explicit due date
+      termDays: z
+        .number()
+        .refine(
+          (days) => (PLEDGE_TERM_DAYS as readonly number[]).includes(days),
+          { message: `Term must be ${PLEDGE_TERM_DAYS.join(' or ')} days!` }
+        )
+        .optional(),
+      dueDate: z
+        .string()
+        .datetime({ message: 'Invalid due date format!' })
+        .optional(),
+
+      note: z
+        .string()
+        .trim()
+        .max(500, { message: 'Note cannot exceed 500 characters!' })
+        .optional(),
+    })
+    .refine((data) => !(data.termDays && data.dueDate), {
+      message: 'Provide either termDays or dueDate, not both!',
+      path: ['dueDate'],
+    })
+    .refine(
+      (data) => {
+        if (!data.dueDate) return true;
+        const days =
+          (new Date(data.dueDate).getTime() - Date.now()) /
+          (24 * 60 * 60 * 1000);
+        return days > 0 && days <= MAX_PLEDGE_TERM_DAYS;
+      },
+      {
+        message: `Due date must be within the next ${MAX_PLEDGE_TERM_DAYS} days!`,
+        path: ['dueDate'],
+      }
+    ),
+});
+
+// 2. Pledge ID params schema
+const pledgeIdParamsSchema = z.object({
+  params: z.object({
+    id: z
+      .string({
+        error: 'Pledge ID is required!',
+      })
+      .min(1, { message: 'Pledge ID is required!' }),
+  }),
+});
+
+// 3. Organization pledges (list and dashboard)
+const organizationPledgesSchema = z.object({
+  params: z.object({
+    organizationId: z
+      .string({
+        error: 'Organization ID is required!',
+      })
+      .min(1, { message: 'Organization ID is required!' }),
+  }),
+  query: z.object({
+    status: z.enum(PLEDGE_STATUS_VALUES as [string, ...string[]]).optional(),
+    causeId: z.string().optional(),
+    page: z.coerce.number().min(1).optional(),
+    limit: z.coerce.number().min(1).max(100).optional(),
+    sort: z.string().optional(),
+  }),
+});
+
+export const PledgeValidation = {
+  createPledgeSchema,
+  pledgeIdParamsSchema,
+  organizationPledgesSchema,
+};
+
+export type TCreatePledgePayload = z.infer<typeof createPledgeSchema>['body'];
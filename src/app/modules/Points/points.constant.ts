@@ -14,6 +14,7 @@ export const POINTS_SOURCE = {
   BADGE_UNLOCK: 'badge_unlock',
   REFERRAL: 'referral',
   ADMIN_ADJUSTMENT: 'admin_adjustment',
+  DONATION_REFUND: 'donation_refund',
   BONUS: 'bonus',
 } as const;
 
@@ -49,6 +50,7 @@ export const TRANSACTION_DESCRIPTIONS = {
   REWARD_REFUNDED: 'Points refunded from cancelled redemption',
   BADGE_UNLOCKED: 'Bonus points for unlocking badge',
   ADMIN_ADJUSTED: 'Admin adjustment',
+  DONATION_REFUNDED: 'Points reversed for refunded donation',
   REFERRAL_BONUS: 'Referral bonus points',
   EXPIRED: 'Points expired',
 } as const;
@@ -12,6 +12,7 @@ export interface IPointsTransaction {
     | 'badge_unlock'
     | 'referral'
     | 'admin_adjustment'
+    | 'donation_refund'
     | 'bonus';
 
   // Reference fields
@@ -45,6 +46,7 @@ export interface IPointsBalance {
   totalAdjusted: number;
   totalExpired: number;
   currentBalance: number;
+  heldPoints?: number; // Frozen while a donation is disputed
 
   // Milestone tracking
   lifetimePoints: number;
@@ -72,6 +74,7 @@ export interface ICreatePointsTransactionPayload {
     | 'badge_unlock'
     | 'referral'
     | 'admin_adjustment'
+    | 'donation_refund'
     | 'bonus';
   donationId?: Types.ObjectId | string;
   rewardRedemptionId?: Types.ObjectId | string;
@@ -115,11 +118,12 @@ export interface IPointsStatistics {
 
 export interface IPointsLeaderboard {
   rank: number;
-  user: Types.ObjectId;
+  user: Types.ObjectId | null; // null when the donor gives anonymously
   userName: string;
   userImage?: string;
   totalPoints: number;
   tier: string;
+  isAnonymous: boolean;
 }
 
 // New interfaces for better typing
@@ -148,4 +152,5 @@ export interface IPopulatedUser {
   name: string;
   image?: string;
   email?: string;
+  donateAnonymously?: boolean;
 }
@@ -31,7 +31,7 @@ const pointsTransactionSchema = new Schema<PointsTransactionModel>(
       enum: TRANSACTION_TYPE_VALUES,
       required: true,
     },
-    amount: { type: Number, required: true, min: 0 },
+    amount: { type: Number, required: true }, // Negative for deducting adjustments
     balance: { type: Number, required: true, min: 0 },
     source: { type: String, enum: POINTS_SOURCE_VALUES, required: true },
     donation: { type: Schema.Types.ObjectId, ref: 'Donation' },
@@ -70,6 +70,7 @@ const pointsBalanceSchema = new Schema<PointsBalanceModel>(
     totalAdjusted: { type: Number, default: 0 },
     totalExpired: { type: Number, default: 0 },
     currentBalance: { type: Number, default: 0, min: 0 },
+    heldPoints: { type: Number, default: 0, min: 0 },
     lifetimePoints: { type: Number, default: 0 },
     currentTier: { type: String, enum: POINTS_TIER_VALUES, default: 'bronze' },
     lastTransactionAt: { type: Date },
@@ -86,7 +87,7 @@ pointsBalanceSchema.methods.updateBalance = async function (amount: number) {
 };
 
 pointsBalanceSchema.methods.canAfford = function (amount: number) {
-  return this.currentBalance >= amount;
+  return this.currentBalance - (this.heldPoints || 0) >= amount;
 };
 
 pointsBalanceSchema.methods.getTierByPoints = function () {
@@ -3,7 +3,7 @@ import express from 'express';
 import { ROLE } from '../Auth/auth.constant';
 
 import * as pointsController from './points.controller';
-import { auth, validateRequest } from '../../middlewares';
+import { auth, idempotency, validateRequest } from '../../middlewares';
 import { pointsValidation } from './points.validation';
 
 const router = express.Router();
@@ -76,6 +76,7 @@ router.post(
 router.post(
   '/refund',
   auth(ROLE.ADMIN),
+  idempotency(),
   validateRequest(pointsValidation.refundPointsSchema),
   pointsController.refundPoints
 );
@@ -88,6 +89,7 @@ router.post(
 router.post(
   '/adjust',
   auth(ROLE.ADMIN, ROLE.ADMIN),
+  idempotency(),
   validateRequest(pointsValidation.adjustPointsSchema),
   pointsController.adjustPoints
 );
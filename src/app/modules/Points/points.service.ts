@@ -23,6 +23,7 @@ import { AppError } from '../../utils';
 import httpStatus from 'http-status';
 import { PointsBalance, PointsTransaction } from './points.model';
 import Client from '../Client/client.model';
+import { ANONYMOUS_DONOR_NAME } from '../Donation/donation.constant';
 
 // =======================
 // CREATE TRANSACTION
@@ -71,7 +72,11 @@ export const createPointsTransaction = async (
         balanceDoc.totalEarned += payload.amount;
         break;
       case TRANSACTION_TYPE.SPENT:
-        if (balanceDoc.currentBalance < payload.amount) {
+        // Points on hold (disputed donations) can't be spent
+        if (
+          balanceDoc.currentBalance - (balanceDoc.heldPoints || 0) <
+          payload.amount
+        ) {
           throw new AppError(
             httpStatus.BAD_REQUEST,
             POINTS_MESSAGES.INSUFFICIENT_BALANCE
@@ -175,7 +180,8 @@ export const awardPointsForDonation = async (
   userId: Types.ObjectId | string,
   donationId: Types.ObjectId | string,
   donationAmount: number,
-  session?: ClientSession // ✅ Added session
+  session?: ClientSession, // ✅ Added session
+  metadata?: Record<string, unknown> // e.g. the fee schedule applied
 ): Promise<IPointsTransactionResult> => {
   const points = Math.floor(donationAmount * POINTS_PER_DOLLAR);
   return createPointsTransaction(
@@ -188,7 +194,11 @@ export const awardPointsForDonation = async (
       description: `${
         TRANSACTION_DESCRIPTIONS.DONATION_EARNED
       } - $${donationAmount.toFixed(2)}`,
-      metadata: { donationAmount, conversionRate: POINTS_PER_DOLLAR },
+      metadata: {
+        ...metadata,
+        donationAmount,
+        conversionRate: POINTS_PER_DOLLAR,
+      },
     },
     session
   );
@@ -271,6 +281,90 @@ export const adjustPoints = async (
   );
 };
 
+// =======================
+// REVERSE POINTS FOR REFUND
+// =======================
+// Claims back a refunded share of donation points, capped at the current
+// balance so points already spent on rewards don't block the refund. The
+// entry references the donation and records any shortfall.
+export const reversePointsForRefund = async (
+  userId: Types.ObjectId | string,
+  donationId: Types.ObjectId | string,
+  points: number,
+  refundedAmount: number,
+  adjustedBy: Types.ObjectId | string
+): Promise<number> => {
+  if (points <= 0) return 0;
+
+  const balance = await PointsBalance.findOne({
+    user: new Types.ObjectId(userId),
+  });
+  const reversible = Math.min(points, balance?.currentBalance || 0);
+
+  await createPointsTransaction({
+    userId,
+    transactionType: TRANSACTION_TYPE.ADJUSTED,
+    amount: -reversible,
+    source: POINTS_SOURCE.DONATION_REFUND,
+    donationId,
+    adjustedBy,
+    adjustmentReason: `Refund of $${refundedAmount.toFixed(2)} on donation ${donationId}`,
+    description: `${
+      TRANSACTION_DESCRIPTIONS.DONATION_REFUNDED
+    } - $${refundedAmount.toFixed(2)}`,
+    metadata: {
+      refundedAmount,
+      pointsToReverse: points,
+      shortfall: points - reversible,
+    },
+  });
+
+  return reversible;
+};
+
+// =======================
+// HOLD / RELEASE POINTS
+// =======================
+// Freezes up to `points` of the spendable balance; returns what was held
+export const holdPoints = async (
+  userId: Types.ObjectId | string,
+  points: number
+): Promise<number> => {
+  const balance = await PointsBalance.findOne({
+    user: new Types.ObjectId(userId),
+  });
+  if (!balance) return 0;
+
+  const held = Math.min(
+    points,
+    balance.currentBalance - (balance.heldPoints || 0)
+  );
+  if (held <= 0) return 0;
+
+  await PointsBalance.updateOne(
+    { _id: balance._id },
+    { $inc: { heldPoints: held } }
+  );
+  return held;
+};
+
+export const releaseHeldPoints = async (
+  userId: Types.ObjectId | string,
+  points: number
+): Promise<void> => {
+  if (points <= 0) return;
+
+  await PointsBalance.updateOne({ user: new Types.ObjectId(userId) }, [
+    {
+      $set: {
+        heldPoints: {
+          $max: [{ $subtract: [{ $ifNull: ['$heldPoints', 0] }, points] }, 0],
+        },
+      },
+    },
+  ]);
+};
+
 // =======================
 // GET USER BALANCE
 // =======================
@@ -305,7 +399,7 @@ export const canUserAffordPoints = async (
   amount: number
 ): Promise<boolean> => {
   const balance = await getUserBalance(userId);
-  return balance.currentBalance >= amount;
+  return balance.currentBalance - (balance.heldPoints || 0) >= amount;
 };
 
 // =======================
@@ -382,17 +476,25 @@ export const getPointsLeaderboard = async (
   const entries = await PointsBalance.find(filter)
     .sort({ lifetimePoints: -1 })
     .limit(limit)
-    .populate<{ user: IPopulatedUser }>('user', 'name image')
+    .populate<{ user: IPopulatedUser }>(
+      'user',
+      'name image donateAnonymously'
+    )
     .lean();
 
-  return entries.map((entry: any, index: number) => ({
-    rank: index + 1,
-    user: entry.user._id,
-    userName: entry.user.name,
-    userImage: entry.user.image,
-    totalPoints: entry.lifetimePoints,
-    tier: entry.currentTier || 'bronze',
-  }));
+  return entries.map((entry: any, index: number) => {
+    const isAnonymous = !!entry.user.donateAnonymously;
+
+    return {
+      rank: index + 1,
+      user: isAnonymous ? null : entry.user._id,
+      userName: isAnonymous ? ANONYMOUS_DONOR_NAME : entry.user.name,
+      userImage: isAnonymous ? undefined : entry.user.image,
+      totalPoints: entry.lifetimePoints,
+      tier: entry.currentTier || 'bronze',
+      isAnonymous,
+    };
+  });
 };
 
 // =======================
@@ -510,6 +612,9 @@ export const pointsServices = {
   deductPoints,
   refundPoints,
   adjustPoints,
+  reversePointsForRefund,
+  holdPoints,
+  releaseHeldPoints,
   getUserBalance,
   canUserAffordPoints,
   getUserTransactions,
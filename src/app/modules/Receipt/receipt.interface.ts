@@ -1,4 +1,9 @@
 import { Document, Types } from 'mongoose';
+import { ITribute } from '../Donation/donation.interface';
+import { IAppliedFeeSchedule } from '../FeeSchedule/feeSchedule.interface';
+
+// Tribute snapshot printed on the receipt
+export type TReceiptTribute = Pick<ITribute, 'tributeType' | 'honoreeName'>;
 
 export interface IReceipt {
   donation: Types.ObjectId;
@@ -14,6 +19,7 @@ export interface IReceipt {
   gstOnFee: number; // 10% GST on the Fee
   stripeFee: number; // ✅ NEW: Stripe Transaction Fee
   totalAmount: number; // Total charged to card
+  feeSchedule?: IAppliedFeeSchedule; // Rates the donation was priced with
 
   currency: string;
   donationType: 'one-time' | 'recurring' | 'round-up';
@@ -44,6 +50,13 @@ export interface IReceipt {
   organizationAddress?: string;
 
   specialMessage?: string;
+  tribute?: TReceiptTribute;
+  matchedAmount?: number; // Sponsor match added on top of this gift
+  matchedBy?: string;
+
+  // Partial refunds reissue the receipt under a new number
+  refundedAmount?: number;
+  replacesReceiptNumber?: string;
 
   status: 'pending' | 'generated' | 'sent' | 'failed';
   generatedAt?: Date;
@@ -68,12 +81,16 @@ export interface IReceiptGenerationPayload {
   stripeFee: number; // ✅ NEW
   totalAmount: number;
   netAmount: number;
+  feeSchedule?: IAppliedFeeSchedule;
 
   currency: string;
   donationType: 'one-time' | 'recurring' | 'round-up';
   donationDate: Date;
   paymentMethod?: string;
   specialMessage?: string;
+  tribute?: TReceiptTribute;
+  matchedAmount?: number; // Sponsor match added on top of this gift
+  matchedBy?: string;
 }
 
 export interface IReceiptEmailPayload {
@@ -128,10 +145,16 @@ export interface IReceiptPDFData {
   stripeFee: number; // ✅ NEW
   totalAmount: number;
   netAmount: number;
+  feeSchedule?: IAppliedFeeSchedule;
 
   currency: string;
   donationType: string;
   donationDate: Date;
   paymentMethod?: string;
   specialMessage?: string;
+  tribute?: TReceiptTribute;
+  matchedAmount?: number; // Sponsor match added on top of this gift
+  matchedBy?: string;
+  refundedAmount?: number;
+  replacesReceiptNumber?: string;
 }
@@ -1,5 +1,7 @@
 import { Schema, model } from 'mongoose';
 import { IReceiptModel } from './receipt.interface';
+import { TRIBUTE_TYPE } from '../Donation/donation.constant';
+import { appliedFeeScheduleSchema } from '../FeeSchedule/feeSchedule.model';
 
 const receiptSchema = new Schema<IReceiptModel>(
   {
@@ -55,6 +57,9 @@ const receiptSchema = new Schema<IReceiptModel>(
       type: Number,
       required: [true, 'Total amount is required'], // Base + Fees (if covered)
     },
+    feeSchedule: {
+      type: appliedFeeScheduleSchema,
+    },
 
     currency: {
       type: String,
@@ -141,6 +146,27 @@ const receiptSchema = new Schema<IReceiptModel>(
       type: String,
       maxlength: 500,
     },
+    tribute: {
+      tributeType: {
+        type: String,
+        enum: TRIBUTE_TYPE,
+      },
+      honoreeName: {
+        type: String,
+      },
+    },
+    matchedAmount: {
+      type: Number,
+    },
+    matchedBy: {
+      type: String,
+    },
+    refundedAmount: {
+      type: Number,
+    },
+    replacesReceiptNumber: {
+      type: String,
+    },
 
     status: {
       type: String,
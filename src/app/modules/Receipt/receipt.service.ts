@@ -1,5 +1,6 @@
 import { Receipt } from './receipt.model';
 import { Donation } from '../Donation/donation.model';
+import { ANONYMOUS_DONOR } from '../Donation/donation.constant';
 import Client from '../Client/client.model';
 import { OrganizationModel } from '../Organization/organization.model';
 import Cause from '../Causes/causes.model';
@@ -17,7 +18,11 @@ import { AppError } from '../../utils';
 import httpStatus from 'http-status';
 
 // ✅ Import S3 utils
-import { uploadToS3, getSignedS3Url } from '../../utils/s3.utils';
+import {
+  uploadToS3,
+  getSignedS3Url,
+  deleteFromS3,
+} from '../../utils/s3.utils';
 
 // ✅ Import PDF utils
 import { generateReceiptPDF } from '../../utils/pdf.utils';
@@ -116,12 +121,16 @@ const generateReceipt = async (payload: IReceiptGenerationPayload) => {
       stripeFee: payload.stripeFee, 
       totalAmount: payload.totalAmount,
       netAmount: payload.netAmount,
+      feeSchedule: payload.feeSchedule,
 
       currency: payload.currency,
       donationType: payload.donationType,
       donationDate: payload.donationDate,
       paymentMethod: payload.paymentMethod,
       specialMessage: payload.specialMessage,
+      tribute: payload.tribute,
+      matchedAmount: payload.matchedAmount,
+      matchedBy: payload.matchedBy,
     };
 
     // ✅ Generate PDF using utils
@@ -153,6 +162,7 @@ const generateReceipt = async (payload: IReceiptGenerationPayload) => {
       gstOnFee: payload.gstOnFee,
       stripeFee: payload.stripeFee, // ✅ NEW
       totalAmount: payload.totalAmount,
+      feeSchedule: payload.feeSchedule,
 
       currency: payload.currency,
       donationType: payload.donationType,
@@ -176,6 +186,9 @@ const generateReceipt = async (payload: IReceiptGenerationPayload) => {
       organizationAddress: pdfData.organizationAddress,
 
       specialMessage: payload.specialMessage,
+      tribute: payload.tribute,
+      matchedAmount: payload.matchedAmount,
+      matchedBy: payload.matchedBy,
       status: RECEIPT_STATUS.GENERATED,
       generatedAt: new Date(),
       emailSent: false,
@@ -400,11 +413,42 @@ const getReceiptsByOrganization = async (
       .skip(skip)
       .limit(Number(limit))
       .populate('donor', 'name image')
-      .populate('cause', 'name category'),
+      .populate('cause', 'name category')
+      .lean(),
     Receipt.countDocuments(filter),
   ]);
 
-  return { receipts, total, page: Number(page), limit: Number(limit) };
+  // Receipts keep real donor details for the donor; hide them from the org
+  const anonymousDonationIds = new Set(
+    (
+      await Donation.find({
+        _id: { $in: receipts.map((receipt) => receipt.donation) },
+        isAnonymous: true,
+      }).distinct('_id')
+    ).map((id) => id.toString())
+  );
+
+  const maskedReceipts = receipts.map((receipt) => {
+    if (!anonymousDonationIds.has(receipt.donation.toString())) return receipt;
+
+    return {
+      ...receipt,
+      donor: ANONYMOUS_DONOR,
+      donorName: ANONYMOUS_DONOR.name,
+      donorEmail: ANONYMOUS_DONOR.email,
+      // The PDF itself carries the donor's real details
+      pdfUrl: undefined,
+      pdfKey: undefined,
+      isAnonymous: true,
+    };
+  });
+
+  return {
+    receipts: maskedReceipts,
+    total,
+    page: Number(page),
+    limit: Number(limit),
+  };
 };
 
 const regenerateReceiptURL = async (receiptId: string): Promise<string> => {
@@ -422,6 +466,118 @@ const regenerateReceiptURL = async (receiptId: string): Promise<string> => {
   return url;
 };
 
+/* ----------------------------------------------
+   ADJUSTED RECEIPT (PARTIAL REFUND)
+------------------------------------------------- */
+// Reissues the donation's receipt under a new number for the amount kept
+// after refunds. The original record and PDF are replaced, not duplicated.
+const reissueAdjustedReceipt = async (donationId: string) => {
+  const donation = await Donation.findById(donationId);
+  if (!donation?.receiptId) return null;
+
+  const receipt = await Receipt.findById(donation.receiptId);
+  if (!receipt)
+    throw new AppError(httpStatus.NOT_FOUND, RECEIPT_MESSAGES.NOT_FOUND);
+
+  const refundedAmount = donation.refundedAmount || 0;
+  const amount = Number((donation.amount - refundedAmount).toFixed(2));
+  const totalAmount = Number(
+    (donation.totalAmount - refundedAmount).toFixed(2)
+  );
+  const receiptNumber = generateReceiptNumber();
+  const previousKey = receipt.pdfKey;
+
+  const pdfBuffer = await generateReceiptPDF({
+    receiptNumber,
+    donorName: receipt.donorName,
+    donorEmail: receipt.donorEmail,
+    organizationName: receipt.organizationName,
+    organizationAddress: receipt.organizationAddress,
+    organizationEmail: receipt.organizationEmail,
+    abnNumber: receipt.abnNumber,
+    taxDeductible: receipt.taxDeductible,
+    zakatEligible: receipt.zakatEligible,
+
+    amount,
+    coverFees: donation.coverFees,
+    platformFee: receipt.platformFee,
+    gstOnFee: receipt.gstOnFee,
+    stripeFee: receipt.stripeFee || 0,
+    totalAmount,
+    netAmount: Number((donation.netAmount - refundedAmount).toFixed(2)),
+    feeSchedule: receipt.feeSchedule,
+
+    currency: receipt.currency,
+    donationType: receipt.donationType,
+    donationDate: receipt.donationDate,
+    paymentMethod: receipt.paymentMethod,
+    specialMessage: receipt.specialMessage,
+    tribute: receipt.tribute,
+    matchedAmount: receipt.matchedAmount,
+    matchedBy: receipt.matchedBy,
+    refundedAmount,
+    replacesReceiptNumber: receipt.receiptNumber,
+  });
+
+  const { url, key } = await uploadToS3({
+    buffer: pdfBuffer,
+    key: `${receiptNumber}.pdf`,
+    contentType: 'application/pdf',
+    folder: AWS_S3_BUCKET_FOLDER,
+    metadata: {
+      receiptNumber,
+      replacesReceiptNumber: receipt.receiptNumber,
+      generatedAt: new Date().toISOString(),
+    },
+  });
+
+  receipt.replacesReceiptNumber = receipt.receiptNumber;
+  receipt.receiptNumber = receiptNumber;
+  receipt.amount = amount;
+  receipt.totalAmount = totalAmount;
+  receipt.refundedAmount = refundedAmount;
+  receipt.pdfUrl = url;
+  receipt.pdfKey = key;
+  receipt.status = RECEIPT_STATUS.GENERATED;
+  receipt.generatedAt = new Date();
+  receipt.emailSent = false;
+  receipt.emailAttempts = 0;
+  await receipt.save();
+
+  if (previousKey) {
+    deleteFromS3(previousKey).catch((error: Error) =>
+      // eslint-disable-next-line no-console
+      console.error('Failed to delete replaced receipt PDF:', error)
+    );
+  }
+
+  sendReceiptEmailService({
+    receiptId: receipt._id as Types.ObjectId,
+    donorEmail: receipt.donorEmail,
+    donorName: receipt.donorName,
+    organizationName: receipt.organizationName,
+    pdfUrl: url,
+
+    amount,
+    coverFees: donation.coverFees,
+    platformFee: receipt.platformFee,
+    gstOnFee: receipt.gstOnFee,
+    stripeFee: receipt.stripeFee || 0,
+    totalAmount,
+
+    currency: receipt.currency,
+    donationDate: receipt.donationDate,
+    receiptNumber,
+    donationType: receipt.donationType,
+    specialMessage: receipt.specialMessage,
+  }).catch((error: Error) => {
+    // eslint-disable-next-line no-console
+    console.error('Email sending failed:', error);
+  });
+
+  return receipt;
+};
+
 /* ----------------------------------------------
    EXPORT SERVICES
 ------------------------------------------------- */
@@ -433,4 +589,5 @@ export const receiptServices = {
   getReceiptsByDonor,
   getReceiptsByOrganization,
   regenerateReceiptURL,
+  reissueAdjustedReceipt,
 };
@@ -1,5 +1,5 @@
 import express from 'express';
-import { auth } from '../../middlewares';
+import { auth, idempotency } from '../../middlewares';
 import { ROLE } from '../Auth/auth.constant';
 import { validateRequest } from '../../middlewares/validateRequest';
 import { RewardRedemptionController } from './reward-redeemtion.controller';
@@ -17,6 +17,7 @@ router.post(
   '/redeem',
   auth(ROLE.BUSINESS, ROLE.ADMIN),
   checkSubscription(),
+  idempotency(),
   validateRequest(rewardRedemptionValidation.redeemRewardSchema),
   RewardRedemptionController.redeemReward
 );
@@ -25,6 +26,7 @@ router.post(
 router.post(
   '/:id/claim',
   auth(ROLE.CLIENT),
+  idempotency(),
   validateRequest(rewardRedemptionValidation.claimRewardSchema),
   RewardRedemptionController.claimReward
 );
@@ -55,7 +55,7 @@ const claimReward = async (payload: { rewardId: string; userId: string }) => {
     user: client?._id,
   });
 
-  if (!balance || balance.currentBalance < 500) {
+  if (!balance || !balance.canAfford(500)) {
     throw new AppError(
       httpStatus.BAD_REQUEST,
       'You have Insufficient balance!'
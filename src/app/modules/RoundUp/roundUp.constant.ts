@@ -0,0 +1,20 @@
+// Purchases round up to the next multiple of this many dollars
+export const ROUNDING_BASE_OPTIONS = [1, 2, 5, 10] as const;
+export const DEFAULT_ROUNDING_BASE = 1;
+
+// Each round-up is multiplied by this, e.g. 2 = "double my round-ups"
+export const ROUND_UP_MULTIPLIER_OPTIONS = [1, 2, 3, 5, 10] as const;
+export const DEFAULT_ROUND_UP_MULTIPLIER = 1;
+
+// Charities one round-up can be split across (percentages sum to 100)
+export const MAX_ROUND_UP_ALLOCATIONS = 5;
+export const ALLOCATION_TOTAL_PERCENT = 100;
+
+// Round-up simulator: spending history replayed before round-ups are on
+export const SIMULATION_SOURCE = {
+  SYNCED: 'synced', // Transactions already synced for round-ups
+  PROVIDER: 'provider', // History fetched from Plaid or Basiq
+} as const;
+
+export const DEFAULT_SIMULATION_DAYS = 90;
+export const MAX_SIMULATION_DAYS = 365;
@@ -5,13 +5,25 @@ export type TRoundUpStatus =
   | 'cancelled'
   | 'failed';
 
+// One charity's share of a split round-up
+export interface IRoundUpAllocation {
+  organization: string;
+  cause: string;
+  percentage: number;
+}
+
 export interface IRoundUp {
   user: string;
   organization: string;
   cause: string;
+  // Split across several charities; `organization`/`cause` mirror the first
+  // line. Empty means everything goes to `organization`/`cause`.
+  allocations: IRoundUpAllocation[];
   bankConnection: string;
   paymentMethod?: string;
   monthlyThreshold?: number | 'no-limit';
+  roundingBase: number; // Round purchases up to the next $1, $2, $5 or $10
+  multiplier: number; // Multiplies every round-up
 
   // ✅ NEW: Fee Preference
   coverFees: boolean;
@@ -68,6 +80,8 @@ export interface IRoundUpSettings {
   causeId: string;
   autoDonate: boolean; // Whether to donate when threshold is met or wait for month end
   coverFees: boolean;
+  roundingBase: number;
+  multiplier: number;
 }
 
 export interface IUserRoundUpStats {
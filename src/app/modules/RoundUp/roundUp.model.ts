@@ -1,5 +1,13 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { IRoundUp, TRoundUpStatus } from './roundUp.interface';
+import {
+  ALLOCATION_TOTAL_PERCENT,
+  DEFAULT_ROUND_UP_MULTIPLIER,
+  DEFAULT_ROUNDING_BASE,
+  MAX_ROUND_UP_ALLOCATIONS,
+  ROUND_UP_MULTIPLIER_OPTIONS,
+  ROUNDING_BASE_OPTIONS,
+} from './roundUp.constant';
 
 export interface IRoundUpDocument extends IRoundUp, Document {
   resetMonthlyTotal(): void;
@@ -14,6 +22,28 @@ export interface IRoundUpDocument extends IRoundUp, Document {
   switchCharity(newOrganizationId: string): boolean;
 }
 
+const allocationSchema = new Schema(
+  {
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+    },
+    cause: {
+      type: Schema.Types.ObjectId,
+      ref: 'Cause',
+      required: true,
+    },
+    percentage: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: ALLOCATION_TOTAL_PERCENT,
+    },
+  },
+  { _id: false }
+);
+
 const RoundUpSchema = new Schema(
   {
     user: {
@@ -34,6 +64,21 @@ const RoundUpSchema = new Schema(
       required: [true, 'Cause is required'],
       index: true,
     },
+    allocations: {
+      type: [allocationSchema],
+      default: [],
+      validate: {
+        validator: function (value: { percentage: number }[]) {
+          if (!value.length) return true;
+          const total = value.reduce((sum, line) => sum + line.percentage, 0);
+          return (
+            value.length <= MAX_ROUND_UP_ALLOCATIONS &&
+            total === ALLOCATION_TOTAL_PERCENT
+          );
+        },
+        message: `Allocations must have at most ${MAX_ROUND_UP_ALLOCATIONS} lines adding up to ${ALLOCATION_TOTAL_PERCENT}%`,
+      },
+    },
     bankConnection: {
       type: Schema.Types.ObjectId,
       required: true,
@@ -65,6 +110,16 @@ const RoundUpSchema = new Schema(
       },
       default: undefined,
     },
+    roundingBase: {
+      type: Number,
+      enum: ROUNDING_BASE_OPTIONS,
+      default: DEFAULT_ROUNDING_BASE,
+    },
+    multiplier: {
+      type: Number,
+      enum: ROUND_UP_MULTIPLIER_OPTIONS,
+      default: DEFAULT_ROUND_UP_MULTIPLIER,
+    },
     specialMessage: {
       type: String,
       maxlength: [250, 'Special message must not exceed 250 characters'],
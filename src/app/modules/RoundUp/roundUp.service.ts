@@ -13,12 +13,34 @@ import httpStatus from 'http-status';
 import Auth from '../Auth/auth.model';
 import PaymentMethod from '../PaymentMethod/paymentMethod.model';
 import { AUTH_STATUS, ROLE } from '../Auth/auth.constant';
-import { IBankConnection } from '../BankConnection/bankConnection.interface';
+import {
+  IBankConnection,
+  IPlaidTransaction,
+} from '../BankConnection/bankConnection.interface';
 import { IPaymentMethod } from '../PaymentMethod/paymentMethod.interface';
 import { IORGANIZATION } from '../Organization/organization.interface';
 import { ICause } from '../Causes/causes.interface';
 import { SubscriptionService } from '../Subscription/subscription.service';
 import { StripeAccount } from '../OrganizationAccount/stripe-account.model';
+import { BankConnectionModel } from '../BankConnection/bankConnection.model';
+import { bankProviderService } from '../BankConnection/bankProvider.service';
+import { RoundUpTransactionModel } from '../RoundUpTransaction/roundUpTransaction.model';
+import { IRoundUpTransaction } from '../RoundUpTransaction/roundUpTransaction.interface';
+import { RoundUpExclusionService } from '../RoundUpExclusion/roundUpExclusion.service';
+import { badgeService } from '../badge/badge.service';
+import { IPreviewDonation } from '../badge/badge.interface';
+import { POINTS_PER_DOLLAR } from '../Points/points.constant';
+import Client from '../Client/client.model';
+import {
+  DEFAULT_ROUND_UP_MULTIPLIER,
+  DEFAULT_ROUNDING_BASE,
+  SIMULATION_SOURCE,
+} from './roundUp.constant';
+import {
+  SimulateRoundUpInput,
+  UpdateAllocationsInput,
+  UpdateRoundUpInput,
+} from './roundUp.validation';
 
 const savePlaidConsent = async (
   userId: string,
@@ -29,6 +51,8 @@ const savePlaidConsent = async (
     organizationId,
     causeId,
     monthlyThreshold,
+    roundingBase,
+    multiplier,
     specialMessage,
     paymentMethodId,
     coverFees = false,
@@ -37,6 +61,8 @@ const savePlaidConsent = async (
     organizationId?: string;
     causeId?: string;
     monthlyThreshold?: number | 'no-limit';
+    roundingBase?: number;
+    multiplier?: number;
     specialMessage?: string;
     paymentMethodId?: string;
     coverFees?: boolean;
@@ -168,6 +194,8 @@ const savePlaidConsent = async (
     bankConnection: bankConnectionId,
     paymentMethod: String(paymentMethod._id),
     monthlyThreshold: monthlyThreshold || undefined,
+    roundingBase,
+    multiplier,
     coverFees,
 
     specialMessage: specialMessage || undefined,
@@ -211,7 +239,9 @@ const revokeConsent = async (userId: string, bankConnectionId: string) => {
     }
   );
 
-  await bankConnectionService.removeItem(bankConnection.itemId);
+  await bankProviderService
+    .getBankProvider(bankConnection.provider)
+    .revoke(bankConnection);
 
   return {
     success: true,
@@ -240,19 +270,18 @@ const syncTransactions = async (
     };
   }
 
-  const plaidSyncResponse = await bankConnectionService.syncTransactions(
-    bankConnectionId,
-    cursor
-  );
+  const syncResponse = await bankProviderService
+    .getBankProvider(bankConnection.provider)
+    .syncTransactions(bankConnection, cursor);
 
   return {
     success: true,
     message:
       'Transactions synced successfully (RoundUp processing is automatic)',
     data: {
-      plaidSync: plaidSyncResponse,
-      hasMore: plaidSyncResponse.hasMore,
-      nextCursor: plaidSyncResponse.nextCursor,
+      sync: syncResponse,
+      hasMore: syncResponse.hasMore,
+      nextCursor: syncResponse.nextCursor,
       note: 'RoundUp processing is handled automatically by background cron job every 4 hours',
     },
     statusCode: StatusCodes.OK,
@@ -393,6 +422,7 @@ const switchCharity = async (
 
   roundUpConfig.organization = newOrganizationId;
   roundUpConfig.cause = newCauseId || roundUpConfig.cause;
+  roundUpConfig.allocations = []; // A switch replaces any split
   roundUpConfig.lastCharitySwitch = new Date();
   await roundUpConfig.save();
 
@@ -448,6 +478,11 @@ const getUserDashboard = async (userId: string) => {
       }`,
       totalFromUser: transactionSummary.totalStats.totalDonated,
     },
+    roundingSettings: {
+      roundingBase: roundUpConfig.roundingBase,
+      multiplier: roundUpConfig.multiplier,
+      ...transactionSummary.breakdown,
+    },
   };
 
   return {
@@ -508,6 +543,9 @@ const getActiveRoundup = async (userId: string) => {
     user: roundupConfig.user,
     coverFees: roundupConfig.coverFees,
     monthlyThreshold: roundupConfig.monthlyThreshold,
+    allocations: roundupConfig.allocations,
+    roundingBase: roundupConfig.roundingBase,
+    multiplier: roundupConfig.multiplier,
     specialMessage: roundupConfig.specialMessage,
     status: roundupConfig.status,
     isActive: roundupConfig.isActive,
@@ -546,7 +584,7 @@ const getActiveRoundup = async (userId: string) => {
 const updateRoundUp = async (
   userId: string,
   roundUpId: string,
-  payload: { monthlyThreshold?: number | 'no-limit'; specialMessage?: string }
+  payload: UpdateRoundUpInput
 ) => {
   console.log({ userId, roundUpId, payload });
   const roundUpConfig = await RoundUpModel.findOne({
@@ -585,6 +623,14 @@ const updateRoundUp = async (
     roundUpConfig.specialMessage = payload.specialMessage;
   }
 
+  // 2b. Rounding settings apply to transactions synced from now on
+  if (payload.roundingBase !== undefined) {
+    roundUpConfig.roundingBase = payload.roundingBase;
+  }
+  if (payload.multiplier !== undefined) {
+    roundUpConfig.multiplier = payload.multiplier;
+  }
+
   // 3. Replicate the logic of 'checkAndUpdateThresholdStatus' manually
   // This updates the status in the local object WITHOUT calling the model's .save()
   if (
@@ -606,6 +652,90 @@ const updateRoundUp = async (
   return roundUpConfig;
 };
 
+// Split round-ups across charities by percentage. Changing the split
+// counts as a charity switch, so the same 30-day window applies.
+const updateAllocations = async (
+  userId: string,
+  roundUpId: string,
+  payload: UpdateAllocationsInput
+) => {
+  const roundUpConfig = await RoundUpModel.findOne({
+    _id: roundUpId,
+    user: userId,
+    isActive: true,
+  });
+
+  if (!roundUpConfig) {
+    throw new AppError(
+      httpStatus.NOT_FOUND,
+      'Round-up configuration not found'
+    );
+  }
+
+  if (!(roundUpConfig as any).canSwitchCharity()) {
+    const daysSinceSwitch = Math.floor(
+      (Date.now() - roundUpConfig.lastCharitySwitch!.getTime()) /
+        (1000 * 60 * 60 * 24)
+    );
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Cannot change charities yet. Wait ${30 - daysSinceSwitch} more days`
+    );
+  }
+
+  for (const line of payload.allocations) {
+    const organization = await OrganizationModel.findById(
+      line.organizationId
+    );
+    if (!organization) {
+      throw new AppError(
+        httpStatus.NOT_FOUND,
+        `Organization not found: ${line.organizationId}`
+      );
+    }
+
+    const cause = await Cause.findById(line.causeId);
+    if (!cause) {
+      throw new AppError(
+        httpStatus.NOT_FOUND,
+        `Cause not found: ${line.causeId}`
+      );
+    }
+    if (cause.organization.toString() !== line.organizationId) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Cause ${cause.name} does not belong to ${organization.name}`
+      );
+    }
+    if (cause.status !== CAUSE_STATUS_TYPE.VERIFIED) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Cause ${cause.name} is not accepting donations`
+      );
+    }
+  }
+
+  // The first line stays the primary charity; a single line is no split
+  const [primary] = payload.allocations;
+  roundUpConfig.organization = primary.organizationId;
+  roundUpConfig.cause = primary.causeId;
+  roundUpConfig.allocations =
+    payload.allocations.length > 1
+      ? payload.allocations.map((line) => ({
+          organization: line.organizationId,
+          cause: line.causeId,
+          percentage: line.percentage,
+        }))
+      : [];
+  roundUpConfig.lastCharitySwitch = new Date();
+  await roundUpConfig.save();
+
+  return await roundUpConfig.populate([
+    { path: 'allocations.organization', select: 'name logoImage' },
+    { path: 'allocations.cause', select: 'name category' },
+  ]);
+};
+
 const cancelRoundUp = async (
   userId: string,
   roundUpId: string,
@@ -633,6 +763,203 @@ const cancelRoundUp = async (
   return { success: true };
 };
 
+// Synced round-up records back in the shape the pipeline reads
+const toPlaidTransaction = (
+  record: IRoundUpTransaction,
+  accountIds: Map<string, string>
+): IPlaidTransaction => ({
+  transaction_id: record.transactionId,
+  amount: Math.abs(record.originalAmount),
+  iso_currency_code: record.currency,
+  date: new Date(record.transactionDate).toISOString(),
+  name: record.transactionName,
+  category: record.transactionCategory,
+  account_id: accountIds.get(String(record.bankConnection)) || '',
+  account_owner: '',
+  personal_finance_category: {
+    primary: record.transactionCategory[0],
+    detailed: record.transactionCategory[1],
+  },
+});
+
+const getSimulationHistory = async (
+  userId: string,
+  payload: SimulateRoundUpInput,
+  startDate: Date,
+  endDate: Date
+): Promise<IPlaidTransaction[]> => {
+  const { source, bankConnectionId } = payload;
+
+  // 1. Already-synced transactions (every status, including excluded)
+  if (source === SIMULATION_SOURCE.SYNCED) {
+    const bankConnections = await BankConnectionModel.find({ user: userId })
+      .select('accountId')
+      .lean();
+    const accountIds = new Map(
+      bankConnections.map((connection) => [
+        String(connection._id),
+        connection.accountId,
+      ])
+    );
+
+    const records = await RoundUpTransactionModel.find({
+      user: userId,
+      transactionDate: { $gte: startDate, $lte: endDate },
+      ...(bankConnectionId && { bankConnection: bankConnectionId }),
+    }).lean();
+
+    return records.map((record) => toPlaidTransaction(record, accountIds));
+  }
+
+  // 2. History fetched from the bank provider
+  const bankConnection = await bankConnectionService.getBankConnectionById(
+    bankConnectionId as string
+  );
+  if (
+    !bankConnection ||
+    !bankConnection.isActive ||
+    String(bankConnection.user) !== String(userId)
+  ) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Bank connection not found!');
+  }
+
+  return bankProviderService
+    .getBankProvider(bankConnection.provider)
+    .getTransactions(bankConnection, startDate, endDate);
+};
+
+/**
+ * Projects what a donor would give from their recent spending, e.g. before
+ * turning round-ups on. Replays the live rounding, exclusion and threshold
+ * rules without saving round-up transactions, donations, points or badges.
+ */
+const simulateRoundUps = async (
+  userId: string,
+  payload: SimulateRoundUpInput
+) => {
+  const endDate = new Date();
+  const startDate = new Date(endDate);
+  startDate.setDate(startDate.getDate() - payload.days);
+
+  // 1. Settings: what the donor is trying out, else their current round-up
+  const roundUpConfig = await RoundUpModel.findOne({
+    user: userId,
+    isActive: true,
+    ...(payload.bankConnectionId && {
+      bankConnection: payload.bankConnectionId,
+    }),
+  }).sort({ createdAt: -1 });
+
+  const settings = {
+    roundingBase:
+      payload.roundingBase ??
+      roundUpConfig?.roundingBase ??
+      DEFAULT_ROUNDING_BASE,
+    multiplier:
+      payload.multiplier ??
+      roundUpConfig?.multiplier ??
+      DEFAULT_ROUND_UP_MULTIPLIER,
+    monthlyThreshold:
+      payload.monthlyThreshold ??
+      roundUpConfig?.monthlyThreshold ??
+      ('no-limit' as const),
+  };
+
+  // 2. Replay the history month by month
+  const [transactions, exclusionRules] = await Promise.all([
+    getSimulationHistory(userId, payload, startDate, endDate),
+    RoundUpExclusionService.getActiveRules(userId),
+  ]);
+  const months = roundUpTransactionService.simulateRoundUps(
+    transactions,
+    settings,
+    exclusionRules
+  );
+
+  // 3. Each month's donation, split by allocation like the live charge
+  const lines = payload.causeId
+    ? [{ cause: payload.causeId, percentage: 100 }]
+    : roundUpConfig?.allocations?.length
+      ? roundUpConfig.allocations
+      : roundUpConfig
+        ? [{ cause: roundUpConfig.cause, percentage: 100 }]
+        : [];
+
+  const causes = await Cause.find({
+    _id: { $in: lines.map((line) => line.cause) },
+  })
+    .select('category')
+    .lean();
+  const categoryOf = (causeId: unknown) =>
+    causes.find((cause) => String(cause._id) === String(causeId))?.category;
+
+  const donations: IPreviewDonation[] = [];
+  const projectedMonths = months.map((month) => {
+    const monthLines = lines.length ? lines : [{ percentage: 100 }];
+    let allocated = 0;
+    let points = 0;
+
+    monthLines.forEach((line, index) => {
+      // The last line takes the rounding remainder
+      const amount =
+        index === monthLines.length - 1
+          ? Number((month.total - allocated).toFixed(2))
+          : Number(((month.total * line.percentage) / 100).toFixed(2));
+      allocated += amount;
+      if (amount <= 0) return;
+
+      const category = 'cause' in line ? categoryOf(line.cause) : undefined;
+      points += Math.floor(amount * POINTS_PER_DOLLAR);
+      donations.push({
+        amount,
+        donationDate: month.donationDate,
+        donationType: 'round-up',
+        cause: category ? { category } : undefined,
+      });
+    });
+
+    return { ...month, points };
+  });
+
+  // 4. Badges unlocked along the way, against the donor's current progress
+  const client = await Client.findOne({ auth: userId }).select('_id');
+  const badges = await badgeService.previewBadgesForDonations(
+    client ? String(client._id) : null,
+    donations
+  );
+
+  // 5. Totals and the monthly average behind "about $38/month"
+  const sum = (field: 'roundUps' | 'excluded' | 'overLimit' | 'points') =>
+    projectedMonths.reduce((total, month) => total + month[field], 0);
+  const totalAmount = Number(
+    projectedMonths.reduce((total, month) => total + month.total, 0).toFixed(2)
+  );
+  const averageMonthlyAmount = Number(
+    ((totalAmount / payload.days) * (365 / 12)).toFixed(2)
+  );
+
+  return {
+    source: payload.source,
+    startDate,
+    endDate,
+    days: payload.days,
+    settings,
+    months: projectedMonths,
+    totals: {
+      transactions: transactions.length,
+      roundUps: sum('roundUps'),
+      excluded: sum('excluded'),
+      overLimit: sum('overLimit'),
+      amount: totalAmount,
+      points: sum('points'),
+      donations: donations.length,
+    },
+    averageMonthlyAmount,
+    averageMonthlyPoints: Math.floor(averageMonthlyAmount * POINTS_PER_DOLLAR),
+    badges,
+  };
+};
+
 export const roundUpService = {
   savePlaidConsent,
   revokeConsent,
@@ -641,6 +968,8 @@ export const roundUpService = {
   switchCharity,
   getUserDashboard,
   updateRoundUp,
+  updateAllocations,
   cancelRoundUp,
   getActiveRoundup,
+  simulateRoundUps,
 };
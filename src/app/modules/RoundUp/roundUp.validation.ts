@@ -1,10 +1,34 @@
 import { z } from 'zod';
+import {
+  ALLOCATION_TOTAL_PERCENT,
+  DEFAULT_SIMULATION_DAYS,
+  MAX_ROUND_UP_ALLOCATIONS,
+  MAX_SIMULATION_DAYS,
+  ROUND_UP_MULTIPLIER_OPTIONS,
+  ROUNDING_BASE_OPTIONS,
+  SIMULATION_SOURCE,
+} from './roundUp.constant';
 
 export const monthlyThresholdSchema = z.union([
   z.literal('no-limit'),
   z.number().min(3, 'Threshold amount must be at least $3'),
 ]);
 
+export const roundingBaseSchema = z
+  .number()
+  .refine(
+    (value) => (ROUNDING_BASE_OPTIONS as readonly number[]).includes(value),
+    `Rounding base must be one of ${ROUNDING_BASE_OPTIONS.join(', ')}`
+  );
+
+export const multiplierSchema = z
+  .number()
+  .refine(
+    (value) =>
+      (ROUND_UP_MULTIPLIER_OPTIONS as readonly number[]).includes(value),
+    `Multiplier must be one of ${ROUND_UP_MULTIPLIER_OPTIONS.join(', ')}`
+  );
+
 // 1. Save Plaid Consent & Create RoundUp Schema
 export const savePlaidConsentValidation = z.object({
   body: z.object({
@@ -12,6 +36,8 @@ export const savePlaidConsentValidation = z.object({
     organizationId: z.string().min(1, 'Organization ID is required'),
     causeId: z.string().min(1, 'Cause ID is required'),
     monthlyThreshold: monthlyThresholdSchema,
+    roundingBase: roundingBaseSchema.optional(),
+    multiplier: multiplierSchema.optional(),
 
     // ✅ NEW: Fee preference (Default false for RoundUp)
     coverFees: z.boolean().optional().default(false),
@@ -79,6 +105,8 @@ export const updateRoundUpSchema = z.object({
   }),
   body: z.object({
     monthlyThreshold: monthlyThresholdSchema.optional(),
+    roundingBase: roundingBaseSchema.optional(),
+    multiplier: multiplierSchema.optional(),
     specialMessage: z
       .string()
       .max(250, 'Special message must not exceed 250 characters')
@@ -86,6 +114,80 @@ export const updateRoundUpSchema = z.object({
   }),
 });
 
+export const allocationsSchema = z
+  .array(
+    z.object({
+      organizationId: z.string().min(1, 'Organization ID is required'),
+      causeId: z.string().min(1, 'Cause ID is required'),
+      percentage: z
+        .number()
+        .int('Percentage must be a whole number')
+        .min(1, 'Percentage must be at least 1')
+        .max(ALLOCATION_TOTAL_PERCENT, 'Percentage cannot exceed 100'),
+    })
+  )
+  .min(1, 'At least one allocation is required')
+  .max(
+    MAX_ROUND_UP_ALLOCATIONS,
+    `Round-ups can be split across at most ${MAX_ROUND_UP_ALLOCATIONS} charities`
+  )
+  .refine(
+    (lines) =>
+      lines.reduce((sum, line) => sum + line.percentage, 0) ===
+      ALLOCATION_TOTAL_PERCENT,
+    'Allocation percentages must add up to 100'
+  )
+  .refine(
+    (lines) => new Set(lines.map((line) => line.causeId)).size === lines.length,
+    'Each cause can only appear once'
+  );
+
+export const updateAllocationsSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'RoundUp ID is required'),
+  }),
+  body: z.object({
+    allocations: allocationsSchema,
+  }),
+});
+
+// Settings default to the donor's current round-up, if they have one
+export const simulateRoundUpSchema = z.object({
+  body: z
+    .object({
+      source: z
+        .enum([SIMULATION_SOURCE.SYNCED, SIMULATION_SOURCE.PROVIDER])
+        .optional()
+        .default(SIMULATION_SOURCE.SYNCED),
+      bankConnectionId: z
+        .string()
+        .min(1, 'Bank connection ID is required')
+        .optional(),
+      days: z
+        .number()
+        .int('Days must be a whole number')
+        .min(7, 'Simulate at least 7 days')
+        .max(
+          MAX_SIMULATION_DAYS,
+          `Simulate at most ${MAX_SIMULATION_DAYS} days`
+        )
+        .optional()
+        .default(DEFAULT_SIMULATION_DAYS),
+      monthlyThreshold: monthlyThresholdSchema.optional(),
+      roundingBase: roundingBaseSchema.optional(),
+      multiplier: multiplierSchema.optional(),
+      causeId: z.string().min(1, 'Cause ID is required').optional(),
+    })
+    .refine(
+      (data) =>
+        data.source !== SIMULATION_SOURCE.PROVIDER || !!data.bankConnectionId,
+      {
+        message: 'Bank connection ID is required to fetch bank history',
+        path: ['bankConnectionId'],
+      }
+    ),
+});
+
 export const cancelRoundUpSchema = z.object({
   params: z.object({
     id: z.string().min(1, 'RoundUp ID is required'),
@@ -98,6 +200,13 @@ export const cancelRoundUpSchema = z.object({
 export type SavePlaidConsentInput = z.infer<
   typeof savePlaidConsentValidation
 >['body'];
+export type UpdateRoundUpInput = z.infer<typeof updateRoundUpSchema>['body'];
+export type UpdateAllocationsInput = z.infer<
+  typeof updateAllocationsSchema
+>['body'];
+export type SimulateRoundUpInput = z.infer<
+  typeof simulateRoundUpSchema
+>['body'];
 export type ProcessMonthlyDonationInput = z.infer<
   typeof processMonthlyDonationValidation
 >['body'];
@@ -66,6 +66,32 @@ const updateRoundUp = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const updateAllocations = catchAsync(async (req: Request, res: Response) => {
+  const userId = req.user._id?.toString();
+  const result = await roundUpService.updateAllocations(
+    userId,
+    req.params.id.toString(),
+    req.body
+  );
+
+  return sendResponse(res, 200, {
+    success: true,
+    message: 'Round-up allocations updated successfully',
+    data: result,
+  });
+});
+
+const simulateRoundUps = catchAsync(async (req: Request, res: Response) => {
+  const userId = req.user._id?.toString();
+  const result = await roundUpService.simulateRoundUps(userId, req.body);
+
+  return sendResponse(res, 200, {
+    success: true,
+    message: 'Round-up simulation completed successfully',
+    data: result,
+  });
+});
+
 const cancelRoundUp = catchAsync(async (req: Request, res: Response) => {
   const userId = req.user._id?.toString();
   const { id } = req.params;
@@ -161,6 +187,8 @@ export const roundUpController = {
   switchCharity,
   getUserDashboard,
   updateRoundUp,
+  updateAllocations,
+  simulateRoundUps,
   cancelRoundUp,
   getActiveRoundup,
 };
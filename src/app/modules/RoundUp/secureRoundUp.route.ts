@@ -10,6 +10,8 @@ import {
   resumeRoundUpValidation,
   testRoundUpProcessingCronValidation,
   updateRoundUpSchema,
+  updateAllocationsSchema,
+  simulateRoundUpSchema,
   cancelRoundUpSchema,
 } from './roundUp.validation';
 import { roundUpController } from './secureRoundUp.controller';
@@ -62,6 +64,14 @@ router.post(
 // Get user dashboard
 router.get('/dashboard', auth(ROLE.CLIENT), roundUpController.getUserDashboard);
 
+// Project round-ups from past spending (nothing is saved)
+router.post(
+  '/simulate',
+  auth(ROLE.CLIENT),
+  validateRequest(simulateRoundUpSchema),
+  roundUpController.simulateRoundUps
+);
+
 router.get(
   '/get-by-user',
   auth(ROLE.CLIENT),
@@ -76,6 +86,14 @@ router.patch(
   roundUpController.updateRoundUp
 );
 
+// Split round-ups across charities by percentage
+router.put(
+  '/:id/allocations',
+  auth(ROLE.CLIENT),
+  validateRequest(updateAllocationsSchema),
+  roundUpController.updateAllocations
+);
+
 // Cancel the RoundUp
 router.post(
   '/:id/cancel',
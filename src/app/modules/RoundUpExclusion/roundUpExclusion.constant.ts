@@ -0,0 +1,33 @@
+export const EXCLUSION_RULE_TYPE = {
+  CATEGORY: 'category', // Plaid / Basiq transaction categories
+  MERCHANT: 'merchant', // Merchant or description text; * is a wildcard
+  AMOUNT: 'amount', // Purchase amount range, either end may be open
+  ACCOUNT: 'account', // One of the donor's bank accounts
+} as const;
+
+export const EXCLUSION_RULE_TYPE_VALUES = Object.values(EXCLUSION_RULE_TYPE);
+
+export const MAX_EXCLUSION_RULES = 50;
+
+// Created for every donor. They can be switched off but not deleted.
+export const DEFAULT_EXCLUSION_RULES = [
+  {
+    defaultKey: 'internal_transfers',
+    type: EXCLUSION_RULE_TYPE.CATEGORY,
+    label: 'Transfers between my own accounts',
+    categories: [
+      'TRANSFER_IN_ACCOUNT_TRANSFER',
+      'TRANSFER_OUT_ACCOUNT_TRANSFER',
+      'TRANSFER', // Basiq transaction class
+    ],
+  },
+  {
+    defaultKey: 'gambling',
+    type: EXCLUSION_RULE_TYPE.CATEGORY,
+    label: 'Gambling',
+    categories: [
+      'ENTERTAINMENT_CASINOS_AND_GAMBLING',
+      'GAMBLING ACTIVITIES', // Basiq (ANZSIC) sub-class
+    ],
+  },
+];
@@ -0,0 +1,81 @@
+import httpStatus from 'http-status';
+import { Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { RoundUpExclusionService } from './roundUpExclusion.service';
+
+const getUserId = (req: ExtendedRequest) => {
+  const userId = req.user?._id.toString();
+  if (!userId) {
+    throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+  }
+  return userId;
+};
+
+// 1. List the donor's exclusion rules
+const getRules = asyncHandler(async (req: ExtendedRequest, res: Response) => {
+  const result = await RoundUpExclusionService.getRules(getUserId(req));
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    message: 'Exclusion rules retrieved successfully',
+    data: result,
+  });
+});
+
+// 2. Create a rule
+const createRule = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const result = await RoundUpExclusionService.createRule(
+      getUserId(req),
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.CREATED,
+      message: 'Exclusion rule created successfully',
+      data: result,
+    });
+  }
+);
+
+// 3. Update a rule
+const updateRule = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const result = await RoundUpExclusionService.updateRule(
+      getUserId(req),
+      req.params.id.toString(),
+      req.body
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Exclusion rule updated successfully',
+      data: result,
+    });
+  }
+);
+
+// 4. Delete a rule
+const deleteRule = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    await RoundUpExclusionService.deleteRule(
+      getUserId(req),
+      req.params.id.toString()
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Exclusion rule deleted successfully',
+      data: null,
+    });
+  }
+);
+
+export const RoundUpExclusionController = {
+  getRules,
+  createRule,
+  updateRule,
+  deleteRule,
+};
@@ -0,0 +1,34 @@
+import { Document, Types } from 'mongoose';
+import { EXCLUSION_RULE_TYPE } from './roundUpExclusion.constant';
+
+export type TExclusionRuleType =
+  (typeof EXCLUSION_RULE_TYPE)[keyof typeof EXCLUSION_RULE_TYPE];
+
+export interface IRoundUpExclusionRule {
+  user: Types.ObjectId;
+  type: TExclusionRuleType;
+  label: string;
+
+  // Only the fields for the rule's type are set
+  categories: string[]; // Upper-case category codes
+  merchantPattern?: string;
+  minAmount?: number; // Inclusive
+  maxAmount?: number; // Inclusive
+  accountId?: string; // Provider account ID
+
+  defaultKey?: string; // Set on the built-in rules
+  isActive: boolean;
+}
+
+export interface IRoundUpExclusionRuleModel
+  extends IRoundUpExclusionRule,
+    Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Why a synced purchase was not rounded up
+export interface IExclusionMatch {
+  rule: Types.ObjectId;
+  reason: string;
+}
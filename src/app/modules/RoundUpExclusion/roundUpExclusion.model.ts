@@ -0,0 +1,72 @@
+import { Schema, model } from 'mongoose';
+import { IRoundUpExclusionRuleModel } from './roundUpExclusion.interface';
+import { EXCLUSION_RULE_TYPE_VALUES } from './roundUpExclusion.constant';
+
+const roundUpExclusionRuleSchema = new Schema<IRoundUpExclusionRuleModel>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: EXCLUSION_RULE_TYPE_VALUES,
+      required: true,
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+
+    categories: {
+      type: [String],
+      default: [],
+      set: (values: string[]) =>
+        values.map((value) => value.trim().toUpperCase()),
+    },
+    merchantPattern: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    minAmount: {
+      type: Number,
+      min: 0,
+    },
+    maxAmount: {
+      type: Number,
+      min: 0,
+    },
+    accountId: {
+      type: String,
+      trim: true,
+    },
+
+    defaultKey: {
+      type: String,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: true,
+  }
+);
+
+// One copy of each built-in rule per donor
+roundUpExclusionRuleSchema.index(
+  { user: 1, defaultKey: 1 },
+  { unique: true, partialFilterExpression: { defaultKey: { $exists: true } } }
+);
+
+export const RoundUpExclusionRule = model<IRoundUpExclusionRuleModel>(
+  'RoundUpExclusionRule',
+  roundUpExclusionRuleSchema
+);
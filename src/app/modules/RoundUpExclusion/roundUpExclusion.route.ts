@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { RoundUpExclusionController } from './roundUpExclusion.controller';
+import { RoundUpExclusionValidation } from './roundUpExclusion.validation';
+
+const router = Router();
+
+// 1. List exclusion rules (built-in rules are added on first read)
+router.get('/', auth(ROLE.CLIENT), RoundUpExclusionController.getRules);
+
+// 2. Create a category, merchant, amount or account rule
+router.post(
+  '/',
+  auth(ROLE.CLIENT),
+  validateRequest(RoundUpExclusionValidation.createRuleSchema),
+  RoundUpExclusionController.createRule
+);
+
+// 3. Update a rule (built-in rules can only be switched on or off)
+router.patch(
+  '/:id',
+  auth(ROLE.CLIENT),
+  validateRequest(RoundUpExclusionValidation.updateRuleSchema),
+  RoundUpExclusionController.updateRule
+);
+
+// 4. Delete a custom rule
+router.delete(
+  '/:id',
+  auth(ROLE.CLIENT),
+  validateRequest(RoundUpExclusionValidation.ruleIdSchema),
+  RoundUpExclusionController.deleteRule
+);
+
+export const RoundUpExclusionRoutes = router;
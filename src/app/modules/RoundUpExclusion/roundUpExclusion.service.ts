@@ -0,0 +1,272 @@
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+
+import { AppError } from '../../utils';
+import { IPlaidTransaction } from '../BankConnection/bankConnection.interface';
+import { RoundUpExclusionRule } from './roundUpExclusion.model';
+import {
+  IExclusionMatch,
+  IRoundUpExclusionRuleModel,
+} from './roundUpExclusion.interface';
+import {
+  DEFAULT_EXCLUSION_RULES,
+  EXCLUSION_RULE_TYPE,
+  MAX_EXCLUSION_RULES,
+} from './roundUpExclusion.constant';
+import {
+  TCreateExclusionRulePayload,
+  TUpdateExclusionRulePayload,
+} from './roundUpExclusion.validation';
+
+// Fields each rule type may set; the rest stay empty
+const RULE_FIELDS = {
+  [EXCLUSION_RULE_TYPE.CATEGORY]: ['categories'],
+  [EXCLUSION_RULE_TYPE.MERCHANT]: ['merchantPattern'],
+  [EXCLUSION_RULE_TYPE.AMOUNT]: ['minAmount', 'maxAmount'],
+  [EXCLUSION_RULE_TYPE.ACCOUNT]: ['accountId'],
+} as const;
+
+// 'uber*eats' matches "UBER   EATS SYDNEY"; everything else is literal
+const toMerchantRegex = (pattern: string) =>
+  new RegExp(
+    pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*'),
+    'i'
+  );
+
+const formatAmountRange = (minAmount?: number, maxAmount?: number) => {
+  if (minAmount !== undefined && maxAmount !== undefined) {
+    return `$${minAmount.toFixed(2)}–$${maxAmount.toFixed(2)}`;
+  }
+  if (minAmount !== undefined) return `$${minAmount.toFixed(2)} or more`;
+  return `$${(maxAmount as number).toFixed(2)} or less`;
+};
+
+const transactionCategories = (transaction: IPlaidTransaction) =>
+  [
+    transaction.personal_finance_category?.primary,
+    transaction.personal_finance_category?.detailed,
+    ...(transaction.category || []),
+  ]
+    .filter((category): category is string => Boolean(category))
+    .map((category) => category.trim().toUpperCase());
+
+/**
+ * First active rule that excludes the purchase, with a reason the donor
+ * can read. Returns null when the purchase should be rounded up.
+ */
+const findExclusion = (
+  rules: IRoundUpExclusionRuleModel[],
+  transaction: IPlaidTransaction
+): IExclusionMatch | null => {
+  const amount = Math.abs(transaction.amount);
+  const merchant = transaction.merchant_name || transaction.name || '';
+
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+
+    switch (rule.type) {
+      case EXCLUSION_RULE_TYPE.CATEGORY: {
+        const category = transactionCategories(transaction).find((value) =>
+          rule.categories.includes(value)
+        );
+        if (category) {
+          return {
+            rule: rule._id as Types.ObjectId,
+            reason: `${rule.label}: category ${category}`,
+          };
+        }
+        break;
+      }
+
+      case EXCLUSION_RULE_TYPE.MERCHANT: {
+        if (
+          rule.merchantPattern &&
+          toMerchantRegex(rule.merchantPattern).test(merchant)
+        ) {
+          return {
+            rule: rule._id as Types.ObjectId,
+            reason: `${rule.label}: merchant "${merchant}" matches "${rule.merchantPattern}"`,
+          };
+        }
+        break;
+      }
+
+      case EXCLUSION_RULE_TYPE.AMOUNT: {
+        const aboveMin =
+          rule.minAmount === undefined || amount >= rule.minAmount;
+        const belowMax =
+          rule.maxAmount === undefined || amount <= rule.maxAmount;
+        if (aboveMin && belowMax) {
+          return {
+            rule: rule._id as Types.ObjectId,
+            reason: `${rule.label}: amount $${amount.toFixed(2)} (${formatAmountRange(rule.minAmount, rule.maxAmount)})`,
+          };
+        }
+        break;
+      }
+
+      case EXCLUSION_RULE_TYPE.ACCOUNT: {
+        if (rule.accountId && rule.accountId === transaction.account_id) {
+          return {
+            rule: rule._id as Types.ObjectId,
+            reason: `${rule.label}: excluded account`,
+          };
+        }
+        break;
+      }
+    }
+  }
+
+  return null;
+};
+
+// Adds any built-in rules the donor doesn't have yet
+const ensureDefaultRules = async (userId: string) => {
+  await RoundUpExclusionRule.bulkWrite(
+    DEFAULT_EXCLUSION_RULES.map((rule) => ({
+      updateOne: {
+        filter: {
+          user: new Types.ObjectId(userId),
+          defaultKey: rule.defaultKey,
+        },
+        update: { $setOnInsert: { ...rule, isActive: true } },
+        upsert: true,
+      },
+    }))
+  );
+};
+
+// 1. Donor's rules, built-in ones first
+const getRules = async (userId: string) => {
+  await ensureDefaultRules(userId);
+
+  return RoundUpExclusionRule.find({ user: userId })
+    .sort({ defaultKey: -1, createdAt: 1 })
+    .lean();
+};
+
+// 2. Active rules applied while syncing transactions
+const getActiveRules = async (userId: string) => {
+  await ensureDefaultRules(userId);
+
+  return RoundUpExclusionRule.find({ user: userId, isActive: true }).sort({
+    defaultKey: -1,
+    createdAt: 1,
+  });
+};
+
+// 3. Create a rule
+const createRule = async (
+  userId: string,
+  payload: TCreateExclusionRulePayload
+) => {
+  const count = await RoundUpExclusionRule.countDocuments({ user: userId });
+  if (count >= MAX_EXCLUSION_RULES) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `You can have at most ${MAX_EXCLUSION_RULES} exclusion rules!`
+    );
+  }
+
+  return RoundUpExclusionRule.create({ ...payload, user: userId });
+};
+
+const getOwnRule = async (userId: string, ruleId: string) => {
+  if (!Types.ObjectId.isValid(ruleId)) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Invalid rule ID!');
+  }
+
+  const rule = await RoundUpExclusionRule.findOne({
+    _id: ruleId,
+    user: userId,
+  });
+  if (!rule) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Exclusion rule not found!');
+  }
+  return rule;
+};
+
+// 4. Update a rule; built-in rules can only be switched on or off
+const updateRule = async (
+  userId: string,
+  ruleId: string,
+  payload: TUpdateExclusionRulePayload
+) => {
+  const rule = await getOwnRule(userId, ruleId);
+  const { isActive, label, ...condition } = payload;
+
+  if (
+    rule.defaultKey &&
+    (label !== undefined || Object.keys(condition).length)
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Built-in rules can only be switched on or off!'
+    );
+  }
+
+  const allowedFields: readonly string[] = RULE_FIELDS[rule.type];
+  const invalidField = Object.keys(condition).find(
+    (field) => !allowedFields.includes(field)
+  );
+  if (invalidField) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `${invalidField} cannot be set on a ${rule.type} rule!`
+    );
+  }
+
+  if (isActive !== undefined) rule.isActive = isActive;
+  if (label !== undefined) rule.label = label;
+  for (const [field, value] of Object.entries(condition)) {
+    rule.set(field, value === null ? undefined : value);
+  }
+
+  if (rule.type === EXCLUSION_RULE_TYPE.AMOUNT) {
+    if (rule.minAmount === undefined && rule.maxAmount === undefined) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'A minimum or maximum amount is required!'
+      );
+    }
+    if (
+      rule.minAmount !== undefined &&
+      rule.maxAmount !== undefined &&
+      rule.minAmount > rule.maxAmount
+    ) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'Minimum amount cannot be greater than the maximum amount!'
+      );
+    }
+  }
+
+  await rule.save();
+  return rule;
+};
+
+// 5. Delete a rule
+const deleteRule = async (userId: string, ruleId: string) => {
+  const rule = await getOwnRule(userId, ruleId);
+
+  if (rule.defaultKey) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Built-in rules cannot be deleted. Switch them off instead!'
+    );
+  }
+
+  await rule.deleteOne();
+};
+
+export const RoundUpExclusionService = {
+  getRules,
+  getActiveRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  findExclusion,
+};
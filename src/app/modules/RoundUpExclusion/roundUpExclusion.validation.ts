@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { EXCLUSION_RULE_TYPE } from './roundUpExclusion.constant';
+
+const labelSchema = z
+  .string()
+  .trim()
+  .min(1, { message: 'Label is required!' })
+  .max(100, { message: 'Label must be less than 100 characters!' });
+
+const categoriesSchema = z
+  .array(z.string().trim().min(1, { message: 'Category cannot be empty!' }))
+  .min(1, { message: 'At least one category is required!' })
+  .max(20, { message: 'A rule can list at most 20 categories!' });
+
+const merchantPatternSchema = z
+  .string()
+  .trim()
+  .min(2, { message: 'Merchant pattern must be at least 2 characters!' })
+  .max(100, { message: 'Merchant pattern must be less than 100 characters!' })
+  .refine((value) => value.replace(/\*/g, '').trim().length > 0, {
+    message: 'Merchant pattern cannot be only wildcards!',
+  });
+
+const amountSchema = z
+  .number()
+  .min(0, { message: 'Amount cannot be negative!' });
+
+const accountIdSchema = z
+  .string()
+  .trim()
+  .min(1, { message: 'Account ID is required!' });
+
+// 1. Create a rule; each type carries its own condition
+const createRuleSchema = z.object({
+  body: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal(EXCLUSION_RULE_TYPE.CATEGORY),
+      label: labelSchema,
+      categories: categoriesSchema,
+    }),
+    z.object({
+      type: z.literal(EXCLUSION_RULE_TYPE.MERCHANT),
+      label: labelSchema,
+      merchantPattern: merchantPatternSchema,
+    }),
+    z
+      .object({
+        type: z.literal(EXCLUSION_RULE_TYPE.AMOUNT),
+        label: labelSchema,
+        minAmount: amountSchema.optional(),
+        maxAmount: amountSchema.optional(),
+      })
+      .refine(
+        (data) => data.minAmount !== undefined || data.maxAmount !== undefined,
+        {
+          message: 'A minimum or maximum amount is required!',
+          path: ['minAmount'],
+        }
+      )
+      .refine(
+        (data) =>
+          data.minAmount === undefined ||
+          data.maxAmount === undefined ||
+          data.minAmount <= data.maxAmount,
+        {
+          message: 'Minimum amount cannot be greater than the maximum amount!',
+          path: ['maxAmount'],
+        }
+      ),
+    z.object({
+      type: z.literal(EXCLUSION_RULE_TYPE.ACCOUNT),
+      label: labelSchema,
+      accountId: accountIdSchema,
+    }),
+  ]),
+});
+
+// 2. Update a rule (its type cannot change)
+const updateRuleSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, { message: 'Rule ID is required!' }),
+  }),
+  body: z
+    .object({
+      label: labelSchema.optional(),
+      categories: categoriesSchema.optional(),
+      merchantPattern: merchantPatternSchema.optional(),
+      minAmount: amountSchema.nullable().optional(), // null = open-ended
+      maxAmount: amountSchema.nullable().optional(),
+      accountId: accountIdSchema.optional(),
+      isActive: z.boolean().optional(),
+    })
+    .strict(),
+});
+
+const ruleIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, { message: 'Rule ID is required!' }),
+  }),
+});
+
+export const RoundUpExclusionValidation = {
+  createRuleSchema,
+  updateRuleSchema,
+  ruleIdSchema,
+};
+
+export type TCreateExclusionRulePayload = z.infer<
+  typeof createRuleSchema
+>['body'];
+export type TUpdateExclusionRulePayload = z.infer<
+  typeof updateRuleSchema
+>['body'];
@@ -108,6 +108,22 @@ const getTransactionDetails = catchAsync(
   }
 );
 
+// Round up a purchase that an exclusion rule skipped
+const includeTransaction = catchAsync(async (req: Request, res: Response) => {
+  const userId = req.user.id;
+
+  const transaction = await roundUpTransactionService.includeTransaction(
+    userId,
+    req.params.transactionId.toString()
+  );
+
+  return sendResponse(res, 200, {
+    success: true,
+    message: 'Transaction included in round-ups successfully',
+    data: transaction,
+  });
+});
+
 // Get eligible transactions for admin (date range analysis)
 const getEligibleTransactions = catchAsync(
   async (req: Request, res: Response) => {
@@ -182,6 +198,7 @@ export const roundUpTransactionController = {
   getTransactionSummary,
   getTransactions,
   getTransactionDetails,
+  includeTransaction,
   getEligibleTransactions,
   getProcessingTransactions,
   retryFailedTransactions,
@@ -1,3 +1,16 @@
+// How a round-up splits between the plain next-dollar amount and what the
+// donor's rounding base and multiplier added on top
+export interface IRoundUpBreakdown {
+  standard: number;
+  roundingExtra: number;
+  multiplierExtra: number;
+}
+
+export interface IRoundUpRoundingOptions {
+  roundingBase?: number;
+  multiplier?: number;
+}
+
 export interface IRoundUpTransaction {
   user: string; // Reference to Client
   bankConnection: string; // Reference to BankConnection
@@ -5,12 +18,26 @@ export interface IRoundUpTransaction {
   transactionId: string; // Plaid transaction ID for deduplication
   originalAmount: number;
   roundUpAmount: number;
-  currency: string; // Will be "USD" for Plaid US
+  roundingBase?: number; // Settings in effect when the round-up was made
+  multiplier?: number;
+  breakdown?: IRoundUpBreakdown;
+  currency: string; // Bank transaction currency (original)
+  settlementCurrency?: string; // Organization's settlement currency
+  exchangeRate?: number; // FX table rate: 1 unit of currency in settlement
   organization: string; // Reference to Organization
   transactionDate: Date;
   transactionName: string;
   transactionCategory: string[];
-  status: 'pending' | 'processed' | 'processing' | 'donated' | 'failed';
+  status:
+    | 'pending'
+    | 'processed'
+    | 'processing'
+    | 'donated'
+    | 'failed'
+    | 'excluded'; // Skipped by an exclusion rule, no round-up collected
+  exclusionRule?: string; // Reference to RoundUpExclusionRule
+  exclusionReason?: string;
+  reincludedAt?: Date; // Donor overrode the exclusion
   donation?: string; // Reference to main Donation record
   
   // Webhook-based payment fields
@@ -28,6 +55,7 @@ export interface IRoundUpTransaction {
 export interface ITransactionProcessingResult {
   processed: number;
   skipped: number;
+  excluded: number;
   failed: number;
   roundUpsCreated: IRoundUpTransaction[];
   thresholdReached?: {
@@ -37,6 +65,18 @@ export interface ITransactionProcessingResult {
   };
 }
 
+// One calendar month of a round-up simulation (nothing is saved)
+export interface IRoundUpSimulationMonth {
+  month: string; // Format: "2024-01"
+  roundUps: number; // Purchases that would be rounded up
+  excluded: number; // Skipped by the donor's exclusion rules
+  overLimit: number; // Skipped because of the monthly threshold
+  total: number;
+  breakdown: IRoundUpBreakdown;
+  thresholdReached: boolean;
+  donationDate: Date; // Threshold date, else the month-end run
+}
+
 export interface ITransactionFilter {
   user?: string;
   bankConnection?: string;
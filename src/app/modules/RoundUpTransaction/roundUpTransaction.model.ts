@@ -1,6 +1,10 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import { IRoundUpTransaction } from './roundUpTransaction.interface';
+import {
+  IRoundUpRoundingOptions,
+  IRoundUpTransaction,
+} from './roundUpTransaction.interface';
 import { IPlaidTransaction } from '../BankConnection/bankConnection.interface';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
 
 export interface IRoundUpTransactionDocument
   extends IRoundUpTransaction,
@@ -11,7 +15,10 @@ export interface IRoundUpTransactionModel
   existsTransaction(
     transactionId: string
   ): Promise<IRoundUpTransactionDocument | null>;
-  calculateRoundUpAmount(amount: number): number;
+  calculateRoundUpAmount(
+    amount: number,
+    options?: IRoundUpRoundingOptions
+  ): number;
   isTransactionEligible(transaction: IPlaidTransaction): boolean;
 }
 
@@ -75,10 +82,32 @@ const RoundUpTransactionSchema = new Schema(
       required: true,
       min: 0.01, // Minimum round-up amount
     },
+    roundingBase: {
+      type: Number,
+      default: 1,
+    },
+    multiplier: {
+      type: Number,
+      default: 1,
+    },
+    breakdown: {
+      standard: { type: Number, min: 0 },
+      roundingExtra: { type: Number, min: 0 },
+      multiplierExtra: { type: Number, min: 0 },
+    },
     currency: {
       type: String,
       required: true,
-      default: 'USD',
+      default: DEFAULT_CURRENCY,
+    },
+    settlementCurrency: {
+      type: String,
+      default: DEFAULT_CURRENCY,
+    },
+    exchangeRate: {
+      type: Number,
+      default: 1,
+      min: 0,
     },
     organization: {
       type: Schema.Types.ObjectId,
@@ -101,10 +130,28 @@ const RoundUpTransactionSchema = new Schema(
     },
     status: {
       type: String,
-      enum: ['pending', 'processed', 'processing', 'donated', 'failed'],
+      enum: [
+        'pending',
+        'processed',
+        'processing',
+        'donated',
+        'failed',
+        'excluded',
+      ],
       default: 'processed',
       index: true,
     },
+    // Set when a donor's exclusion rule skipped the round-up
+    exclusionRule: {
+      type: Schema.Types.ObjectId,
+      ref: 'RoundUpExclusionRule',
+    },
+    exclusionReason: {
+      type: String,
+    },
+    reincludedAt: {
+      type: Date,
+    },
     donation: {
       type: Schema.Types.ObjectId,
       ref: 'Donation',
@@ -165,16 +212,20 @@ RoundUpTransactionSchema.statics.existsTransaction = function (
 
 // Static method to calculate round-up amount
 RoundUpTransactionSchema.statics.calculateRoundUpAmount = function (
-  amount: number
+  amount: number,
+  options: IRoundUpRoundingOptions = {}
 ): number {
-  // Calculate round-up: ceil(abs(amount)) - abs(amount)
-  // Example: $4.60 -> $0.40, $20.00 -> $0.00 (skip if exact dollar)
-  const absAmount = Math.abs(amount);
-  const roundedUp = Math.ceil(absAmount);
-  const roundUpAmount = roundedUp - absAmount;
-
-  // Return the rounded amount to two decimal places to avoid floating point issues
-  return parseFloat(roundUpAmount.toFixed(2));
+  const { roundingBase = 1, multiplier = 1 } = options;
+
+  // Round up to the next multiple of the base, then apply the multiplier
+  // Example: $4.60 -> $0.40 (base $1), $5.40 (base $10), $0.80 (base $1, 2x)
+  // Exact multiples round up by $0.00 and are skipped
+  // Work in cents so bases like $5 don't pick up floating point drift
+  const cents = Math.round(Math.abs(amount) * 100);
+  const baseCents = roundingBase * 100;
+  const roundUpCents = Math.ceil(cents / baseCents) * baseCents - cents;
+
+  return parseFloat(((roundUpCents * multiplier) / 100).toFixed(2));
 };
 
 // Static method to check if transaction is eligible
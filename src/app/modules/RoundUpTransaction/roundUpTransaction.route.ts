@@ -38,6 +38,14 @@ router.get(
   roundUpTransactionController.getTransactionDetails
 );
 
+// Round up a purchase that an exclusion rule skipped
+router.post(
+  '/:transactionId/include',
+  auth(ROLE.CLIENT),
+  validateRequest(transactionIdParamValidation),
+  roundUpTransactionController.includeTransaction
+);
+
 // ADMIN ENDPOINTS (ADMIN role required)
 
 // Get eligible transactions for admin analysis
@@ -70,6 +78,7 @@ router.post(
  * - GET /summary - Get user's RoundUp transaction summary
  * - GET / - Get user transactions with filtering and pagination
  * - GET /:transactionId - Get specific transaction details
+ * - POST /:transactionId/include - Round up a purchase an exclusion rule skipped
  * 
  * ADMIN ENDPOINTS (ADMIN role required):
  * - GET /admin/eligible - Get eligible transactions for date range analysis
@@ -84,7 +93,7 @@ router.post(
  * - Auth middleware verifies token, user exists, OTP verification, password security
  * 
  * QUERY PARAMETERS:
- * - status: pending, processed, processing, donated, failed
+ * - status: pending, processed, processing, donated, failed, excluded
  * - bankConnection: Filter by bank connection
  * - organization: Filter by charity/organization
  * - startDate/endDate: Date range filtering
@@ -2,19 +2,33 @@
 import mongoose, { Types } from 'mongoose';
 import httpStatus from 'http-status';
 
-import { RoundUpTransactionModel } from './roundUpTransaction.model';
+import {
+  IRoundUpTransactionDocument,
+  RoundUpTransactionModel,
+} from './roundUpTransaction.model';
 import { RoundUpModel, IRoundUpDocument } from '../RoundUp/roundUp.model';
+import { IRoundUpAllocation } from '../RoundUp/roundUp.interface';
 import {
   IRoundUpTransaction,
   ITransactionProcessingResult,
   IEligibleTransactions,
   ITransactionFilter,
+  IRoundUpRoundingOptions,
+  IRoundUpSimulationMonth,
 } from './roundUpTransaction.interface';
 import { IPlaidTransaction } from '../BankConnection/bankConnection.interface';
 
 import { StripeService } from '../Stripe/stripe.service';
 import { Donation } from '../Donation/donation.model';
-import { calculateAustralianFees } from '../Donation/donation.constant';
+import {
+  calculateBasketFees,
+  DEFAULT_CURRENCY,
+} from '../Donation/donation.constant';
+import { FxRateService } from '../FxRate/fxRate.service';
+import { ICurrencySnapshot } from '../FxRate/fxRate.interface';
+import { FeeScheduleService } from '../FeeSchedule/feeSchedule.service';
+import { RoundUpExclusionService } from '../RoundUpExclusion/roundUpExclusion.service';
+import { IRoundUpExclusionRuleModel } from '../RoundUpExclusion/roundUpExclusion.interface';
 
 import Cause from '../Causes/causes.model';
 import { CAUSE_STATUS_TYPE } from '../Causes/causes.constant';
@@ -26,6 +40,33 @@ import { StripeAccount } from '../OrganizationAccount/stripe-account.model';
 import { createNotification } from '../Notification/notification.service';
 import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
 
+// Round-up for a purchase under the donor's settings, split into the plain
+// next-dollar amount and what the rounding base and multiplier add
+const calculateRoundUp = (
+  amount: number,
+  roundUpConfig: IRoundUpRoundingOptions
+) => {
+  const { roundingBase, multiplier } = roundUpConfig;
+
+  const standard = RoundUpTransactionModel.calculateRoundUpAmount(amount);
+  const rounded = RoundUpTransactionModel.calculateRoundUpAmount(amount, {
+    roundingBase,
+  });
+  const roundUpAmount = RoundUpTransactionModel.calculateRoundUpAmount(
+    amount,
+    { roundingBase, multiplier }
+  );
+
+  return {
+    roundUpAmount,
+    breakdown: {
+      standard,
+      roundingExtra: Number((rounded - standard).toFixed(2)),
+      multiplierExtra: Number((roundUpAmount - rounded).toFixed(2)),
+    },
+  };
+};
+
 // Check and reset monthly total at the beginning of each month
 const checkAndResetMonthlyTotal = async (
   roundUpConfig: IRoundUpDocument
@@ -97,10 +138,57 @@ const triggerDonation = async (
 
     if (baseAmount <= 0) throw new Error('Invalid donation amount');
 
+    // Split across several charities: one charge, one donation per line
+    if (roundUpConfig.allocations?.length) {
+      let split;
+      try {
+        split = await createSplitRoundUpDonation({
+          roundUpId: String(roundUpConfig._id),
+          userId: String(roundUpConfig.user),
+          allocations: roundUpConfig.allocations,
+          coverFees: roundUpConfig.coverFees || false,
+          paymentMethodId: roundUpConfig.paymentMethod as string,
+          transactions: pendingTransactions,
+          specialMessage:
+            roundUpConfig.specialMessage ||
+            `Round-up donation for ${currentMonth}`,
+          month: currentMonth,
+          year: now.getFullYear(),
+        });
+      } catch (error) {
+        await roundUpConfig.markAsFailed(
+          error instanceof Error
+            ? error.message
+            : 'Payment intent creation failed'
+        );
+        throw error;
+      }
+
+      roundUpConfig.status = 'processing';
+      roundUpConfig.lastDonationAttempt = new Date();
+      roundUpConfig.currentMonthTotal = Math.max(
+        previousMonthTotal - baseAmount,
+        0
+      );
+      await roundUpConfig.save();
+
+      return {
+        paymentIntentId: split.paymentIntentId,
+        donationId: split.donationIds[0],
+      };
+    }
+
+    // Charged in the bank's currency, reported in the org's
+    const currencySnapshot = await FxRateService.buildCurrencySnapshot(
+      pendingTransactions[0].currency || DEFAULT_CURRENCY,
+      organization.settlementCurrency || DEFAULT_CURRENCY
+    );
+
     // 3.  Calculate Fees (Destination Charge Logic)
-    const financials = calculateAustralianFees(
+    const financials = await FeeScheduleService.calculateFees(
       baseAmount,
-      roundUpConfig.coverFees || false
+      roundUpConfig.coverFees || false,
+      { organizationId: organization._id, causeId: roundUpConfig.cause }
     );
 
     // Platform Fee + GST
@@ -138,9 +226,11 @@ const triggerDonation = async (
       stripeFee: financials.stripeFee,
       netAmount: financials.netToOrg,
       totalAmount: financials.totalCharge,
+      feeSchedule: financials.feeSchedule,
 
-      currency: 'USD',
+      ...currencySnapshot,
       status: 'pending',
+      isAnonymous: donor.donateAnonymously ?? false,
       donationDate: new Date(),
       specialMessage:
         roundUpConfig.specialMessage || `Round-up donation for ${currentMonth}`,
@@ -166,6 +256,7 @@ const triggerDonation = async (
 
         amount: financials.baseAmount,
         totalAmount: financials.totalCharge,
+        currency: currencySnapshot.currency,
 
         //  Destination Charge Params
         applicationFee: applicationFee,
@@ -265,6 +356,211 @@ const triggerDonation = async (
   }
 };
 
+type TSplitRoundUpPayload = {
+  roundUpId: string;
+  userId: string;
+  allocations: IRoundUpAllocation[];
+  coverFees: boolean;
+  paymentMethodId: string;
+  transactions: IRoundUpTransactionDocument[];
+  specialMessage: string;
+  month: string;
+  year: number;
+};
+
+// Charge a round-up split across the donor's allocation lines: one platform
+// charge and one Donation per line. Each line's share is transferred to its
+// organization once the payment succeeds (see webhook handler).
+const createSplitRoundUpDonation = async (payload: TSplitRoundUpPayload) => {
+  const { roundUpId, userId, allocations, transactions } = payload;
+  const transactionIds = transactions.map((t) => t._id);
+
+  const baseAmount = Number(
+    transactions
+      .reduce((sum, transaction) => sum + transaction.roundUpAmount, 0)
+      .toFixed(2)
+  );
+  if (baseAmount <= 0) throw new Error('Invalid donation amount');
+
+  // 1. Share per line; the last line takes the rounding remainder
+  let allocated = 0;
+  const lines = allocations
+    .map((allocation, index) => {
+      const amount =
+        index === allocations.length - 1
+          ? Number((baseAmount - allocated).toFixed(2))
+          : Number(((baseAmount * allocation.percentage) / 100).toFixed(2));
+      allocated += amount;
+
+      return {
+        organization: allocation.organization,
+        cause: allocation.cause,
+        percentage: allocation.percentage,
+        amount,
+      };
+    })
+    .filter((line) => line.amount > 0);
+
+  const donor = await Client.findOne({ auth: userId });
+  if (!donor?._id) throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+
+  // 2. Every line's charity must be able to receive its share
+  const bankCurrency = transactions[0].currency || DEFAULT_CURRENCY;
+  const lineCurrencies: ICurrencySnapshot[] = [];
+
+  for (const line of lines) {
+    const organization = await OrganizationModel.findById(line.organization);
+    if (!organization) {
+      throw new AppError(httpStatus.BAD_REQUEST, 'Organization not found!');
+    }
+
+    const stripeAccount = await StripeAccount.findOne({
+      organization: organization._id,
+      status: 'active',
+    });
+    if (!stripeAccount || !stripeAccount.chargesEnabled) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `${organization.name} is not set up to receive payments (Stripe account inactive).`
+      );
+    }
+
+    const cause = await Cause.findById(line.cause);
+    if (!cause || cause.status !== CAUSE_STATUS_TYPE.VERIFIED) {
+      throw new AppError(httpStatus.BAD_REQUEST, 'Cause not valid.');
+    }
+
+    // Charged in the bank's currency, reported in each org's
+    lineCurrencies.push(
+      await FxRateService.buildCurrencySnapshot(
+        bankCurrency,
+        organization.settlementCurrency || DEFAULT_CURRENCY
+      )
+    );
+  }
+
+  // 3. Calculate Fees (per line schedule, single Stripe fee)
+  const lineSchedules = await Promise.all(
+    lines.map((line) =>
+      FeeScheduleService.resolveFeeSchedule({
+        organizationId: line.organization,
+        causeId: line.cause,
+      })
+    )
+  );
+  const financials = calculateBasketFees(
+    lines.map((line) => line.amount),
+    payload.coverFees,
+    lineSchedules
+  );
+
+  console.log(
+    `\n🎯 Triggering Split RoundUp Donation (${lines.length} lines):`
+  );
+  console.log(`   Base: $${financials.baseAmount.toFixed(2)}`);
+  console.log(`   Stripe Fee: $${financials.stripeFee.toFixed(2)}`);
+  console.log(`   Total Charged: $${financials.totalCharge.toFixed(2)}`);
+
+  // 4. One Donation per line
+  const splitId = new Types.ObjectId();
+  const donations = await Donation.create(
+    lines.map((line, index) => ({
+      donor: donor._id,
+      organization: line.organization,
+      cause: line.cause,
+      donationType: 'round-up',
+
+      amount: financials.lines[index].baseAmount,
+      coverFees: financials.coverFees,
+      platformFee: financials.lines[index].platformFee,
+      gstOnFee: financials.lines[index].gstOnFee,
+      stripeFee: financials.lines[index].stripeFee,
+      netAmount: financials.lines[index].netToOrg,
+      totalAmount: financials.lines[index].totalCharge,
+      feeSchedule: lineSchedules[index],
+
+      ...lineCurrencies[index],
+      status: 'pending',
+      isAnonymous: donor.donateAnonymously ?? false,
+      donationDate: new Date(),
+      specialMessage: payload.specialMessage,
+      pointsEarned: Math.round(financials.lines[index].baseAmount * 100),
+      roundUpId,
+      roundUpTransactionIds: transactionIds,
+      receiptGenerated: false,
+      idempotencyKey: `roundup_split_${splitId}_${index}`,
+      metadata: {
+        userId,
+        roundUpId,
+        splitId: String(splitId),
+        allocationPercent: line.percentage,
+      },
+    }))
+  );
+  const donationIds = donations.map((donation) => donation._id);
+
+  // 5. One Payment Intent for the whole split
+  let paymentResult;
+  try {
+    paymentResult = await StripeService.createRoundUpSplitPaymentIntent({
+      roundUpId,
+      userId,
+      splitId: String(splitId),
+      amount: financials.baseAmount,
+      totalAmount: financials.totalCharge,
+      currency: bankCurrency,
+      paymentMethodId: payload.paymentMethodId,
+      lineCount: lines.length,
+      month: payload.month,
+      year: payload.year,
+      specialMessage: payload.specialMessage,
+      coverFees: financials.coverFees,
+      platformFee: financials.platformFee,
+      gstOnFee: financials.gstOnFee,
+      stripeFee: financials.stripeFee,
+    });
+  } catch (error) {
+    await Donation.updateMany(
+      { _id: { $in: donationIds } },
+      { status: 'failed' }
+    );
+    await RoundUpTransactionModel.updateMany(
+      { _id: { $in: transactionIds } },
+      {
+        lastPaymentFailure: new Date(),
+        lastPaymentFailureReason:
+          error instanceof Error ? error.message : 'Payment failed',
+      }
+    );
+    throw error;
+  }
+
+  // 6. Link the charge to the line donations and micro-transactions
+  await Donation.updateMany(
+    { _id: { $in: donationIds } },
+    {
+      status: 'processing',
+      stripePaymentIntentId: paymentResult.payment_intent_id,
+    }
+  );
+
+  await RoundUpTransactionModel.updateMany(
+    { _id: { $in: transactionIds } },
+    {
+      stripePaymentIntentId: paymentResult.payment_intent_id,
+      donation: donationIds[0],
+      donationAttemptedAt: new Date(),
+    }
+  );
+
+  return {
+    paymentIntentId: paymentResult.payment_intent_id,
+    donationIds: donationIds.map(String),
+    baseAmount: financials.baseAmount,
+    totalAmount: financials.totalCharge,
+  };
+};
+
 // ==========================================
 // 3. PROCESS TRANSACTIONS FROM PLAID (Core Engine)
 // ==========================================
@@ -276,6 +572,7 @@ const processTransactionsFromPlaid = async (
   const result: ITransactionProcessingResult = {
     processed: 0,
     skipped: 0,
+    excluded: 0,
     failed: 0,
     roundUpsCreated: [],
   };
@@ -299,6 +596,18 @@ const processTransactionsFromPlaid = async (
     // 2. Reset monthly total if new month
     await checkAndResetMonthlyTotal(roundUpConfig);
 
+    // 2b. Settlement currency for each transaction's FX snapshot
+    const organization = await OrganizationModel.findById(
+      roundUpConfig.organization
+    ).select('settlementCurrency');
+    const settlementCurrency =
+      organization?.settlementCurrency || DEFAULT_CURRENCY;
+
+    // 2c. Donor's exclusion rules (defaults skip transfers and gambling)
+    const exclusionRules = await RoundUpExclusionService.getActiveRules(
+      userId
+    );
+
     // 3. Check if monthly threshold is already met (Skip processing if cap reached)
     if (
       roundUpConfig.monthlyThreshold !== 'no-limit' &&
@@ -337,28 +646,18 @@ const processTransactionsFromPlaid = async (
           continue;
         }
 
-        //  Calculate round-up (e.g., $4.50 -> $0.50)
-        const roundUpAmount = RoundUpTransactionModel.calculateRoundUpAmount(
-          plaidTransaction.amount
+        //  Calculate round-up (e.g., $4.50 -> $0.50, or $1.00 at 2x)
+        const { roundUpAmount, breakdown } = calculateRoundUp(
+          plaidTransaction.amount,
+          roundUpConfig
         );
 
-        // Skip exact dollar amounts (0.00 round up)
+        // Skip exact amounts (0.00 round up)
         if (roundUpAmount === 0) {
           result.skipped++;
           continue;
         }
 
-        // Limit Check: Will this specific transaction push over the monthly limit?
-        const newMonthlyTotal = roundUpConfig.currentMonthTotal + roundUpAmount;
-        if (
-          roundUpConfig.monthlyThreshold !== 'no-limit' &&
-          typeof roundUpConfig.monthlyThreshold === 'number' &&
-          newMonthlyTotal > roundUpConfig.monthlyThreshold
-        ) {
-          result.skipped++;
-          continue;
-        }
-
         // Extract Categories for reporting
         const categories: string[] = [];
         if (plaidTransaction.personal_finance_category?.primary) {
@@ -368,8 +667,12 @@ const processTransactionsFromPlaid = async (
           categories.push(plaidTransaction.personal_finance_category.detailed);
         }
 
-        // 5. Create the Record
-        const roundUpTransaction = new RoundUpTransactionModel({
+        const currencySnapshot = await FxRateService.buildCurrencySnapshot(
+          plaidTransaction.iso_currency_code || DEFAULT_CURRENCY,
+          settlementCurrency
+        );
+
+        const transactionRecord = {
           user: userId,
           bankConnection: bankConnectionId,
           roundUp: roundUpConfig._id,
@@ -377,12 +680,48 @@ const processTransactionsFromPlaid = async (
           plaidTransactionId: plaidTransaction.transaction_id, // Legacy support
           originalAmount: plaidTransaction.amount,
           roundUpAmount,
-          currency: plaidTransaction.iso_currency_code || 'USD', // Plaid US default
+          roundingBase: roundUpConfig.roundingBase,
+          multiplier: roundUpConfig.multiplier,
+          breakdown,
+          ...currencySnapshot,
           organization: roundUpConfig.organization,
           transactionDate: new Date(plaidTransaction.date),
           transactionName: plaidTransaction.name,
           transactionCategory:
             categories.length > 0 ? categories : ['Uncategorized'],
+        };
+
+        // Exclusion Rules: record the purchase so the donor can see why it
+        // wasn't rounded up (and re-include it), but don't count it
+        const exclusion = RoundUpExclusionService.findExclusion(
+          exclusionRules,
+          plaidTransaction
+        );
+        if (exclusion) {
+          await RoundUpTransactionModel.create({
+            ...transactionRecord,
+            status: 'excluded',
+            exclusionRule: exclusion.rule,
+            exclusionReason: exclusion.reason,
+          });
+          result.excluded++;
+          continue;
+        }
+
+        // Limit Check: Will this specific transaction push over the monthly limit?
+        const newMonthlyTotal = roundUpConfig.currentMonthTotal + roundUpAmount;
+        if (
+          roundUpConfig.monthlyThreshold !== 'no-limit' &&
+          typeof roundUpConfig.monthlyThreshold === 'number' &&
+          newMonthlyTotal > roundUpConfig.monthlyThreshold
+        ) {
+          result.skipped++;
+          continue;
+        }
+
+        // 5. Create the Record
+        const roundUpTransaction = new RoundUpTransactionModel({
+          ...transactionRecord,
           status: 'processed', // Ready for aggregation
         });
 
@@ -446,6 +785,110 @@ const processTransactionsFromPlaid = async (
   }
 };
 
+type TSimulationSettings = IRoundUpRoundingOptions & {
+  monthlyThreshold: number | 'no-limit';
+};
+
+/**
+ * Dry run of processTransactionsFromPlaid over a transaction history: the
+ * same eligibility, rounding, exclusion and monthly threshold rules, grouped
+ * by calendar month. Nothing is saved.
+ */
+const simulateRoundUps = (
+  transactions: IPlaidTransaction[],
+  settings: TSimulationSettings,
+  exclusionRules: IRoundUpExclusionRuleModel[]
+): IRoundUpSimulationMonth[] => {
+  const months = new Map<string, IRoundUpSimulationMonth>();
+  const seen = new Set<string>();
+  const threshold =
+    typeof settings.monthlyThreshold === 'number'
+      ? settings.monthlyThreshold
+      : null;
+
+  // Oldest first, so the threshold cuts off where it would have live
+  const history = [...transactions].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+
+  for (const transaction of history) {
+    if (!transaction.transaction_id || seen.has(transaction.transaction_id)) {
+      continue;
+    }
+    seen.add(transaction.transaction_id);
+
+    if (!RoundUpTransactionModel.isTransactionEligible(transaction)) continue;
+
+    const { roundUpAmount, breakdown } = calculateRoundUp(
+      transaction.amount,
+      settings
+    );
+    if (roundUpAmount === 0) continue;
+
+    const key = transaction.date.slice(0, 7);
+    let month = months.get(key);
+    if (!month) {
+      const [year, monthIndex] = key.split('-').map(Number);
+      month = {
+        month: key,
+        roundUps: 0,
+        excluded: 0,
+        overLimit: 0,
+        total: 0,
+        breakdown: { standard: 0, roundingExtra: 0, multiplierExtra: 0 },
+        thresholdReached: false,
+        donationDate: new Date(year, monthIndex, 1), // Month-end cron run
+      };
+      months.set(key, month);
+    }
+
+    if (RoundUpExclusionService.findExclusion(exclusionRules, transaction)) {
+      month.excluded++;
+      continue;
+    }
+
+    // Once the threshold donation goes out, round-ups stop for the month
+    if (
+      month.thresholdReached ||
+      (threshold !== null && month.total + roundUpAmount > threshold)
+    ) {
+      month.overLimit++;
+      continue;
+    }
+
+    month.roundUps++;
+    month.total += roundUpAmount;
+    month.breakdown.standard += breakdown.standard;
+    month.breakdown.roundingExtra += breakdown.roundingExtra;
+    month.breakdown.multiplierExtra += breakdown.multiplierExtra;
+
+    if (threshold !== null && month.total >= threshold) {
+      month.thresholdReached = true;
+      month.donationDate = new Date(transaction.date);
+    }
+  }
+
+  return [...months.values()].map((month) => ({
+    ...month,
+    total: Number(month.total.toFixed(2)),
+    breakdown: toBreakdown({ ...month.breakdown }),
+  }));
+};
+
+// Sums of each round-up's breakdown. Older round-ups have none and count
+// as plain next-dollar amounts.
+const breakdownTotals = {
+  standard: { $sum: { $ifNull: ['$breakdown.standard', '$roundUpAmount'] } },
+  roundingExtra: { $sum: { $ifNull: ['$breakdown.roundingExtra', 0] } },
+  multiplierExtra: { $sum: { $ifNull: ['$breakdown.multiplierExtra', 0] } },
+};
+
+const toBreakdown = (totals?: Record<string, number>) => ({
+  standard: Number((totals?.standard || 0).toFixed(2)),
+  roundingExtra: Number((totals?.roundingExtra || 0).toFixed(2)),
+  multiplierExtra: Number((totals?.multiplierExtra || 0).toFixed(2)),
+});
+
 // Get user's round-up transaction summary
 const getTransactionSummary = async (userId: string): Promise<any> => {
   try {
@@ -481,13 +924,17 @@ const getTransactionSummary = async (userId: string): Promise<any> => {
           _id: null,
           total: { $sum: '$roundUpAmount' },
           count: { $sum: 1 },
+          ...breakdownTotals,
         },
       },
     ]);
 
     const totalStats = await RoundUpTransactionModel.aggregate([
       {
-        $match: { user: new Types.ObjectId(userId) },
+        $match: {
+          user: new Types.ObjectId(userId),
+          status: { $ne: 'excluded' },
+        },
       },
       {
         $group: {
@@ -495,6 +942,7 @@ const getTransactionSummary = async (userId: string): Promise<any> => {
           totalTransactions: { $sum: 1 },
           totalDonated: { $sum: '$roundUpAmount' },
           averageRoundUp: { $avg: '$roundUpAmount' },
+          ...breakdownTotals,
         },
       },
     ]);
@@ -511,6 +959,12 @@ const getTransactionSummary = async (userId: string): Promise<any> => {
         totalDonated: 0,
         averageRoundUp: 0,
       },
+      // What the donor's rounding base and multiplier added on top of
+      // plain next-dollar round-ups
+      breakdown: {
+        currentMonth: toBreakdown(currentMonthTotal[0]),
+        allTime: toBreakdown(totalStats[0]),
+      },
     };
   } catch (error) {
     console.error('Error getting transaction summary:', error);
@@ -621,6 +1075,84 @@ const getTransactionById = async (
   }
 };
 
+// Donor overrides an exclusion rule for one purchase
+const includeTransaction = async (userId: string, transactionId: string) => {
+  const transaction = await RoundUpTransactionModel.findOne({
+    transactionId,
+    user: userId,
+  });
+  if (!transaction) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Transaction not found!');
+  }
+  if (transaction.status !== 'excluded') {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Only excluded transactions can be included!'
+    );
+  }
+
+  // Round-ups are collected per calendar month
+  const now = new Date();
+  const transactionDate = new Date(transaction.transactionDate);
+  if (
+    transactionDate.getMonth() !== now.getMonth() ||
+    transactionDate.getFullYear() !== now.getFullYear()
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      "Only this month's transactions can be included!"
+    );
+  }
+
+  const roundUpConfig = await RoundUpModel.findOne({
+    _id: transaction.roundUp,
+    user: userId,
+    isActive: true,
+    enabled: true,
+    status: 'pending',
+  });
+  if (!roundUpConfig) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Round-up is not active for this transaction!'
+    );
+  }
+
+  await checkAndResetMonthlyTotal(roundUpConfig);
+
+  if (
+    roundUpConfig.monthlyThreshold !== 'no-limit' &&
+    typeof roundUpConfig.monthlyThreshold === 'number' &&
+    roundUpConfig.currentMonthTotal + transaction.roundUpAmount >
+      roundUpConfig.monthlyThreshold
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Including this transaction would exceed your monthly limit!'
+    );
+  }
+
+  transaction.status = 'processed';
+  transaction.reincludedAt = now;
+  await transaction.save();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const thresholdReached = (roundUpConfig as any).addRoundUpAmount(
+    transaction.roundUpAmount
+  );
+
+  if (thresholdReached && roundUpConfig.monthlyThreshold !== 'no-limit') {
+    try {
+      await triggerDonation(roundUpConfig);
+    } catch (error) {
+      // The round-up stays processed and is picked up at month end
+      console.error('Error triggering donation after include:', error);
+    }
+  }
+
+  return transaction;
+};
+
 // ==========================================
 // 2. PROCESS MONTHLY DONATION (Manual - Destination Charge)
 // ==========================================
@@ -713,10 +1245,69 @@ const processMonthlyDonation = async (
     0
   );
 
+  // 4b. Split across several charities: one charge, one donation per line
+  if (roundUpConfig.allocations?.length) {
+    try {
+      const split = await createSplitRoundUpDonation({
+        roundUpId: String(roundUpConfig._id),
+        userId,
+        allocations: roundUpConfig.allocations,
+        coverFees: roundUpConfig.coverFees || false,
+        paymentMethodId: roundUpConfig.paymentMethod as string,
+        transactions: eligibleTransactions as IRoundUpTransactionDocument[],
+        specialMessage:
+          specialMessage || `Manual round-up donation - ${currentMonth}`,
+        month: currentMonth,
+        year: now.getFullYear(),
+      });
+
+      roundUpConfig.status = 'processing';
+      roundUpConfig.lastDonationAttempt = new Date();
+      roundUpConfig.currentMonthTotal = Math.max(
+        (roundUpConfig.currentMonthTotal || 0) - baseAmount,
+        0
+      );
+      await roundUpConfig.save();
+
+      return {
+        success: true,
+        message:
+          'Manual RoundUp donation initiated successfully. Payment is processing.',
+        data: {
+          donationIds: split.donationIds,
+          paymentIntentId: split.paymentIntentId,
+          baseAmount: split.baseAmount,
+          totalAmount: split.totalAmount,
+          status: 'processing',
+        },
+        statusCode: httpStatus.OK,
+      };
+    } catch (error) {
+      await roundUpConfig.markAsFailed(
+        error instanceof Error ? error.message : 'Unknown payment error'
+      );
+
+      return {
+        success: false,
+        message: 'Payment processing failed. Please check your payment method.',
+        data: {
+          roundUpId: String(roundUpConfig._id),
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Error',
+        },
+        statusCode: httpStatus.BAD_GATEWAY,
+      };
+    }
+  }
+
   // 5. ✅ Calculate Australian Fees & Split
-  const financials = calculateAustralianFees(
+  const financials = await FeeScheduleService.calculateFees(
     baseAmount,
-    roundUpConfig.coverFees || false
+    roundUpConfig.coverFees || false,
+    {
+      organizationId: roundUpConfig.organization,
+      causeId: roundUpConfig.cause,
+    }
   );
 
   // applicationFee = Platform Revenue + GST component
@@ -789,6 +1380,12 @@ const processMonthlyDonation = async (
 
     const donationUniqueId = new Types.ObjectId();
 
+    // Charged in the bank's currency, reported in the org's
+    const currencySnapshot = await FxRateService.buildCurrencySnapshot(
+      eligibleTransactions[0].currency || DEFAULT_CURRENCY,
+      organization.settlementCurrency || DEFAULT_CURRENCY
+    );
+
     // 9. Create Main Donation Record
     const donation = new Donation({
       _id: donationUniqueId,
@@ -805,9 +1402,11 @@ const processMonthlyDonation = async (
       stripeFee: financials.stripeFee,
       netAmount: financials.netToOrg,
       totalAmount: financials.totalCharge,
+      feeSchedule: financials.feeSchedule,
 
-      currency: 'USD',
+      ...currencySnapshot,
       status: 'pending',
+      isAnonymous: donor.donateAnonymously ?? false,
       specialMessage:
         specialMessage || `Manual round-up donation - ${currentMonth}`,
       pointsEarned: Math.round(baseAmount * 100),
@@ -830,6 +1429,7 @@ const processMonthlyDonation = async (
 
       amount: financials.baseAmount,
       totalAmount: financials.totalCharge,
+      currency: currencySnapshot.currency,
 
       // Pass Destination Params
       applicationFee,
@@ -942,6 +1542,9 @@ export const roundUpTransactionService = {
   getTransactions,
   getEligibleTransactions,
   getTransactionById,
+  includeTransaction,
+  simulateRoundUps,
   triggerDonation,
   processMonthlyDonation,
+  createSplitRoundUpDonation,
 };
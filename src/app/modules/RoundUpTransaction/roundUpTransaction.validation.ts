@@ -4,7 +4,7 @@ export const transactionFilterValidation = z.object({
   query: z.object({
     page: z.coerce.number().int().min(1).max(100).default(1),
     limit: z.coerce.number().int().min(1).max(100).default(50),
-    status: z.enum(['pending', 'processed', 'processing', 'donated', 'failed']).optional(),
+    status: z.enum(['pending', 'processed', 'processing', 'donated', 'failed', 'excluded']).optional(),
     bankConnection: z.string().optional(),
     organization: z.string().optional(),
     startDate: z.string().datetime().optional(),
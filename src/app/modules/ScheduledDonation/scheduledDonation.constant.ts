@@ -0,0 +1,74 @@
+export const SCHEDULED_DONATION_STATUS = {
+  ACTIVE: 'active',
+  PROCESSING: 'processing',
+  PAST_DUE: 'past_due', // Last charge failed, waiting for a retry
+  PAUSED: 'paused',
+  COMPLETED: 'completed', // Reached its end date or payment cap
+} as const;
+
+export const SCHEDULED_DONATION_STATUS_VALUES = Object.values(
+  SCHEDULED_DONATION_STATUS
+);
+
+// Why a plan was paused
+export const PAUSED_REASON = {
+  DONOR: 'donor',
+  PAYMENT_FAILED: 'payment_failed',
+} as const;
+
+export const PAUSED_REASON_VALUES = Object.values(PAUSED_REASON);
+
+// Outcome recorded with each failed charge
+export const FAILURE_OUTCOME = {
+  RETRY_SCHEDULED: 'retry_scheduled',
+  PAUSED: 'paused',
+} as const;
+
+export const FAILURE_OUTCOME_VALUES = Object.values(FAILURE_OUTCOME);
+
+// Why a plan completed
+export const COMPLETED_REASON = {
+  END_DATE: 'end_date',
+  MAX_OCCURRENCES: 'max_occurrences',
+} as const;
+
+export const COMPLETED_REASON_VALUES = Object.values(COMPLETED_REASON);
+
+// Annual escalation limit (percent per year)
+export const MAX_ESCALATION_PERCENT = 50;
+
+// Upcoming payments listed with a plan
+export const PROJECTION_COUNT = 12;
+
+// Retries run this many days after the first failed charge
+export const DEFAULT_RETRY_DAYS = [1, 3, 7];
+export const MAX_RETRY_COUNT = 5;
+export const MAX_RETRY_DAY = 30;
+
+// Window used by the recovery report when no dates are given
+export const DEFAULT_REPORT_DAYS = 90;
+
+// Hijri recurrence rules (frequency 'hijri')
+export const HIJRI_RULE_TYPE = {
+  LAST_NIGHTS: 'last_nights', // e.g. the last 10 nights of Ramadan
+  WEEKDAY: 'weekday', // e.g. every Friday in Dhu al-Hijjah
+  ANNUAL: 'annual', // e.g. every 1 Muharram
+} as const;
+
+export const HIJRI_RULE_TYPE_VALUES = Object.values(HIJRI_RULE_TYPE);
+
+export const MAX_HIJRI_NIGHTS = 10;
+
+// Local charge time when the donor doesn't pick one; nights start at sunset
+export const DEFAULT_HIJRI_TIME = {
+  last_nights: '20:00',
+  weekday: '09:00',
+  annual: '09:00',
+} as const;
+
+// Plans are scheduled in the donor's timezone
+export const DEFAULT_TIMEZONE = 'Australia/Sydney';
+
+// Occurrences shown before a donor confirms a plan
+export const DEFAULT_PREVIEW_COUNT = 5;
+export const MAX_PREVIEW_COUNT = 12;
@@ -3,6 +3,7 @@ import { Response } from 'express';
 import { asyncHandler, sendResponse, AppError } from '../../utils';
 import { ExtendedRequest } from '../../types';
 import { ScheduledDonationService } from './scheduledDonation.service';
+import { TRecoveryReportQuery } from './scheduledDonation.validation';
 
 // 1. Create scheduled donation
 const createScheduledDonation = asyncHandler(
@@ -165,6 +166,44 @@ const cancelScheduledDonation = asyncHandler(
   }
 );
 
+// 8. Failed vs recovered recurring revenue (organization)
+const getRecoveryReport = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const query = (
+      req as ExtendedRequest & { validatedQuery: TRecoveryReportQuery }
+    ).validatedQuery;
+
+    const result = await ScheduledDonationService.getRecoveryReport(
+      userId,
+      query
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Recurring donation recovery report retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+// 9. Preview upcoming donation dates
+const previewScheduledDonation = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const result = ScheduledDonationService.previewScheduledDonation(req.body);
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Upcoming donation dates retrieved successfully',
+      data: result,
+    });
+  }
+);
+
 export const ScheduledDonationController = {
   createScheduledDonation,
   getUserScheduledDonations,
@@ -173,4 +212,6 @@ export const ScheduledDonationController = {
   pauseScheduledDonation,
   resumeScheduledDonation,
   cancelScheduledDonation,
+  getRecoveryReport,
+  previewScheduledDonation,
 };
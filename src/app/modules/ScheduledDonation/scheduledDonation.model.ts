@@ -3,7 +3,36 @@ import {
   RECURRING_FREQUENCY,
   DEFAULT_CURRENCY,
 } from '../Donation/donation.constant';
-import { IScheduledDonationModel } from '../Donation/donation.interface';
+import {
+  IHijriRecurrenceRule,
+  IScheduledDonationModel,
+} from '../Donation/donation.interface';
+import { tributeSchema } from '../Donation/donation.model';
+import {
+  COMPLETED_REASON_VALUES,
+  DEFAULT_TIMEZONE,
+  HIJRI_RULE_TYPE_VALUES,
+  MAX_ESCALATION_PERCENT,
+  MAX_HIJRI_NIGHTS,
+  PAUSED_REASON_VALUES,
+  SCHEDULED_DONATION_STATUS_VALUES,
+} from './scheduledDonation.constant';
+
+const hijriRuleSchema = new Schema<IHijriRecurrenceRule>(
+  {
+    type: {
+      type: String,
+      enum: HIJRI_RULE_TYPE_VALUES,
+      required: true,
+    },
+    month: { type: Number, required: true, min: 1, max: 12 },
+    nights: { type: Number, min: 1, max: MAX_HIJRI_NIGHTS },
+    weekday: { type: Number, min: 0, max: 6 },
+    day: { type: Number, min: 1, max: 30 },
+    timeOfDay: { type: String },
+  },
+  { _id: false }
+);
 
 const scheduledDonationSchema = new Schema<IScheduledDonationModel>(
   {
@@ -48,6 +77,13 @@ const scheduledDonationSchema = new Schema<IScheduledDonationModel>(
       maxlength: [500, 'Special message cannot exceed 500 characters'],
       trim: true,
     },
+    tribute: {
+      type: tributeSchema,
+    },
+    isAnonymous: {
+      type: Boolean,
+      default: false,
+    },
 
     // Payment Information
     stripeCustomerId: {
@@ -83,6 +119,13 @@ const scheduledDonationSchema = new Schema<IScheduledDonationModel>(
         },
       },
     },
+    hijriRule: {
+      type: hijriRuleSchema,
+    },
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+    },
     startDate: {
       type: Date,
       required: [true, 'Start date is required'],
@@ -102,10 +145,47 @@ const scheduledDonationSchema = new Schema<IScheduledDonationModel>(
 
     status: {
       type: String,
-      enum: ['active', 'processing', 'paused'],
+      enum: SCHEDULED_DONATION_STATUS_VALUES,
       default: 'active',
       index: true,
     },
+    pausedReason: {
+      type: String,
+      enum: PAUSED_REASON_VALUES,
+    },
+
+    // Limits
+    endDate: {
+      type: Date,
+    },
+    maxOccurrences: {
+      type: Number,
+      min: [1, 'Maximum occurrences must be at least 1'],
+    },
+    completedAt: {
+      type: Date,
+    },
+    completedReason: {
+      type: String,
+      enum: COMPLETED_REASON_VALUES,
+    },
+
+    // Annual escalation
+    escalation: {
+      type: new Schema(
+        {
+          percent: {
+            type: Number,
+            required: true,
+            min: 0,
+            max: MAX_ESCALATION_PERCENT,
+          },
+          maxAmount: { type: Number, min: 0.01 },
+          nextEscalationDate: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+    },
 
     lastExecutedDate: {
       type: Date,
@@ -117,6 +197,26 @@ const scheduledDonationSchema = new Schema<IScheduledDonationModel>(
       default: 0,
       min: [0, 'Total executions cannot be negative'],
     },
+
+    // Dunning (failed charge recovery)
+    failedAttempts: {
+      type: Number,
+      default: 0,
+      min: [0, 'Failed attempts cannot be negative'],
+    },
+    firstFailedAt: {
+      type: Date,
+    },
+    lastFailedAt: {
+      type: Date,
+    },
+    lastFailureReason: {
+      type: String,
+      trim: true,
+    },
+    nextRetryDate: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -128,6 +228,7 @@ scheduledDonationSchema.index({ user: 1, isActive: 1 });
 scheduledDonationSchema.index({ organization: 1, isActive: 1 });
 scheduledDonationSchema.index({ nextDonationDate: 1, isActive: 1, status: 1 });
 scheduledDonationSchema.index({ stripeCustomerId: 1, isActive: 1 });
+scheduledDonationSchema.index({ status: 1, nextRetryDate: 1 });
 
 export const ScheduledDonation = model<IScheduledDonationModel>(
   'ScheduledDonation',
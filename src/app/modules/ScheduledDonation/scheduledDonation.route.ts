@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { auth } from '../../middlewares';
+import { auth, idempotency } from '../../middlewares';
 import { validateRequest } from '../../middlewares/validateRequest';
 import { ScheduledDonationController } from './scheduledDonation.controller';
 import { ScheduledDonationValidation } from './scheduledDonation.validation';
@@ -11,10 +11,19 @@ const router = Router();
 router.post(
   '/create',
   auth(ROLE.CLIENT),
+  idempotency(),
   validateRequest(ScheduledDonationValidation.createScheduledDonationSchema),
   ScheduledDonationController.createScheduledDonation
 );
 
+// Upcoming dates shown before the donor confirms a plan
+router.post(
+  '/preview',
+  auth(ROLE.CLIENT),
+  validateRequest(ScheduledDonationValidation.previewScheduledDonationSchema),
+  ScheduledDonationController.previewScheduledDonation
+);
+
 // 2. Get user's scheduled donations with filters
 router.get(
   '/user',
@@ -23,6 +32,14 @@ router.get(
   ScheduledDonationController.getUserScheduledDonations
 );
 
+// Failed vs recovered recurring revenue (before /:id)
+router.get(
+  '/organization/recovery-report',
+  auth(ROLE.ORGANIZATION),
+  validateRequest(ScheduledDonationValidation.recoveryReportSchema),
+  ScheduledDonationController.getRecoveryReport
+);
+
 // 3. Get specific scheduled donation by ID
 router.get(
   '/:id',
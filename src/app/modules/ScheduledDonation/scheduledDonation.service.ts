@@ -1,22 +1,35 @@
 import { Types } from 'mongoose';
 import httpStatus from 'http-status';
+import { addYears } from 'date-fns';
 import { ScheduledDonation } from './scheduledDonation.model';
-import { IScheduledDonationModel } from '../Donation/donation.interface';
+import {
+  IScheduledDonation,
+  IScheduledDonationModel,
+} from '../Donation/donation.interface';
 import {
   TCreateScheduledDonation,
+  TPreviewScheduledDonation,
+  TRecoveryReportQuery,
   TUpdateScheduledDonation,
 } from './scheduledDonation.validation';
 import { AppError } from '../../utils';
 import Client from '../Client/client.model';
 import Organization from '../Organization/organization.model';
 import Cause from '../Causes/causes.model';
-import { CAUSE_STATUS_TYPE } from '../Causes/causes.constant';
+import {
+  CAUSE_FUNDRAISING_STATUS,
+  CAUSE_STATUS_TYPE,
+} from '../Causes/causes.constant';
 import { PaymentMethodService } from '../PaymentMethod/paymentMethod.service';
 import QueryBuilder from '../../builders/QueryBuilder';
 import { Donation } from '../Donation/donation.model';
 import { IDonationModel } from '../Donation/donation.interface';
 import { IPaymentMethodModel } from '../PaymentMethod/paymentMethod.interface';
-import { calculateAustralianFees } from '../Donation/donation.constant';
+import {
+  calculateAustralianFees,
+  DEFAULT_CURRENCY,
+} from '../Donation/donation.constant';
+import { FxRateService } from '../FxRate/fxRate.service';
 import { StripeService } from '../Stripe/stripe.service';
 import { IClient } from '../Client/client.interface';
 import { StripeAccount } from '../OrganizationAccount/stripe-account.model';
@@ -24,12 +37,37 @@ import { createNotification } from '../Notification/notification.service';
 import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
 import { IORGANIZATION } from '../Organization/organization.interface';
 import { SubscriptionService } from '../Subscription/subscription.service';
+import { PlatformSettingService } from '../PlatformSetting/platformSetting.service';
+import { FeeScheduleService } from '../FeeSchedule/feeSchedule.service';
+import { ScheduledDonationFailure } from './scheduledDonationFailure.model';
+import {
+  COMPLETED_REASON,
+  DEFAULT_PREVIEW_COUNT,
+  DEFAULT_REPORT_DAYS,
+  DEFAULT_RETRY_DAYS,
+  DEFAULT_TIMEZONE,
+  FAILURE_OUTCOME,
+  PAUSED_REASON,
+  PROJECTION_COUNT,
+  SCHEDULED_DONATION_STATUS,
+} from './scheduledDonation.constant';
+import {
+  describeHijriOccurrence,
+  getNextHijriOccurrence,
+} from './scheduledDonation.utils';
+import { sendRecurringPaymentFailedEmail } from '../../utils/emailService';
+import config from '../../config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundMoney = (value: number) => Number(value.toFixed(2));
 
 // Helper function to calculate next donation date
 export const calculateNextDonationDate = (
   currentDate: Date,
   frequency: string,
-  customInterval?: { value: number; unit: 'days' | 'weeks' | 'months' }
+  customInterval?: { value: number; unit: 'days' | 'weeks' | 'months' },
+  hijriSchedule?: Pick<IScheduledDonation, 'hijriRule' | 'timezone'>
 ): Date => {
   const nextDate = new Date(currentDate);
 
@@ -72,6 +110,17 @@ export const calculateNextDonationDate = (
       }
       break;
 
+    case 'hijri':
+      if (!hijriSchedule?.hijriRule) {
+        throw new Error('Hijri rule required for hijri frequency');
+      }
+
+      return getNextHijriOccurrence(
+        hijriSchedule.hijriRule,
+        hijriSchedule.timezone || DEFAULT_TIMEZONE,
+        currentDate
+      );
+
     default:
       throw new AppError(httpStatus.BAD_REQUEST, 'Invalid frequency');
   }
@@ -79,6 +128,98 @@ export const calculateNextDonationDate = (
   return nextDate;
 };
 
+// First charge of a plan: its start date, or for Hijri plans the first
+// matching date on or after it
+const getFirstDonationDate = (
+  startDate: Date,
+  frequency: string,
+  hijriSchedule: Pick<IScheduledDonation, 'hijriRule' | 'timezone'>
+) =>
+  frequency === 'hijri'
+    ? calculateNextDonationDate(
+        new Date(startDate.getTime() - 1),
+        frequency,
+        undefined,
+        hijriSchedule
+      )
+    : startDate;
+
+type TEscalation = NonNullable<IScheduledDonation['escalation']>;
+type TCompletedReason =
+  (typeof COMPLETED_REASON)[keyof typeof COMPLETED_REASON];
+
+// Escalation runs on each anniversary of the plan's start date
+const getNextEscalationDate = (startDate: Date, after: Date = new Date()) => {
+  let date = addYears(startDate, 1);
+  while (date <= after) date = addYears(date, 1);
+  return date;
+};
+
+// One year's escalation, capped at the plan's maximum amount
+const escalateAmount = (amount: number, escalation: TEscalation) => {
+  const escalated = roundMoney(amount * (1 + escalation.percent / 100));
+  if (!escalation.maxAmount) return escalated;
+
+  return Math.min(escalated, Math.max(amount, escalation.maxAmount));
+};
+
+// Why a plan is finished before a payment due on `date`, if it is
+const getCompletionReason = (
+  limits: Pick<
+    IScheduledDonation,
+    'endDate' | 'maxOccurrences' | 'totalExecutions'
+  >,
+  date: Date
+): TCompletedReason | undefined => {
+  if (
+    limits.maxOccurrences &&
+    limits.totalExecutions >= limits.maxOccurrences
+  ) {
+    return COMPLETED_REASON.MAX_OCCURRENCES;
+  }
+  if (limits.endDate && date > limits.endDate) {
+    return COMPLETED_REASON.END_DATE;
+  }
+  return undefined;
+};
+
+// Upcoming payments with escalation applied, up to the plan's limits
+const getProjectedSchedule = (scheduledDonation: IScheduledDonationModel) => {
+  const projected: { occurrence: number; date: Date; amount: number }[] = [];
+  if (!scheduledDonation.isActive) return projected;
+
+  const { escalation } = scheduledDonation;
+  let date = scheduledDonation.nextDonationDate;
+  let amount = scheduledDonation.amount;
+  let nextEscalationDate = escalation?.nextEscalationDate;
+  let totalExecutions = scheduledDonation.totalExecutions;
+
+  while (projected.length < PROJECTION_COUNT) {
+    const limits = {
+      endDate: scheduledDonation.endDate,
+      maxOccurrences: scheduledDonation.maxOccurrences,
+      totalExecutions,
+    };
+    if (getCompletionReason(limits, date)) break;
+
+    while (escalation && nextEscalationDate && nextEscalationDate <= date) {
+      amount = escalateAmount(amount, escalation);
+      nextEscalationDate = addYears(nextEscalationDate, 1);
+    }
+
+    totalExecutions += 1;
+    projected.push({ occurrence: totalExecutions, date, amount });
+    date = calculateNextDonationDate(
+      date,
+      scheduledDonation.frequency,
+      scheduledDonation.customInterval,
+      scheduledDonation
+    );
+  }
+
+  return projected;
+};
+
 // Create scheduled donation with tax calculation
 const createScheduledDonation = async (
   userId: string,
@@ -91,7 +232,14 @@ const createScheduledDonation = async (
     coverFees = false,
     frequency,
     customInterval,
+    hijriRule,
+    timezone = DEFAULT_TIMEZONE,
+    endDate,
+    maxOccurrences,
+    escalation,
     specialMessage,
+    tribute,
+    isAnonymous,
     paymentMethodId,
     startDate,
   } = payload;
@@ -141,6 +289,12 @@ const createScheduledDonation = async (
       `Cannot create scheduled donation for cause with status: ${cause.status}. Only verified causes can receive donations.`
     );
   }
+  if (cause.fundraisingStatus === CAUSE_FUNDRAISING_STATUS.CLOSED) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Cause ${cause.name} is closed and no longer accepts donations.`
+    );
+  }
 
   const paymentMethod = await PaymentMethodService.getPaymentMethodById(
     paymentMethodId,
@@ -159,6 +313,18 @@ const createScheduledDonation = async (
       'Start date must be in the future.'
     );
   }
+  const firstDonationDate = getFirstDonationDate(startDateTime, frequency, {
+    hijriRule,
+    timezone,
+  });
+
+  const endDateTime = endDate ? new Date(endDate) : undefined;
+  if (endDateTime && endDateTime < firstDonationDate) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'End date must be on or after the first donation date.'
+    );
+  }
 
   const scheduledDonation = await ScheduledDonation.create({
     user: user._id,
@@ -168,15 +334,25 @@ const createScheduledDonation = async (
     amount: financials.baseAmount, // Store Base Amount
     coverFees, // Store Preference
 
-    currency: 'USD', // Keep internal currency logic, though Stripe will use AUD based on context
+    currency: user.displayCurrency || DEFAULT_CURRENCY, // Charged in donor's display currency
     frequency,
     customInterval,
+    hijriRule,
+    timezone,
     startDate: startDateTime,
-    nextDonationDate: startDateTime,
+    nextDonationDate: firstDonationDate,
+    endDate: endDateTime,
+    maxOccurrences,
+    escalation: escalation && {
+      ...escalation,
+      nextEscalationDate: getNextEscalationDate(startDateTime),
+    },
     isActive: true,
     status: 'active',
     totalExecutions: 0,
     specialMessage,
+    tribute,
+    isAnonymous: isAnonymous ?? user.donateAnonymously ?? false,
     stripeCustomerId: paymentMethod.stripeCustomerId,
     paymentMethod,
   });
@@ -261,7 +437,7 @@ const getUserScheduledDonations = async (
 const getScheduledDonationById = async (
   userId: string,
   scheduledDonationId: string
-): Promise<IScheduledDonationModel> => {
+) => {
   const user = await Client.findOne({ auth: userId });
   if (!user) {
     throw new AppError(httpStatus.NOT_FOUND, 'User not found!');
@@ -278,7 +454,10 @@ const getScheduledDonationById = async (
     throw new AppError(httpStatus.NOT_FOUND, 'Scheduled donation not found!');
   }
 
-  return scheduledDonation;
+  return {
+    ...scheduledDonation.toObject(),
+    projectedSchedule: getProjectedSchedule(scheduledDonation),
+  };
 };
 
 const updateScheduledDonation = async (
@@ -328,22 +507,127 @@ const updateScheduledDonation = async (
     scheduledDonation.customInterval = payload.customInterval;
   }
 
+  if (payload.hijriRule !== undefined) {
+    scheduledDonation.hijriRule = payload.hijriRule;
+  }
+
+  if (payload.timezone !== undefined) {
+    scheduledDonation.timezone = payload.timezone;
+  }
+
+  if (
+    scheduledDonation.frequency === 'hijri' &&
+    !scheduledDonation.hijriRule
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Hijri rule is required when frequency is "hijri"'
+    );
+  }
+  if (scheduledDonation.frequency !== 'hijri') {
+    scheduledDonation.hijriRule = undefined;
+  }
+
+  if (payload.endDate !== undefined) {
+    scheduledDonation.endDate = payload.endDate
+      ? new Date(payload.endDate)
+      : undefined;
+  }
+
+  if (payload.maxOccurrences !== undefined) {
+    if (
+      payload.maxOccurrences !== null &&
+      payload.maxOccurrences <= scheduledDonation.totalExecutions
+    ) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `This plan has already made ${scheduledDonation.totalExecutions} payments, so the maximum must be higher.`
+      );
+    }
+    scheduledDonation.maxOccurrences = payload.maxOccurrences ?? undefined;
+  }
+
+  if (
+    payload.escalation?.maxAmount &&
+    payload.escalation.maxAmount <= scheduledDonation.amount
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Escalation maximum must be more than the amount!'
+    );
+  }
+
+  if (payload.escalation !== undefined) {
+    // Keep the current anniversary when only the rate or cap changes
+    scheduledDonation.escalation = payload.escalation
+      ? {
+          ...payload.escalation,
+          nextEscalationDate:
+            scheduledDonation.escalation?.nextEscalationDate ||
+            getNextEscalationDate(scheduledDonation.startDate),
+        }
+      : undefined;
+  }
+
   if (payload.specialMessage !== undefined) {
     scheduledDonation.specialMessage = payload.specialMessage;
   }
 
+  if (payload.tribute !== undefined) {
+    scheduledDonation.tribute = payload.tribute ?? undefined;
+  }
+
+  if (payload.isAnonymous !== undefined) {
+    scheduledDonation.isAnonymous = payload.isAnonymous;
+  }
+
   if (payload.isActive !== undefined) {
     scheduledDonation.isActive = payload.isActive;
   }
 
+  if (payload.paymentMethodId !== undefined) {
+    const paymentMethod = await PaymentMethodService.getPaymentMethodById(
+      payload.paymentMethodId,
+      userId
+    );
+    if (!paymentMethod.isActive) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'Payment method is not active!'
+      );
+    }
+
+    scheduledDonation.paymentMethod = new Types.ObjectId(
+      payload.paymentMethodId
+    );
+    scheduledDonation.stripeCustomerId = paymentMethod.stripeCustomerId;
+
+    // Retry a failed instalment on the next run with the new card
+    if (scheduledDonation.status === SCHEDULED_DONATION_STATUS.PAST_DUE) {
+      scheduledDonation.nextRetryDate = new Date();
+    }
+  }
+
   // If frequency changes, recalculate next date from current nextDonationDate
   if (payload.frequency !== undefined || payload.customInterval !== undefined) {
     const nextDate = calculateNextDonationDate(
       scheduledDonation.nextDonationDate || new Date(),
       scheduledDonation.frequency,
-      scheduledDonation.customInterval
+      scheduledDonation.customInterval,
+      scheduledDonation
     );
     scheduledDonation.nextDonationDate = nextDate;
+  } else if (
+    scheduledDonation.frequency === 'hijri' &&
+    (payload.hijriRule !== undefined || payload.timezone !== undefined)
+  ) {
+    // A new rule or timezone moves the next charge to its next match
+    scheduledDonation.nextDonationDate = calculateNextDonationDate(
+      new Date(),
+      scheduledDonation.frequency,
+      undefined,
+      scheduledDonation
+    );
   }
 
   await scheduledDonation.save();
@@ -362,7 +646,7 @@ const pauseScheduledDonation = async (
 
   const scheduledDonation = await ScheduledDonation.findOneAndUpdate(
     { _id: scheduledDonationId, user: user._id },
-    { isActive: false, status: 'paused' },
+    { isActive: false, status: 'paused', pausedReason: PAUSED_REASON.DONOR },
     { new: true }
   )
     .populate('organization', 'name email logo')
@@ -412,12 +696,28 @@ const resumeScheduledDonation = async (
   const nextDate = calculateNextDonationDate(
     now,
     scheduledDonation.frequency,
-    scheduledDonation.customInterval
+    scheduledDonation.customInterval,
+    scheduledDonation
   );
 
+  if (getCompletionReason(scheduledDonation, nextDate)) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'This plan has reached its end date or payment limit. Extend it before resuming.'
+    );
+  }
+
   scheduledDonation.isActive = true;
   scheduledDonation.status = 'active';
   scheduledDonation.nextDonationDate = nextDate;
+  scheduledDonation.completedAt = undefined;
+  scheduledDonation.completedReason = undefined;
+
+  // A plan paused by failed payments starts over with a clean slate
+  scheduledDonation.pausedReason = undefined;
+  scheduledDonation.failedAttempts = 0;
+  scheduledDonation.firstFailedAt = undefined;
+  scheduledDonation.nextRetryDate = undefined;
 
   await scheduledDonation.save();
 
@@ -477,6 +777,223 @@ const getScheduledDonationsDueForExecution = async (): Promise<
   return scheduledDonations;
 };
 
+const getRetryDays = async () => {
+  const settings = await PlatformSettingService.getSettings();
+  const retryDays = settings.recurringRetries?.retryDays;
+  return retryDays?.length ? retryDays : DEFAULT_RETRY_DAYS;
+};
+
+const notifyPaymentFailure = async (
+  scheduledDonation: IScheduledDonationModel,
+  attemptNumber: number,
+  totalAttempts: number
+) => {
+  const [donor, organization] = await Promise.all([
+    Client.findById(scheduledDonation.user).populate<{
+      auth: { _id: Types.ObjectId; email: string };
+    }>('auth', 'email'),
+    Organization.findById(scheduledDonation.organization).select('name'),
+  ]);
+  if (!donor?.auth) return;
+
+  const scheduledDonationId = scheduledDonation._id!.toString();
+  const organizationName = organization?.name || 'the organization';
+  const isPaused =
+    scheduledDonation.status === SCHEDULED_DONATION_STATUS.PAUSED;
+  const nextRetryDate = scheduledDonation.nextRetryDate;
+
+  const message = isPaused
+    ? `We couldn't charge your recurring donation of $${scheduledDonation.amount} to ${organizationName} after ${totalAttempts} attempts, so it has been paused. Update your card and resume it to keep giving.`
+    : `Your recurring donation of $${scheduledDonation.amount} to ${organizationName} didn't go through. We'll try again on ${nextRetryDate?.toDateString()} - please check your card.`;
+
+  try {
+    await createNotification(
+      donor.auth._id.toString(),
+      NOTIFICATION_TYPE.RECURRING_PAYMENT_FAILED,
+      message,
+      scheduledDonationId,
+      { attemptNumber, totalAttempts, isPaused }
+    );
+  } catch (err) {
+    console.log(`❌ Failed to send notification (Recurring payment failed)`);
+  }
+
+  if (donor.auth.email) {
+    try {
+      await sendRecurringPaymentFailedEmail({
+        to: donor.auth.email,
+        donorName: donor.name,
+        organizationName,
+        amount: scheduledDonation.amount,
+        currency: scheduledDonation.currency,
+        attemptNumber,
+        totalAttempts,
+        nextRetryDate,
+        isPaused,
+        updatePaymentUrl: `${config.clientUrl}/recurring-donations/${scheduledDonationId}`,
+      });
+    } catch (err) {
+      console.error(
+        `❌ Recurring payment failed email failed (${scheduledDonationId}):`,
+        err
+      );
+    }
+  }
+};
+
+/**
+ * Record a failed charge for a locked (processing) scheduled donation.
+ * Schedules the next retry from the configured policy, or pauses the
+ * plan once every retry has been used. The donor hears about each stage.
+ */
+const recordPaymentFailure = async (
+  scheduledDonationId: string,
+  reason?: string
+) => {
+  const now = new Date();
+
+  // Only the run holding the lock records the failure, so it counts once
+  const scheduledDonation = await ScheduledDonation.findOneAndUpdate(
+    {
+      _id: scheduledDonationId,
+      status: SCHEDULED_DONATION_STATUS.PROCESSING,
+    },
+    {
+      $inc: { failedAttempts: 1 },
+      $set: { lastFailedAt: now, lastFailureReason: reason },
+    },
+    { new: true }
+  );
+  if (!scheduledDonation) return null;
+
+  const retryDays = await getRetryDays();
+  const attemptNumber = scheduledDonation.failedAttempts || 1;
+  const totalAttempts = retryDays.length + 1;
+  const firstFailedAt = scheduledDonation.firstFailedAt || now;
+  const retryDay = retryDays[attemptNumber - 1];
+
+  if (retryDay === undefined) {
+    scheduledDonation.status = SCHEDULED_DONATION_STATUS.PAUSED;
+    scheduledDonation.isActive = false;
+    scheduledDonation.pausedReason = PAUSED_REASON.PAYMENT_FAILED;
+    scheduledDonation.nextRetryDate = undefined;
+  } else {
+    scheduledDonation.status = SCHEDULED_DONATION_STATUS.PAST_DUE;
+    scheduledDonation.firstFailedAt = firstFailedAt;
+    scheduledDonation.nextRetryDate = new Date(
+      firstFailedAt.getTime() + retryDay * DAY_MS
+    );
+  }
+  await scheduledDonation.save();
+
+  await ScheduledDonationFailure.create({
+    scheduledDonation: scheduledDonation._id,
+    donor: scheduledDonation.user,
+    organization: scheduledDonation.organization,
+    cause: scheduledDonation.cause,
+    amount: scheduledDonation.amount,
+    currency: scheduledDonation.currency,
+    attemptNumber,
+    reason,
+    outcome:
+      retryDay === undefined
+        ? FAILURE_OUTCOME.PAUSED
+        : FAILURE_OUTCOME.RETRY_SCHEDULED,
+    nextRetryDate: scheduledDonation.nextRetryDate,
+  });
+
+  console.log(
+    `⚠️  Scheduled donation ${scheduledDonationId} failed (attempt ${attemptNumber}/${totalAttempts}): ${
+      reason || 'Unknown error'
+    }`
+  );
+
+  await notifyPaymentFailure(scheduledDonation, attemptNumber, totalAttempts);
+
+  return scheduledDonation;
+};
+
+// Close a plan that reached its end date or payment cap, and tell the donor
+const completeScheduledDonation = async (
+  scheduledDonationId: string,
+  reason: TCompletedReason
+) => {
+  const scheduledDonation = await ScheduledDonation.findByIdAndUpdate(
+    scheduledDonationId,
+    {
+      $set: {
+        status: SCHEDULED_DONATION_STATUS.COMPLETED,
+        isActive: false,
+        completedAt: new Date(),
+        completedReason: reason,
+      },
+      $unset: { firstFailedAt: 1, nextRetryDate: 1 },
+    },
+    { new: true }
+  );
+  if (!scheduledDonation) return null;
+
+  const [donor, organization] = await Promise.all([
+    Client.findById(scheduledDonation.user).select('auth'),
+    Organization.findById(scheduledDonation.organization).select('name'),
+  ]);
+
+  const organizationName = organization?.name || 'the organization';
+  const payments = scheduledDonation.totalExecutions;
+  const message =
+    reason === COMPLETED_REASON.END_DATE
+      ? `Your recurring donation to ${organizationName} has reached its end date and is now complete. Thank you for your ${payments} donation(s)!`
+      : `Your recurring donation to ${organizationName} is complete after ${payments} payment(s). Thank you for your support!`;
+
+  if (donor?.auth) {
+    try {
+      await createNotification(
+        donor.auth.toString(),
+        NOTIFICATION_TYPE.RECURRING_PLAN_COMPLETED,
+        message,
+        scheduledDonationId,
+        { reason, totalExecutions: payments }
+      );
+    } catch (err) {
+      console.log(`❌ Failed to send notification (Recurring plan completed)`);
+    }
+  }
+
+  console.log(
+    `🏁 Scheduled donation ${scheduledDonationId} completed (${reason})`
+  );
+
+  return scheduledDonation;
+};
+
+// Raise the amount for every escalation anniversary that has passed
+const applyDueEscalation = async (
+  scheduledDonation: IScheduledDonationModel
+) => {
+  const { escalation } = scheduledDonation;
+  if (!escalation) return;
+
+  const now = new Date();
+  let amount = scheduledDonation.amount;
+  let nextEscalationDate = escalation.nextEscalationDate;
+  while (nextEscalationDate <= now) {
+    amount = escalateAmount(amount, escalation);
+    nextEscalationDate = addYears(nextEscalationDate, 1);
+  }
+  if (nextEscalationDate === escalation.nextEscalationDate) return;
+
+  await ScheduledDonation.updateOne(
+    { _id: scheduledDonation._id },
+    { $set: { amount, 'escalation.nextEscalationDate': nextEscalationDate } }
+  );
+  console.log(
+    `📈 Scheduled donation ${scheduledDonation._id} escalated from $${scheduledDonation.amount} to $${amount}`
+  );
+
+  scheduledDonation.amount = amount;
+  escalation.nextEscalationDate = nextEscalationDate;
+};
+
 /**
  * ========================================================
  * ⚡ EXECUTE SCHEDULED DONATION (CRON LOGIC REFACTORED)
@@ -490,7 +1007,12 @@ const executeScheduledDonation = async (
     {
       _id: scheduledDonationId,
       isActive: true,
-      status: 'active',
+      status: {
+        $in: [
+          SCHEDULED_DONATION_STATUS.ACTIVE,
+          SCHEDULED_DONATION_STATUS.PAST_DUE,
+        ],
+      },
     },
     {
       $set: { status: 'processing' },
@@ -511,6 +1033,19 @@ const executeScheduledDonation = async (
 
   const scheduledDonation = lockedDonation;
 
+  // Finished plans complete instead of charging (end date passed or cap hit)
+  const completedReason = getCompletionReason(scheduledDonation, new Date());
+  if (completedReason) {
+    await completeScheduledDonation(scheduledDonationId, completedReason);
+    throw new AppError(
+      httpStatus.CONFLICT,
+      'Scheduled donation has reached its end date or payment limit'
+    );
+  }
+
+  // Card problems count towards dunning; organization-side ones don't
+  let isDonorPaymentIssue = true;
+
   try {
     // 2. Validate Payment Method
     if (!scheduledDonation.paymentMethod) {
@@ -523,6 +1058,9 @@ const executeScheduledDonation = async (
     }
 
     // 3. Validate Organization & Stripe Connection
+    isDonorPaymentIssue = false;
+    await applyDueEscalation(scheduledDonation);
+
     const organization = await Organization.findById(
       scheduledDonation.organization
     );
@@ -543,15 +1081,25 @@ const executeScheduledDonation = async (
       );
     }
 
-    // 4. Recalculate Fees (Australian Logic)
-    const financials = calculateAustralianFees(
+    // 4. Recalculate Fees (fee schedule live at execution time)
+    const financials = await FeeScheduleService.calculateFees(
       scheduledDonation.amount,
-      scheduledDonation.coverFees
+      scheduledDonation.coverFees,
+      {
+        organizationId: organization._id,
+        causeId: scheduledDonation.cause._id as Types.ObjectId,
+      }
     );
 
     // Calculate Application Fee (Platform + GST)
     const applicationFee = financials.platformFeeWithStripe;
 
+    // Rate from the FX table at execution time
+    const currencySnapshot = await FxRateService.buildCurrencySnapshot(
+      scheduledDonation.currency,
+      organization.settlementCurrency || DEFAULT_CURRENCY
+    );
+
     console.log(`🔄 Executing Recurring Donation (${scheduledDonationId}):`);
     console.log(`   Base: $${financials.baseAmount}`);
     console.log(`   Total Charge: $${financials.totalCharge}`);
@@ -559,7 +1107,7 @@ const executeScheduledDonation = async (
     console.log(`   Destination: ${stripeAccount.stripeAccountId}`);
 
     // 5. Execute Stripe Payment (Destination Charge)
-
+    isDonorPaymentIssue = true;
     const paymentIntent = await StripeService.createPaymentIntentWithMethod({
       amount: financials.baseAmount,
       totalAmount: financials.totalCharge,
@@ -583,8 +1131,11 @@ const executeScheduledDonation = async (
       causeId: scheduledDonation.cause.toString(),
       specialMessage: scheduledDonation.specialMessage || 'Recurring Donation',
     });
+    isDonorPaymentIssue = false;
 
     // 6. Create Donation Record
+    const tribute = scheduledDonation.toObject().tribute;
+
     const donation = await Donation.create({
       donor:
         (scheduledDonation.user as unknown as IClient)._id ||
@@ -601,8 +1152,9 @@ const executeScheduledDonation = async (
       stripeFee: financials.stripeFee,
       netAmount: financials.netToOrg,
       totalAmount: financials.totalCharge,
+      feeSchedule: financials.feeSchedule,
 
-      currency: scheduledDonation.currency,
+      ...currencySnapshot,
       status: 'processing',
       donationDate: new Date(),
 
@@ -612,7 +1164,17 @@ const executeScheduledDonation = async (
       stripePaymentMethodId: paymentMethod.stripePaymentMethodId,
 
       specialMessage: scheduledDonation.specialMessage,
+      tribute: tribute && {
+        ...tribute,
+        // E-card goes out with the first instalment only
+        recipientEmail:
+          scheduledDonation.totalExecutions === 0
+            ? tribute.recipientEmail
+            : undefined,
+      },
+      isAnonymous: scheduledDonation.isAnonymous,
       scheduledDonationId: scheduledDonation._id,
+      retryAttempt: scheduledDonation.failedAttempts || undefined,
 
       // Idempotency
       idempotencyKey: `recurring_${scheduledDonationId}_${Date.now()}`,
@@ -625,10 +1187,19 @@ const executeScheduledDonation = async (
 
     return donation;
   } catch (error) {
-    // Unlock on error
-    await ScheduledDonation.findByIdAndUpdate(scheduledDonationId, {
-      status: 'active',
-    });
+    if (isDonorPaymentIssue) {
+      await recordPaymentFailure(
+        scheduledDonationId,
+        error instanceof Error ? error.message : undefined
+      );
+    } else {
+      // Unlock on error
+      await ScheduledDonation.findByIdAndUpdate(scheduledDonationId, {
+        status: scheduledDonation.failedAttempts
+          ? SCHEDULED_DONATION_STATUS.PAST_DUE
+          : SCHEDULED_DONATION_STATUS.ACTIVE,
+      });
+    }
     throw error;
   }
 };
@@ -648,18 +1219,30 @@ const updateScheduledDonationAfterExecution = async (
     scheduledDonation.lastExecutedDate = new Date();
     scheduledDonation.totalExecutions += 1;
 
+    // A successful charge ends any dunning run
+    scheduledDonation.failedAttempts = 0;
+    scheduledDonation.firstFailedAt = undefined;
+    scheduledDonation.nextRetryDate = undefined;
+
     //  Calculate next date from lastExecutedDate
     const baseDate = scheduledDonation.lastExecutedDate;
     const nextDate = calculateNextDonationDate(
       baseDate,
       scheduledDonation.frequency,
-      scheduledDonation.customInterval
+      scheduledDonation.customInterval,
+      scheduledDonation
     );
     scheduledDonation.nextDonationDate = nextDate;
 
     scheduledDonation.status = 'active';
 
     await scheduledDonation.save();
+
+    // That was the last payment: complete now rather than on the next run
+    const completedReason = getCompletionReason(scheduledDonation, nextDate);
+    if (completedReason) {
+      await completeScheduledDonation(scheduledDonationId, completedReason);
+    }
   } else {
     // On failure, just unlock
     scheduledDonation.status = 'active';
@@ -667,6 +1250,206 @@ const updateScheduledDonationAfterExecution = async (
   }
 };
 
+const getScheduledDonationsDueForRetry = async (): Promise<
+  IScheduledDonationModel[]
+> => {
+  const scheduledDonations = await ScheduledDonation.find({
+    isActive: true,
+    status: SCHEDULED_DONATION_STATUS.PAST_DUE,
+    nextRetryDate: { $lte: new Date() },
+  });
+
+  return scheduledDonations;
+};
+
+// Retry failed instalments whose retry date has arrived (cron)
+const retryDueScheduledDonations = async () => {
+  const dueDonations = await getScheduledDonationsDueForRetry();
+
+  let successCount = 0;
+  const errors: { id: string; error: string }[] = [];
+
+  for (const scheduledDonation of dueDonations) {
+    const id = scheduledDonation._id!.toString();
+    try {
+      await executeScheduledDonation(id);
+      successCount++;
+    } catch (error) {
+      // Already recorded as a failed attempt by executeScheduledDonation
+      errors.push({
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return {
+    totalProcessed: dueDonations.length,
+    successCount,
+    errors,
+  };
+};
+
+// Failed, recovered and lost recurring revenue for an organization
+const getRecoveryReport = async (
+  userId: string,
+  query: TRecoveryReportQuery
+) => {
+  const organization = await Organization.findOne({ auth: userId });
+  if (!organization) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Organization not found!');
+  }
+
+  const endDate = query.endDate || new Date();
+  const startDate =
+    query.startDate ||
+    new Date(endDate.getTime() - DEFAULT_REPORT_DAYS * DAY_MS);
+  const period = { $gte: startDate, $lte: endDate };
+
+  const [failureRows, recoveredRows, inRecoveryRows] = await Promise.all([
+    ScheduledDonationFailure.aggregate([
+      { $match: { organization: organization._id, createdAt: period } },
+      {
+        $group: {
+          _id: null,
+          attempts: { $sum: 1 },
+          // An instalment counts as failed once, on its first failed charge
+          failedCount: {
+            $sum: { $cond: [{ $eq: ['$attemptNumber', 1] }, 1, 0] },
+          },
+          failedAmount: {
+            $sum: { $cond: [{ $eq: ['$attemptNumber', 1] }, '$amount', 0] },
+          },
+          lostCount: {
+            $sum: {
+              $cond: [{ $eq: ['$outcome', FAILURE_OUTCOME.PAUSED] }, 1, 0],
+            },
+          },
+          lostAmount: {
+            $sum: {
+              $cond: [
+                { $eq: ['$outcome', FAILURE_OUTCOME.PAUSED] },
+                '$amount',
+                0,
+              ],
+            },
+          },
+        },
+      },
+    ]),
+    Donation.aggregate([
+      {
+        $match: {
+          organization: organization._id,
+          donationType: 'recurring',
+          status: 'completed',
+          retryAttempt: { $gte: 1 },
+          donationDate: period,
+        },
+      },
+      {
+        $group: {
+          _id: '$retryAttempt',
+          count: { $sum: 1 },
+          amount: { $sum: '$amount' },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]),
+    ScheduledDonation.aggregate([
+      {
+        $match: {
+          organization: organization._id,
+          isActive: true,
+          failedAttempts: { $gt: 0 },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          count: { $sum: 1 },
+          amount: { $sum: '$amount' },
+        },
+      },
+    ]),
+  ]);
+
+  const failures = failureRows[0];
+  const recoveredCount = recoveredRows.reduce((sum, row) => sum + row.count, 0);
+  const recoveredAmount = recoveredRows.reduce(
+    (sum, row) => sum + row.amount,
+    0
+  );
+  const failedCount = failures?.failedCount || 0;
+
+  return {
+    period: { startDate, endDate },
+    failed: {
+      count: failedCount,
+      amount: roundMoney(failures?.failedAmount || 0),
+      attempts: failures?.attempts || 0,
+    },
+    recovered: {
+      count: recoveredCount,
+      amount: roundMoney(recoveredAmount),
+      byRetry: recoveredRows.map((row) => ({
+        retryAttempt: row._id,
+        count: row.count,
+        amount: roundMoney(row.amount),
+      })),
+    },
+    lost: {
+      count: failures?.lostCount || 0,
+      amount: roundMoney(failures?.lostAmount || 0),
+    },
+    inRecovery: {
+      count: inRecoveryRows[0]?.count || 0,
+      amount: roundMoney(inRecoveryRows[0]?.amount || 0),
+    },
+    // Recoveries can belong to failures from before the period
+    recoveryRate: failedCount
+      ? roundMoney(Math.min((recoveredCount / failedCount) * 100, 100))
+      : 0,
+  };
+};
+
+// Upcoming charge dates shown to the donor before they confirm a plan
+const previewScheduledDonation = (payload: TPreviewScheduledDonation) => {
+  const {
+    frequency,
+    customInterval,
+    hijriRule,
+    timezone = DEFAULT_TIMEZONE,
+    count = DEFAULT_PREVIEW_COUNT,
+  } = payload;
+  const hijriSchedule = { hijriRule, timezone };
+  const startDate = payload.startDate
+    ? new Date(payload.startDate)
+    : new Date();
+
+  const occurrences = [];
+  let date = getFirstDonationDate(startDate, frequency, hijriSchedule);
+  for (let i = 0; i < count; i++) {
+    occurrences.push({
+      date,
+      localDate: date.toLocaleString('en-AU', {
+        timeZone: timezone,
+        dateStyle: 'full',
+        timeStyle: 'short',
+      }),
+      hijriDate: describeHijriOccurrence(date, timezone, hijriRule),
+    });
+    date = calculateNextDonationDate(
+      date,
+      frequency,
+      customInterval,
+      hijriSchedule
+    );
+  }
+
+  return { frequency, timezone, occurrences };
+};
+
 export const ScheduledDonationService = {
   createScheduledDonation,
   getUserScheduledDonations,
@@ -678,4 +1461,9 @@ export const ScheduledDonationService = {
   getScheduledDonationsDueForExecution,
   executeScheduledDonation,
   updateScheduledDonationAfterExecution,
+  recordPaymentFailure,
+  getScheduledDonationsDueForRetry,
+  retryDueScheduledDonations,
+  getRecoveryReport,
+  previewScheduledDonation,
 };
@@ -0,0 +1,179 @@
+import httpStatus from 'http-status';
+import { AppError } from '../../utils';
+import {
+  formatHijriDate,
+  IHijriDate,
+  toHijriDate,
+} from '../../utils/hijri.utils';
+import { IHijriRecurrenceRule } from '../Donation/donation.interface';
+import {
+  DEFAULT_HIJRI_TIME,
+  HIJRI_RULE_TYPE,
+  MAX_HIJRI_NIGHTS,
+} from './scheduledDonation.constant';
+
+// Every rule recurs at least once a Hijri year; search two to be safe
+const MAX_SEARCH_DAYS = 710;
+
+// A calendar day in the plan's timezone (month is 0-based)
+type TLocalDate = { year: number; month: number; day: number };
+
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const valueOf = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: valueOf('year'),
+    month: valueOf('month') - 1,
+    day: valueOf('day'),
+    hour: valueOf('hour'),
+    minute: valueOf('minute'),
+    second: valueOf('second'),
+  };
+};
+
+// Offset of the zone from UTC at an instant, in milliseconds
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const local = zonedParts(date, timeZone);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+
+  return (
+    Date.UTC(
+      local.year,
+      local.month,
+      local.day,
+      local.hour,
+      local.minute,
+      local.second
+    ) - wholeSeconds
+  );
+};
+
+/**
+ * Converts a wall-clock time ('HH:mm') on a local day in `timeZone` into
+ * the matching UTC instant. The second pass settles days with a DST change.
+ */
+export const zonedTimeToUtc = (
+  local: TLocalDate,
+  time: string,
+  timeZone: string
+): Date => {
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(local.year, local.month, local.day, hour, minute);
+
+  const firstGuess =
+    wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(
+    wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone)
+  );
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const addLocalDays = (local: TLocalDate, days: number): TLocalDate => {
+  const date = new Date(Date.UTC(local.year, local.month, local.day + days));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth(),
+    day: date.getUTCDate(),
+  };
+};
+
+const hijriOf = (local: TLocalDate): IHijriDate =>
+  toHijriDate(new Date(Date.UTC(local.year, local.month, local.day)));
+
+const matchesHijriRule = (rule: IHijriRecurrenceRule, local: TLocalDate) => {
+  switch (rule.type) {
+    case HIJRI_RULE_TYPE.LAST_NIGHTS: {
+      // The night of a Hijri day begins on the evening before it, and the
+      // last N nights are counted from night 31 - N (21 for the last 10)
+      const night = hijriOf(addLocalDays(local, 1));
+      const nights = rule.nights || MAX_HIJRI_NIGHTS;
+      return night.month === rule.month && night.day >= 31 - nights;
+    }
+
+    case HIJRI_RULE_TYPE.WEEKDAY: {
+      const weekday = new Date(
+        Date.UTC(local.year, local.month, local.day)
+      ).getUTCDay();
+      return weekday === rule.weekday && hijriOf(local).month === rule.month;
+    }
+
+    case HIJRI_RULE_TYPE.ANNUAL: {
+      const hijri = hijriOf(local);
+      if (hijri.month !== rule.month) return false;
+      if (hijri.day === rule.day) return true;
+
+      // Day 30 of a 29-day month falls on its last day
+      return (
+        rule.day === 30 &&
+        hijri.day === 29 &&
+        hijriOf(addLocalDays(local, 1)).month !== rule.month
+      );
+    }
+
+    default:
+      return false;
+  }
+};
+
+/**
+ * Next instant strictly after `after` that falls on the Hijri rule, at the
+ * rule's time of day in `timeZone`. Dates come from the Umm al-Qura table
+ * bundled with the runtime, so no network lookup is needed.
+ */
+export const getNextHijriOccurrence = (
+  rule: IHijriRecurrenceRule,
+  timeZone: string,
+  after: Date
+): Date => {
+  const time = rule.timeOfDay || DEFAULT_HIJRI_TIME[rule.type];
+  const start = zonedParts(after, timeZone);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const local = addLocalDays(start, offset);
+    if (!matchesHijriRule(rule, local)) continue;
+
+    const occurrence = zonedTimeToUtc(local, time, timeZone);
+    if (occurrence > after) return occurrence;
+  }
+
+  throw new AppError(
+    httpStatus.BAD_REQUEST,
+    'No upcoming date matches this Hijri schedule!'
+  );
+};
+
+/**
+ * Hijri date shown next to an occurrence. Night occurrences are labelled
+ * with the night they begin rather than the evening's daytime date.
+ */
+export const describeHijriOccurrence = (
+  date: Date,
+  timeZone: string,
+  rule?: IHijriRecurrenceRule
+) => {
+  const local = zonedParts(date, timeZone);
+
+  if (rule?.type === HIJRI_RULE_TYPE.LAST_NIGHTS) {
+    return `Night of ${formatHijriDate(hijriOf(addLocalDays(local, 1)))}`;
+  }
+  return formatHijriDate(hijriOf(local));
+};
@@ -1,4 +1,13 @@
 import { z } from 'zod';
+import { tributeSchema } from '../Donation/donation.validation';
+import {
+  HIJRI_RULE_TYPE,
+  HIJRI_RULE_TYPE_VALUES,
+  MAX_ESCALATION_PERCENT,
+  MAX_HIJRI_NIGHTS,
+  MAX_PREVIEW_COUNT,
+} from './scheduledDonation.constant';
+import { isValidTimeZone } from './scheduledDonation.utils';
 
 // Custom interval schema
 const customIntervalSchema = z.object({
@@ -9,6 +18,81 @@ const customIntervalSchema = z.object({
   unit: z.enum(['days', 'weeks', 'months']),
 });
 
+// Hijri recurrence rule schema (frequency 'hijri')
+const hijriRuleSchema = z
+  .object({
+    type: z.enum(HIJRI_RULE_TYPE_VALUES, {
+      message: 'Hijri rule type must be last_nights, weekday or annual',
+    }),
+    month: z
+      .number()
+      .int('Hijri month must be a whole number')
+      .min(1, 'Hijri month must be between 1 and 12')
+      .max(12, 'Hijri month must be between 1 and 12'),
+    nights: z
+      .number()
+      .int('Nights must be a whole number')
+      .min(1, 'Nights must be at least 1')
+      .max(MAX_HIJRI_NIGHTS, `Nights cannot exceed ${MAX_HIJRI_NIGHTS}`)
+      .optional(),
+    weekday: z
+      .number()
+      .int('Weekday must be a whole number')
+      .min(0, 'Weekday must be between 0 (Sunday) and 6 (Saturday)')
+      .max(6, 'Weekday must be between 0 (Sunday) and 6 (Saturday)')
+      .optional(),
+    day: z
+      .number()
+      .int('Hijri day must be a whole number')
+      .min(1, 'Hijri day must be between 1 and 30')
+      .max(30, 'Hijri day must be between 1 and 30')
+      .optional(),
+    timeOfDay: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time of day must be HH:mm')
+      .optional(),
+  })
+  .refine(
+    (rule) =>
+      rule.type !== HIJRI_RULE_TYPE.WEEKDAY || rule.weekday !== undefined,
+    { message: 'Weekday is required for a weekday rule', path: ['weekday'] }
+  )
+  .refine(
+    (rule) => rule.type !== HIJRI_RULE_TYPE.ANNUAL || rule.day !== undefined,
+    { message: 'Hijri day is required for an annual rule', path: ['day'] }
+  );
+
+const timezoneSchema = z
+  .string()
+  .refine(
+    isValidTimeZone,
+    'Timezone must be an IANA zone, e.g. Australia/Sydney'
+  );
+
+// Plan limits and annual escalation
+const endDateSchema = z
+  .string()
+  .datetime({ message: 'Invalid end date format. Must be ISO 8601.' })
+  .refine((date) => new Date(date) > new Date(), {
+    message: 'End date must be in the future!',
+  });
+
+const maxOccurrencesSchema = z
+  .number()
+  .int('Maximum occurrences must be a whole number')
+  .min(1, 'Maximum occurrences must be at least 1');
+
+const escalationSchema = z.object({
+  percent: z
+    .number()
+    .positive('Escalation percent must be positive')
+    .max(
+      MAX_ESCALATION_PERCENT,
+      `Escalation cannot exceed ${MAX_ESCALATION_PERCENT}% a year`
+    ),
+  maxAmount: z.number().positive('Maximum amount must be positive').optional(),
+});
+
 // 1. Create scheduled donation schema
 const createScheduledDonationSchema = z.object({
   body: z
@@ -34,16 +118,31 @@ const createScheduledDonationSchema = z.object({
         }),
 
       frequency: z.enum(
-        ['daily', 'weekly', 'monthly', 'quarterly', 'yearly', 'custom'],
+        [
+          'daily',
+          'weekly',
+          'monthly',
+          'quarterly',
+          'yearly',
+          'custom',
+          'hijri',
+        ],
         {
           message: 'Frequency is required!',
         }
       ),
       customInterval: customIntervalSchema.optional(),
+      hijriRule: hijriRuleSchema.optional(),
+      timezone: timezoneSchema.optional(), // Defaults to Australia/Sydney
+      endDate: endDateSchema.optional(),
+      maxOccurrences: maxOccurrencesSchema.optional(),
+      escalation: escalationSchema.optional(), // e.g. { percent: 5 }
       specialMessage: z
         .string()
         .max(500, 'Special message cannot exceed 500 characters')
         .optional(),
+      tribute: tributeSchema.optional(),
+      isAnonymous: z.boolean().optional(), // Falls back to profile default
       paymentMethodId: z
         .string({ message: 'Payment method ID is required!' })
         .min(1, 'Payment method ID is required!'),
@@ -74,6 +173,33 @@ const createScheduledDonationSchema = z.object({
           'Custom interval should only be provided when frequency is "custom"',
         path: ['customInterval'],
       }
+    )
+    .refine(
+      (data) => data.frequency !== 'hijri' || data.hijriRule !== undefined,
+      {
+        message: 'Hijri rule is required when frequency is "hijri"',
+        path: ['hijriRule'],
+      }
+    )
+    .refine((data) => data.frequency === 'hijri' || !data.hijriRule, {
+      message: 'Hijri rule should only be provided when frequency is "hijri"',
+      path: ['hijriRule'],
+    })
+    .refine(
+      (data) =>
+        !data.endDate || new Date(data.endDate) > new Date(data.startDate),
+      {
+        message: 'End date must be after the start date!',
+        path: ['endDate'],
+      }
+    )
+    .refine(
+      (data) =>
+        !data.escalation?.maxAmount || data.escalation.maxAmount > data.amount,
+      {
+        message: 'Escalation maximum must be more than the amount!',
+        path: ['escalation', 'maxAmount'],
+      }
     ),
 });
 
@@ -95,14 +221,36 @@ const updateScheduledDonationSchema = z.object({
       coverFees: z.boolean().optional(),
 
       frequency: z
-        .enum(['daily', 'weekly', 'monthly', 'quarterly', 'yearly', 'custom'])
+        .enum([
+          'daily',
+          'weekly',
+          'monthly',
+          'quarterly',
+          'yearly',
+          'custom',
+          'hijri',
+        ])
         .optional(),
       customInterval: customIntervalSchema.optional(),
+      hijriRule: hijriRuleSchema.optional(),
+      timezone: timezoneSchema.optional(),
+      // Send null to remove a limit or the escalation
+      endDate: endDateSchema.nullable().optional(),
+      maxOccurrences: maxOccurrencesSchema.nullable().optional(),
+      escalation: escalationSchema.nullable().optional(),
       specialMessage: z
         .string()
         .max(500, 'Special message cannot exceed 500 characters')
         .optional(),
+      // Send null to remove an existing tribute
+      tribute: tributeSchema.nullable().optional(),
+      isAnonymous: z.boolean().optional(),
       isActive: z.boolean().optional(),
+      // Swapping the card on a past-due plan retries it straight away
+      paymentMethodId: z
+        .string()
+        .min(1, 'Payment method ID cannot be empty!')
+        .optional(),
     })
     .refine(
       (data) => {
@@ -163,6 +311,7 @@ const getUserScheduledDonationsSchema = z.object({
         'quarterly',
         'yearly',
         'custom',
+        'hijri',
         'all',
       ])
       .optional()
@@ -188,6 +337,72 @@ const cancelScheduledDonationSchema = z.object({
   }),
 });
 
+// 7. Recovery report schema (organization)
+const recoveryReportSchema = z.object({
+  query: z
+    .object({
+      startDate: z.coerce.date().optional(),
+      endDate: z.coerce.date().optional(),
+    })
+    .refine(
+      (data) =>
+        !data.startDate || !data.endDate || data.startDate <= data.endDate,
+      {
+        message: 'Start date must be before end date!',
+        path: ['endDate'],
+      }
+    ),
+});
+
+// 8. Preview upcoming dates before confirming a plan
+const previewScheduledDonationSchema = z.object({
+  body: z
+    .object({
+      frequency: z.enum(
+        [
+          'daily',
+          'weekly',
+          'monthly',
+          'quarterly',
+          'yearly',
+          'custom',
+          'hijri',
+        ],
+        {
+          message: 'Frequency is required!',
+        }
+      ),
+      customInterval: customIntervalSchema.optional(),
+      hijriRule: hijriRuleSchema.optional(),
+      timezone: timezoneSchema.optional(),
+      startDate: z
+        .string()
+        .datetime({ message: 'Invalid date format. Must be ISO 8601.' })
+        .optional(), // Defaults to now
+      count: z
+        .number()
+        .int('Count must be a whole number')
+        .min(1, 'Count must be at least 1')
+        .max(MAX_PREVIEW_COUNT, `Count cannot exceed ${MAX_PREVIEW_COUNT}`)
+        .optional(),
+    })
+    .refine(
+      (data) =>
+        data.frequency !== 'custom' || data.customInterval !== undefined,
+      {
+        message: 'Custom interval is required when frequency is "custom"',
+        path: ['customInterval'],
+      }
+    )
+    .refine(
+      (data) => data.frequency !== 'hijri' || data.hijriRule !== undefined,
+      {
+        message: 'Hijri rule is required when frequency is "hijri"',
+        path: ['hijriRule'],
+      }
+    ),
+});
+
 // Type exports
 export type TCreateScheduledDonation = z.infer<
   typeof createScheduledDonationSchema
@@ -197,6 +412,14 @@ export type TUpdateScheduledDonation = z.infer<
   typeof updateScheduledDonationSchema
 >['body'];
 
+export type TPreviewScheduledDonation = z.infer<
+  typeof previewScheduledDonationSchema
+>['body'];
+
+export type TRecoveryReportQuery = z.infer<
+  typeof recoveryReportSchema
+>['query'];
+
 // Export validation schemas
 export const ScheduledDonationValidation = {
   createScheduledDonationSchema,
@@ -205,4 +428,6 @@ export const ScheduledDonationValidation = {
   getUserScheduledDonationsSchema,
   toggleScheduledDonationSchema,
   cancelScheduledDonationSchema,
+  recoveryReportSchema,
+  previewScheduledDonationSchema,
 };
@@ -0,0 +1,67 @@
+import { Schema, model } from 'mongoose';
+import { IScheduledDonationFailureModel } from '../Donation/donation.interface';
+import { FAILURE_OUTCOME_VALUES } from './scheduledDonation.constant';
+
+// Log of failed recurring charges; recovered ones are the donations
+// created with `retryAttempt` set
+const scheduledDonationFailureSchema =
+  new Schema<IScheduledDonationFailureModel>(
+    {
+      scheduledDonation: {
+        type: Schema.Types.ObjectId,
+        ref: 'ScheduledDonation',
+        required: true,
+        index: true,
+      },
+      donor: {
+        type: Schema.Types.ObjectId,
+        ref: 'Client',
+        required: true,
+      },
+      organization: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+      },
+      cause: {
+        type: Schema.Types.ObjectId,
+        ref: 'Cause',
+      },
+      amount: {
+        type: Number,
+        required: true,
+      },
+      currency: {
+        type: String,
+        uppercase: true,
+      },
+      attemptNumber: {
+        type: Number,
+        required: true,
+        min: 1,
+      },
+      reason: {
+        type: String,
+        trim: true,
+      },
+      outcome: {
+        type: String,
+        enum: FAILURE_OUTCOME_VALUES,
+        required: true,
+      },
+      nextRetryDate: {
+        type: Date,
+      },
+    },
+    {
+      versionKey: false,
+      timestamps: true,
+    }
+  );
+
+scheduledDonationFailureSchema.index({ organization: 1, createdAt: -1 });
+
+export const ScheduledDonationFailure = model<IScheduledDonationFailureModel>(
+  'ScheduledDonationFailure',
+  scheduledDonationFailureSchema
+);
@@ -109,4 +109,44 @@ export interface ICreateRoundUpPaymentIntentRequest {
   netToOrg?: number;
 
   totalAmount: number; // Total Charge
+  currency?: string; // Bank transaction currency
+}
+
+//  Interface for a round-up split across allocation lines (platform charge)
+export interface ICreateRoundUpSplitPaymentIntentRequest {
+  roundUpId: string;
+  userId: string;
+  splitId: string; // Groups the line donations and their transfers
+  amount: number; // Sum of line base amounts
+  totalAmount: number; // Total Charge
+  currency?: string;
+  paymentMethodId: string;
+  lineCount: number;
+  month: string;
+  year: number;
+  specialMessage?: string;
+
+  // Financial Breakdown for Metadata
+  coverFees?: boolean;
+  platformFee?: number;
+  gstOnFee?: number;
+  stripeFee?: number;
+}
+
+//  Interface for giving basket payment intent (platform charge + transfers)
+export interface ICreateBasketPaymentIntentRequest {
+  basketId: string;
+  donorId: string;
+  amount: number; // Sum of line base amounts
+  totalAmount: number; // Total Charge
+  currency?: string;
+  customerId: string;
+  paymentMethodId: string;
+  lineCount: number;
+
+  // Financial Breakdown for Metadata
+  coverFees?: boolean;
+  platformFee?: number;
+  gstOnFee?: number;
+  stripeFee?: number;
 }
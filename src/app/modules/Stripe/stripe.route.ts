@@ -1,10 +1,15 @@
 import { Router } from 'express';
-import { auth } from '../../middlewares';
+import { auth, idempotency } from '../../middlewares';
 import { StripeController } from './stripe.controller';
 
 const router = Router();
 
 // Create refund for payment (requires authentication)
-router.post('/refund', auth(), StripeController.createRefund);
+router.post(
+  '/refund',
+  auth(),
+  idempotency(),
+  StripeController.createRefund
+);
 
 export default router;
@@ -12,6 +12,8 @@ import {
   IAttachPaymentMethodRequest,
   ICreatePaymentIntentWithMethodRequest,
   ICreateRoundUpPaymentIntentRequest,
+  ICreateRoundUpSplitPaymentIntentRequest,
+  ICreateBasketPaymentIntentRequest,
 } from './stripe.interface';
 import PaymentMethod from '../PaymentMethod/paymentMethod.model';
 import { StripeAccount } from '../OrganizationAccount/stripe-account.model';
@@ -556,6 +558,7 @@ const createRoundUpPaymentIntent = async (
       causeId,
       amount, // Base amount
       totalAmount, // Total charge
+      currency = 'usd',
       month,
       year,
       specialMessage,
@@ -620,7 +623,7 @@ const createRoundUpPaymentIntent = async (
     // Create Stripe Payment Intent for off-session round-up donation
     const paymentIntentParams: Stripe.PaymentIntentCreateParams = {
       amount: Math.round(totalAmount * 100),
-      currency: 'usd', // Default to AUD for AU context
+      currency: currency.toLowerCase(),
 
       // Off-session settings
       confirm: true,
@@ -677,6 +680,182 @@ const createRoundUpPaymentIntent = async (
   }
 };
 
+// 16b. Create payment intent for a round-up split across charities
+// (Platform Charge). Each line's share is transferred to its organization
+// once the payment succeeds (see webhook handler).
+const createRoundUpSplitPaymentIntent = async (
+  payload: ICreateRoundUpSplitPaymentIntentRequest
+): Promise<IPaymentIntentResponse> => {
+  const {
+    roundUpId,
+    userId,
+    splitId,
+    amount,
+    totalAmount,
+    currency = 'usd',
+    paymentMethodId,
+    lineCount,
+    month,
+    year,
+    specialMessage,
+    coverFees = false,
+    platformFee = 0,
+    gstOnFee = 0,
+    stripeFee = 0,
+  } = payload;
+
+  console.log(`🔄 Creating Split RoundUp Payment Intent (Platform Charge):`);
+  console.log(`   Lines: ${lineCount}`);
+  console.log(`   Base: $${amount.toFixed(2)}`);
+  console.log(`   Total: $${totalAmount.toFixed(2)}`);
+
+  const paymentMethod = await PaymentMethod.findById(paymentMethodId);
+
+  if (!paymentMethod) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Payment method not found');
+  }
+
+  if (String(paymentMethod.user) !== userId) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Payment method does not belong to the specified user'
+    );
+  }
+
+  if (!paymentMethod.isActive) {
+    throw new AppError(httpStatus.BAD_REQUEST, "Payment method isn't active");
+  }
+
+  try {
+    const paymentIntentParams: Stripe.PaymentIntentCreateParams = {
+      amount: Math.round(totalAmount * 100),
+      currency: currency.toLowerCase(),
+
+      // Off-session settings
+      confirm: true,
+      off_session: true,
+      customer: paymentMethod.stripeCustomerId,
+      payment_method: paymentMethod.stripePaymentMethodId,
+
+      // Transfers to each organization are grouped with this charge
+      transfer_group: `roundup_${splitId}`,
+
+      metadata: {
+        type: 'roundup_split_donation',
+        donationType: 'roundup',
+        roundUpId,
+        userId,
+        splitId,
+        lineCount: lineCount.toString(),
+        month,
+        year: String(year),
+        specialMessage:
+          specialMessage || `Round-up donation for ${month} ${year}`,
+        baseAmount: amount.toString(),
+        totalAmount: totalAmount.toString(),
+
+        //  Fee Breakdown
+        platformFee: platformFee.toString(),
+        gstOnFee: gstOnFee.toString(),
+        stripeFee: stripeFee.toString(),
+        coverFees: coverFees.toString(),
+      },
+    };
+
+    const paymentIntent = await stripe.paymentIntents.create(
+      paymentIntentParams
+    );
+
+    return {
+      client_secret: paymentIntent.client_secret || '',
+      payment_intent_id: paymentIntent.id,
+    };
+  } catch (error) {
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      `Failed to create split RoundUp payment intent: ${(error as Error).message}`
+    );
+  }
+};
+
+// 17. Create payment intent for a giving basket (Platform Charge)
+// Funds land on the platform and are transferred to each organization per line
+// once the payment succeeds (see webhook handler).
+const createBasketPaymentIntent = async (
+  payload: ICreateBasketPaymentIntentRequest
+): Promise<IPaymentIntentResponse> => {
+  const {
+    basketId,
+    donorId,
+    amount,
+    totalAmount,
+    currency = 'usd',
+    customerId,
+    paymentMethodId,
+    lineCount,
+    coverFees = false,
+    platformFee = 0,
+    gstOnFee = 0,
+    stripeFee = 0,
+  } = payload;
+
+  // Validate amount
+  if (totalAmount < 1 || totalAmount > 10000) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Invalid basket amount! Amount must be between $1 and $10,000.'
+    );
+  }
+
+  console.log(`🧺 Creating Basket Payment Intent (Platform Charge):`);
+  console.log(`   Lines: ${lineCount}`);
+  console.log(`   Base: $${amount.toFixed(2)}`);
+  console.log(`   Total Charge: $${totalAmount.toFixed(2)}`);
+
+  try {
+    const paymentIntentParams: Stripe.PaymentIntentCreateParams = {
+      amount: Math.round(totalAmount * 100),
+      currency: currency.toLowerCase(),
+      customer: customerId,
+      payment_method: paymentMethodId,
+      confirm: true,
+      return_url: config.stripe.stripeSuccessUrl,
+
+      // Transfers to each organization are grouped with this charge
+      transfer_group: `basket_${basketId}`,
+
+      metadata: {
+        type: 'donation_basket',
+        basketId,
+        donorId,
+        lineCount: lineCount.toString(),
+        baseAmount: amount.toString(),
+        totalAmount: totalAmount.toString(),
+
+        //  Fee Breakdown
+        platformFee: platformFee.toString(),
+        gstOnFee: gstOnFee.toString(),
+        stripeFee: stripeFee.toString(),
+        coverFees: coverFees.toString(),
+      },
+    };
+
+    const paymentIntent = await stripe.paymentIntents.create(
+      paymentIntentParams
+    );
+
+    return {
+      client_secret: paymentIntent.client_secret || '',
+      payment_intent_id: paymentIntent.id,
+    };
+  } catch (error) {
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      `Failed to create basket payment intent: ${(error as Error).message}`
+    );
+  }
+};
+
 // 18. Cancel payment intent for one-time donation
 const cancelPaymentIntent = async (
   paymentIntentId: string
@@ -700,11 +879,14 @@ const cancelPaymentIntent = async (
 // ==========================================
 // 19. Transfer Funds to Connected Account (Manual Payout)
 // ==========================================
+// Pass `sourceTransaction` to tie the transfer to a platform charge so it can
+// be made before the charge's funds become available (giving basket).
 const transferFundsToConnectedAccount = async (
   destinationAccountId: string,
   amount: number,
   currency: string = 'usd',
-  metadata: Record<string, string> = {}
+  metadata: Record<string, string> = {},
+  options: { sourceTransaction?: string; transferGroup?: string } = {}
 ): Promise<Stripe.Transfer> => {
   if (!destinationAccountId) {
     throw new AppError(
@@ -717,9 +899,13 @@ const transferFundsToConnectedAccount = async (
     // Create a Transfer from the Platform to the Connected Account
     const transfer = await stripe.transfers.create({
       amount: Math.round(amount * 100), // Convert to cents
-      currency,
+      currency: currency.toLowerCase(),
       destination: destinationAccountId,
       metadata,
+      ...(options.sourceTransaction && {
+        source_transaction: options.sourceTransaction,
+      }),
+      ...(options.transferGroup && { transfer_group: options.transferGroup }),
     });
 
     return transfer;
@@ -731,6 +917,33 @@ const transferFundsToConnectedAccount = async (
   }
 };
 
+// 19b. Reverse a transfer made to a Connected Account (full or partial)
+const reverseTransfer = async (
+  transferId: string,
+  amount?: number,
+  metadata: Record<string, string> = {}
+): Promise<Stripe.TransferReversal> => {
+  if (!transferId) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Transfer ID is required!');
+  }
+
+  try {
+    const reversalParams: Stripe.TransferCreateReversalParams = { metadata };
+
+    // Add amount if specified (partial reversal)
+    if (amount && amount > 0) {
+      reversalParams.amount = Math.round(amount * 100);
+    }
+
+    return await stripe.transfers.createReversal(transferId, reversalParams);
+  } catch (error) {
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      `Failed to reverse transfer: ${(error as Error).message}`
+    );
+  }
+};
+
 // 20. Create Payout (Manual Payout from Connected Account to Bank)
 // Moves funds from Connected Account Balance to their External Bank
 const createPayout = async (
@@ -799,6 +1012,26 @@ const getAccountBalance = async (accountId: string) => {
   }
 };
 
+// 22. Attach (and optionally submit) evidence for a dispute
+const updateDisputeEvidence = async (
+  disputeId: string,
+  evidence: Stripe.DisputeUpdateParams.Evidence,
+  submit = false
+): Promise<Stripe.Dispute> => {
+  if (!disputeId) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Dispute ID is required!');
+  }
+
+  try {
+    return await stripe.disputes.update(disputeId, { evidence, submit });
+  } catch (error) {
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      `Failed to update dispute evidence: ${(error as Error).message}`
+    );
+  }
+};
+
 export const StripeService = {
   // Payment intent methods
   createPaymentIntent,
@@ -806,6 +1039,8 @@ export const StripeService = {
   getPaymentIntent,
   cancelPaymentIntent,
   createRoundUpPaymentIntent,
+  createRoundUpSplitPaymentIntent,
+  createBasketPaymentIntent,
 
   // Payment method methods
   createSetupIntent,
@@ -831,6 +1066,10 @@ export const StripeService = {
 
   // Transfer methods
   transferFundsToConnectedAccount,
+  reverseTransfer,
   createPayout,
   getAccountBalance,
+
+  // Dispute methods
+  updateDisputeEvidence,
 };
@@ -0,0 +1,15 @@
+// Australian financial year runs 1 July - 30 June. A statement's
+// `financialYear` is the year it ends in (ATO "income year"), e.g. 2026
+// covers 1 July 2025 - 30 June 2026.
+export const FINANCIAL_YEAR_START_MONTH = 6; // July (0-based)
+
+// Period boundaries are taken in Australian Eastern Standard Time
+export const STATEMENT_TIMEZONE_OFFSET_HOURS = 10;
+
+// Gifts under $2 are not tax deductible in Australia
+export const MIN_DEDUCTIBLE_GIFT = 2;
+
+export const TAX_STATEMENT_S3_FOLDER = 'tax-statements';
+
+// Earliest income year statements can be requested for
+export const FIRST_STATEMENT_YEAR = 2020;
@@ -0,0 +1,49 @@
+import { Document, Types } from 'mongoose';
+
+// One organization (and currency) on the statement
+export interface ITaxStatementOrganization {
+  organization: Types.ObjectId;
+  organizationName: string;
+  abnNumber?: string;
+  isDgr: boolean; // Deductible gift recipient at the time of the gifts
+  currency: string;
+  totalAmount: number;
+  donationCount: number;
+}
+
+export interface ITaxStatement {
+  donor: Types.ObjectId; // Client
+  financialYear: number; // Year the income year ends in
+  periodStart: Date;
+  periodEnd: Date;
+  isPartial: boolean; // Generated before the year ended
+
+  statementNumber: string;
+  organizations: ITaxStatementOrganization[];
+  totals: { currency: string; totalAmount: number }[];
+  donationCount: number;
+
+  pdfUrl: string;
+  pdfKey: string;
+  generatedAt: Date;
+  emailSent: boolean;
+  emailSentAt?: Date;
+}
+
+export interface ITaxStatementModel extends ITaxStatement, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ITaxStatementPDFData {
+  statementNumber: string;
+  financialYearLabel: string;
+  periodStart: Date;
+  periodEnd: Date;
+  isPartial: boolean;
+  donorName: string;
+  donorEmail: string;
+  organizations: ITaxStatementOrganization[];
+  totals: { currency: string; totalAmount: number }[];
+  generatedAt: Date;
+}
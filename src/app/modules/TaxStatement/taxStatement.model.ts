@@ -0,0 +1,101 @@
+import { Schema, model } from 'mongoose';
+import { ITaxStatementModel } from './taxStatement.interface';
+
+const statementOrganizationSchema = new Schema(
+  {
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+    },
+    organizationName: { type: String, required: true },
+    abnNumber: { type: String },
+    isDgr: { type: Boolean, default: false },
+    currency: { type: String, required: true },
+    totalAmount: { type: Number, required: true },
+    donationCount: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const taxStatementSchema = new Schema<ITaxStatementModel>(
+  {
+    donor: {
+      type: Schema.Types.ObjectId,
+      ref: 'Client',
+      required: true,
+    },
+    financialYear: {
+      type: Number,
+      required: true,
+    },
+    periodStart: {
+      type: Date,
+      required: true,
+    },
+    periodEnd: {
+      type: Date,
+      required: true,
+    },
+    isPartial: {
+      type: Boolean,
+      default: false,
+    },
+
+    statementNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    organizations: {
+      type: [statementOrganizationSchema],
+      default: [],
+    },
+    totals: {
+      type: [
+        {
+          _id: false,
+          currency: { type: String, required: true },
+          totalAmount: { type: Number, required: true },
+        },
+      ],
+      default: [],
+    },
+    donationCount: {
+      type: Number,
+      default: 0,
+    },
+
+    pdfUrl: {
+      type: String,
+      required: true,
+    },
+    pdfKey: {
+      type: String,
+      required: true,
+    },
+    generatedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    emailSent: {
+      type: Boolean,
+      default: false,
+    },
+    emailSentAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// One statement per donor and income year (regenerating replaces it)
+taxStatementSchema.index({ donor: 1, financialYear: 1 }, { unique: true });
+
+export const TaxStatement = model<ITaxStatementModel>(
+  'TaxStatement',
+  taxStatementSchema
+);
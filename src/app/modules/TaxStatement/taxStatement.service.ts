@@ -0,0 +1,358 @@
+/* eslint-disable no-console */
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+
+import { AppError, deleteFromS3, uploadToS3 } from '../../utils';
+import { generateTaxStatementPDF } from '../../utils/pdf.utils';
+import { sendTaxStatementEmail } from '../../utils/emailService';
+import Client from '../Client/client.model';
+import { Donation } from '../Donation/donation.model';
+import { TaxStatement } from './taxStatement.model';
+import { ITaxStatementOrganization } from './taxStatement.interface';
+import {
+  FINANCIAL_YEAR_START_MONTH,
+  FIRST_STATEMENT_YEAR,
+  MIN_DEDUCTIBLE_GIFT,
+  STATEMENT_TIMEZONE_OFFSET_HOURS,
+  TAX_STATEMENT_S3_FOLDER,
+} from './taxStatement.constant';
+
+const OFFSET_MS = STATEMENT_TIMEZONE_OFFSET_HOURS * 60 * 60 * 1000;
+
+const roundMoney = (value: number) => Number(value.toFixed(2));
+
+// Income year the date falls in (ends in June of the returned year)
+const getCurrentFinancialYear = (date: Date = new Date()) => {
+  const local = new Date(date.getTime() + OFFSET_MS);
+  return local.getUTCMonth() >= FINANCIAL_YEAR_START_MONTH
+    ? local.getUTCFullYear() + 1
+    : local.getUTCFullYear();
+};
+
+const getFinancialYearRange = (financialYear: number) => {
+  const periodStart = new Date(
+    Date.UTC(financialYear - 1, FINANCIAL_YEAR_START_MONTH, 1) - OFFSET_MS
+  );
+  const nextPeriodStart = new Date(
+    Date.UTC(financialYear, FINANCIAL_YEAR_START_MONTH, 1) - OFFSET_MS
+  );
+
+  return {
+    periodStart,
+    periodEnd: new Date(nextPeriodStart.getTime() - 1),
+    nextPeriodStart,
+  };
+};
+
+// e.g. 2026 -> "2025-26"
+const formatFinancialYear = (financialYear: number) =>
+  `${financialYear - 1}-${String(financialYear % 100).padStart(2, '0')}`;
+
+const generateStatementNumber = (financialYear: number) => {
+  const random = Math.floor(Math.random() * 10000)
+    .toString()
+    .padStart(4, '0');
+  return `EOFY-${financialYear}-${Date.now()}-${random}`;
+};
+
+// Completed gifts in the year, kept amount after refunds, per organization
+const gatherStatementRows = async (
+  donorId: Types.ObjectId,
+  financialYear: number
+): Promise<ITaxStatementOrganization[]> => {
+  const { periodStart, nextPeriodStart } =
+    getFinancialYearRange(financialYear);
+
+  const rows = await Donation.aggregate([
+    {
+      $match: {
+        donor: donorId,
+        status: 'completed',
+        isMatchingGift: { $ne: true },
+        donationDate: { $gte: periodStart, $lt: nextPeriodStart },
+      },
+    },
+    {
+      $addFields: {
+        keptAmount: {
+          $subtract: ['$amount', { $ifNull: ['$refundedAmount', 0] }],
+        },
+      },
+    },
+    { $match: { keptAmount: { $gte: MIN_DEDUCTIBLE_GIFT } } },
+    {
+      $lookup: {
+        from: 'receipts',
+        localField: 'receiptId',
+        foreignField: '_id',
+        as: 'receiptData',
+      },
+    },
+    { $unwind: { path: '$receiptData', preserveNullAndEmptyArrays: true } },
+    {
+      $group: {
+        _id: { organization: '$organization', currency: '$currency' },
+        totalAmount: { $sum: '$keptAmount' },
+        donationCount: { $sum: 1 },
+        abnNumber: { $last: '$receiptData.abnNumber' },
+        // Receipts snapshot the organization's DGR status per gift; a gift
+        // without one can't be shown to be deductible
+        isDgr: { $min: { $ifNull: ['$receiptData.taxDeductible', false] } },
+      },
+    },
+    {
+      $lookup: {
+        from: 'organizations',
+        localField: '_id.organization',
+        foreignField: '_id',
+        as: 'organizationData',
+      },
+    },
+    {
+      $unwind: {
+        path: '$organizationData',
+        preserveNullAndEmptyArrays: true,
+      },
+    },
+    { $sort: { 'organizationData.name': 1 } },
+  ]);
+
+  return rows.map((row) => ({
+    organization: row._id.organization,
+    organizationName: row.organizationData?.name || 'Unknown organization',
+    abnNumber: row.abnNumber || row.organizationData?.tfnOrAbnNumber,
+    isDgr: row.isDgr,
+    currency: (row._id.currency || 'AUD').toUpperCase(),
+    totalAmount: roundMoney(row.totalAmount),
+    donationCount: row.donationCount,
+  }));
+};
+
+const buildTotals = (organizations: ITaxStatementOrganization[]) => {
+  const totals = new Map<string, number>();
+  for (const row of organizations) {
+    if (!row.isDgr) continue;
+    totals.set(row.currency, (totals.get(row.currency) || 0) + row.totalAmount);
+  }
+
+  return [...totals.entries()].map(([currency, totalAmount]) => ({
+    currency,
+    totalAmount: roundMoney(totalAmount),
+  }));
+};
+
+// 1. Build, store and optionally email a donor's statement for an income year
+const generateStatement = async (
+  clientId: string | Types.ObjectId,
+  financialYear: number,
+  options: { sendEmail?: boolean } = {}
+) => {
+  const currentFinancialYear = getCurrentFinancialYear();
+  if (
+    financialYear < FIRST_STATEMENT_YEAR ||
+    financialYear > currentFinancialYear
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Financial year must be between ${FIRST_STATEMENT_YEAR} and ${currentFinancialYear}!`
+    );
+  }
+
+  const client = await Client.findById(clientId).populate<{
+    auth: { _id: Types.ObjectId; email: string };
+  }>('auth', 'email');
+  if (!client) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+  }
+
+  const organizations = await gatherStatementRows(client._id, financialYear);
+  if (organizations.length === 0) {
+    throw new AppError(
+      httpStatus.NOT_FOUND,
+      `No tax-deductible donations found for ${formatFinancialYear(financialYear)}!`
+    );
+  }
+
+  const { periodStart, periodEnd } = getFinancialYearRange(financialYear);
+  const statementNumber = generateStatementNumber(financialYear);
+  const totals = buildTotals(organizations);
+  const generatedAt = new Date();
+  const isPartial = financialYear === currentFinancialYear;
+
+  const pdfBuffer = await generateTaxStatementPDF({
+    statementNumber,
+    financialYearLabel: formatFinancialYear(financialYear),
+    periodStart,
+    periodEnd,
+    isPartial,
+    donorName: client.name,
+    donorEmail: client.auth.email,
+    organizations,
+    totals,
+    generatedAt,
+  });
+
+  const { url, key } = await uploadToS3({
+    buffer: pdfBuffer,
+    key: `${statementNumber}.pdf`,
+    contentType: 'application/pdf',
+    folder: TAX_STATEMENT_S3_FOLDER,
+    metadata: {
+      statementNumber,
+      generatedAt: generatedAt.toISOString(),
+    },
+  });
+
+  // Regenerating replaces the previous statement for the year
+  const previous = await TaxStatement.findOne({
+    donor: client._id,
+    financialYear,
+  }).select('pdfKey');
+
+  const statement = await TaxStatement.findOneAndUpdate(
+    { donor: client._id, financialYear },
+    {
+      periodStart,
+      periodEnd,
+      isPartial,
+      statementNumber,
+      organizations,
+      totals,
+      donationCount: organizations.reduce(
+        (sum, row) => sum + row.donationCount,
+        0
+      ),
+      pdfUrl: url,
+      pdfKey: key,
+      generatedAt,
+      emailSent: false,
+      $unset: { emailSentAt: 1 },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  if (previous?.pdfKey && previous.pdfKey !== key) {
+    await deleteFromS3(previous.pdfKey).catch(() => null);
+  }
+
+  if (options.sendEmail && client.auth.email) {
+    try {
+      await sendTaxStatementEmail({
+        to: client.auth.email,
+        donorName: client.name,
+        financialYearLabel: formatFinancialYear(financialYear),
+        statementUrl: url,
+        totals,
+      });
+      statement.emailSent = true;
+      statement.emailSentAt = new Date();
+      await statement.save();
+    } catch (err) {
+      console.error(`❌ Tax statement email failed for ${client._id}:`, err);
+    }
+  }
+
+  return statement;
+};
+
+// 2. Donor requests a statement (defaults to the last completed year)
+const requestMyStatement = async (
+  userId: string,
+  payload: { financialYear?: number; sendEmail?: boolean }
+) => {
+  const client = await Client.findOne({ auth: userId });
+  if (!client) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+  }
+
+  return generateStatement(
+    client._id,
+    payload.financialYear || getCurrentFinancialYear() - 1,
+    { sendEmail: payload.sendEmail }
+  );
+};
+
+// 3. Donor's statements
+const getMyStatements = async (userId: string) => {
+  const client = await Client.findOne({ auth: userId });
+  if (!client) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Donor not found!');
+  }
+
+  const statements = await TaxStatement.find({ donor: client._id })
+    .sort({ financialYear: -1 })
+    .lean();
+
+  return statements.map((statement) => ({
+    ...statement,
+    financialYearLabel: formatFinancialYear(statement.financialYear),
+  }));
+};
+
+// 4. Statements for everyone who gave in the year just ended (cron, July)
+const sendAnnualStatements = async () => {
+  const financialYear = getCurrentFinancialYear() - 1;
+  const { periodStart, nextPeriodStart } =
+    getFinancialYearRange(financialYear);
+
+  const donorIds: Types.ObjectId[] = await Donation.distinct('donor', {
+    status: 'completed',
+    isMatchingGift: { $ne: true },
+    donationDate: { $gte: periodStart, $lt: nextPeriodStart },
+  });
+
+  let sentCount = 0;
+  let skippedCount = 0;
+  const errors: { id: string; error: string }[] = [];
+
+  for (const donorId of donorIds) {
+    try {
+      // Re-runs skip donors who already got the final statement
+      const existing = await TaxStatement.findOne({
+        donor: donorId,
+        financialYear,
+        isPartial: false,
+        emailSent: true,
+      }).select('_id');
+      if (existing) {
+        skippedCount++;
+        continue;
+      }
+
+      const statement = await generateStatement(donorId, financialYear, {
+        sendEmail: true,
+      });
+      if (statement?.emailSent) sentCount++;
+    } catch (error) {
+      // Donors whose gifts were all under $2 or refunded have no statement
+      if (
+        error instanceof AppError &&
+        error.statusCode === httpStatus.NOT_FOUND
+      ) {
+        skippedCount++;
+        continue;
+      }
+      const message =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`❌ Tax statement failed for donor ${donorId}:`, message);
+      errors.push({ id: donorId.toString(), error: message });
+    }
+  }
+
+  return {
+    financialYear,
+    totalProcessed: donorIds.length,
+    sentCount,
+    skippedCount,
+    errors,
+  };
+};
+
+export const TaxStatementService = {
+  getCurrentFinancialYear,
+  formatFinancialYear,
+  generateStatement,
+  requestMyStatement,
+  getMyStatements,
+  sendAnnualStatements,
+};
@@ -0,0 +1,25 @@
+// Nisab thresholds by weight (grams)
+export const NISAB_GOLD_GRAMS = 85;
+export const NISAB_SILVER_GRAMS = 595;
+
+// 2.5% of zakatable wealth held for a full lunar year
+export const ZAKAT_RATE = 0.025;
+
+export const NISAB_BASIS = {
+  GOLD: 'gold',
+  SILVER: 'silver',
+} as const;
+
+export const NISAB_BASIS_VALUES = Object.values(NISAB_BASIS);
+
+export const ZAKAT_CALCULATION_STATUS = {
+  ACTIVE: 'active',
+  SUPERSEDED: 'superseded', // A newer calculation replaced it
+} as const;
+
+export const ZAKAT_CALCULATION_STATUS_VALUES = Object.values(
+  ZAKAT_CALCULATION_STATUS
+);
+
+// Days before the due date on which a reminder is sent
+export const ZAKAT_REMINDER_DAYS = [30, 7, 1];
@@ -0,0 +1,118 @@
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+
+import { asyncHandler, sendResponse, AppError } from '../../utils';
+import { ExtendedRequest } from '../../types';
+import { ZakatService } from './zakat.service';
+
+// 1. Current gold/silver prices and nisab thresholds
+const getNisabPrices = asyncHandler(async (_req: Request, res: Response) => {
+  const result = await ZakatService.getNisabPrices();
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    message: 'Nisab prices retrieved successfully',
+    data: result,
+  });
+});
+
+// 2. Admin: update gold/silver prices
+const updateNisabPrices = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await ZakatService.updateNisabPrices(userId, req.body);
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Nisab prices updated successfully',
+      data: result,
+    });
+  }
+);
+
+// 3. Preview zakat calculation
+const previewCalculation = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const result = await ZakatService.previewCalculation(req.body);
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Zakat calculated successfully',
+      data: result,
+    });
+  }
+);
+
+// 4. Save zakat calculation
+const createCalculation = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await ZakatService.createCalculation(userId, req.body);
+
+    sendResponse(res, {
+      statusCode: httpStatus.CREATED,
+      message: 'Zakat calculation saved successfully',
+      data: result,
+    });
+  }
+);
+
+// 5. Get my zakat calculations
+const getMyCalculations = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await ZakatService.getMyCalculations(
+      userId,
+      req.query as Record<string, unknown>
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Zakat calculations retrieved successfully',
+      data: result.calculations,
+      meta: result.meta,
+    });
+  }
+);
+
+// 6. Get zakat calculation with payment progress
+const getCalculationById = asyncHandler(
+  async (req: ExtendedRequest, res: Response) => {
+    const userId = req.user?._id.toString();
+    if (!userId) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'User not authenticated');
+    }
+
+    const result = await ZakatService.getCalculationById(
+      userId,
+      req.params.id.toString()
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      message: 'Zakat calculation retrieved successfully',
+      data: result,
+    });
+  }
+);
+
+export const ZakatController = {
+  getNisabPrices,
+  updateNisabPrices,
+  previewCalculation,
+  createCalculation,
+  getMyCalculations,
+  getCalculationById,
+};
@@ -0,0 +1,73 @@
+import { Document, Types } from 'mongoose';
+import { IHijriDate } from '../../utils/hijri.utils';
+import { NISAB_BASIS, ZAKAT_CALCULATION_STATUS } from './zakat.constant';
+
+export type TNisabBasis = (typeof NISAB_BASIS)[keyof typeof NISAB_BASIS];
+export type TZakatCalculationStatus =
+  (typeof ZAKAT_CALCULATION_STATUS)[keyof typeof ZAKAT_CALCULATION_STATUS];
+
+// Admin-managed metal prices (single document)
+export interface IZakatPrice {
+  goldPricePerGram: number;
+  silverPricePerGram: number;
+  currency: string;
+  updatedBy?: Types.ObjectId;
+}
+
+export interface IZakatPriceModel extends IZakatPrice, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IZakatAssets {
+  cash: number;
+  goldGrams: number;
+  silverGrams: number;
+  shares: number;
+  businessStock: number;
+}
+
+export interface IZakatLiabilities {
+  debts: number;
+}
+
+export interface IZakatBreakdown {
+  goldValue: number;
+  silverValue: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWealth: number;
+  nisabBasis: TNisabBasis;
+  nisabThreshold: number;
+  isAboveNisab: boolean;
+  zakatDue: number;
+}
+
+export interface IZakatCalculation extends IZakatBreakdown {
+  user: Types.ObjectId;
+
+  assets: IZakatAssets;
+  liabilities: IZakatLiabilities;
+  prices: IZakatPrice; // Snapshot used for this calculation
+
+  // Yearly (hawl) anniversary in the Hijri calendar
+  hijriAnniversary: IHijriDate;
+  dueDate: Date;
+
+  status: TZakatCalculationStatus;
+  supersededAt?: Date;
+  remindersSent: number[]; // Entries of ZAKAT_REMINDER_DAYS already sent
+}
+
+export interface IZakatCalculationModel extends IZakatCalculation, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IZakatProgress {
+  zakatDue: number;
+  amountPaid: number;
+  remaining: number;
+  percentage: number;
+  isFullyPaid: boolean;
+}
@@ -0,0 +1,120 @@
+import { Schema, model } from 'mongoose';
+import {
+  IZakatCalculationModel,
+  IZakatPriceModel,
+} from './zakat.interface';
+import {
+  NISAB_BASIS_VALUES,
+  ZAKAT_CALCULATION_STATUS,
+  ZAKAT_CALCULATION_STATUS_VALUES,
+} from './zakat.constant';
+import { DEFAULT_CURRENCY } from '../Donation/donation.constant';
+
+const zakatPriceSchema = new Schema<IZakatPriceModel>(
+  {
+    goldPricePerGram: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    silverPricePerGram: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      default: DEFAULT_CURRENCY,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auth',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+const zakatCalculationSchema = new Schema<IZakatCalculationModel>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'Client',
+      required: true,
+      index: true,
+    },
+
+    assets: {
+      cash: { type: Number, default: 0, min: 0 },
+      goldGrams: { type: Number, default: 0, min: 0 },
+      silverGrams: { type: Number, default: 0, min: 0 },
+      shares: { type: Number, default: 0, min: 0 },
+      businessStock: { type: Number, default: 0, min: 0 },
+    },
+    liabilities: {
+      debts: { type: Number, default: 0, min: 0 },
+    },
+    prices: {
+      goldPricePerGram: { type: Number, required: true },
+      silverPricePerGram: { type: Number, required: true },
+      currency: { type: String, default: DEFAULT_CURRENCY },
+    },
+
+    // Breakdown
+    goldValue: { type: Number, default: 0 },
+    silverValue: { type: Number, default: 0 },
+    totalAssets: { type: Number, default: 0 },
+    totalLiabilities: { type: Number, default: 0 },
+    netWealth: { type: Number, default: 0 },
+    nisabBasis: {
+      type: String,
+      enum: NISAB_BASIS_VALUES,
+      required: true,
+    },
+    nisabThreshold: { type: Number, required: true },
+    isAboveNisab: { type: Boolean, default: false },
+    zakatDue: { type: Number, default: 0 },
+
+    hijriAnniversary: {
+      day: { type: Number, required: true, min: 1, max: 30 },
+      month: { type: Number, required: true, min: 1, max: 12 },
+      year: { type: Number, required: true },
+    },
+    dueDate: {
+      type: Date,
+      required: true,
+    },
+
+    status: {
+      type: String,
+      enum: ZAKAT_CALCULATION_STATUS_VALUES,
+      default: ZAKAT_CALCULATION_STATUS.ACTIVE,
+    },
+    supersededAt: {
+      type: Date,
+    },
+    remindersSent: {
+      type: [Number],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Reminder job: active calculations approaching their due date
+zakatCalculationSchema.index({ status: 1, dueDate: 1 });
+
+export const ZakatPrice = model<IZakatPriceModel>(
+  'ZakatPrice',
+  zakatPriceSchema
+);
+
+export const ZakatCalculation = model<IZakatCalculationModel>(
+  'ZakatCalculation',
+  zakatCalculationSchema
+);
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { auth, validateRequest } from '../../middlewares';
+import { ROLE } from '../Auth/auth.constant';
+import { ZakatController } from './zakat.controller';
+import { ZakatValidation } from './zakat.validation';
+
+const router = Router();
+
+// 1. Current gold/silver prices and nisab thresholds (public)
+router.get('/nisab', ZakatController.getNisabPrices);
+
+// 2. Update gold/silver prices (admin)
+router.patch(
+  '/nisab',
+  auth(ROLE.ADMIN),
+  validateRequest(ZakatValidation.updateNisabPricesSchema),
+  ZakatController.updateNisabPrices
+);
+
+// 3. Preview a calculation without saving it
+router.post(
+  '/calculate',
+  auth(ROLE.CLIENT),
+  validateRequest(ZakatValidation.calculateZakatSchema),
+  ZakatController.previewCalculation
+);
+
+// 4. Save a calculation against the donor's Hijri anniversary
+router.post(
+  '/calculations',
+  auth(ROLE.CLIENT),
+  validateRequest(ZakatValidation.calculateZakatSchema),
+  ZakatController.createCalculation
+);
+
+// 5. Get my calculations
+router.get(
+  '/calculations',
+  auth(ROLE.CLIENT),
+  ZakatController.getMyCalculations
+);
+
+// 6. Get calculation with zakat-eligible donations tracked against it
+router.get(
+  '/calculations/:id',
+  auth(ROLE.CLIENT),
+  validateRequest(ZakatValidation.calculationIdParamsSchema),
+  ZakatController.getCalculationById
+);
+
+export const ZakatRoutes = router;
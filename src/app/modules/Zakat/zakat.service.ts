@@ -0,0 +1,391 @@
+/* eslint-disable no-console */
+import httpStatus from 'http-status';
+import { Types } from 'mongoose';
+
+import { AppError } from '../../utils';
+import QueryBuilder from '../../builders/QueryBuilder';
+import {
+  formatHijriDate,
+  getNextHijriAnniversary,
+  toHijriDate,
+} from '../../utils/hijri.utils';
+import Client from '../Client/client.model';
+import { Donation } from '../Donation/donation.model';
+import { CAUSE_CATEGORY_TYPE } from '../Causes/causes.constant';
+import { createNotification } from '../Notification/notification.service';
+import { NOTIFICATION_TYPE } from '../Notification/notification.constant';
+import { ZakatCalculation, ZakatPrice } from './zakat.model';
+import {
+  IZakatBreakdown,
+  IZakatCalculationModel,
+  IZakatPrice,
+  IZakatProgress,
+  TNisabBasis,
+} from './zakat.interface';
+import {
+  NISAB_GOLD_GRAMS,
+  NISAB_SILVER_GRAMS,
+  ZAKAT_CALCULATION_STATUS,
+  ZAKAT_RATE,
+  ZAKAT_REMINDER_DAYS,
+} from './zakat.constant';
+import {
+  TCalculateZakatPayload,
+  TUpdateNisabPricesPayload,
+} from './zakat.validation';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const roundMoney = (value: number) => Number(value.toFixed(2));
+
+const buildNisabThresholds = (prices: IZakatPrice) => ({
+  gold: roundMoney(prices.goldPricePerGram * NISAB_GOLD_GRAMS),
+  silver: roundMoney(prices.silverPricePerGram * NISAB_SILVER_GRAMS),
+});
+
+const getCurrentPrices = async (): Promise<IZakatPrice> => {
+  const prices = await ZakatPrice.findOne({}).lean();
+  if (!prices) {
+    throw new AppError(
+      httpStatus.SERVICE_UNAVAILABLE,
+      'Gold and silver prices have not been set yet!'
+    );
+  }
+
+  return {
+    goldPricePerGram: prices.goldPricePerGram,
+    silverPricePerGram: prices.silverPricePerGram,
+    currency: prices.currency,
+  };
+};
+
+const buildBreakdown = (
+  payload: TCalculateZakatPayload,
+  prices: IZakatPrice
+): IZakatBreakdown => {
+  const { assets, liabilities } = payload;
+  const nisabBasis = payload.nisabBasis as TNisabBasis;
+
+  const goldValue = roundMoney(assets.goldGrams * prices.goldPricePerGram);
+  const silverValue = roundMoney(
+    assets.silverGrams * prices.silverPricePerGram
+  );
+  const totalAssets = roundMoney(
+    assets.cash +
+      goldValue +
+      silverValue +
+      assets.shares +
+      assets.businessStock
+  );
+  const totalLiabilities = roundMoney(liabilities.debts);
+  const netWealth = roundMoney(Math.max(totalAssets - totalLiabilities, 0));
+
+  const nisabThreshold = buildNisabThresholds(prices)[nisabBasis];
+  const isAboveNisab = netWealth >= nisabThreshold;
+
+  return {
+    goldValue,
+    silverValue,
+    totalAssets,
+    totalLiabilities,
+    netWealth,
+    nisabBasis,
+    nisabThreshold,
+    isAboveNisab,
+    zakatDue: isAboveNisab ? roundMoney(netWealth * ZAKAT_RATE) : 0,
+  };
+};
+
+// Completed zakat-eligible gifts made while a calculation was current
+const getEligibleDonations = async (
+  donorId: Types.ObjectId,
+  from: Date,
+  until?: Date
+) => {
+  return Donation.aggregate([
+    {
+      $match: {
+        donor: donorId,
+        status: 'completed',
+        isMatchingGift: { $ne: true },
+        donationDate: { $gte: from, ...(until && { $lt: until }) },
+      },
+    },
+    {
+      $lookup: {
+        from: 'causes',
+        localField: 'cause',
+        foreignField: '_id',
+        as: 'causeData',
+      },
+    },
+    { $unwind: { path: '$causeData', preserveNullAndEmptyArrays: true } },
+    {
+      $lookup: {
+        from: 'receipts',
+        localField: 'receiptId',
+        foreignField: '_id',
+        as: 'receiptData',
+      },
+    },
+    { $unwind: { path: '$receiptData', preserveNullAndEmptyArrays: true } },
+    {
+      $match: {
+        $or: [
+          { 'causeData.category': CAUSE_CATEGORY_TYPE.ZAKAT },
+          { 'receiptData.zakatEligible': true },
+        ],
+      },
+    },
+    { $sort: { donationDate: -1 } },
+    {
+      $project: {
+        _id: 1,
+        amount: 1,
+        donationType: 1,
+        donationDate: 1,
+        organization: 1,
+        cause: { _id: '$causeData._id', name: '$causeData.name' },
+        receiptNumber: '$receiptData.receiptNumber',
+      },
+    },
+  ]);
+};
+
+const buildProgress = (
+  zakatDue: number,
+  amountPaid: number
+): IZakatProgress => {
+  const paid = roundMoney(amountPaid);
+  const remaining = roundMoney(Math.max(zakatDue - paid, 0));
+
+  return {
+    zakatDue,
+    amountPaid: paid,
+    remaining,
+    percentage:
+      zakatDue > 0 ? Math.min(Math.round((paid / zakatDue) * 100), 100) : 100,
+    isFullyPaid: remaining === 0,
+  };
+};
+
+// 1. Current prices and nisab thresholds
+const getNisabPrices = async () => {
+  const prices = await getCurrentPrices();
+
+  return {
+    ...prices,
+    nisab: buildNisabThresholds(prices),
+    nisabGrams: { gold: NISAB_GOLD_GRAMS, silver: NISAB_SILVER_GRAMS },
+    zakatRate: ZAKAT_RATE,
+  };
+};
+
+// 2. Admin: set gold and silver prices
+const updateNisabPrices = async (
+  adminAuthId: string,
+  payload: TUpdateNisabPricesPayload
+) => {
+  await ZakatPrice.findOneAndUpdate(
+    {},
+    {
+      goldPricePerGram: payload.goldPricePerGram,
+      silverPricePerGram: payload.silverPricePerGram,
+      updatedBy: new Types.ObjectId(adminAuthId),
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  return getNisabPrices();
+};
+
+// 3. Preview a calculation without storing it
+const previewCalculation = async (payload: TCalculateZakatPayload) => {
+  const prices = await getCurrentPrices();
+  return { ...buildBreakdown(payload, prices), prices };
+};
+
+// 4. Store a calculation against the donor's Hijri anniversary
+const createCalculation = async (
+  userId: string,
+  payload: TCalculateZakatPayload
+) => {
+  const client = await Client.findOne({ auth: userId });
+  if (!client) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Client not found!');
+  }
+
+  const prices = await getCurrentPrices();
+  const breakdown = buildBreakdown(payload, prices);
+
+  const anniversaryDate = payload.anniversaryDate
+    ? new Date(payload.anniversaryDate)
+    : new Date();
+  const hijriAnniversary = toHijriDate(anniversaryDate);
+  const dueDate = getNextHijriAnniversary(hijriAnniversary);
+
+  // Only the latest calculation is tracked and reminded about
+  await ZakatCalculation.updateMany(
+    { user: client._id, status: ZAKAT_CALCULATION_STATUS.ACTIVE },
+    {
+      status: ZAKAT_CALCULATION_STATUS.SUPERSEDED,
+      supersededAt: new Date(),
+    }
+  );
+
+  const calculation = await ZakatCalculation.create({
+    user: client._id,
+    assets: payload.assets,
+    liabilities: payload.liabilities,
+    prices,
+    ...breakdown,
+    hijriAnniversary,
+    dueDate,
+  });
+
+  return {
+    ...calculation.toObject(),
+    hijriAnniversaryLabel: formatHijriDate(hijriAnniversary),
+    progress: buildProgress(calculation.zakatDue, 0),
+  };
+};
+
+// 5. Donor's calculation history
+const getMyCalculations = async (
+  userId: string,
+  query: Record<string, unknown>
+) => {
+  const client = await Client.findOne({ auth: userId });
+  if (!client) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Client not found!');
+  }
+
+  const calculationQuery = new QueryBuilder<IZakatCalculationModel>(
+    ZakatCalculation.find({ user: client._id }),
+    query
+  )
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const calculations = await calculationQuery.modelQuery;
+  const meta = await calculationQuery.countTotal();
+
+  return { calculations, meta };
+};
+
+// 6. Calculation with zakat-eligible gifts tracked against it
+const getCalculationById = async (userId: string, calculationId: string) => {
+  const client = await Client.findOne({ auth: userId });
+  if (!client) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Client not found!');
+  }
+
+  const calculation = await ZakatCalculation.findOne({
+    _id: calculationId,
+    user: client._id,
+  });
+  if (!calculation) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Zakat calculation not found!');
+  }
+
+  const donations = await getEligibleDonations(
+    client._id,
+    calculation.createdAt,
+    calculation.supersededAt
+  );
+  const amountPaid = donations.reduce(
+    (sum: number, donation: { amount: number }) => sum + donation.amount,
+    0
+  );
+
+  return {
+    ...calculation.toObject(),
+    hijriAnniversaryLabel: formatHijriDate(calculation.hijriAnniversary),
+    progress: buildProgress(calculation.zakatDue, amountPaid),
+    donations,
+  };
+};
+
+// 7. Remind donors as their zakat due date gets close (cron)
+const sendDueDateReminders = async () => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const horizon = new Date(
+    today.getTime() + (Math.max(...ZAKAT_REMINDER_DAYS) + 1) * MS_PER_DAY
+  );
+
+  const calculations = await ZakatCalculation.find({
+    status: ZAKAT_CALCULATION_STATUS.ACTIVE,
+    isAboveNisab: true,
+    dueDate: { $gte: today, $lt: horizon },
+  }).populate<{ user: { _id: Types.ObjectId; auth: Types.ObjectId } }>(
+    'user',
+    'auth'
+  );
+
+  let sentCount = 0;
+  const errors: { id: string; error: string }[] = [];
+
+  for (const calculation of calculations) {
+    try {
+      const daysLeft = Math.round(
+        (calculation.dueDate.getTime() - today.getTime()) / MS_PER_DAY
+      );
+      const dueWindows = ZAKAT_REMINDER_DAYS.filter(
+        (days) => daysLeft <= days && !calculation.remindersSent.includes(days)
+      );
+      if (dueWindows.length === 0) continue;
+
+      // Claim every window reached so a late calculation gets one reminder
+      const claimed = await ZakatCalculation.findOneAndUpdate(
+        { _id: calculation._id, remindersSent: { $nin: dueWindows } },
+        { $addToSet: { remindersSent: { $each: dueWindows } } }
+      );
+      if (!claimed) continue;
+
+      const donations = await getEligibleDonations(
+        calculation.user._id,
+        calculation.createdAt
+      );
+      const progress = buildProgress(
+        calculation.zakatDue,
+        donations.reduce(
+          (sum: number, donation: { amount: number }) => sum + donation.amount,
+          0
+        )
+      );
+      if (progress.isFullyPaid) continue;
+
+      const dueLabel = formatHijriDate(toHijriDate(calculation.dueDate));
+      await createNotification(
+        calculation.user.auth.toString(),
+        NOTIFICATION_TYPE.ZAKAT_DUE_REMINDER,
+        `Your zakat is due ${daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`} (${dueLabel}). $${progress.remaining} of $${progress.zakatDue} remaining.`,
+        calculation._id!.toString()
+      );
+      sentCount++;
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(
+        `❌ Zakat reminder failed for ${calculation._id}:`,
+        message
+      );
+      errors.push({ id: calculation._id!.toString(), error: message });
+    }
+  }
+
+  return { totalProcessed: calculations.length, sentCount, errors };
+};
+
+export const ZakatService = {
+  getNisabPrices,
+  updateNisabPrices,
+  previewCalculation,
+  createCalculation,
+  getMyCalculations,
+  getCalculationById,
+  sendDueDateReminders,
+};
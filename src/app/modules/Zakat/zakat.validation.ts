@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { NISAB_BASIS, NISAB_BASIS_VALUES } from './zakat.constant';
+
+const amountSchema = (label: string) =>
+  z
+    .number()
+    .min(0, { message: `${label} cannot be negative!` })
+    .optional()
+    .default(0);
+
+// 1. Admin: update gold and silver prices
+const updateNisabPricesSchema = z.object({
+  body: z.object({
+    goldPricePerGram: z
+      .number({
+        error: 'Gold price per gram is required!',
+      })
+      .positive({ message: 'Gold price must be greater than 0!' }),
+
+    silverPricePerGram: z
+      .number({
+        error: 'Silver price per gram is required!',
+      })
+      .positive({ message: 'Silver price must be greater than 0!' }),
+  }),
+});
+
+// 2. Zakat calculation schema (preview and save)
+const calculateZakatSchema = z.object({
+  body: z.object({
+    assets: z
+      .object({
+        cash: amountSchema('Cash'),
+        goldGrams: amountSchema('Gold weight'),
+        silverGrams: amountSchema('Silver weight'),
+        shares: amountSchema('Shares'),
+        businessStock: amountSchema('Business stock'),
+      })
+      .optional()
+      .default({
+        cash: 0,
+        goldGrams: 0,
+        silverGrams: 0,
+        shares: 0,
+        businessStock: 0,
+      }),
+
+    liabilities: z
+      .object({
+        debts: amountSchema('Debts'),
+      })
+      .optional()
+      .default({ debts: 0 }),
+
+    nisabBasis: z
+      .enum(NISAB_BASIS_VALUES as [string, ...string[]])
+      .optional()
+      .default(NISAB_BASIS.SILVER),
+
+    // Gregorian date the donor's zakat year started (defaults to today)
+    anniversaryDate: z
+      .string()
+      .datetime({ message: 'Invalid date format!' })
+      .optional(),
+  }),
+});
+
+// 3. Calculation ID params schema
+const calculationIdParamsSchema = z.object({
+  params: z.object({
+    id: z
+      .string({
+        error: 'Calculation ID is required!',
+      })
+      .min(1, { message: 'Calculation ID is required!' }),
+  }),
+});
+
+export const ZakatValidation = {
+  updateNisabPricesSchema,
+  calculateZakatSchema,
+  calculationIdParamsSchema,
+};
+
+export type TUpdateNisabPricesPayload = z.infer<
+  typeof updateNisabPricesSchema
+>['body'];
+export type TCalculateZakatPayload = z.infer<
+  typeof calculateZakatSchema
+>['body'];
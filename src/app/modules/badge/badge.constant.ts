@@ -27,6 +27,9 @@ export const BADGE_UNLOCK_TYPE = {
   UNIQUE_CATEGORIES: 'unique_categories', // "Cause Explorer"
   TIME_BASED: 'time_based', // "Midnight Giver"
   SEASONAL: 'seasonal', // "Ramadan", "Winter", "Qurban", "Fitrah"
+
+  // --- 5. Community ---
+  FUNDRAISING: 'fundraising', // "Community Champion" (raised via own fundraiser page)
 } as const;
 
 export const BADGE_UNLOCK_TYPE_VALUES = Object.values(BADGE_UNLOCK_TYPE);
@@ -133,3 +133,20 @@ export interface IUserBadgeProgress {
   progressPercentage: number;
   remainingForNextTier?: number;
 }
+
+// A donation that hasn't happened yet, e.g. from the round-up simulator
+export interface IPreviewDonation {
+  amount: number;
+  donationDate: Date;
+  donationType: 'one-time' | 'recurring' | 'round-up';
+  cause?: { category?: string };
+}
+
+export interface IBadgeUnlockPreview {
+  badgeId: string;
+  badgeName: string;
+  tier: string;
+  tierName: string;
+  isNewBadge: boolean; // Entry tier of a badge the donor doesn't have yet
+  unlockedOn: Date;
+}
@@ -25,6 +25,8 @@ import {
   IUpdateBadgePayload,
   IBadgeTierConfig,
   IBadge,
+  IBadgeUnlockPreview,
+  IPreviewDonation,
 } from './badge.interface';
 
 import QueryBuilder from '../../builders/QueryBuilder';
@@ -597,6 +599,130 @@ const getBadgeHistory = async (userId: string, badgeId: string) => {
 
 // --- CORE ENGINE: CHECK & UPDATE (OPTIMIZED) ---
 
+// Unlock types a donation can progress; each badge's own condition is
+// then checked by matchesDonationCondition
+const getDonationUnlockTypes = (donation: any): string[] => [
+  BADGE_UNLOCK_TYPE.DONATION_COUNT,
+  BADGE_UNLOCK_TYPE.DONATION_AMOUNT,
+  BADGE_UNLOCK_TYPE.DONATION_SIZE,
+  // Add logic specific types:
+  ...(donation.donationType === 'round-up'
+    ? [BADGE_UNLOCK_TYPE.ROUND_UP, BADGE_UNLOCK_TYPE.ROUND_UP_AMOUNT]
+    : []),
+  ...(donation.donationType === 'recurring'
+    ? [BADGE_UNLOCK_TYPE.RECURRING_STREAK]
+    : []),
+  ...(donation.cause
+    ? [
+        BADGE_UNLOCK_TYPE.CATEGORY_SPECIFIC,
+        BADGE_UNLOCK_TYPE.UNIQUE_CATEGORIES,
+      ]
+    : []),
+  // Time/Seasonal are always checked as they depend on date math
+  BADGE_UNLOCK_TYPE.SEASONAL,
+  BADGE_UNLOCK_TYPE.TIME_BASED,
+  BADGE_UNLOCK_TYPE.FREQUENCY,
+];
+
+const matchesDonationCondition = (
+  badge: any,
+  donation: any,
+  donationDate: Date
+): boolean => {
+  let matchesCondition = false;
+
+  // FIXED: Seasonal Checks - Now uses constants
+  if (badge.unlockType === BADGE_UNLOCK_TYPE.SEASONAL) {
+    if (
+      badge.seasonalPeriod === SEASONAL_PERIOD.RAMADAN &&
+      isRamadan(donationDate)
+    )
+      matchesCondition = true;
+    else if (
+      badge.seasonalPeriod === SEASONAL_PERIOD.DHUL_HIJJAH &&
+      isDhulHijjah(donationDate)
+    )
+      matchesCondition = true;
+    else if (
+      badge.seasonalPeriod === SEASONAL_PERIOD.WINTER &&
+      isWinter(donationDate)
+    )
+      matchesCondition = true;
+    else if (
+      badge.seasonalPeriod === SEASONAL_PERIOD.FITRAH_DEADLINE &&
+      isBeforeEid(donationDate)
+    )
+      matchesCondition = true;
+    else if (
+      badge.seasonalPeriod === SEASONAL_PERIOD.LAYLAT_AL_QADR &&
+      isLaylatAlQadr(donationDate)
+    )
+      matchesCondition = true;
+  }
+
+  // Time Based
+  else if (
+    badge.unlockType === BADGE_UNLOCK_TYPE.TIME_BASED &&
+    badge.timeRange
+  ) {
+    if (
+      isWithinTimeRange(
+        donationDate,
+        badge.timeRange.start,
+        badge.timeRange.end
+      )
+    ) {
+      matchesCondition = true;
+    }
+  }
+
+  // Category Specific - Now normalizes comparison
+  else if (badge.unlockType === BADGE_UNLOCK_TYPE.CATEGORY_SPECIFIC) {
+    const cause = donation.cause as any;
+    if (
+      cause?.category &&
+      badge.specificCategories &&
+      badge.specificCategories.some(
+        (badgeCat: string) =>
+          badgeCat.toLowerCase() === cause.category.toLowerCase()
+      )
+    ) {
+      matchesCondition = true;
+    }
+  }
+
+  // Behavior Specific
+  else if (badge.unlockType === BADGE_UNLOCK_TYPE.ROUND_UP)
+    matchesCondition = true;
+  else if (badge.unlockType === BADGE_UNLOCK_TYPE.ROUND_UP_AMOUNT)
+    matchesCondition = true;
+  else if (badge.unlockType === BADGE_UNLOCK_TYPE.RECURRING_STREAK)
+    matchesCondition = true;
+  // Donation Size
+  else if (badge.unlockType === BADGE_UNLOCK_TYPE.DONATION_SIZE) {
+    if (badge.maxDonationAmount && donation.amount < badge.maxDonationAmount)
+      matchesCondition = true;
+  }
+
+  // General Counters
+  else if (
+    badge.unlockType === BADGE_UNLOCK_TYPE.DONATION_COUNT ||
+    badge.unlockType === BADGE_UNLOCK_TYPE.DONATION_AMOUNT
+  ) {
+    matchesCondition = true;
+  }
+
+  // Unique Causes or Frequency
+  else if (
+    badge.unlockType === BADGE_UNLOCK_TYPE.UNIQUE_CATEGORIES ||
+    badge.unlockType === BADGE_UNLOCK_TYPE.FREQUENCY
+  ) {
+    matchesCondition = true;
+  }
+
+  return matchesCondition;
+};
+
 const checkAndUpdateBadgesForDonation = async (
   userId: string,
   donationId: string
@@ -611,137 +737,83 @@ const checkAndUpdateBadgesForDonation = async (
 
   const donationDate = donation.donationDate || new Date();
 
-  // 2. OPTIMIZATION: Build a Filter for Badges
-  // Only fetch badges that MIGHT match this donation
-  const query: any = {
+  // 2. OPTIMIZATION: Only fetch badges that MIGHT match this donation
+  const relevantBadges = await Badge.find({
     isActive: true,
-    $or: [
-      { unlockType: BADGE_UNLOCK_TYPE.DONATION_COUNT },
-      { unlockType: BADGE_UNLOCK_TYPE.DONATION_AMOUNT },
-      { unlockType: BADGE_UNLOCK_TYPE.DONATION_SIZE },
-      // Add logic specific types:
-      ...(donation.donationType === 'round-up'
-        ? [
-            { unlockType: BADGE_UNLOCK_TYPE.ROUND_UP },
-            { unlockType: BADGE_UNLOCK_TYPE.ROUND_UP_AMOUNT },
-          ]
-        : []),
-      ...(donation.donationType === 'recurring'
-        ? [{ unlockType: BADGE_UNLOCK_TYPE.RECURRING_STREAK }]
-        : []),
-      ...(donation.cause
-        ? [
-            { unlockType: BADGE_UNLOCK_TYPE.CATEGORY_SPECIFIC },
-            { unlockType: BADGE_UNLOCK_TYPE.UNIQUE_CATEGORIES },
-          ]
-        : []),
-      // Time/Seasonal are always checked as they depend on date math
-      { unlockType: BADGE_UNLOCK_TYPE.SEASONAL },
-      { unlockType: BADGE_UNLOCK_TYPE.TIME_BASED },
-      { unlockType: BADGE_UNLOCK_TYPE.FREQUENCY },
-    ],
-  };
-
-  const relevantBadges = await Badge.find(query).lean();
+    unlockType: { $in: getDonationUnlockTypes(donation) },
+  }).lean();
 
   // 3. Process Loops in Parallel
   const updatePromises = relevantBadges.map(async (badge) => {
-    let matchesCondition = false;
+    if (matchesDonationCondition(badge, donation, donationDate)) {
+      return updateUserBadgeProgress(client._id, badge, donation, donationDate);
+    }
+  });
 
-    // FIXED: Seasonal Checks - Now uses constants
-    if (badge.unlockType === BADGE_UNLOCK_TYPE.SEASONAL) {
-      if (
-        badge.seasonalPeriod === SEASONAL_PERIOD.RAMADAN &&
-        isRamadan(donationDate)
-      )
-        matchesCondition = true;
-      else if (
-        badge.seasonalPeriod === SEASONAL_PERIOD.DHUL_HIJJAH &&
-        isDhulHijjah(donationDate)
-      )
-        matchesCondition = true;
-      else if (
-        badge.seasonalPeriod === SEASONAL_PERIOD.WINTER &&
-        isWinter(donationDate)
-      )
-        matchesCondition = true;
-      else if (
-        badge.seasonalPeriod === SEASONAL_PERIOD.FITRAH_DEADLINE &&
-        isBeforeEid(donationDate)
-      )
-        matchesCondition = true;
-      else if (
-        badge.seasonalPeriod === SEASONAL_PERIOD.LAYLAT_AL_QADR &&
-        isLaylatAlQadr(donationDate)
+  await Promise.all(updatePromises);
+};
+
+// Fundraiser owners progress on FUNDRAISING badges with every gift made
+// through their page (count = gifts received, amount = total raised).
+const checkAndUpdateBadgesForFundraising = async (
+  ownerId: string,
+  donationId: string
+) => {
+  const donation = await Donation.findById(donationId).populate('cause').lean();
+  if (!donation) return;
+
+  const fundraisingBadges = await Badge.find({
+    isActive: true,
+    unlockType: BADGE_UNLOCK_TYPE.FUNDRAISING,
+  }).lean();
+
+  await Promise.all(
+    fundraisingBadges.map((badge) =>
+      updateUserBadgeProgress(
+        new Types.ObjectId(ownerId),
+        badge,
+        donation,
+        donation.donationDate || new Date()
       )
-        matchesCondition = true;
-    }
+    )
+  );
+};
 
-    // Time Based
-    else if (
-      badge.unlockType === BADGE_UNLOCK_TYPE.TIME_BASED &&
-      badge.timeRange
-    ) {
-      if (
-        isWithinTimeRange(
-          donationDate,
-          badge.timeRange.start,
-          badge.timeRange.end
-        )
-      ) {
-        matchesCondition = true;
-      }
-    }
+// Walk back what a donation contributed once it is (partly) refunded.
+// Tiers already unlocked are kept; only progress counters move.
+const reverseBadgeProgressForRefund = async (
+  donationId: string,
+  refundedAmount: number,
+  isFullyRefunded: boolean
+) => {
+  const histories = await UserBadgeHistory.find({ donation: donationId });
 
-    // Category Specific - Now normalizes comparison
-    else if (badge.unlockType === BADGE_UNLOCK_TYPE.CATEGORY_SPECIFIC) {
-      const cause = donation.cause as any;
-      if (
-        cause?.category &&
-        badge.specificCategories &&
-        badge.specificCategories.some(
-          (badgeCat) => badgeCat.toLowerCase() === cause.category.toLowerCase()
-        )
-      ) {
-        matchesCondition = true;
-      }
-    }
+  for (const history of histories) {
+    const reversal = Math.min(refundedAmount, history.contributionAmount);
+    if (reversal <= 0 && !isFullyRefunded) continue;
 
-    // Behavior Specific
-    else if (badge.unlockType === BADGE_UNLOCK_TYPE.ROUND_UP)
-      matchesCondition = true;
-    else if (badge.unlockType === BADGE_UNLOCK_TYPE.ROUND_UP_AMOUNT)
-      matchesCondition = true;
-    else if (badge.unlockType === BADGE_UNLOCK_TYPE.RECURRING_STREAK)
-      matchesCondition = true;
-    // Donation Size
-    else if (badge.unlockType === BADGE_UNLOCK_TYPE.DONATION_SIZE) {
-      if (badge.maxDonationAmount && donation.amount < badge.maxDonationAmount)
-        matchesCondition = true;
-    }
+    const badge = await Badge.findById(history.badge)
+      .select('unlockType')
+      .lean();
 
-    // General Counters
-    else if (
-      badge.unlockType === BADGE_UNLOCK_TYPE.DONATION_COUNT ||
-      badge.unlockType === BADGE_UNLOCK_TYPE.DONATION_AMOUNT
-    ) {
-      matchesCondition = true;
-    }
+    const updateOps: any = { $inc: { progressAmount: -reversal } };
 
-    // Unique Causes or Frequency
-    else if (
-      badge.unlockType === BADGE_UNLOCK_TYPE.UNIQUE_CATEGORIES ||
-      badge.unlockType === BADGE_UNLOCK_TYPE.FREQUENCY
+    // Streaks and category sets are recomputed on the next donation
+    if (
+      isFullyRefunded &&
+      badge?.unlockType !== BADGE_UNLOCK_TYPE.FREQUENCY &&
+      badge?.unlockType !== BADGE_UNLOCK_TYPE.UNIQUE_CATEGORIES
     ) {
-      matchesCondition = true;
+      updateOps.$inc.progressCount = -1;
     }
 
-    if (matchesCondition) {
-      return updateUserBadgeProgress(client._id, badge, donation, donationDate);
-    }
-  });
+    await UserBadge.findByIdAndUpdate(history.userBadge, updateOps);
 
-  await Promise.all(updatePromises);
+    history.contributionAmount = Number(
+      (history.contributionAmount - reversal).toFixed(2)
+    );
+    await history.save();
+  }
 };
 
 const updateUserBadgeProgress = async (
@@ -913,80 +985,93 @@ const calculateConsecutiveMonths = async (
 
   return consecutiveCount;
 };
-/**
- * Core Engine: Checks if current progress qualifies for a tier upgrade.
- * Handles AND/OR logic and ignores requirements set to 0.
- */
-const checkTierUpgrade = async (userBadge: any, badge: any): Promise<void> => {
-  // 1. If already at the max level, stop.
-  if (userBadge.isCompleted) return;
-
-  const currentTier = userBadge.currentTier;
-  let nextTierName = '';
-
-  // 2. Determine the name of the next tier to check
+// Next tier a badge can move up to, or '' when there is none
+const getNextTierName = (currentTier: string, badge: any): string => {
   if (badge.isSingleTier) {
     // For single tier badges, the only target is 'one-tier'
-    if (currentTier === 'one-tier') return;
-    nextTierName = 'one-tier';
-  } else {
-    // For multi-tier, follow the progression: colour -> bronze -> silver -> gold
-    const tierOrder = ['colour', 'bronze', 'silver', 'gold'];
-    const currentIdx = tierOrder.indexOf(currentTier);
-
-    if (currentIdx !== -1 && currentIdx < tierOrder.length - 1) {
-      nextTierName = tierOrder[currentIdx + 1];
-    }
+    return currentTier === 'one-tier' ? '' : 'one-tier';
   }
 
-  // If no higher tier exists, stop.
-  if (!nextTierName) return;
+  // For multi-tier, follow the progression: colour -> bronze -> silver -> gold
+  const tierOrder = ['colour', 'bronze', 'silver', 'gold'];
+  const currentIdx = tierOrder.indexOf(currentTier);
 
-  // 3. Get the configuration for the target tier
-  const targetTierConfig = badge.tiers.find(
-    (t: any) => t.tier === nextTierName
-  );
-  if (!targetTierConfig) return;
+  if (currentIdx !== -1 && currentIdx < tierOrder.length - 1) {
+    return tierOrder[currentIdx + 1];
+  }
+  return '';
+};
 
-  // 4. Requirement Definitions
-  const countReq = targetTierConfig.requiredCount || 0;
-  const amountReq = targetTierConfig.requiredAmount || 0;
+/**
+ * Checks if progress meets a tier's requirements.
+ * Handles AND/OR logic and ignores requirements set to 0.
+ */
+const meetsTierRequirements = (
+  progress: { progressCount: number; progressAmount: number },
+  badge: any,
+  tierConfig: IBadgeTierConfig
+): boolean => {
+  // 1. Requirement Definitions
+  const countReq = tierConfig.requiredCount || 0;
+  const amountReq = tierConfig.requiredAmount || 0;
 
   // Identify which requirements the Admin actually set (> 0)
   const isCountActive = countReq > 0;
   const isAmountActive = amountReq > 0;
 
-  // 5. Evaluate if requirements are met
+  // 2. Evaluate if requirements are met
   const countConditionMet = isCountActive
-    ? userBadge.progressCount >= countReq
+    ? progress.progressCount >= countReq
     : false;
   const amountConditionMet = isAmountActive
-    ? userBadge.progressAmount >= amountReq
+    ? progress.progressAmount >= amountReq
     : false;
 
-  let canUpgrade = false;
-
-  // 6. Logic Switch (AND / OR)
+  // 3. Logic Switch (AND / OR)
   if (isCountActive && isAmountActive) {
     if (badge.conditionLogic === 'or') {
       // ANY one of the active requirements is met
-      canUpgrade = countConditionMet || amountConditionMet;
-    } else {
-      // BOTH active requirements must be met
-      canUpgrade = countConditionMet && amountConditionMet;
+      return countConditionMet || amountConditionMet;
     }
-  } else if (isCountActive) {
+    // BOTH active requirements must be met
+    return countConditionMet && amountConditionMet;
+  }
+  if (isCountActive) {
     // Only Count was set by Admin, ignore Amount
-    canUpgrade = countConditionMet;
-  } else if (isAmountActive) {
+    return countConditionMet;
+  }
+  if (isAmountActive) {
     // Only Amount was set by Admin, ignore Count
-    canUpgrade = amountConditionMet;
-  } else {
-    // Fallback: If both are 0, it's an auto-upgrade (Admin error safeguard)
-    canUpgrade = true;
+    return amountConditionMet;
   }
 
-  // 7. Execute Upgrade if eligible
+  // Fallback: If both are 0, it's an auto-upgrade (Admin error safeguard)
+  return true;
+};
+
+/**
+ * Core Engine: Checks if current progress qualifies for a tier upgrade.
+ */
+const checkTierUpgrade = async (userBadge: any, badge: any): Promise<void> => {
+  // 1. If already at the max level, stop.
+  if (userBadge.isCompleted) return;
+
+  // 2. Determine the name of the next tier to check
+  const nextTierName = getNextTierName(userBadge.currentTier, badge);
+
+  // If no higher tier exists, stop.
+  if (!nextTierName) return;
+
+  // 3. Get the configuration for the target tier
+  const targetTierConfig = badge.tiers.find(
+    (t: any) => t.tier === nextTierName
+  );
+  if (!targetTierConfig) return;
+
+  // 4. Evaluate if requirements are met
+  const canUpgrade = meetsTierRequirements(userBadge, badge, targetTierConfig);
+
+  // 5. Execute Upgrade if eligible
   if (canUpgrade) {
     userBadge.currentTier = nextTierName;
     userBadge.tiersUnlocked.push({
@@ -994,7 +1079,7 @@ const checkTierUpgrade = async (userBadge: any, badge: any): Promise<void> => {
       unlockedAt: new Date(),
     });
 
-    // 8. Update History Record
+    // 6. Update History Record
     // Mark the latest history entry with the tier it achieved
     const latestHistory = await UserBadgeHistory.findOne({
       userBadge: userBadge._id,
@@ -1005,7 +1090,7 @@ const checkTierUpgrade = async (userBadge: any, badge: any): Promise<void> => {
       await latestHistory.save();
     }
 
-    // 9. Completion Check
+    // 7. Completion Check
     // If we just hit 'gold' or it's a single-tier badge, mark as finished
     if (nextTierName === 'gold' || badge.isSingleTier) {
       userBadge.isCompleted = true;
@@ -1014,7 +1099,7 @@ const checkTierUpgrade = async (userBadge: any, badge: any): Promise<void> => {
     // Save the progress
     await userBadge.save();
 
-    // 10. Send In-App Notification
+    // 8. Send In-App Notification
     try {
       const client = await Client.findById(userBadge.user);
       if (client && client.auth) {
@@ -1034,7 +1119,7 @@ const checkTierUpgrade = async (userBadge: any, badge: any): Promise<void> => {
       console.error('Badge Notification Error:', error);
     }
 
-    // 11. RECURSION
+    // 9. RECURSION
     // Check again immediately. This allows a user to jump from
     // "Colour" -> "Bronze" -> "Silver" in a single donation if they
     // meet the higher requirements.
@@ -1042,6 +1127,131 @@ const checkTierUpgrade = async (userBadge: any, badge: any): Promise<void> => {
   }
 };
 
+/**
+ * Badges and tiers a run of future donations would unlock, replaying the
+ * award rules in memory against the donor's current progress. Nothing is
+ * saved and no notifications are sent.
+ */
+const previewBadgesForDonations = async (
+  clientId: string | null,
+  donations: IPreviewDonation[]
+): Promise<IBadgeUnlockPreview[]> => {
+  const badges = await Badge.find({ isActive: true }).lean();
+  const userBadges = clientId
+    ? await UserBadge.find({ user: clientId }).lean()
+    : [];
+
+  const progressByBadge = new Map(
+    userBadges.map((userBadge) => [
+      userBadge.badge.toString(),
+      {
+        currentTier: userBadge.currentTier,
+        isCompleted: userBadge.isCompleted,
+        progressCount: userBadge.progressCount || 0,
+        progressAmount: userBadge.progressAmount || 0,
+        consecutiveMonths: userBadge.consecutiveMonths || 0,
+        lastDonationDate: userBadge.lastDonationDate as Date | undefined,
+        uniqueCategoryNames: new Set(userBadge.uniqueCategoryNames),
+      },
+    ])
+  );
+  const unlocks: IBadgeUnlockPreview[] = [];
+
+  const recordUnlock = (
+    badge: any,
+    tier: string,
+    date: Date,
+    isNewBadge: boolean
+  ) => {
+    unlocks.push({
+      badgeId: badge._id.toString(),
+      badgeName: badge.name,
+      tier,
+      tierName: badge.tiers.find((t: any) => t.tier === tier)?.name || tier,
+      isNewBadge,
+      unlockedOn: date,
+    });
+  };
+
+  for (const donation of donations) {
+    const date = donation.donationDate;
+    const unlockTypes = getDonationUnlockTypes(donation);
+
+    for (const badge of badges) {
+      if (
+        !unlockTypes.includes(badge.unlockType) ||
+        !matchesDonationCondition(badge, donation, date)
+      ) {
+        continue;
+      }
+
+      // 1. First progress unlocks the entry tier (see updateUserBadgeProgress)
+      const badgeId = badge._id.toString();
+      let progress = progressByBadge.get(badgeId);
+      if (!progress) {
+        const entryTier = badge.isSingleTier
+          ? BADGE_TIER.ONE_TIER
+          : BADGE_TIER.COLOUR;
+        progress = {
+          currentTier: entryTier,
+          isCompleted: false,
+          progressCount: 0,
+          progressAmount: 0,
+          consecutiveMonths: 0,
+          lastDonationDate: undefined,
+          uniqueCategoryNames: new Set<string>(),
+        };
+        progressByBadge.set(badgeId, progress);
+        recordUnlock(badge, entryTier, date, true);
+      }
+
+      // 2. Counters
+      progress.progressAmount += donation.amount;
+
+      if (badge.unlockType === BADGE_UNLOCK_TYPE.UNIQUE_CATEGORIES) {
+        if (donation.cause?.category) {
+          progress.uniqueCategoryNames.add(donation.cause.category);
+        }
+        progress.progressCount = progress.uniqueCategoryNames.size;
+      } else if (badge.unlockType === BADGE_UNLOCK_TYPE.FREQUENCY) {
+        // Monthly streak: the next month extends it, a gap restarts it
+        const last = progress.lastDonationDate;
+        const monthsDiff = last
+          ? (date.getFullYear() - last.getFullYear()) * 12 +
+            (date.getMonth() - last.getMonth())
+          : null;
+
+        if (monthsDiff === 1) progress.consecutiveMonths += 1;
+        else if (monthsDiff !== 0) progress.consecutiveMonths = 1;
+        progress.progressCount = progress.consecutiveMonths;
+      } else {
+        progress.progressCount += 1;
+      }
+      progress.lastDonationDate = date;
+
+      // 3. Tier upgrades, several in one donation if progress allows
+      while (!progress.isCompleted) {
+        const nextTierName = getNextTierName(progress.currentTier, badge);
+        const tierConfig = badge.tiers.find((t) => t.tier === nextTierName);
+        if (
+          !tierConfig ||
+          !meetsTierRequirements(progress, badge, tierConfig)
+        ) {
+          break;
+        }
+
+        progress.currentTier = nextTierName;
+        if (nextTierName === BADGE_TIER.GOLD || badge.isSingleTier) {
+          progress.isCompleted = true;
+        }
+        recordUnlock(badge, nextTierName, date, false);
+      }
+    }
+  }
+
+  return unlocks;
+};
+
 const markTierVideoPreviewed = async (
   userId: string,
   badgeId: string,
@@ -1101,6 +1311,9 @@ export const badgeService = {
   deleteBadge,
   getAllBadgesWithProgress,
   checkAndUpdateBadgesForDonation,
+  checkAndUpdateBadgesForFundraising,
+  reverseBadgeProgressForRefund,
+  previewBadgesForDonations,
   getBadgeHistory,
   markTierVideoPreviewed,
 };
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { AuthRoutes } from '../modules/Auth/auth.route';
 import { AdminRoutes } from '../modules/Admin/admin.route';
 import DonationRoutes from '../modules/Donation/donation.route';
+import { DonationBasketRoutes } from '../modules/DonationBasket/donationBasket.route';
 import { CauseRoutes } from '../modules/Causes/causes.route';
 import StripeRoutes from '../modules/Stripe/stripe.route';
 import { PaymentMethodRoutes } from '../modules/PaymentMethod/paymentMethod.route';
@@ -27,6 +28,17 @@ import { contentRouter } from '../modules/content/content.routes';
 import { SubscriptionRoutes } from '../modules/Subscription/subscription.routes';
 import { SubscriptionHistoryRoutes } from '../modules/subscriptionHistory/subscriptionHistory.routes';
 import { NotificationSettingRoutes } from '../modules/NotificationSetting/notificationSetting.route';
+import { MatchingCampaignRoutes } from '../modules/MatchingCampaign/matchingCampaign.route';
+import { FundraiserRoutes } from '../modules/Fundraiser/fundraiser.route';
+import { ZakatRoutes } from '../modules/Zakat/zakat.route';
+import { FxRateRoutes } from '../modules/FxRate/fxRate.route';
+import { DisputeRoutes } from '../modules/Dispute/dispute.route';
+import { ExportRoutes } from '../modules/Export/export.route';
+import { PledgeRoutes } from '../modules/Pledge/pledge.route';
+import { PlatformSettingRoutes } from '../modules/PlatformSetting/platformSetting.route';
+import { DonorWallRoutes } from '../modules/DonorWall/donorWall.route';
+import { FeeScheduleRoutes } from '../modules/FeeSchedule/feeSchedule.route';
+import { RoundUpExclusionRoutes } from '../modules/RoundUpExclusion/roundUpExclusion.route';
 
 const router = Router();
 
@@ -57,6 +69,10 @@ const moduleRoutes = [
     route: NotificationSettingRoutes,
   },
 
+  {
+    path: '/donation/basket',
+    route: DonationBasketRoutes,
+  },
   {
     path: '/donation',
     route: DonationRoutes,
@@ -146,6 +162,50 @@ const moduleRoutes = [
     path: '/subscription-history',
     route: SubscriptionHistoryRoutes,
   },
+  {
+    path: '/matching-campaign',
+    route: MatchingCampaignRoutes,
+  },
+  {
+    path: '/fundraiser',
+    route: FundraiserRoutes,
+  },
+  {
+    path: '/zakat',
+    route: ZakatRoutes,
+  },
+  {
+    path: '/fx-rates',
+    route: FxRateRoutes,
+  },
+  {
+    path: '/disputes',
+    route: DisputeRoutes,
+  },
+  {
+    path: '/exports',
+    route: ExportRoutes,
+  },
+  {
+    path: '/pledges',
+    route: PledgeRoutes,
+  },
+  {
+    path: '/platform-settings',
+    route: PlatformSettingRoutes,
+  },
+  {
+    path: '/donor-wall',
+    route: DonorWallRoutes,
+  },
+  {
+    path: '/fee-schedules',
+    route: FeeScheduleRoutes,
+  },
+  {
+    path: '/roundup-exclusions',
+    route: RoundUpExclusionRoutes,
+  },
 ];
 
 moduleRoutes.forEach((route) => router.use(route.path, route.route));
@@ -253,3 +253,318 @@ export const sendWelcomeEmail = async (
     );
   }
 };
+
+// Donor-supplied text goes to a third party, so never render it as HTML
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Send tribute e-card ("in honour of" / "in memory of") to the recipient
+export const sendTributeEcardEmail = async (data: {
+  to: string;
+  recipientName?: string;
+  donorName: string;
+  organizationName: string;
+  tributeType: 'in_honour' | 'in_memory';
+  honoreeName: string;
+  message?: string;
+}): Promise<void> => {
+  try {
+    const transporter = createTransporter();
+
+    const isMemorial = data.tributeType === 'in_memory';
+    const honoreeName = escapeHtml(data.honoreeName);
+    const donorName = escapeHtml(data.donorName);
+    const tributeLine = isMemorial
+      ? `in loving memory of <strong>${honoreeName}</strong>`
+      : `in honour of <strong>${honoreeName}</strong>`;
+
+    const emailHTML = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+          <meta charset="UTF-8">
+          <title>A gift has been made ${isMemorial ? 'in memory' : 'in honour'} of ${honoreeName}</title>
+          <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .card { border: 1px solid #e0e0e0; border-radius: 8px; overflow: hidden; }
+              .header { text-align: center; background-color: #2c5530; color: white; padding: 30px; }
+              .content { padding: 30px; text-align: center; }
+              .message { font-style: italic; color: #555; border-left: 3px solid #2c5530; padding: 10px 15px; margin: 20px 0; text-align: left; }
+              .footer { text-align: center; font-size: 12px; color: #888; padding: 20px; }
+          </style>
+      </head>
+      <body>
+          <div class="container">
+              <div class="card">
+                  <div class="header">
+                      <h1>🌙 ${isMemorial ? 'In Loving Memory' : 'A Gift In Your Honour'}</h1>
+                  </div>
+                  <div class="content">
+                      <h2>Dear ${escapeHtml(data.recipientName || 'Friend')},</h2>
+                      <p><strong>${donorName}</strong> has made a donation to <strong>${escapeHtml(data.organizationName)}</strong> ${tributeLine}.</p>
+                      ${data.message ? `<div class="message">${escapeHtml(data.message)}</div>` : ''}
+                      <p>May this act of charity be a source of continuous reward.</p>
+                  </div>
+              </div>
+              <div class="footer">
+                  <p>Sent with care by Crescent Change on behalf of ${donorName}.</p>
+              </div>
+          </div>
+      </body>
+      </html>
+    `;
+
+    const mailOptions = {
+      from: `"Crescent Change" <${config.email.nodemailerEmail}>`,
+      to: data.to,
+      subject: `${data.donorName} made a donation ${isMemorial ? 'in memory' : 'in honour'} of ${data.honoreeName}`,
+      html: emailHTML,
+    };
+
+    await transporter.sendMail(mailOptions);
+  } catch (error) {
+    throw new Error(
+      `Failed to send tribute e-card: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+};
+
+// Remind a donor about an unpaid pledge
+export const sendPledgeReminderEmail = async (data: {
+  to: string;
+  donorName: string;
+  organizationName: string;
+  causeName?: string;
+  amountPledged: number;
+  amountRemaining: number;
+  dueDate: Date;
+  isOverdue: boolean;
+}): Promise<void> => {
+  try {
+    const transporter = createTransporter();
+
+    const formatAmount = (amount: number) =>
+      new Intl.NumberFormat('en-AU', {
+        style: 'currency',
+        currency: 'usd',
+      }).format(amount);
+
+    const formattedDate = data.dueDate.toLocaleDateString('en-AU', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+    const organizationName = escapeHtml(data.organizationName);
+    const target = data.causeName
+      ? `${escapeHtml(data.causeName)} at ${organizationName}`
+      : organizationName;
+
+    const emailHTML = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+          <meta charset="UTF-8">
+          <title>Pledge Reminder</title>
+          <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .header { text-align: center; background-color: #2c5530; color: white; padding: 30px; border-radius: 8px; }
+              .content { padding: 30px 0; }
+              .amount { font-size: 24px; font-weight: bold; color: #2c5530; }
+          </style>
+      </head>
+      <body>
+          <div class="container">
+              <div class="header">
+                  <h1>🌙 ${data.isOverdue ? 'Your Pledge Is Overdue' : 'Pledge Reminder'}</h1>
+              </div>
+              <div class="content">
+                  <h2>Dear ${escapeHtml(data.donorName)},</h2>
+                  <p>Thank you for pledging ${formatAmount(data.amountPledged)} to ${target}.</p>
+                  <p>Remaining balance:</p>
+                  <p class="amount">${formatAmount(data.amountRemaining)}</p>
+                  <p>${data.isOverdue ? 'This pledge was due on' : 'This pledge is due on'} <strong>${formattedDate}</strong>. You can pay it in one or more donations from the app.</p>
+                  <p>Jazakallahu khairan,<br>The Crescent Change Team</p>
+              </div>
+          </div>
+      </body>
+      </html>
+    `;
+
+    const mailOptions = {
+      from: `"Crescent Change" <${config.email.nodemailerEmail}>`,
+      to: data.to,
+      subject: data.isOverdue
+        ? `Your pledge to ${data.organizationName} is overdue`
+        : `Reminder: your pledge to ${data.organizationName} is due ${formattedDate}`,
+      html: emailHTML,
+    };
+
+    await transporter.sendMail(mailOptions);
+  } catch (error) {
+    throw new Error(
+      `Failed to send pledge reminder email: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+};
+
+// Send the end-of-financial-year donation statement
+export const sendTaxStatementEmail = async (data: {
+  to: string;
+  donorName: string;
+  financialYearLabel: string;
+  statementUrl: string;
+  totals: { currency: string; totalAmount: number }[];
+}): Promise<void> => {
+  try {
+    const transporter = createTransporter();
+
+    const totalLines = data.totals
+      .map(
+        (total) =>
+          `<p class="amount">${new Intl.NumberFormat('en-AU', {
+            style: 'currency',
+            currency: total.currency,
+          }).format(total.totalAmount)}</p>`
+      )
+      .join('');
+
+    const emailHTML = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+          <meta charset="UTF-8">
+          <title>Your ${data.financialYearLabel} Donation Statement</title>
+          <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .header { text-align: center; background-color: #2c5530; color: white; padding: 30px; border-radius: 8px; }
+              .content { padding: 30px 0; }
+              .amount { font-size: 24px; font-weight: bold; color: #2c5530; margin: 5px 0; }
+              .button { display: inline-block; background-color: #2c5530; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; }
+          </style>
+      </head>
+      <body>
+          <div class="container">
+              <div class="header">
+                  <h1>🌙 Your ${data.financialYearLabel} Donation Statement</h1>
+              </div>
+              <div class="content">
+                  <h2>Dear ${escapeHtml(data.donorName)},</h2>
+                  <p>Thank you for your generosity this financial year. Your tax-deductible gifts came to:</p>
+                  ${totalLines}
+                  <p>Your statement lists every organization you supported with its ABN and DGR status, in one document for your tax return.</p>
+                  <p><a class="button" href="${data.statementUrl}">Download Statement</a></p>
+                  <p>Jazakallahu khairan,<br>The Crescent Change Team</p>
+              </div>
+          </div>
+      </body>
+      </html>
+    `;
+
+    const mailOptions = {
+      from: `"Crescent Change" <${config.email.nodemailerEmail}>`,
+      to: data.to,
+      subject: `Your ${data.financialYearLabel} tax-deductible donation statement`,
+      html: emailHTML,
+    };
+
+    await transporter.sendMail(mailOptions);
+  } catch (error) {
+    throw new Error(
+      `Failed to send tax statement email: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+};
+
+// Tell a donor their recurring donation could not be charged
+export const sendRecurringPaymentFailedEmail = async (data: {
+  to: string;
+  donorName: string;
+  organizationName: string;
+  amount: number;
+  currency: string;
+  attemptNumber: number;
+  totalAttempts: number;
+  nextRetryDate?: Date;
+  isPaused: boolean;
+  updatePaymentUrl: string;
+}): Promise<void> => {
+  try {
+    const transporter = createTransporter();
+
+    const formattedAmount = new Intl.NumberFormat('en-AU', {
+      style: 'currency',
+      currency: data.currency,
+    }).format(data.amount);
+    const organizationName = escapeHtml(data.organizationName);
+
+    const nextStep = data.isPaused
+      ? `We tried ${data.totalAttempts} times without success, so your recurring donation has been <strong>paused</strong>. Update your card and resume it from the app whenever you're ready.`
+      : `We'll try again on <strong>${data.nextRetryDate?.toLocaleDateString(
+          'en-AU',
+          { year: 'numeric', month: 'long', day: 'numeric' }
+        )}</strong> (attempt ${data.attemptNumber + 1} of ${data.totalAttempts}). If your card has expired or changed, please update it before then.`;
+
+    const emailHTML = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+          <meta charset="UTF-8">
+          <title>Recurring Donation Payment Failed</title>
+          <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .header { text-align: center; background-color: #2c5530; color: white; padding: 30px; border-radius: 8px; }
+              .content { padding: 30px 0; }
+              .amount { font-size: 24px; font-weight: bold; color: #2c5530; }
+              .button { display: inline-block; background-color: #2c5530; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; }
+          </style>
+      </head>
+      <body>
+          <div class="container">
+              <div class="header">
+                  <h1>🌙 ${data.isPaused ? 'Your Recurring Donation Is Paused' : "We Couldn't Process Your Donation"}</h1>
+              </div>
+              <div class="content">
+                  <h2>Dear ${escapeHtml(data.donorName)},</h2>
+                  <p>Your recurring donation to ${organizationName} could not be charged:</p>
+                  <p class="amount">${formattedAmount}</p>
+                  <p>${nextStep}</p>
+                  <p><a class="button" href="${data.updatePaymentUrl}">Update Payment Method</a></p>
+                  <p>Jazakallahu khairan,<br>The Crescent Change Team</p>
+              </div>
+          </div>
+      </body>
+      </html>
+    `;
+
+    const mailOptions = {
+      from: `"Crescent Change" <${config.email.nodemailerEmail}>`,
+      to: data.to,
+      subject: data.isPaused
+        ? `Your recurring donation to ${data.organizationName} has been paused`
+        : `Action needed: your donation to ${data.organizationName} didn't go through`,
+      html: emailHTML,
+    };
+
+    await transporter.sendMail(mailOptions);
+  } catch (error) {
+    throw new Error(
+      `Failed to send recurring payment failed email: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+};
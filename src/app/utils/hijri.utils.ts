@@ -0,0 +1,110 @@
+// Hijri (Umm al-Qura) calendar helpers built on the runtime's ICU data
+
+export interface IHijriDate {
+  day: number;
+  month: number; // 1 = Muharram ... 12 = Dhu al-Hijjah
+  year: number;
+}
+
+export const HIJRI_MONTH_NAMES = [
+  'Muharram',
+  'Safar',
+  "Rabi' al-Awwal",
+  "Rabi' al-Thani",
+  'Jumada al-Awwal',
+  'Jumada al-Thani',
+  'Rajab',
+  "Sha'ban",
+  'Ramadan',
+  'Shawwal',
+  "Dhu al-Qi'dah",
+  'Dhu al-Hijjah',
+] as const;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const HIJRI_YEAR_DAYS = 354.367;
+const HIJRI_MONTH_DAYS = 29.5306;
+
+const hijriFormatter = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', {
+  day: 'numeric',
+  month: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC',
+});
+
+const startOfUtcDay = (date: Date) =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+
+const addUtcDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * MS_PER_DAY);
+
+// Monotonic ordinal so two Hijri dates can be compared directly
+const hijriOrdinal = ({ day, month, year }: IHijriDate) =>
+  year * 400 + month * 32 + day;
+
+/**
+ * Converts a Gregorian date (UTC day) into its Hijri day, month and year.
+ */
+export const toHijriDate = (date: Date): IHijriDate => {
+  const parts = hijriFormatter.formatToParts(date);
+  const valueOf = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    day: valueOf('day'),
+    month: valueOf('month'),
+    year: valueOf('year'),
+  };
+};
+
+/**
+ * Converts a Hijri date into a Gregorian date (UTC midnight).
+ *
+ * Day 30 of a 29-day month resolves to the last day of that month.
+ */
+export const hijriToGregorian = (target: IHijriDate): Date => {
+  const today = startOfUtcDay(new Date());
+  const reference = toHijriDate(today);
+
+  // Estimate from today's Hijri date, then walk to the exact day
+  let guess = addUtcDays(
+    today,
+    Math.round(
+      (target.year - reference.year) * HIJRI_YEAR_DAYS +
+        (target.month - reference.month) * HIJRI_MONTH_DAYS +
+        (target.day - reference.day)
+    )
+  );
+
+  const targetOrdinal = hijriOrdinal(target);
+  while (hijriOrdinal(toHijriDate(guess)) > targetOrdinal) {
+    guess = addUtcDays(guess, -1);
+  }
+  while (hijriOrdinal(toHijriDate(addUtcDays(guess, 1))) <= targetOrdinal) {
+    guess = addUtcDays(guess, 1);
+  }
+
+  return guess;
+};
+
+/**
+ * Next Gregorian date (on or after `from`) falling on the given Hijri
+ * day and month, e.g. a donor's yearly zakat anniversary.
+ */
+export const getNextHijriAnniversary = (
+  anniversary: Pick<IHijriDate, 'day' | 'month'>,
+  from: Date = new Date()
+): Date => {
+  const fromDay = startOfUtcDay(from);
+  const { year } = toHijriDate(fromDay);
+
+  const thisYear = hijriToGregorian({ ...anniversary, year });
+  if (thisYear >= fromDay) return thisYear;
+
+  return hijriToGregorian({ ...anniversary, year: year + 1 });
+};
+
+export const formatHijriDate = ({ day, month, year }: IHijriDate) =>
+  `${day} ${HIJRI_MONTH_NAMES[month - 1]} ${year} AH`;
@@ -0,0 +1,137 @@
+// Profanity / abuse screening for public donor messages
+
+export interface IMessageScreenResult {
+  isFlagged: boolean;
+  reasons: string[]; // Matched terms and rule names, for moderators only
+}
+
+// Single words, compared against whole words after normalization
+const BLOCKED_WORDS = [
+  'arse',
+  'arsehole',
+  'ass',
+  'asshole',
+  'bastard',
+  'bitch',
+  'bollocks',
+  'bullshit',
+  'cock',
+  'crap',
+  'cunt',
+  'dick',
+  'dickhead',
+  'douche',
+  'fag',
+  'faggot',
+  'fuck',
+  'fucker',
+  'fucking',
+  'motherfucker',
+  'nigga',
+  'nigger',
+  'piss',
+  'prick',
+  'pussy',
+  'retard',
+  'scam',
+  'scammer',
+  'scammers',
+  'shit',
+  'slut',
+  'twat',
+  'wanker',
+  'whore',
+];
+
+// Abusive phrases, compared against the normalized message
+const BLOCKED_PHRASES = [
+  'kill yourself',
+  'kill urself',
+  'go to hell',
+  'burn in hell',
+  'die in a fire',
+  'hope you die',
+];
+
+// Leetspeak and look-alike characters
+const CHARACTER_MAP: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  $: 's',
+  '!': 'i',
+};
+
+const LINK_PATTERN =
+  /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|io|ru|xyz)\b/i;
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[a-z]{2,}/i;
+const PHONE_PATTERN = /(\+?\d[\d\s-]{8,}\d)/;
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[013457@$!]/g, (char) => CHARACTER_MAP[char] || char)
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const BLOCKED_WORD_SET = new Set(BLOCKED_WORDS);
+
+// Stretched spelling: "fuuuuck" -> "fuck", "bulllshit" -> "bullshit"
+const matchBlockedWord = (word: string) => {
+  if (BLOCKED_WORD_SET.has(word)) return word;
+  if (!/(.)\1\1/.test(word)) return null;
+
+  const single = word.replace(/(.)\1+/g, '$1');
+  if (BLOCKED_WORD_SET.has(single)) return single;
+  const double = word.replace(/(.)\1+/g, '$1$1');
+  if (BLOCKED_WORD_SET.has(double)) return double;
+  return null;
+};
+
+/**
+ * Screen a donor message before it can appear publicly. Flagged messages
+ * are held for the organization to review instead of being rejected.
+ */
+export const screenMessage = (text?: string | null): IMessageScreenResult => {
+  if (!text?.trim()) return { isFlagged: false, reasons: [] };
+
+  const reasons = new Set<string>();
+
+  // Contact details and links are checked on the raw text
+  if (EMAIL_PATTERN.test(text)) reasons.add('email_address');
+  else if (LINK_PATTERN.test(text)) reasons.add('link');
+  if (PHONE_PATTERN.test(text)) reasons.add('phone_number');
+
+  const normalized = normalize(text);
+
+  // Spaced-out spelling ("f u c k") is checked alongside the original words
+  const joined = normalized.replace(/\b(\w) (?=\w\b)/g, '$1');
+  const words = new Set([...normalized.split(' '), ...joined.split(' ')]);
+
+  for (const word of words) {
+    const match = matchBlockedWord(word);
+    if (match) reasons.add(match);
+  }
+
+  for (const phrase of BLOCKED_PHRASES) {
+    if (` ${normalized} `.includes(` ${phrase} `)) reasons.add(phrase);
+  }
+
+  // Shouting: long messages written almost entirely in capitals
+  const letters = text.replace(/[^A-Za-z]/g, '');
+  if (
+    letters.length >= 20 &&
+    letters.replace(/[^A-Z]/g, '').length / letters.length > 0.8
+  ) {
+    reasons.add('all_caps');
+  }
+
+  return { isFlagged: reasons.size > 0, reasons: [...reasons] };
+};
@@ -1,5 +1,8 @@
 import PDFDocument from 'pdfkit';
 import { IReceiptPDFData } from '../modules/Receipt/receipt.interface';
+import { TRIBUTE_TYPE_LABEL } from '../modules/Donation/donation.constant';
+import { STANDARD_FEE_SCHEDULE_NAME } from '../modules/FeeSchedule/feeSchedule.constant';
+import { ITaxStatementPDFData } from '../modules/TaxStatement/taxStatement.interface';
 
 /**
  * Generates a PDF Receipt Buffer with Australian Fee Breakdown
@@ -34,6 +37,10 @@ export const generateReceiptPDF = (data: IReceiptPDFData): Promise<Buffer> => {
       .text(`Payment Method: ${data.paymentMethod || 'Card'}`, 50, 130)
       .moveDown();
 
+    if (data.replacesReceiptNumber) {
+      doc.text(`Replaces Receipt: ${data.replacesReceiptNumber}`, 50, 145);
+    }
+
     // --- DONOR & ORGANIZATION ---
     const startY = 160;
 
@@ -55,10 +62,32 @@ export const generateReceiptPDF = (data: IReceiptPDFData): Promise<Buffer> => {
       doc.text(`ABN: ${data.abnNumber}`, 300, startY + 45);
     }
 
+    // --- TRIBUTE ---
+    if (data.tribute?.honoreeName) {
+      doc
+        .font('Helvetica-Oblique')
+        .text(
+          `${TRIBUTE_TYPE_LABEL[data.tribute.tributeType]} ${data.tribute.honoreeName}`,
+          50,
+          startY + 70
+        )
+        .font('Helvetica');
+    }
+
     // --- FINANCIAL TABLE ---
     let tableTop = 260;
     const currencySymbol = data.currency.toUpperCase() === 'USD' ? '$' : 'A$';
 
+    // Labels follow the fee schedule the donation was priced with
+    const feeScheduleName =
+      data.feeSchedule && data.feeSchedule.name !== STANDARD_FEE_SCHEDULE_NAME
+        ? ` - ${data.feeSchedule.name}`
+        : '';
+    const platformFeeLabel = `Platform & Service Fee${feeScheduleName}`;
+    const gstLabel = `GST (${Number(
+      ((data.feeSchedule?.gstPercentage ?? 0.1) * 100).toFixed(2)
+    )}% on Platform Fees)`;
+
     doc.font('Helvetica-Bold');
     generateTableRow(doc, tableTop, 'Description', 'Amount');
     generateHr(doc, tableTop + 20);
@@ -80,7 +109,7 @@ export const generateReceiptPDF = (data: IReceiptPDFData): Promise<Buffer> => {
         generateTableRow(
           doc,
           tableTop,
-          'Platform & Service Fee',
+          platformFeeLabel,
           formatCurrency(data.platformFee, currencySymbol)
         );
       }
@@ -98,7 +127,7 @@ export const generateReceiptPDF = (data: IReceiptPDFData): Promise<Buffer> => {
         generateTableRow(
           doc,
           tableTop,
-          'GST (10% on Platform Fees)',
+          gstLabel,
           formatCurrency(data.gstOnFee, currencySymbol)
         );
       }
@@ -109,7 +138,7 @@ export const generateReceiptPDF = (data: IReceiptPDFData): Promise<Buffer> => {
         generateTableRow(
           doc,
           tableTop,
-          'Platform & Service Fee (Deducted)',
+          `${platformFeeLabel} (Deducted)`,
           `-${formatCurrency(data.platformFee, currencySymbol)}`
         );
       }
@@ -127,7 +156,7 @@ export const generateReceiptPDF = (data: IReceiptPDFData): Promise<Buffer> => {
         generateTableRow(
           doc,
           tableTop,
-          'GST (10% on Platform Fees) (Deducted)',
+          `${gstLabel} (Deducted)`,
           `-${formatCurrency(data.gstOnFee, currencySymbol)}`
         );
       }
@@ -159,6 +188,32 @@ export const generateReceiptPDF = (data: IReceiptPDFData): Promise<Buffer> => {
     );
     doc.fillColor('#444444').font('Helvetica'); // Reset style
 
+    // --- MATCHED GIFT ---
+    if (data.matchedAmount && data.matchedAmount > 0) {
+      tableTop += 25;
+      doc.font('Helvetica-Oblique');
+      generateTableRow(
+        doc,
+        tableTop,
+        `Your gift was matched by ${data.matchedBy || 'a sponsor'}`,
+        formatCurrency(data.matchedAmount, currencySymbol)
+      );
+      doc.font('Helvetica');
+    }
+
+    // --- PARTIAL REFUND ---
+    if (data.refundedAmount && data.refundedAmount > 0) {
+      tableTop += 25;
+      doc.font('Helvetica-Oblique');
+      generateTableRow(
+        doc,
+        tableTop,
+        'Adjusted for a partial refund of',
+        formatCurrency(data.refundedAmount, currencySymbol)
+      );
+      doc.font('Helvetica');
+    }
+
     // --- FOOTER ---
     const footerTop = 520; // Adjusted slightly down
 
@@ -187,6 +242,145 @@ export const generateReceiptPDF = (data: IReceiptPDFData): Promise<Buffer> => {
   });
 };
 
+/**
+ * Generates the end-of-financial-year statement: every deductible gift in
+ * the income year, totalled per organization
+ */
+export const generateTaxStatementPDF = (
+  data: ITaxStatementPDFData
+): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const buffers: Buffer[] = [];
+
+    doc.on('data', (chunk) => buffers.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', (err) => reject(err));
+
+    const formatDate = (date: Date) =>
+      new Date(date).toLocaleDateString('en-AU', {
+        timeZone: 'Australia/Sydney',
+      });
+
+    // --- HEADER ---
+    doc
+      .fillColor('#444444')
+      .fontSize(18)
+      .text('ANNUAL DONATION STATEMENT', 50, 57)
+      .fontSize(10)
+      .text('Crescent Change Platform', 200, 62, { align: 'right' });
+
+    doc
+      .fontSize(10)
+      .text(`Statement Number: ${data.statementNumber}`, 50, 100)
+      .text(`Financial Year: ${data.financialYearLabel}`, 50, 115)
+      .text(
+        `Period: ${formatDate(data.periodStart)} - ${formatDate(data.periodEnd)}`,
+        50,
+        130
+      )
+      .text(`Issued: ${formatDate(data.generatedAt)}`, 50, 145);
+
+    if (data.isPartial) {
+      doc
+        .font('Helvetica-Oblique')
+        .text('Year to date - the financial year has not ended yet.', 50, 160)
+        .font('Helvetica');
+    }
+
+    // --- DONOR ---
+    doc
+      .text('ISSUED TO:', 300, 100, { underline: true })
+      .font('Helvetica-Bold')
+      .text(data.donorName, 300, 115)
+      .font('Helvetica')
+      .text(data.donorEmail, 300, 130);
+
+    // --- ORGANIZATIONS TABLE ---
+    let tableTop = 200;
+
+    const printHeader = () => {
+      doc.font('Helvetica-Bold').fontSize(10);
+      doc
+        .text('Organization', 50, tableTop)
+        .text('ABN', 250, tableTop)
+        .text('DGR', 350, tableTop)
+        .text('Gifts', 400, tableTop)
+        .text('Amount', 0, tableTop, { align: 'right', width: 540 });
+      generateHr(doc, tableTop + 15);
+      doc.font('Helvetica');
+      tableTop += 25;
+    };
+
+    printHeader();
+
+    for (const row of data.organizations) {
+      if (tableTop > 740) {
+        doc.addPage();
+        tableTop = 50;
+        printHeader();
+      }
+
+      doc
+        .fontSize(10)
+        .text(row.organizationName, 50, tableTop, { width: 190 })
+        .text(row.abnNumber || '-', 250, tableTop)
+        .text(row.isDgr ? 'Yes' : 'No', 350, tableTop)
+        .text(String(row.donationCount), 400, tableTop)
+        .text(
+          formatCurrency(row.totalAmount, currencySymbolFor(row.currency)),
+          0,
+          tableTop,
+          { align: 'right', width: 540 }
+        );
+      tableTop += 25;
+    }
+
+    // --- TOTALS ---
+    if (tableTop > 700) {
+      doc.addPage();
+      tableTop = 50;
+    }
+    generateHr(doc, tableTop);
+    tableTop += 10;
+    doc.font('Helvetica-Bold');
+    for (const total of data.totals) {
+      generateTableRow(
+        doc,
+        tableTop,
+        data.totals.length > 1
+          ? `TOTAL DEDUCTIBLE GIFTS (${total.currency})`
+          : 'TOTAL DEDUCTIBLE GIFTS',
+        formatCurrency(total.totalAmount, currencySymbolFor(total.currency))
+      );
+      tableTop += 20;
+    }
+    doc.font('Helvetica');
+
+    // --- FOOTER ---
+    doc
+      .fontSize(9)
+      .text(
+        'Only gifts of $2 or more to deductible gift recipients (DGR) are included. Platform and transaction fees are not deductible. Keep this statement with your tax records.',
+        50,
+        tableTop + 20,
+        { align: 'center', width: 500 }
+      );
+
+    doc
+      .fontSize(8)
+      .fillColor('#888888')
+      .text(
+        'This statement is generated electronically by Crescent Change. For support, contact support@crescentchange.com',
+        50,
+        doc.y + 15,
+        { align: 'center', width: 500 }
+      );
+
+    doc.end();
+  });
+};
+
 // --- HELPER FUNCTIONS ---
 
 function generateTableRow(
@@ -205,6 +399,13 @@ function generateHr(doc: PDFKit.PDFDocument, y: number) {
   doc.strokeColor('#aaaaaa').lineWidth(1).moveTo(50, y).lineTo(550, y).stroke();
 }
 
+function currencySymbolFor(currency: string) {
+  const code = currency.toUpperCase();
+  if (code === 'USD') return '$';
+  if (code === 'AUD') return 'A$';
+  return `${code} `;
+}
+
 function formatCurrency(amount: number, symbol: string) {
   return `${symbol}${Math.max(0, amount).toFixed(2)}`;
 }